@@ -0,0 +1,100 @@
+/**
+ * API Route: /api/admin/embeddings
+ * GET: Embedding queue status (jobs per status, messages without embeddings)
+ *      and embedding cache totals (entries and hits, for cost monitoring)
+ * POST: Process due embedding jobs - call from a scheduler (e.g. every 5 minutes)
+ *       so retries run even when no one is submitting. Reports this run's
+ *       cache hits and misses (misses are provider calls)
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_TOKEN>`
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedAdmin } from '@/lib/admin-auth';
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin';
+import { loadEmbeddingJobsConfig } from '@/lib/config/embedding-jobs-config';
+import { EmbeddingWorker, createEmbeddingJobStore } from '@/lib/services/embedding-jobs';
+import {
+  CachedEmbeddingProvider,
+  createCachedEmbeddingProvider,
+  createEmbeddingCache
+} from '@/lib/services/embedding-cache';
+
+const DEFAULT_BATCHES = 5;
+const MAX_BATCHES = 50;
+
+function authorize(request: NextRequest): NextResponse | null {
+  if (!isAuthorizedAdmin(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!hasAdminCredentials()) {
+    return NextResponse.json(
+      { error: 'Embedding jobs are not configured' },
+      { status: 503 }
+    );
+  }
+
+  return null;
+}
+
+export async function GET(request: NextRequest) {
+  const denied = authorize(request);
+  if (denied) return denied;
+
+  try {
+    const supabase = createAdminClient();
+    const jobs = await createEmbeddingJobStore(supabase).counts();
+    const cache = await createEmbeddingCache(supabase)?.summary() ?? null;
+
+    const { count, error } = await supabase
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .is('semantic_data', null)
+      .is('deleted_at', null);
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ jobs, unembedded: count ?? 0, cache });
+
+  } catch (error) {
+    console.error('Admin API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = authorize(request);
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const batches = Math.min(
+      MAX_BATCHES,
+      Math.max(1, parseInt(searchParams.get('batches') || `${DEFAULT_BATCHES}`, 10) || DEFAULT_BATCHES)
+    );
+
+    const config = loadEmbeddingJobsConfig();
+    const supabase = createAdminClient();
+    const store = createEmbeddingJobStore(supabase, config);
+    const provider = createCachedEmbeddingProvider(supabase);
+
+    const report = await new EmbeddingWorker(supabase, store, config, { provider }).runUntilIdle({ maxBatches: batches });
+    const jobs = await store.counts();
+    const cache = provider instanceof CachedEmbeddingProvider ? provider.stats() : null;
+
+    return NextResponse.json({ report, jobs, cache });
+
+  } catch (error) {
+    console.error('Admin API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
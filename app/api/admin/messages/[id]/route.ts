@@ -0,0 +1,148 @@
+/**
+ * API Route: /api/admin/messages/:id
+ * Moderate a single message
+ *
+ * GET    - Fetch message in any moderation state
+ * PATCH  - Apply action: { action: 'approve' | 'reject' | 'delete' | 'restore' | 'note', note?: string }
+ * DELETE - Soft-delete (same as PATCH { action: 'delete' })
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_TOKEN>`
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedAdmin } from '@/lib/admin-auth';
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin';
+import {
+  ModerationService,
+  MODERATION_ACTIONS,
+  type ModerationAction,
+} from '@/lib/services/moderation-service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Shared guard: auth, configuration and ID format
+ * Returns an error response, or null if the request may proceed.
+ */
+function guard(request: NextRequest, id: string): NextResponse | null {
+  if (!isAuthorizedAdmin(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!hasAdminCredentials()) {
+    return NextResponse.json(
+      { error: 'Moderation is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!/^\d+$/.test(id)) {
+    return NextResponse.json(
+      { error: 'Message ID must be numeric' },
+      { status: 400 }
+    );
+  }
+
+  return null;
+}
+
+async function moderate(
+  id: string,
+  action: ModerationAction,
+  note?: string
+): Promise<NextResponse> {
+  const moderation = new ModerationService(createAdminClient());
+  const message = await moderation.applyAction(id, action, note);
+
+  if (!message) {
+    return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+  }
+
+  console.log(`[MODERATION] ${action} message ${id}`);
+
+  return NextResponse.json({ success: true, message });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const rejected = guard(request, id);
+  if (rejected) return rejected;
+
+  try {
+    const moderation = new ModerationService(createAdminClient());
+    const message = await moderation.getMessage(id);
+
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message });
+
+  } catch (error) {
+    console.error('Admin API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const rejected = guard(request, id);
+  if (rejected) return rejected;
+
+  try {
+    const body = await request.json();
+    const { action, note } = body;
+
+    if (!MODERATION_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of ${MODERATION_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (note !== undefined && typeof note !== 'string') {
+      return NextResponse.json(
+        { error: 'note must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'note' && !note?.trim()) {
+      return NextResponse.json(
+        { error: 'note is required for the note action' },
+        { status: 400 }
+      );
+    }
+
+    return await moderate(id, action, note);
+
+  } catch (error) {
+    console.error('Admin API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const rejected = guard(request, id);
+  if (rejected) return rejected;
+
+  try {
+    return await moderate(id, 'delete');
+
+  } catch (error) {
+    console.error('Admin API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * API Route: GET /api/admin/messages
+ * List messages in a moderation queue (pending, flagged, removed)
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_TOKEN>`
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedAdmin } from '@/lib/admin-auth';
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin';
+import {
+  ModerationService,
+  MODERATION_QUEUES,
+  type ModerationQueue,
+} from '@/lib/services/moderation-service';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedAdmin(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!hasAdminCredentials()) {
+    return NextResponse.json(
+      { error: 'Moderation is not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const queue = (searchParams.get('queue') || 'pending') as ModerationQueue;
+    if (!MODERATION_QUEUES.includes(queue)) {
+      return NextResponse.json(
+        { error: `queue must be one of ${MODERATION_QUEUES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(
+      MAX_LIMIT,
+      Math.max(1, parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`, 10) || DEFAULT_LIMIT)
+    );
+
+    const beforeParam = searchParams.get('before');
+    const before = beforeParam ? parseInt(beforeParam, 10) : undefined;
+    if (before !== undefined && isNaN(before)) {
+      return NextResponse.json(
+        { error: 'before must be a message ID' },
+        { status: 400 }
+      );
+    }
+
+    const moderation = new ModerationService(createAdminClient());
+    const messages = await moderation.listQueue({ queue, limit, before });
+
+    return NextResponse.json({
+      queue,
+      messages,
+      nextBefore: messages.length === limit ? messages[messages.length - 1].id : null,
+    });
+
+  } catch (error) {
+    console.error('Admin API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
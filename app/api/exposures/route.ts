@@ -0,0 +1,84 @@
+/**
+ * API Route: /api/exposures
+ * POST: Add one screen's exposure counts to message_exposures
+ *
+ * record_exposures() is for the service role only, so screens record
+ * here (ApiExposureStore). Each call carries at most
+ * MAX_EXPOSURES_PER_RECORD messages, and calls are limited per screen
+ * and per IP. A screen flushes once per cluster and keeps refused counts
+ * for its next flush, so the limits leave room for several screens on
+ * one network.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin';
+import { MemoryRateLimiter, rateLimitHeaders } from '@/lib/services/rate-limiter';
+import { hashIdentifier } from '@/lib/services/submission-service';
+import { parseExposures, PostgresExposureStore } from '@/lib/services/exposure-ledger';
+
+// Per server instance: each call is also capped in SQL, so an instance
+// restart costs at most one window's worth of extra calls
+const limiter = new MemoryRateLimiter({
+  backend: 'memory',
+  windowMs: 60 * 1000,
+  maxPerSession: 20,
+  maxPerIp: 120
+});
+
+export async function POST(request: NextRequest) {
+  if (!hasAdminCredentials()) {
+    return NextResponse.json(
+      { error: 'Exposure recording is not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const sessionId = body?.sessionId;
+
+    if (!sessionId || typeof sessionId !== 'string' || sessionId.length > 255) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const exposures = parseExposures(body.exposures);
+    if (!exposures) {
+      return NextResponse.json(
+        { error: 'Invalid exposures' },
+        { status: 400 }
+      );
+    }
+
+    const ip =
+      request.headers.get('x-forwarded-for')?.split(',')[0] ||
+      request.headers.get('x-real-ip') ||
+      'unknown';
+    const keys = { sessionId, ipHash: ip === 'unknown' ? null : hashIdentifier(ip) };
+
+    const rateLimit = await limiter.check(keys);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+    await limiter.record(keys);
+
+    await new PostgresExposureStore(createAdminClient()).record(exposures);
+
+    return NextResponse.json(
+      { success: true, recorded: exposures.length },
+      { headers: rateLimitHeaders(rateLimit) }
+    );
+
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * API Route: GET /api/messages/:id/kindred
+ * Approved messages across the whole archive most similar to one message
+ *
+ * Scored in Postgres by kindred_messages() (migration 013) from stored
+ * unit-length embeddings; answers 503 until that migration is applied.
+ * Every search scores the whole archive, so answers may be cached for a
+ * few minutes and each IP is limited to KINDRED_MAX_PER_MINUTE searches.
+ *
+ * Query: k (default 12, max 50) plus the GET /api/messages filters
+ * (since, until, source, hasEmbedding).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { parseSemanticData } from '@/lib/embeddings/semantic-data';
+import { MemoryRateLimiter, rateLimitHeaders } from '@/lib/services/rate-limiter';
+import { hashIdentifier } from '@/lib/services/submission-service';
+import {
+  applyMessageFilters,
+  isMessageId,
+  parseKindredQuery,
+} from '@/lib/utils/message-query';
+import type { KindredMessage, KindredMessagesResponse } from '@/types/database';
+
+// PostgREST: function not found (migration 013 not applied)
+const UNDEFINED_FUNCTION = 'PGRST202';
+
+const KINDRED_MAX_PER_MINUTE = 30;
+
+// A new message changes a search's answer only slightly
+const CACHE_CONTROL = 'public, s-maxage=300, stale-while-revalidate=600';
+
+// Per server instance, keyed by IP hash (requests without an IP are not limited)
+const limiter = new MemoryRateLimiter({
+  backend: 'memory',
+  windowMs: 60 * 1000,
+  maxPerSession: KINDRED_MAX_PER_MINUTE,
+  maxPerIp: KINDRED_MAX_PER_MINUTE
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!isMessageId(id)) {
+      return NextResponse.json(
+        { error: 'Message ID must be numeric' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsed = parseKindredQuery(searchParams);
+
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const ip =
+      request.headers.get('x-forwarded-for')?.split(',')[0] ||
+      request.headers.get('x-real-ip') ||
+      'unknown';
+
+    if (ip !== 'unknown') {
+      const keys = { sessionId: hashIdentifier(ip), ipHash: null };
+      const rateLimit = await limiter.check(keys);
+      if (!rateLimit.allowed) {
+        return NextResponse.json(
+          { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+          { status: 429, headers: rateLimitHeaders(rateLimit) }
+        );
+      }
+      await limiter.record(keys);
+    }
+
+    const { k, hasEmbedding } = parsed.value;
+    const supabase = await createClient();
+
+    // Held and deleted messages are not found, the same as in the list
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('id, semantic_data')
+      .eq('id', id)
+      .eq('approved', true)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (messageError) {
+      console.error('Supabase error:', messageError);
+      return NextResponse.json(
+        { error: 'Failed to fetch message' },
+        { status: 500 }
+      );
+    }
+
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    const response: KindredMessagesResponse = {
+      messageId: id,
+      messages: [],
+      k,
+      embedded: parseSemanticData(message.semantic_data) !== null
+    };
+
+    // Kindred messages always have embeddings, so hasEmbedding=false matches none
+    if (!response.embedded || hasEmbedding === false) {
+      return NextResponse.json(response, { headers: { 'Cache-Control': CACHE_CONTROL } });
+    }
+
+    const { data, error } = await applyMessageFilters(
+      supabase.rpc('kindred_messages', { p_message_id: id }),
+      { ...parsed.value, hasEmbedding: null }
+    )
+      .order('similarity', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(k);
+
+    if (error) {
+      if (error.code === UNDEFINED_FUNCTION) {
+        return NextResponse.json(
+          { error: 'Kindred search is not configured' },
+          { status: 503 }
+        );
+      }
+
+      console.error('Supabase error:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch kindred messages' },
+        { status: 500 }
+      );
+    }
+
+    // Rows are id, content, created_at, source and similarity
+    const messages: KindredMessage[] = data || [];
+    response.messages = messages;
+
+    return NextResponse.json(response, { headers: { 'Cache-Control': CACHE_CONTROL } });
+
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,24 @@
 /**
- * API Route: POST /api/messages
- * Submit a new grief message to the database
+ * API Route: /api/messages
+ * POST: Submit a new grief message to the database
+ * GET: Page through approved messages with id cursors
  */
 
 import { createClient } from '@/lib/supabase/server';
-import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import { getSemanticEmbedding } from '@/lib/semantic-encoding';
-
-// Rate limiting: max 3 submissions per session per hour
-const RATE_LIMIT = 3;
-const RATE_LIMIT_WINDOW = 60 * 60 * 1000; // 1 hour in milliseconds
-
-// In-memory rate limit tracking (will reset on server restart)
-// For production, consider Redis or Upstash
-const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { rateLimitHeaders } from '@/lib/services/rate-limiter';
+import {
+  createSubmissionService,
+  hashIdentifier,
+  isValidIdempotencyKey,
+} from '@/lib/services/submission-service';
+import {
+  applyMessageFilters,
+  parseMessageListQuery,
+  toMessagePage,
+} from '@/lib/utils/message-query';
+import type { MessagesListResponse } from '@/types/database';
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,14 +26,6 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { content, sessionId } = body;
 
-    // Validation
-    if (!content || typeof content !== 'string') {
-      return NextResponse.json(
-        { error: 'Content is required' },
-        { status: 400 }
-      );
-    }
-
     if (!sessionId || typeof sessionId !== 'string') {
       return NextResponse.json(
         { error: 'Session ID is required' },
@@ -37,43 +33,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Trim and validate content length
-    const trimmedContent = content.trim();
-    if (trimmedContent.length < 1 || trimmedContent.length > 280) {
+    // Retries with the same key return the original message
+    const idempotencyKey = request.headers.get('idempotency-key');
+    if (idempotencyKey !== null && !isValidIdempotencyKey(idempotencyKey)) {
       return NextResponse.json(
-        { error: 'Content must be between 1 and 280 characters' },
+        { error: 'Idempotency-Key must be 1-255 printable ASCII characters' },
         { status: 400 }
       );
     }
 
-    // Rate limiting check
-    const now = Date.now();
-    const rateLimitKey = sessionId;
-    const rateLimitData = rateLimitStore.get(rateLimitKey);
-
-    if (rateLimitData) {
-      // Check if we're still in the rate limit window
-      if (now < rateLimitData.resetAt) {
-        if (rateLimitData.count >= RATE_LIMIT) {
-          return NextResponse.json(
-            { 
-              error: 'Rate limit exceeded. Please wait before submitting another message.',
-              retryAfter: Math.ceil((rateLimitData.resetAt - now) / 1000)
-            },
-            { status: 429 }
-          );
-        }
-        // Increment count
-        rateLimitData.count++;
-      } else {
-        // Window expired, reset
-        rateLimitStore.set(rateLimitKey, { count: 1, resetAt: now + RATE_LIMIT_WINDOW });
-      }
-    } else {
-      // First submission for this session
-      rateLimitStore.set(rateLimitKey, { count: 1, resetAt: now + RATE_LIMIT_WINDOW });
-    }
-
     // Get IP address for hashing
     const ip = 
       request.headers.get('x-forwarded-for')?.split(',')[0] ||
@@ -81,57 +49,73 @@ export async function POST(request: NextRequest) {
       'unknown';
 
     // Create IP hash (SHA-256 with salt)
-    const ipSalt = process.env.IP_SALT || 'default-salt-change-in-production';
-    const ipHash = crypto
-      .createHash('sha256')
-      .update(`${ip}:${ipSalt}`)
-      .digest('hex');
-
-    // Generate semantic embedding
-    console.log(`Generating embedding for: "${trimmedContent.substring(0, 50)}..."`)
-    const embedding = await getSemanticEmbedding(trimmedContent);
-
-    if (!embedding) {
-      console.warn('Failed to generate embedding, storing message without semantic data')
-    }
+    const ipHash = hashIdentifier(ip);
 
     // Create Supabase client
-    const supabase = await createClient();
-
-    // Insert message
-    const { data, error } = await supabase
-      .from('messages')
-      .insert({
-        content: trimmedContent,
-        session_id: sessionId,
-        ip_hash: ipHash,
-        source: 'web',
-        semantic_data: embedding ? {
-          embedding,
-          generated_at: new Date().toISOString()
-        } : null,
-        approved: true, // Public immediately for MVP
-      })
-      .select()
-      .single();
+    // Service role: held (unapproved) rows are invisible to anon under RLS.
+    // The anon client only serves RATE_LIMIT_BACKEND=memory; with the
+    // postgres backend, createSubmissionService refuses it.
+    const supabase = hasAdminCredentials() ? createAdminClient() : await createClient();
+
+    // Validation, screening, rate limiting, insert and embedding
+    // (shared with SMS, see lib/services/submission-service.ts).
+    // Queued embeddings are generated after the response is sent.
+    const submissions = createSubmissionService(supabase, { scheduleEmbeddingWork: after });
+    const result = await submissions.submit({
+      content,
+      rateLimitKeys: { sessionId, ipHash: ip === 'unknown' ? null : ipHash },
+      sessionId,
+      ipHash,
+      source: 'web',
+      idempotencyKey,
+    });
 
-    if (error) {
-      console.error('Supabase error:', error);
-      return NextResponse.json(
-        { error: 'Failed to save message' },
-        { status: 500 }
-      );
+    switch (result.status) {
+      case 'invalid':
+        return NextResponse.json({ error: result.error }, { status: 400 });
+
+      case 'rejected':
+        return NextResponse.json({ error: result.error }, { status: 422 });
+
+      case 'rate_limited':
+        return NextResponse.json(
+          {
+            error: 'Rate limit exceeded. Please wait before submitting another message.',
+            retryAfter: result.rateLimit.retryAfter
+          },
+          { status: 429, headers: rateLimitHeaders(result.rateLimit) }
+        );
+
+      case 'failed':
+        return NextResponse.json({ error: result.error }, { status: 500 });
+
+      case 'duplicate':
+        return NextResponse.json(
+          {
+            success: true,
+            // Absent when the original is held and this client cannot see it
+            message: result.message ?? undefined,
+            pending: result.pending,
+            replayed: true
+          },
+          {
+            status: 200,
+            headers: { 'Idempotent-Replayed': 'true' }
+          }
+        );
     }
 
-    console.log(`✅ Message ${data.id} stored ${embedding ? 'with' : 'without'} embedding`)
-
     // Return success
     return NextResponse.json(
       {
         success: true,
-        message: data
+        message: result.message,
+        pending: result.pending
       },
-      { status: 201 }
+      {
+        status: 201,
+        headers: rateLimitHeaders(result.rateLimit)
+      }
     );
 
   } catch (error) {
@@ -146,21 +130,37 @@ export async function POST(request: NextRequest) {
 // GET endpoint to fetch messages (for visualization)
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
-
-    // Get query parameters
+    // Parse cursor, page size and filters (see lib/utils/message-query.ts)
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '100');
-    const offset = parseInt(searchParams.get('offset') || '0');
+    const parsed = parseMessageListQuery(searchParams);
+
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
 
-    // Fetch approved, non-deleted messages
-    const { data, error, count } = await supabase
+    const { limit, direction, cursor } = parsed.value;
+    const ascending = direction === 'ASC';
+
+    const supabase = await createClient();
+
+    // Fetch approved, non-deleted messages in id order (cursor indexes)
+    let query = supabase
       .from('messages')
-      .select('id, content, created_at', { count: 'exact' })
+      .select('id, content, created_at, source')
       .eq('approved', true)
-      .is('deleted_at', null)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .is('deleted_at', null);
+
+    if (cursor) {
+      query = ascending ? query.gt('id', cursor) : query.lt('id', cursor);
+    }
+
+    // One extra row tells us whether another page exists
+    const { data, error } = await applyMessageFilters(query, parsed.value)
+      .order('id', { ascending })
+      .limit(limit + 1);
 
     if (error) {
       console.error('Supabase error:', error);
@@ -170,12 +170,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({
-      messages: data || [],
-      total: count || 0,
+    const page = toMessagePage(data || [], limit);
+
+    const response: MessagesListResponse = {
+      messages: page.messages,
+      nextCursor: page.nextCursor,
       limit,
-      offset
-    });
+      direction
+    };
+
+    return NextResponse.json(response);
 
   } catch (error) {
     console.error('API error:', error);
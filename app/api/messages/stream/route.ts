@@ -0,0 +1,166 @@
+/**
+ * API Route: GET /api/messages/stream
+ * Server-sent events for newly visible messages
+ *
+ * Pushed by the Postgres NOTIFY trigger (migration 006) through a shared
+ * LISTEN connection (lib/services/message-notifier.ts). Requires
+ * DATABASE_URL; answers 503 otherwise so clients fall back to polling.
+ *
+ * Resume point: `Last-Event-ID` header (browser reconnects) or `?after=<id>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getMessageNotifier } from '@/lib/services/message-notifier';
+import { toGriefMessage, type GriefMessage } from '@/types/grief-messages';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Comment line to keep proxies from closing idle connections
+const HEARTBEAT_INTERVAL = 25000;
+
+// Browser reconnect delay after a dropped connection
+const RECONNECT_DELAY = 2000;
+
+// Messages replayed on (re)connect; older gaps are left to the historical cursor
+const CATCH_UP_LIMIT = 50;
+
+/**
+ * Format one message as an SSE event. The id line is only sent when it
+ * advances, so Last-Event-ID never moves backwards (a moderator can
+ * approve a message with an older id).
+ */
+function formatMessageEvent(message: GriefMessage, includeId: boolean): string {
+  const idLine = includeId ? `id: ${message.id}\n` : '';
+  return `${idLine}data: ${JSON.stringify(message)}\n\n`;
+}
+
+export async function GET(request: NextRequest) {
+  const notifier = getMessageNotifier();
+
+  if (!notifier) {
+    return NextResponse.json(
+      { error: 'Message stream is not configured' },
+      { status: 503 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const resumeFrom = request.headers.get('last-event-id') || searchParams.get('after') || '0';
+
+  if (!/^\d{1,19}$/.test(resumeFrom)) {
+    return NextResponse.json(
+      { error: 'Invalid after: must be a message id' },
+      { status: 400 }
+    );
+  }
+
+  let lastSentId = parseInt(resumeFrom, 10);
+
+  // Subscribe before the catch-up query so nothing falls in between;
+  // messages arriving meanwhile are held until the stream is open
+  const pending: GriefMessage[] = [];
+  let deliver: (message: GriefMessage) => void = (message) => pending.push(message);
+
+  let unsubscribe: () => void;
+  try {
+    unsubscribe = await notifier.subscribe((message) => deliver(message));
+  } catch (error) {
+    console.error('Message stream unavailable:', error);
+    return NextResponse.json(
+      { error: 'Message stream unavailable' },
+      { status: 503 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (text: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          close();
+        }
+      };
+
+      const sendMessage = (message: GriefMessage) => {
+        const id = parseInt(message.id, 10);
+        send(formatMessageEvent(message, id > lastSentId));
+        lastSentId = Math.max(lastSentId, id);
+      };
+
+      request.signal.addEventListener('abort', () => {
+        close();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(`retry: ${RECONNECT_DELAY}\n\n`);
+
+      // Catch up on messages after the resume point
+      const missed: GriefMessage[] = [];
+      if (lastSentId > 0) {
+        try {
+          const supabase = await createClient();
+          const { data, error } = await supabase
+            .from('messages')
+            .select('id, content, created_at, approved, deleted_at, semantic_data, semantic_tags')
+            .eq('approved', true)
+            .is('deleted_at', null)
+            .gt('id', lastSentId.toString())
+            .order('id', { ascending: true })
+            .limit(CATCH_UP_LIMIT);
+
+          if (error) {
+            console.error('Stream catch-up failed:', error);
+          } else {
+            missed.push(...(data || []).map(toGriefMessage));
+          }
+        } catch (error) {
+          console.error('Stream catch-up failed:', error);
+        }
+      }
+
+      // Replay catch-up and held messages once each, in id order
+      const byId = new Map([...missed, ...pending].map((message) => [message.id, message]));
+      const replay = Array.from(byId.values())
+        .sort((a, b) => parseInt(a.id, 10) - parseInt(b.id, 10));
+
+      replay.forEach(sendMessage);
+      deliver = sendMessage;
+
+      if (!closed) {
+        heartbeat = setInterval(() => send(': keepalive\n\n'), HEARTBEAT_INTERVAL);
+      }
+    },
+
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * API Route: POST /api/sms/inbound
+ * Twilio-compatible webhook for messages sent by text
+ *
+ * Point the phone number's "A message comes in" webhook here (HTTP POST).
+ * Requires TWILIO_AUTH_TOKEN; see lib/sms/inbound-handler.ts.
+ */
+
+import { NextRequest, after } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin';
+import { loadSmsConfig } from '@/lib/config/sms-config';
+import { createSubmissionService } from '@/lib/services/submission-service';
+import { handleInboundSms } from '@/lib/sms/inbound-handler';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  return handleInboundSms(request, {
+    config: loadSmsConfig(),
+    getSubmissionService: async () => {
+      const supabase = hasAdminCredentials() ? createAdminClient() : await createClient();
+      return createSubmissionService(supabase, { scheduleEmbeddingWork: after });
+    },
+  });
+}
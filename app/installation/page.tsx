@@ -23,6 +23,8 @@ import {
   smoothForces
 } from '@/lib/physics/flow-field-sampling'
 import { debug } from '@/lib/debug-utils'
+import { readScreenOverrides } from '@/lib/config/message-pool-config'
+import { randomStream } from '@/lib/utils/random'
 import { SonificationService } from '@/lib/audio/sonification-service'
 import type { MessageCluster } from '@/lib/audio/types'
 import SoundControl from '@/components/SoundControl'
@@ -302,6 +304,14 @@ function ConnectionsTest() {
         const connections: Connection[] = []
         let currentHoveredId: string | null = null
         let orchestrator: Orchestrator
+
+        // ?traversal=chronological (etc.) overrides POOL_TRAVERSAL_STRATEGY for this screen;
+        // ?seed=1234 replays the same clusters, sounds and positions (given the same data)
+        const screen = readScreenOverrides(new URLSearchParams(window.location.search))
+        screen.warnings.forEach((warning) => debug.warn(`[SCREEN] ${warning}`))
+        const seed = screen.overrides.seed ?? null
+        const placementRandom = randomStream(seed, 'particles')
+        const physicsRandom = randomStream(seed, 'physics')
         
         // Explicit cluster timing
         let clusterDuration = 8000
@@ -351,18 +361,20 @@ function ConnectionsTest() {
           particleLayer = p.createGraphics(p.width, p.height)
           
           const supabase = createClient()
+
           orchestrator = new Orchestrator(supabase, {
             workingSetSize: deviceConfig.workingSetSize,
             clusterSize: 12,
             clusterDuration: MESSAGE_TIMING.cycleDuration * 1000,
-            autoCycle: true
+            autoCycle: true,
+            ...screen.overrides
           })
           orchestratorRef.current = orchestrator
 
           // Create sonification service (but don't initialize yet - requires user gesture)
           // SoundControl component will handle initialization on first user click
           if (!sonificationRef.current) {
-            sonificationRef.current = new SonificationService()
+            sonificationRef.current = new SonificationService(undefined, seed)
             debug.log('[AUDIO] Sonification service created (awaiting user gesture)')
           }
 
@@ -375,9 +387,9 @@ function ConnectionsTest() {
               if (!particles.has(msg.id)) {
                 particles.set(msg.id, {
                   id: msg.id,
-                  x: (p.width * 0.01) + Math.random() * (p.width * 0.98),
-                  y: (p.height * 0.01) + Math.random() * (p.height * 0.98),
-                  size: minParticleSize + Math.random() * particleSizeRange,
+                  x: (p.width * 0.01) + placementRandom() * (p.width * 0.98),
+                  y: (p.height * 0.01) + placementRandom() * (p.height * 0.98),
+                  size: minParticleSize + placementRandom() * particleSizeRange,
                   message: msg,
                   alpha: 0,
                   shouldRemove: false,
@@ -750,7 +762,7 @@ function ConnectionsTest() {
 
             // Initialize physics if not already done
             if (!conn.physics) {
-              conn.physics = initializeConnectionPhysics(fromParticle, toParticle, physicsConfig)
+              conn.physics = initializeConnectionPhysics(fromParticle, toParticle, physicsConfig, physicsRandom)
             }
 
             // Update line geometry (in case particles moved, though they shouldn't)
@@ -1376,6 +1388,7 @@ function ConnectionsTest() {
           >
             <p 
               className="font-display leading-relaxed italic"
+              dir="auto"
               style={{
                 color: 'rgba(160, 155, 170, 0.9)',  // Slightly brighter
                 fontSize: 'clamp(1.125rem, 1.5vw, 1.375rem)',  // Larger: was text-base (~1rem)
@@ -1446,6 +1459,7 @@ function ConnectionsTest() {
           >
             <p
               className="font-display"
+              dir={msg.direction}
               style={{
                 color: textColor,
                 fontSize,
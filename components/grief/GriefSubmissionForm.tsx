@@ -4,11 +4,14 @@
  * GriefSubmissionForm
  * Anonymous grief message submission with character counter and validation
  * On success, stores message in sessionStorage and redirects to preview
+ * Retries of the same content reuse one Idempotency-Key, so a submit that
+ * reached the server before the connection dropped is not stored twice
  */
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { getOrCreateSessionId } from '@/lib/session';
+import { countCharacters } from '@/lib/language/text-metrics';
 
 const MAX_LENGTH = 280;
 
@@ -24,8 +27,13 @@ export default function GriefSubmissionForm() {
     message: string;
   }>({ type: null, message: '' });
 
-  const remainingChars = MAX_LENGTH - content.length;
-  const isValid = content.trim().length >= 1 && content.trim().length <= MAX_LENGTH;
+  // Key for the current attempt; kept until success or the text changes
+  const attemptRef = useRef<{ content: string; key: string } | null>(null);
+
+  // Code points, as the server counts them, not UTF-16 units
+  const length = countCharacters(content.normalize('NFC').trim());
+  const remainingChars = MAX_LENGTH - countCharacters(content);
+  const isValid = length >= 1 && length <= MAX_LENGTH;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,14 +47,20 @@ export default function GriefSubmissionForm() {
       // Get or create session ID
       const sessionId = getOrCreateSessionId();
 
+      const trimmed = content.trim();
+      if (attemptRef.current?.content !== trimmed) {
+        attemptRef.current = { content: trimmed, key: crypto.randomUUID() };
+      }
+
       // Submit to API
       const response = await fetch('/api/messages', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': attemptRef.current.key,
         },
         body: JSON.stringify({
-          content: content.trim(),
+          content: trimmed,
           sessionId,
         }),
       });
@@ -54,6 +68,8 @@ export default function GriefSubmissionForm() {
       const data = await response.json();
 
       if (response.ok) {
+        attemptRef.current = null;
+
         // Store the submitted message for the preview page
         sessionStorage.setItem('submittedGriefMessage', content.trim());
         
@@ -98,7 +114,6 @@ export default function GriefSubmissionForm() {
             value={content}
             onChange={(e) => setContent(e.target.value)}
             placeholder="What are you mourning?"
-            maxLength={MAX_LENGTH}
             rows={6}
             className="w-full px-6 py-5
                        bg-white border border-stone-200
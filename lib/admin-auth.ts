@@ -0,0 +1,35 @@
+/**
+ * Admin Authentication
+ * Bearer token check for /api/admin routes
+ *
+ * Set ADMIN_API_TOKEN in the server environment. Requests must send
+ * `Authorization: Bearer <token>`. If the token is not configured,
+ * every admin request is refused.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Check whether a request carries the admin bearer token
+ *
+ * @param authorization - Value of the Authorization header
+ * @returns True if the token matches ADMIN_API_TOKEN
+ */
+export function isAuthorizedAdmin(authorization: string | null): boolean {
+  const expected = process.env.ADMIN_API_TOKEN;
+
+  if (!expected || !authorization) {
+    return false;
+  }
+
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  // Compare digests so length differences don't leak through timing
+  const given = crypto.createHash('sha256').update(match[1].trim()).digest();
+  const wanted = crypto.createHash('sha256').update(expected).digest();
+
+  return crypto.timingSafeEqual(given, wanted);
+}
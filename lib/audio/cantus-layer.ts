@@ -10,6 +10,7 @@
  */
 
 import type { SonificationConfig } from './types'
+import type { RandomSource } from '@/lib/utils/random'
 import { sampleCache } from './sample-cache'
 
 // Vocal samples mapped to scale degrees
@@ -90,8 +91,11 @@ export class CantusLayer {
   private reverbMix: number = 0.85    // 85% wet, very reverberant
   private isMuted: boolean = false
 
-  constructor(context: AudioContext, config: SonificationConfig['cantus']) {
+  private random: RandomSource
+
+  constructor(context: AudioContext, config: SonificationConfig['cantus'], random: RandomSource = Math.random) {
     this.context = context
+    this.random = random
     this.baseGain = config.gain  // Use config value
 
     // Output gain (master level for this layer)
@@ -178,7 +182,7 @@ export class CantusLayer {
 
   private scheduleNextPhrase(): void {
     const delay = this.minPhraseInterval + 
-      Math.random() * (this.maxPhraseInterval - this.minPhraseInterval)
+      this.random() * (this.maxPhraseInterval - this.minPhraseInterval)
 
     console.log(`[CantusLayer] Next phrase in ${(delay / 1000 / 60).toFixed(1)} minutes`)
 
@@ -198,7 +202,7 @@ export class CantusLayer {
     this.currentDegree = 'I'  // Always start on tonic
 
     const targetNotes = this.minNotesPerPhrase + 
-      Math.floor(Math.random() * (this.maxNotesPerPhrase - this.minNotesPerPhrase + 1))
+      Math.floor(this.random() * (this.maxNotesPerPhrase - this.minNotesPerPhrase + 1))
 
     console.log(`[CantusLayer] Starting phrase with ${targetNotes} notes`)
 
@@ -217,7 +221,7 @@ export class CantusLayer {
       nextDegree = 'I'
     } else if (isLastNote) {
       // Strong tendency to resolve to tonic
-      nextDegree = Math.random() < 0.7 ? 'I' : this.selectNextDegree()
+      nextDegree = this.random() < 0.7 ? 'I' : this.selectNextDegree()
     } else {
       nextDegree = this.selectNextDegree()
     }
@@ -259,7 +263,7 @@ export class CantusLayer {
     // Build weighted random selection
     const entries = Object.entries(weights)
     const totalWeight = entries.reduce((sum, [_, w]) => sum + w, 0)
-    let random = Math.random() * totalWeight
+    let random = this.random() * totalWeight
 
     for (const [degree, weight] of entries) {
       random -= weight
@@ -5,6 +5,7 @@
 
 import { embeddingToPitch } from './pitch-utils'
 import type { SonificationConfig, ClusterAudioState, ConnectionResonance, MessageCluster } from './types'
+import type { RandomSource } from '@/lib/utils/random'
 
 export class ClusterChannel {
   private context: AudioContext
@@ -40,9 +41,12 @@ export class ClusterChannel {
   private pivotOutput: GainNode
   private resonancesOutput: GainNode
 
-  constructor(context: AudioContext, config: SonificationConfig) {
+  private random: RandomSource
+
+  constructor(context: AudioContext, config: SonificationConfig, random: RandomSource = Math.random) {
     this.context = context
     this.config = config
+    this.random = random
 
     // Initialize runtime params from config
     this.runtimeParams = {
@@ -91,7 +95,8 @@ export class ClusterChannel {
       embedding,
       this.config.pitch.pentatonic,
       bassHz,
-      this.config.pitch.baseOctave
+      this.config.pitch.baseOctave,
+      this.random
     )
 
     // If same pitch as previous, force timbral change
@@ -229,7 +234,8 @@ export class ClusterChannel {
       embedding,
       this.config.pitch.pentatonic,
       bassHz,
-      this.config.pitch.baseOctave
+      this.config.pitch.baseOctave,
+      this.random
     )
 
     // Schedule pivot to fade in at configured time
@@ -9,6 +9,7 @@
  */
 
 import type { SonificationConfig } from './types'
+import type { RandomSource } from '@/lib/utils/random'
 import { sampleCache } from './sample-cache'
 
 // Field samples - ambient beds for slow crossfading
@@ -54,8 +55,11 @@ export class FieldLayer {
   private baseGain: number  // Set from config
   private isMuted: boolean = false
 
-  constructor(context: AudioContext, config: SonificationConfig['field']) {
+  private random: RandomSource
+
+  constructor(context: AudioContext, config: SonificationConfig['field'], random: RandomSource = Math.random) {
     this.context = context
+    this.random = random
     this.config = config
     this.baseGain = config.gain  // Use config value
 
@@ -116,7 +120,7 @@ export class FieldLayer {
       // If only one sample, allow repeating
       return Array.from(this.loadedSamples)[0] ?? null
     }
-    return available[Math.floor(Math.random() * available.length)]
+    return available[Math.floor(this.random() * available.length)]
   }
 
   /**
@@ -147,7 +151,7 @@ export class FieldLayer {
    */
   private scheduleNextCrossfade(): void {
     const duration = this.minPlayDuration + 
-      Math.random() * (this.maxPlayDuration - this.minPlayDuration)
+      this.random() * (this.maxPlayDuration - this.minPlayDuration)
 
     this.crossfadeTimeout = setTimeout(() => {
       this.crossfadeToNext()
@@ -22,6 +22,7 @@
  */
 
 import type { SonificationConfig } from './types'
+import type { RandomSource } from '@/lib/utils/random'
 
 interface SighDefinition {
   name: string
@@ -120,8 +121,11 @@ export class FiguraLayer {
   private baseGain: number
   private isMuted: boolean = false
 
-  constructor(context: AudioContext, figuraConfig: SonificationConfig['figura'], sighConfig: Partial<SighConfig> = {}) {
+  private random: RandomSource
+
+  constructor(context: AudioContext, figuraConfig: SonificationConfig['figura'], sighConfig: Partial<SighConfig> = {}, random: RandomSource = Math.random) {
     this.context = context
+    this.random = random
     this.config = { ...DEFAULT_SIGH_CONFIG, gain: figuraConfig.gain, ...sighConfig }
     this.baseGain = this.config.gain
 
@@ -152,7 +156,7 @@ export class FiguraLayer {
   onClusterChange(tonicHz: number): void {
     this.currentTonicHz = tonicHz
     
-    if (Math.random() < this.config.onClusterChange) {
+    if (this.random() < this.config.onClusterChange) {
       // Prefer yearning (6→5) on cluster change
       const sigh = this.selectSigh()
       this.triggerSigh(sigh, tonicHz)
@@ -165,7 +169,7 @@ export class FiguraLayer {
   onFocusFade(tonicHz: number): void {
     this.currentTonicHz = tonicHz
     
-    if (Math.random() < this.config.onFocusFade) {
+    if (this.random() < this.config.onFocusFade) {
       // Any sigh appropriate for fading
       const sigh = this.selectSigh()
       this.triggerSigh(sigh, tonicHz)
@@ -186,7 +190,7 @@ export class FiguraLayer {
    */
   private selectSigh(): SighDefinition {
     const totalWeight = SIGH_DEFINITIONS.reduce((sum, s) => sum + s.weight, 0)
-    let random = Math.random() * totalWeight
+    let random = this.random() * totalWeight
     
     for (const sigh of SIGH_DEFINITIONS) {
       random -= sigh.weight
@@ -352,7 +356,7 @@ export class FiguraLayer {
    */
   private scheduleRandomTrigger(): void {
     const delay = this.config.randomIntervalMin + 
-      Math.random() * (this.config.randomIntervalMax - this.config.randomIntervalMin)
+      this.random() * (this.config.randomIntervalMax - this.config.randomIntervalMin)
 
     this.randomTriggerTimeout = setTimeout(() => {
       const sigh = this.selectSigh()
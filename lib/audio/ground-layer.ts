@@ -4,6 +4,7 @@
  */
 
 import type { SonificationConfig } from './types'
+import type { RandomSource } from '@/lib/utils/random'
 
 // Bass notes: A1=55Hz, D2=73.42Hz, E2=82.41Hz, F#2=92.50Hz
 const BASS_NOTES = {
@@ -40,8 +41,11 @@ export class GroundLayer {
   private baseGain: number
   private isMuted: boolean = false
 
-  constructor(context: AudioContext, config: SonificationConfig['ground']) {
+  private random: RandomSource
+
+  constructor(context: AudioContext, config: SonificationConfig['ground'], random: RandomSource = Math.random) {
     this.context = context
+    this.random = random
     this.config = config
     this.baseGain = config.gain
 
@@ -112,7 +116,7 @@ export class GroundLayer {
     // Apply speed multiplier: higher = faster (shorter duration)
     const baseMin = this.config.stateMinDuration / this.speedMultiplier
     const baseMax = this.config.stateMaxDuration / this.speedMultiplier
-    const duration = baseMin + Math.random() * (baseMax - baseMin)
+    const duration = baseMin + this.random() * (baseMax - baseMin)
 
     this.transitionTimeout = setTimeout(() => {
       // Markov chain: pick next bass note based on weighted transitions
@@ -125,7 +129,7 @@ export class GroundLayer {
 
   private pickNextBassNote(): BassNote {
     const weights = MARKOV_WEIGHTS[this.currentNote]
-    const rand = Math.random()
+    const rand = this.random()
     let cumulative = 0
     
     for (const [note, probability] of Object.entries(weights)) {
@@ -3,6 +3,8 @@
  * Converts semantic embeddings to musical pitches within scales
  */
 
+import type { RandomSource } from '@/lib/utils/random'
+
 /**
  * Convert embedding to pitch within pentatonic scale
  */
@@ -10,12 +12,13 @@ export function embeddingToPitch(
   embedding: number[] | undefined,
   scale: number[],        // [0, 3, 5, 7, 10] for minor pentatonic
   bassHz: number,         // Current bass note frequency
-  octaveAboveBass: number // Which octave (1, 2, 3...)
+  octaveAboveBass: number, // Which octave (1, 2, 3...)
+  random: RandomSource = Math.random // Fallback's source (seeded for replays)
 ): { scaleDegree: number; hz: number } {
 
   if (!embedding || embedding.length < 3) {
     // Fallback: random scale degree
-    const idx = Math.floor(Math.random() * scale.length)
+    const idx = Math.floor(random() * scale.length)
     const scaleDegree = scale[idx]
     const hz = bassHz * Math.pow(2, octaveAboveBass) * Math.pow(2, scaleDegree / 12)
     return { scaleDegree, hz }
@@ -9,6 +9,7 @@
  */
 
 import type { SonificationConfig } from './types'
+import type { RandomSource } from '@/lib/utils/random'
 import { sampleCache } from './sample-cache'
 
 // Shimmer samples - one-shots for event triggers
@@ -56,8 +57,11 @@ export class ShimmerLayer {
   private minRandomInterval: number = 8000   // Min 8 seconds between random triggers
   private maxRandomInterval: number = 25000  // Max 25 seconds
 
-  constructor(context: AudioContext, config: SonificationConfig['shimmer']) {
+  private random: RandomSource
+
+  constructor(context: AudioContext, config: SonificationConfig['shimmer'], random: RandomSource = Math.random) {
     this.context = context
+    this.random = random
     this.config = config
     this.baseGain = config.gain
 
@@ -100,7 +104,7 @@ export class ShimmerLayer {
    */
   private scheduleRandomTrigger(): void {
     const delay = this.minRandomInterval + 
-      Math.random() * (this.maxRandomInterval - this.minRandomInterval)
+      this.random() * (this.maxRandomInterval - this.minRandomInterval)
 
     this.randomTriggerInterval = setTimeout(() => {
       // Trigger with high probability (0.7) - the rate limiting will prevent spam
@@ -115,7 +119,7 @@ export class ShimmerLayer {
    */
   triggerShimmer(probability: number = this.config.probability): void {
     // Check probability
-    if (Math.random() > probability) return
+    if (this.random() > probability) return
 
     // Rate limiting
     const now = Date.now()
@@ -129,7 +133,7 @@ export class ShimmerLayer {
 
     // Pick a random sample
     const samples = Array.from(this.loadedSamples)
-    const sample = samples[Math.floor(Math.random() * samples.length)]
+    const sample = samples[Math.floor(this.random() * samples.length)]
 
     this.playSample(sample)
     this.lastTriggerTime = now
@@ -24,6 +24,7 @@ import { TextureLayer } from './texture-layer'
 import { CantusLayer } from './cantus-layer'
 import { sampleCache } from './sample-cache'
 import { embeddingToPitch } from './pitch-utils'
+import { randomStream, type RandomSource } from '@/lib/utils/random'
 import type { SonificationConfig, AudioState, MessageCluster } from './types'
 
 export interface ChannelInfo {
@@ -73,8 +74,14 @@ export class SonificationService {
   private currentTonicHz: number = 220
   private channelMutes: Map<string, boolean> = new Map()
 
-  constructor(config: SonificationConfig = DEFAULT_SONIFICATION_CONFIG) {
+  // Randomness: one stream per layer, seeded to replay a performance
+  private seed: number | null
+  private random: RandomSource
+
+  constructor(config: SonificationConfig = DEFAULT_SONIFICATION_CONFIG, seed: number | null = null) {
     this.config = config
+    this.seed = seed
+    this.random = randomStream(seed, 'audio.tonic')
   }
 
   /**
@@ -154,13 +161,13 @@ export class SonificationService {
       await this.createReverbSendReturn()
 
       // === CREATE LAYERS ===
-      this.groundLayer = new GroundLayer(this.context, this.config.ground)
-      this.fieldLayer = new FieldLayer(this.context, this.config.field)
-      this.clusterChannel = new ClusterChannel(this.context, this.config)
-      this.shimmerLayer = new ShimmerLayer(this.context, this.config.shimmer)
-      this.figuraLayer = new FiguraLayer(this.context, this.config.figura)
-      this.textureLayer = new TextureLayer(this.context, this.config.texture)
-      this.cantusLayer = new CantusLayer(this.context, this.config.cantus)
+      this.groundLayer = new GroundLayer(this.context, this.config.ground, randomStream(this.seed, 'audio.ground'))
+      this.fieldLayer = new FieldLayer(this.context, this.config.field, randomStream(this.seed, 'audio.field'))
+      this.clusterChannel = new ClusterChannel(this.context, this.config, randomStream(this.seed, 'audio.cluster'))
+      this.shimmerLayer = new ShimmerLayer(this.context, this.config.shimmer, randomStream(this.seed, 'audio.shimmer'))
+      this.figuraLayer = new FiguraLayer(this.context, this.config.figura, {}, randomStream(this.seed, 'audio.figura'))
+      this.textureLayer = new TextureLayer(this.context, this.config.texture, randomStream(this.seed, 'audio.texture'))
+      this.cantusLayer = new CantusLayer(this.context, this.config.cantus, randomStream(this.seed, 'audio.cantus'))
 
       // === CONNECT LAYERS ===
       
@@ -270,7 +277,8 @@ export class SonificationService {
       embedding,
       this.config.pitch.pentatonic,
       bassHz,
-      this.config.pitch.baseOctave
+      this.config.pitch.baseOctave,
+      this.random
     )
     this.currentTonicHz = tonicHz
 
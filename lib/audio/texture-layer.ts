@@ -7,6 +7,7 @@
  */
 
 import type { SonificationConfig } from './types'
+import type { RandomSource } from '@/lib/utils/random'
 import { sampleCache } from './sample-cache'
 
 // Texture samples - lo-fi grit at subliminal levels
@@ -45,8 +46,11 @@ export class TextureLayer {
   private baseGain: number  // Set from config
   private isMuted: boolean = false
 
-  constructor(context: AudioContext, config: SonificationConfig['texture']) {
+  private random: RandomSource
+
+  constructor(context: AudioContext, config: SonificationConfig['texture'], random: RandomSource = Math.random) {
     this.context = context
+    this.random = random
     this.baseGain = config.gain  // Use config value
 
     this.outputGain = context.createGain()
@@ -104,7 +108,7 @@ export class TextureLayer {
     if (available.length === 0) {
       return Array.from(this.loadedSamples)[0] ?? null
     }
-    return available[Math.floor(Math.random() * available.length)]
+    return available[Math.floor(this.random() * available.length)]
   }
 
   /**
@@ -133,7 +137,7 @@ export class TextureLayer {
    */
   private scheduleNextCrossfade(): void {
     const duration = this.minPlayDuration + 
-      Math.random() * (this.maxPlayDuration - this.minPlayDuration)
+      this.random() * (this.maxPlayDuration - this.minPlayDuration)
 
     this.crossfadeTimeout = setTimeout(() => {
       this.crossfadeToNext()
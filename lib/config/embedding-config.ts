@@ -0,0 +1,147 @@
+/**
+ * Embedding Configuration
+ *
+ * Selects the provider that turns message content into embeddings.
+ * Supports environment variable overrides for deployment flexibility.
+ *
+ * API keys are read from their own variables (ANTHROPIC_API_KEY,
+ * EMBEDDING_OPENAI_API_KEY) and never kept in this object.
+ */
+
+import type { EmbeddingProviderName } from '@/lib/embeddings/types'
+import { parseEnumWithValidation, parseIntWithValidation } from './env-parsing'
+
+export type EmbeddingCacheBackend = 'postgres' | 'memory' | 'none'
+
+export interface EmbeddingConfig {
+  /**
+   * Embedding provider
+   * - anthropic: Claude rates 10 semantic themes (needs ANTHROPIC_API_KEY)
+   * - openai: any OpenAI-compatible /embeddings endpoint
+   * - local: deterministic hashed n-grams, no network
+   *
+   * @default 'anthropic'
+   */
+  provider: EmbeddingProviderName
+
+  /**
+   * Claude model for the anthropic provider
+   *
+   * @default 'claude-sonnet-4-20250514'
+   */
+  anthropicModel: string
+
+  /**
+   * Base URL of the OpenAI-compatible API (without /embeddings)
+   *
+   * @default 'https://api.openai.com/v1'
+   */
+  openaiBaseUrl: string
+
+  /**
+   * Embedding model for the openai provider
+   * Must accept the `dimensions` parameter or return 10 dimensions.
+   *
+   * @default 'text-embedding-3-small'
+   */
+  openaiModel: string
+
+  /**
+   * Per-attempt request timeout for network providers (milliseconds)
+   *
+   * @default 15000
+   * @range 1000-120000
+   */
+  timeoutMs: number
+
+  /**
+   * Extra attempts after a timeout, network error, 429 or 5xx response.
+   * Retries wait 0.5s, then 1s, 2s ... Queued jobs are retried again later
+   * by the embedding worker.
+   *
+   * @default 2
+   * @range 0-5
+   */
+  maxRetries: number
+
+  /**
+   * Embedding cache, keyed by normalized content hash
+   * - postgres: embedding_cache table (migration 011), shared by every
+   *   instance; needs service role credentials, else memory is used
+   * - memory: in-process, lost on restart
+   * - none: every message is sent to the provider
+   * The local provider is never cached (it costs nothing).
+   *
+   * @default 'postgres'
+   */
+  cache: EmbeddingCacheBackend
+}
+
+/**
+ * Default Configuration
+ */
+export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = {
+  provider: 'anthropic',
+  anthropicModel: 'claude-sonnet-4-20250514',
+  openaiBaseUrl: 'https://api.openai.com/v1',
+  openaiModel: 'text-embedding-3-small',
+  timeoutMs: 15000,
+  maxRetries: 2,
+  cache: 'postgres'
+}
+
+/**
+ * Load Embedding Configuration
+ *
+ * @returns {EmbeddingConfig} Validated configuration object
+ * @throws {Error} If the provider name, timeout, retry count or cache backend is invalid
+ *
+ * @example
+ * // .env.local (offline gallery install)
+ * EMBEDDING_PROVIDER=local
+ *
+ * @example
+ * // .env.local (local Ollama server)
+ * EMBEDDING_PROVIDER=openai
+ * EMBEDDING_OPENAI_BASE_URL=http://localhost:11434/v1
+ * EMBEDDING_OPENAI_MODEL=nomic-embed-text
+ */
+export function loadEmbeddingConfig(): EmbeddingConfig {
+  return {
+    provider: parseEnumWithValidation(
+      process.env.EMBEDDING_PROVIDER,
+      ['anthropic', 'openai', 'local'] as const,
+      DEFAULT_EMBEDDING_CONFIG.provider,
+      'embedding.provider'
+    ),
+
+    anthropicModel: process.env.EMBEDDING_ANTHROPIC_MODEL?.trim() || DEFAULT_EMBEDDING_CONFIG.anthropicModel,
+
+    openaiBaseUrl: process.env.EMBEDDING_OPENAI_BASE_URL?.trim() || DEFAULT_EMBEDDING_CONFIG.openaiBaseUrl,
+
+    openaiModel: process.env.EMBEDDING_OPENAI_MODEL?.trim() || DEFAULT_EMBEDDING_CONFIG.openaiModel,
+
+    timeoutMs: parseIntWithValidation(
+      process.env.EMBEDDING_TIMEOUT_MS,
+      DEFAULT_EMBEDDING_CONFIG.timeoutMs,
+      1000,
+      120000,
+      'embedding.timeoutMs'
+    ),
+
+    maxRetries: parseIntWithValidation(
+      process.env.EMBEDDING_MAX_RETRIES,
+      DEFAULT_EMBEDDING_CONFIG.maxRetries,
+      0,
+      5,
+      'embedding.maxRetries'
+    ),
+
+    cache: parseEnumWithValidation(
+      process.env.EMBEDDING_CACHE,
+      ['postgres', 'memory', 'none'] as const,
+      DEFAULT_EMBEDDING_CONFIG.cache,
+      'embedding.cache'
+    )
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Embedding Jobs Configuration
+ *
+ * Controls the queue that generates embeddings after a message is stored.
+ * Supports environment variable overrides for deployment flexibility.
+ */
+
+import { parseEnumWithValidation, parseIntWithValidation } from './env-parsing'
+
+export type EmbeddingJobBackend = 'memory' | 'postgres'
+
+export interface EmbeddingJobsConfig {
+  /**
+   * Job storage backend
+   * - postgres: embedding_jobs table (migration 008), survives restarts
+   *   and is shared by serverless instances
+   * - memory: in-process queue, lost on restart (development)
+   *
+   * @default 'postgres'
+   */
+  backend: EmbeddingJobBackend
+
+  /**
+   * Attempts before a job is marked failed
+   *
+   * @default 5
+   * @range 1-20
+   */
+  maxAttempts: number
+
+  /**
+   * Delay before the first retry (ms), doubling on each further attempt
+   *
+   * @default 30000 (30 seconds)
+   * @range 1000-3600000
+   */
+  baseDelayMs: number
+
+  /**
+   * Upper bound on the retry delay (ms)
+   *
+   * @default 3600000 (1 hour)
+   * @range 60000-86400000
+   */
+  maxDelayMs: number
+
+  /**
+   * Jobs claimed per worker run
+   *
+   * @default 10
+   * @range 1-100
+   */
+  batchSize: number
+
+  /**
+   * How long a claimed job is reserved (ms)
+   * A worker that dies mid-batch releases its jobs when the lease ends.
+   *
+   * @default 300000 (5 minutes)
+   * @range 10000-3600000
+   */
+  leaseMs: number
+}
+
+/**
+ * Default Configuration
+ */
+export const DEFAULT_EMBEDDING_JOBS_CONFIG: EmbeddingJobsConfig = {
+  backend: 'postgres',
+  maxAttempts: 5,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  batchSize: 10,
+  leaseMs: 5 * 60 * 1000
+}
+
+/**
+ * Load Embedding Jobs Configuration
+ *
+ * @returns {EmbeddingJobsConfig} Validated configuration object
+ * @throws {Error} If any config value is invalid
+ *
+ * @example
+ * // .env.local
+ * EMBEDDING_JOBS_BACKEND=memory
+ * EMBEDDING_JOBS_MAX_ATTEMPTS=3
+ */
+export function loadEmbeddingJobsConfig(): EmbeddingJobsConfig {
+  return {
+    backend: parseEnumWithValidation(
+      process.env.EMBEDDING_JOBS_BACKEND,
+      ['memory', 'postgres'] as const,
+      DEFAULT_EMBEDDING_JOBS_CONFIG.backend,
+      'embeddingJobs.backend'
+    ),
+
+    maxAttempts: parseIntWithValidation(
+      process.env.EMBEDDING_JOBS_MAX_ATTEMPTS,
+      DEFAULT_EMBEDDING_JOBS_CONFIG.maxAttempts,
+      1,
+      20,
+      'embeddingJobs.maxAttempts'
+    ),
+
+    baseDelayMs: parseIntWithValidation(
+      process.env.EMBEDDING_JOBS_BASE_DELAY_MS,
+      DEFAULT_EMBEDDING_JOBS_CONFIG.baseDelayMs,
+      1000,
+      60 * 60 * 1000,
+      'embeddingJobs.baseDelayMs'
+    ),
+
+    maxDelayMs: parseIntWithValidation(
+      process.env.EMBEDDING_JOBS_MAX_DELAY_MS,
+      DEFAULT_EMBEDDING_JOBS_CONFIG.maxDelayMs,
+      60 * 1000,
+      24 * 60 * 60 * 1000,
+      'embeddingJobs.maxDelayMs'
+    ),
+
+    batchSize: parseIntWithValidation(
+      process.env.EMBEDDING_JOBS_BATCH_SIZE,
+      DEFAULT_EMBEDDING_JOBS_CONFIG.batchSize,
+      1,
+      100,
+      'embeddingJobs.batchSize'
+    ),
+
+    leaseMs: parseIntWithValidation(
+      process.env.EMBEDDING_JOBS_LEASE_MS,
+      DEFAULT_EMBEDDING_JOBS_CONFIG.leaseMs,
+      10 * 1000,
+      60 * 60 * 1000,
+      'embeddingJobs.leaseMs'
+    )
+  }
+}
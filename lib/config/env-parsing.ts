@@ -0,0 +1,138 @@
+/**
+ * Environment Variable Parsing
+ *
+ * Shared helpers for reading validated values from environment variables.
+ * Used by the loaders in lib/config.
+ */
+
+/**
+ * Parse integer from environment variable with validation
+ *
+ * @param envValue - Environment variable value
+ * @param defaultValue - Default if env var missing
+ * @param min - Minimum allowed value
+ * @param max - Maximum allowed value
+ * @param fieldName - Field name for error messages
+ * @returns Validated integer
+ */
+export function parseIntWithValidation(
+  envValue: string | undefined,
+  defaultValue: number,
+  min: number,
+  max: number,
+  fieldName: string
+): number {
+  if (envValue === undefined || envValue === '') {
+    return defaultValue
+  }
+
+  const parsed = parseInt(envValue, 10)
+
+  if (isNaN(parsed)) {
+    throw new Error(
+      `Invalid ${fieldName}: "${envValue}" is not a valid integer`
+    )
+  }
+
+  if (parsed < min || parsed > max) {
+    throw new Error(
+      `Invalid ${fieldName}: ${parsed} is out of range [${min}, ${max}]`
+    )
+  }
+
+  return parsed
+}
+
+/**
+ * Parse float from environment variable with validation
+ *
+ * @param envValue - Environment variable value
+ * @param defaultValue - Default if env var missing
+ * @param min - Minimum allowed value
+ * @param max - Maximum allowed value
+ * @param fieldName - Field name for error messages
+ * @returns Validated float
+ */
+export function parseFloatWithValidation(
+  envValue: string | undefined,
+  defaultValue: number,
+  min: number,
+  max: number,
+  fieldName: string
+): number {
+  if (envValue === undefined || envValue === '') {
+    return defaultValue
+  }
+
+  const parsed = parseFloat(envValue)
+
+  if (isNaN(parsed)) {
+    throw new Error(
+      `Invalid ${fieldName}: "${envValue}" is not a valid number`
+    )
+  }
+
+  if (parsed < min || parsed > max) {
+    throw new Error(
+      `Invalid ${fieldName}: ${parsed} is out of range [${min}, ${max}]`
+    )
+  }
+
+  return parsed
+}
+
+/**
+ * Parse boolean from environment variable
+ *
+ * @param envValue - Environment variable value
+ * @param defaultValue - Default if env var missing
+ * @returns Boolean value
+ */
+export function parseBooleanWithDefault(
+  envValue: string | undefined,
+  defaultValue: boolean
+): boolean {
+  if (envValue === undefined || envValue === '') {
+    return defaultValue
+  }
+
+  const lower = envValue.toLowerCase()
+  if (lower === 'true' || lower === '1' || lower === 'yes') {
+    return true
+  }
+  if (lower === 'false' || lower === '0' || lower === 'no') {
+    return false
+  }
+
+  return defaultValue
+}
+
+/**
+ * Parse one of a fixed set of string values from environment variable
+ *
+ * @param envValue - Environment variable value
+ * @param allowed - Accepted values
+ * @param defaultValue - Default if env var missing
+ * @param fieldName - Field name for error messages
+ * @returns Validated value
+ */
+export function parseEnumWithValidation<T extends string>(
+  envValue: string | undefined,
+  allowed: readonly T[],
+  defaultValue: T,
+  fieldName: string
+): T {
+  if (envValue === undefined || envValue === '') {
+    return defaultValue
+  }
+
+  const lower = envValue.toLowerCase() as T
+
+  if (!allowed.includes(lower)) {
+    throw new Error(
+      `Invalid ${fieldName}: "${envValue}" must be one of ${allowed.join(', ')}`
+    )
+  }
+
+  return lower
+}
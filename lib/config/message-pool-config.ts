@@ -6,6 +6,14 @@
  */
 
 import type { MessagePoolConfig } from '@/types/grief-messages'
+import {
+  parseIntWithValidation,
+  parseFloatWithValidation,
+  parseBooleanWithDefault,
+  parseEnumWithValidation
+} from './env-parsing'
+import { isTraversalStrategyName, TRAVERSAL_STRATEGIES } from '@/lib/services/traversal-strategies'
+import { parseSeed } from '@/lib/utils/random'
 
 /**
  * Default Configuration
@@ -26,6 +34,21 @@ export const DEFAULT_CONFIG: MessagePoolConfig = {
   // Polling: Check for new messages every 5 seconds
   pollingInterval: 5000,
 
+  // New messages: Poll by default; 'stream' pushes via /api/messages/stream
+  newMessageSource: 'polling',
+
+  // Traversal: Most similar related message next
+  traversalStrategy: 'greedy',
+
+  // Seed: Unseeded (a seed replays the same traversal)
+  seed: null,
+
+  // Fairness: Counted in this browser, not yet favouring the under-exposed
+  fairness: {
+    weight: 0,
+    ledger: 'local'
+  },
+
   // Priority Queue
   priorityQueue: {
     // Maximum queue size before dropping oldest
@@ -59,7 +82,10 @@ export const DEFAULT_CONFIG: MessagePoolConfig = {
     lengthWeight: 0.2,
 
     // Semantic: Keyword matching (20%, future)
-    semanticWeight: 0.2
+    semanticWeight: 0.2,
+
+    // MMR: Most similar only (lower to trade similarity for variety)
+    mmrLambda: 1.0
   }
 }
 
@@ -115,6 +141,41 @@ export function loadConfig(): MessagePoolConfig {
       'pollingInterval'
     ),
 
+    newMessageSource: parseEnumWithValidation(
+      process.env.POOL_NEW_MESSAGE_SOURCE,
+      ['polling', 'stream'] as const,
+      DEFAULT_CONFIG.newMessageSource,
+      'newMessageSource'
+    ),
+
+    traversalStrategy: parseEnumWithValidation(
+      process.env.POOL_TRAVERSAL_STRATEGY,
+      TRAVERSAL_STRATEGIES,
+      DEFAULT_CONFIG.traversalStrategy,
+      'traversalStrategy'
+    ),
+
+    seed: process.env.POOL_SEED
+      ? parseIntWithValidation(process.env.POOL_SEED, 0, 0, 0xffffffff, 'seed')
+      : DEFAULT_CONFIG.seed,
+
+    fairness: {
+      weight: parseFloatWithValidation(
+        process.env.POOL_FAIRNESS_WEIGHT,
+        DEFAULT_CONFIG.fairness.weight,
+        0.0,
+        1.0,
+        'fairness.weight'
+      ),
+
+      ledger: parseEnumWithValidation(
+        process.env.POOL_EXPOSURE_LEDGER,
+        ['local', 'database'] as const,
+        DEFAULT_CONFIG.fairness.ledger,
+        'fairness.ledger'
+      )
+    },
+
     priorityQueue: {
       maxSize: parseIntWithValidation(
         process.env.POOL_QUEUE_MAX_SIZE,
@@ -187,6 +248,14 @@ export function loadConfig(): MessagePoolConfig {
         0.0,
         1.0,
         'similarity.semanticWeight'
+      ),
+
+      mmrLambda: parseFloatWithValidation(
+        process.env.POOL_SIMILARITY_MMR_LAMBDA,
+        DEFAULT_CONFIG.similarity.mmrLambda,
+        0.0,
+        1.0,
+        'similarity.mmrLambda'
       )
     }
   }
@@ -197,108 +266,6 @@ export function loadConfig(): MessagePoolConfig {
   return config
 }
 
-/**
- * Parse integer from environment variable with validation
- *
- * @param envValue - Environment variable value
- * @param defaultValue - Default if env var missing
- * @param min - Minimum allowed value
- * @param max - Maximum allowed value
- * @param fieldName - Field name for error messages
- * @returns Validated integer
- */
-function parseIntWithValidation(
-  envValue: string | undefined,
-  defaultValue: number,
-  min: number,
-  max: number,
-  fieldName: string
-): number {
-  if (envValue === undefined || envValue === '') {
-    return defaultValue
-  }
-
-  const parsed = parseInt(envValue, 10)
-
-  if (isNaN(parsed)) {
-    throw new Error(
-      `Invalid ${fieldName}: "${envValue}" is not a valid integer`
-    )
-  }
-
-  if (parsed < min || parsed > max) {
-    throw new Error(
-      `Invalid ${fieldName}: ${parsed} is out of range [${min}, ${max}]`
-    )
-  }
-
-  return parsed
-}
-
-/**
- * Parse float from environment variable with validation
- *
- * @param envValue - Environment variable value
- * @param defaultValue - Default if env var missing
- * @param min - Minimum allowed value
- * @param max - Maximum allowed value
- * @param fieldName - Field name for error messages
- * @returns Validated float
- */
-function parseFloatWithValidation(
-  envValue: string | undefined,
-  defaultValue: number,
-  min: number,
-  max: number,
-  fieldName: string
-): number {
-  if (envValue === undefined || envValue === '') {
-    return defaultValue
-  }
-
-  const parsed = parseFloat(envValue)
-
-  if (isNaN(parsed)) {
-    throw new Error(
-      `Invalid ${fieldName}: "${envValue}" is not a valid number`
-    )
-  }
-
-  if (parsed < min || parsed > max) {
-    throw new Error(
-      `Invalid ${fieldName}: ${parsed} is out of range [${min}, ${max}]`
-    )
-  }
-
-  return parsed
-}
-
-/**
- * Parse boolean from environment variable
- *
- * @param envValue - Environment variable value
- * @param defaultValue - Default if env var missing
- * @returns Boolean value
- */
-function parseBooleanWithDefault(
-  envValue: string | undefined,
-  defaultValue: boolean
-): boolean {
-  if (envValue === undefined || envValue === '') {
-    return defaultValue
-  }
-
-  const lower = envValue.toLowerCase()
-  if (lower === 'true' || lower === '1' || lower === 'yes') {
-    return true
-  }
-  if (lower === 'false' || lower === '0' || lower === 'no') {
-    return false
-  }
-
-  return defaultValue
-}
-
 /**
  * Validate cross-field configuration constraints
  *
@@ -350,6 +317,53 @@ function validateConfig(config: MessagePoolConfig): void {
   }
 }
 
+/**
+ * Screen overrides read from the installation URL
+ */
+export interface ScreenOverrides {
+  /** Config fields this screen replaces */
+  overrides: Partial<Pick<MessagePoolConfig, 'traversalStrategy' | 'seed'>>
+
+  /** Parameters that were ignored, and why */
+  warnings: string[]
+}
+
+/**
+ * Read Screen Overrides
+ *
+ * Per-screen settings from the /installation query string, laid over the
+ * environment config: ?traversal=<strategy> replaces traversalStrategy,
+ * ?seed=<0-4294967295> sets seed. Unknown values are ignored with a
+ * warning, so a mistyped URL still shows the configured installation.
+ *
+ * @param params - The page's query parameters
+ * @returns Fields to override and warnings to log
+ *
+ * @example
+ * const { overrides } = readScreenOverrides(new URLSearchParams(window.location.search))
+ * const config = { ...DEFAULT_CONFIG, ...overrides }
+ */
+export function readScreenOverrides(params: URLSearchParams): ScreenOverrides {
+  const result: ScreenOverrides = { overrides: {}, warnings: [] }
+
+  const traversal = params.get('traversal')
+  if (isTraversalStrategyName(traversal)) {
+    result.overrides.traversalStrategy = traversal
+  } else if (traversal !== null) {
+    result.warnings.push(`Unknown traversal strategy "${traversal}", using the configured one`)
+  }
+
+  const seedParam = params.get('seed')
+  const seed = parseSeed(seedParam)
+  if (seed !== null) {
+    result.overrides.seed = seed
+  } else if (seedParam !== null) {
+    result.warnings.push(`Invalid seed "${seedParam}", running unseeded`)
+  }
+
+  return result
+}
+
 /**
  * Get memory usage percentage
  *
@@ -0,0 +1,45 @@
+/**
+ * Moderation Configuration
+ *
+ * Controls whether new submissions are public immediately or held
+ * for review. Supports environment variable overrides so curators can
+ * switch modes per exhibition without a code change.
+ */
+
+import { parseBooleanWithDefault } from './env-parsing'
+
+export interface ModerationConfig {
+  /**
+   * Hold new submissions for review
+   * When true, messages are stored with approved=false and only appear
+   * after a moderator approves them via /api/admin/messages.
+   *
+   * @default false (public immediately)
+   */
+  requireApproval: boolean
+}
+
+/**
+ * Default Configuration
+ */
+export const DEFAULT_MODERATION_CONFIG: ModerationConfig = {
+  requireApproval: false
+}
+
+/**
+ * Load Moderation Configuration
+ *
+ * @returns {ModerationConfig} Configuration object
+ *
+ * @example
+ * // .env.local (sensitive exhibition)
+ * MODERATION_REQUIRE_APPROVAL=true
+ */
+export function loadModerationConfig(): ModerationConfig {
+  return {
+    requireApproval: parseBooleanWithDefault(
+      process.env.MODERATION_REQUIRE_APPROVAL,
+      DEFAULT_MODERATION_CONFIG.requireApproval
+    )
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Rate Limit Configuration
+ *
+ * Submission limits for POST /api/messages.
+ * Supports environment variable overrides for deployment flexibility.
+ */
+
+import {
+  parseIntWithValidation,
+  parseEnumWithValidation
+} from './env-parsing'
+
+/**
+ * Rate limiter storage backend
+ *
+ * - memory: Per-instance Map (development, single long-lived server)
+ * - postgres: Counts recent rows in the messages table (serverless deploys)
+ */
+export type RateLimitBackend = 'memory' | 'postgres'
+
+export interface RateLimitConfig {
+  /**
+   * Storage backend
+   *
+   * @default 'postgres'
+   */
+  backend: RateLimitBackend
+
+  /**
+   * Sliding window length (ms)
+   *
+   * @default 3600000 (1 hour)
+   * @range 60000-86400000
+   */
+  windowMs: number
+
+  /**
+   * Max submissions per session within the window
+   *
+   * @default 3
+   * @range 1-100
+   */
+  maxPerSession: number
+
+  /**
+   * Max submissions per hashed IP within the window
+   * Higher than the session limit: gallery visitors share one network.
+   *
+   * @default 20
+   * @range 1-1000
+   */
+  maxPerIp: number
+}
+
+/**
+ * Default Configuration
+ */
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  backend: 'postgres',
+  windowMs: 60 * 60 * 1000,
+  maxPerSession: 3,
+  maxPerIp: 20
+}
+
+/**
+ * Load Rate Limit Configuration
+ *
+ * Reads configuration from environment variables with validation.
+ * Falls back to DEFAULT_RATE_LIMIT_CONFIG for missing values.
+ *
+ * @returns {RateLimitConfig} Validated configuration object
+ * @throws {Error} If any config value is invalid
+ *
+ * @example
+ * // .env.local
+ * RATE_LIMIT_BACKEND=memory
+ * RATE_LIMIT_MAX_PER_IP=50
+ */
+export function loadRateLimitConfig(): RateLimitConfig {
+  return {
+    backend: parseEnumWithValidation(
+      process.env.RATE_LIMIT_BACKEND,
+      ['memory', 'postgres'] as const,
+      DEFAULT_RATE_LIMIT_CONFIG.backend,
+      'rateLimit.backend'
+    ),
+
+    windowMs: parseIntWithValidation(
+      process.env.RATE_LIMIT_WINDOW_MS,
+      DEFAULT_RATE_LIMIT_CONFIG.windowMs,
+      60 * 1000,
+      24 * 60 * 60 * 1000,
+      'rateLimit.windowMs'
+    ),
+
+    maxPerSession: parseIntWithValidation(
+      process.env.RATE_LIMIT_MAX_PER_SESSION,
+      DEFAULT_RATE_LIMIT_CONFIG.maxPerSession,
+      1,
+      100,
+      'rateLimit.maxPerSession'
+    ),
+
+    maxPerIp: parseIntWithValidation(
+      process.env.RATE_LIMIT_MAX_PER_IP,
+      DEFAULT_RATE_LIMIT_CONFIG.maxPerIp,
+      1,
+      1000,
+      'rateLimit.maxPerIp'
+    )
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Screening Configuration
+ *
+ * Local content rules applied to every submission before insert.
+ * Supports environment variable overrides for deployment flexibility.
+ */
+
+import type { ScreeningConfig, ScreeningRuleId, ScreeningAction } from '@/lib/screening/types'
+import { parseBooleanWithDefault, parseEnumWithValidation } from './env-parsing'
+
+/**
+ * Default Configuration
+ *
+ * Contact details and addresses are held rather than rejected: a
+ * memorial link or a childhood street can be legitimate grief, and a
+ * moderator can release them. Obvious spam is rejected outright;
+ * repetitive text is held, since grief repeats itself too.
+ * Text aimed at the embedding model is flagged: the encoder already
+ * ignores it, and a moderator can check what the message was after.
+ */
+export const DEFAULT_SCREENING_CONFIG: ScreeningConfig = {
+  enabled: true,
+
+  blocklist: [],
+
+  actions: {
+    blocklist: 'reject',
+    url: 'hold',
+    email: 'hold',
+    phone: 'hold',
+    repeated_characters: 'reject',
+    low_diversity: 'hold',
+    street_address: 'flag',
+    prompt_injection: 'flag'
+  },
+
+  spam: {
+    maxRepeatedCharacters: 10,
+    minDiversityLength: 20,
+    minDistinctCharacters: 6,
+    minDiversityWords: 12,
+    minWordDiversity: 0.25
+  }
+}
+
+const ACTIONS: readonly ScreeningAction[] = ['allow', 'flag', 'hold', 'reject']
+
+/**
+ * Load Screening Configuration
+ *
+ * @returns {ScreeningConfig} Validated configuration object
+ * @throws {Error} If any action override is invalid
+ *
+ * @example
+ * // .env.local
+ * SCREENING_BLOCKLIST=spamword,another phrase
+ * SCREENING_ACTION_URL=reject
+ */
+export function loadScreeningConfig(): ScreeningConfig {
+  const actions = { ...DEFAULT_SCREENING_CONFIG.actions }
+
+  for (const rule of Object.keys(actions) as ScreeningRuleId[]) {
+    actions[rule] = parseEnumWithValidation(
+      process.env[`SCREENING_ACTION_${rule.toUpperCase()}`],
+      ACTIONS,
+      actions[rule],
+      `screening.actions.${rule}`
+    )
+  }
+
+  return {
+    enabled: parseBooleanWithDefault(
+      process.env.SCREENING_ENABLED,
+      DEFAULT_SCREENING_CONFIG.enabled
+    ),
+
+    blocklist: (process.env.SCREENING_BLOCKLIST || '')
+      .split(',')
+      .map((term) => term.trim())
+      .filter((term) => term.length > 0),
+
+    actions,
+
+    spam: { ...DEFAULT_SCREENING_CONFIG.spam }
+  }
+}
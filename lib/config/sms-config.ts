@@ -0,0 +1,40 @@
+/**
+ * SMS Configuration
+ *
+ * Settings for the Twilio-compatible inbound webhook (/api/sms/inbound).
+ * The webhook is disabled until an auth token is configured.
+ */
+
+export interface SmsConfig {
+  /**
+   * Twilio auth token used to verify X-Twilio-Signature
+   * Unset disables the webhook (503).
+   */
+  authToken: string | null
+
+  /**
+   * Public webhook URL exactly as configured in Twilio
+   * Signatures cover the URL Twilio posted to; behind a proxy or tunnel
+   * the URL Next.js sees differs, so set this to the public one.
+   *
+   * @default null (use the request URL)
+   */
+  webhookUrl: string | null
+}
+
+/**
+ * Load SMS Configuration
+ *
+ * @returns {SmsConfig} Configuration object
+ *
+ * @example
+ * // .env.local
+ * TWILIO_AUTH_TOKEN=your_auth_token
+ * TWILIO_WEBHOOK_URL=https://requiary.example.org/api/sms/inbound
+ */
+export function loadSmsConfig(): SmsConfig {
+  return {
+    authToken: process.env.TWILIO_AUTH_TOKEN?.trim() || null,
+    webhookUrl: process.env.TWILIO_WEBHOOK_URL?.trim() || null
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Content Hashing
+ *
+ * Messages that differ only in case, spacing, curly quotes or trailing
+ * punctuation ("I miss you", "i miss you.") mean the same thing to the
+ * encoder. They share one normalized form and one hash, so the embedding
+ * cache (lib/services/embedding-cache.ts) pays for the vector once.
+ */
+
+import crypto from 'crypto'
+
+/**
+ * Normalize content for cache lookups
+ *
+ * NFKC, lowercase, straight quotes, single spaces, and no punctuation at
+ * either end. Punctuation inside the text is kept: "can't" and "cant"
+ * stay different.
+ *
+ * @param content - Message text
+ * @returns Normalized text (the trimmed text if nothing else is left)
+ *
+ * @example
+ * normalizeContent('  I miss you… ') // 'i miss you'
+ * normalizeContent('“Mom”')          // 'mom'
+ */
+export function normalizeContent(content: string): string {
+  const text = content
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  const stripped = text.replace(/^[\p{P}\s]+|[\p{P}\s]+$/gu, '')
+  return stripped.length > 0 ? stripped : text
+}
+
+/**
+ * Hash content for cache lookups
+ *
+ * @param content - Message text
+ * @returns SHA-256 hex digest of the normalized text
+ */
+export function contentHash(content: string): string {
+  return crypto.createHash('sha256').update(normalizeContent(content)).digest('hex')
+}
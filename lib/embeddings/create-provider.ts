@@ -0,0 +1,51 @@
+/**
+ * Embedding Provider Factory
+ */
+
+import { loadEmbeddingConfig, type EmbeddingConfig } from '@/lib/config/embedding-config'
+import { AnthropicEmbeddingProvider } from './anthropic-provider'
+import { OpenAICompatibleEmbeddingProvider } from './openai-provider'
+import { LocalEmbeddingProvider } from './local-provider'
+import type { EmbeddingProvider } from './types'
+
+/**
+ * Create Embedding Provider
+ *
+ * @param config - Embedding configuration
+ * @returns Provider for config.provider, with API keys read from the environment
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  const policy = { timeoutMs: config.timeoutMs, maxRetries: config.maxRetries }
+
+  switch (config.provider) {
+    case 'local':
+      return new LocalEmbeddingProvider()
+
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider({
+        baseUrl: config.openaiBaseUrl,
+        model: config.openaiModel,
+        apiKey: process.env.EMBEDDING_OPENAI_API_KEY || process.env.OPENAI_API_KEY,
+        policy
+      })
+
+    case 'anthropic':
+      return new AnthropicEmbeddingProvider({
+        apiKey: process.env.ANTHROPIC_API_KEY || '',
+        model: config.anthropicModel,
+        policy
+      })
+  }
+}
+
+/**
+ * Embedding provider from environment configuration
+ *
+ * Created on each call (construction is cheap) so configuration changes
+ * such as test environment overrides take effect immediately.
+ *
+ * @returns Configured provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return createEmbeddingProvider(loadEmbeddingConfig())
+}
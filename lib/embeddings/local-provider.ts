@@ -0,0 +1,133 @@
+/**
+ * Local Embedding Provider
+ *
+ * Deterministic, offline embeddings for development, CI and gallery
+ * installs without network access:
+ * 1. Normalize text (NFKC, lowercase) and split into words
+ * 2. Extract features: words, word pairs, and character trigrams
+ * 3. Project each feature onto a fixed pseudo-random direction
+ *    (seeded by the feature's hash) and sum, weighted by feature type
+ * 4. Scale to unit length
+ *
+ * Step 3 is a random projection of the hashed n-gram counts, so messages
+ * sharing words and word fragments point in similar directions. The
+ * same text always produces the same vector, on any machine.
+ */
+
+import { EMBEDDING_DIMENSIONS, HASHED_NGRAM_V1_SCHEMA } from './schema'
+import type { EmbeddingProvider } from './types'
+
+/**
+ * Feature weights: whole words carry most meaning; trigrams let related
+ * forms (mother/mothers, grieve/grieving) overlap
+ */
+const FEATURE_WEIGHTS = {
+  word: 1,
+  pair: 0.5,
+  trigram: 0.25
+}
+
+// Too common to say anything about a message
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from',
+  'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so',
+  'that', 'the', 'this', 'to', 'was', 'we', 'with'
+])
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Mulberry32 PRNG: a stream of floats in [0, 1) from a 32-bit seed
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Split text into normalized words (letters, digits, apostrophes; any script)
+ *
+ * @param content - Message text
+ * @returns Lowercased words
+ */
+export function tokenize(content: string): string[] {
+  return content.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu) || []
+}
+
+/**
+ * Weighted features of a message
+ *
+ * @param content - Message text
+ * @returns Feature key → summed weight
+ */
+export function extractFeatures(content: string): Map<string, number> {
+  const features = new Map<string, number>()
+  const add = (key: string, weight: number) => features.set(key, (features.get(key) || 0) + weight)
+
+  const words = tokenize(content).filter((word) => !STOP_WORDS.has(word))
+
+  words.forEach((word, i) => {
+    add(`w:${word}`, FEATURE_WEIGHTS.word)
+
+    if (i > 0) {
+      add(`p:${words[i - 1]} ${word}`, FEATURE_WEIGHTS.pair)
+    }
+
+    const padded = ` ${word} `
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`t:${padded.slice(j, j + 3)}`, FEATURE_WEIGHTS.trigram)
+    }
+  })
+
+  return features
+}
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'local:hashed-ngram-v1'
+  readonly schema = HASHED_NGRAM_V1_SCHEMA
+  private dimensions: number
+
+  constructor(dimensions: number = EMBEDDING_DIMENSIONS) {
+    this.dimensions = dimensions
+  }
+
+  async embed(content: string): Promise<number[]> {
+    return this.embedSync(content)
+  }
+
+  /**
+   * Synchronous form of embed() for batch and offline tools
+   */
+  embedSync(content: string): number[] {
+    const vector = new Array(this.dimensions).fill(0)
+
+    for (const [feature, weight] of extractFeatures(content)) {
+      const random = mulberry32(fnv1a(feature))
+      for (let d = 0; d < this.dimensions; d++) {
+        vector[d] += weight * (random() * 2 - 1)
+      }
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    if (magnitude === 0) {
+      return vector
+    }
+
+    return vector.map((value) => value / magnitude)
+  }
+}
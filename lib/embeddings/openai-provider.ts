@@ -0,0 +1,93 @@
+/**
+ * OpenAI-Compatible Embedding Provider
+ *
+ * Calls a `/embeddings` endpoint (OpenAI, Azure OpenAI, Ollama, vLLM,
+ * LM Studio ...) and requests EMBEDDING_DIMENSIONS dimensions directly.
+ * The model must support the `dimensions` parameter
+ * (e.g. text-embedding-3-small) or natively return that many.
+ */
+
+import { EMBEDDING_DIMENSIONS, latentSchema, type EmbeddingSchema } from './schema'
+import { validateEmbedding } from './parse-response'
+import {
+  DEFAULT_REQUEST_POLICY,
+  EmbeddingError,
+  fetchJson,
+  withRetries,
+  type RequestPolicy
+} from './request'
+import type { EmbeddingProvider, FetchLike } from './types'
+
+export interface OpenAICompatibleProviderOptions {
+  /** Base URL without the trailing /embeddings, e.g. https://api.openai.com/v1 */
+  baseUrl: string
+  model: string
+
+  /** Sent as a Bearer token when set (local servers often need none) */
+  apiKey?: string | null
+
+  /** Timeout and retries (defaults to DEFAULT_REQUEST_POLICY) */
+  policy?: Partial<RequestPolicy>
+
+  fetch?: FetchLike
+  sleep?: (ms: number) => Promise<void>
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string
+  readonly schema: EmbeddingSchema
+  private url: string
+  private model: string
+  private apiKey: string | null
+  private policy: RequestPolicy
+  private fetch: FetchLike
+  private sleep: ((ms: number) => Promise<void>) | undefined
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.id = `openai:${options.model}`
+    // Each model is its own latent space
+    this.schema = latentSchema(this.id)
+    this.url = `${options.baseUrl.replace(/\/+$/, '')}/embeddings`
+    this.model = options.model
+    this.apiKey = options.apiKey || null
+    this.policy = { ...DEFAULT_REQUEST_POLICY, ...options.policy }
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init))
+    this.sleep = options.sleep
+  }
+
+  async embed(content: string): Promise<number[]> {
+    return withRetries(() => this.attempt(content), this.policy, this.sleep)
+  }
+
+  private async attempt(content: string): Promise<number[]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`
+    }
+
+    const data = await fetchJson(this.fetch, this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        input: content,
+        dimensions: EMBEDDING_DIMENSIONS
+      })
+    }, this.policy.timeoutMs, 'Embeddings API')
+
+    const embedding = (data as { data?: Array<{ embedding?: unknown }> })?.data?.[0]?.embedding
+    if (embedding === undefined) {
+      throw new EmbeddingError('parse_error', 'Response has no data[0].embedding')
+    }
+
+    if (Array.isArray(embedding) && embedding.length !== EMBEDDING_DIMENSIONS) {
+      throw new EmbeddingError(
+        'range_error',
+        `Expected ${EMBEDDING_DIMENSIONS} values, got ${embedding.length} (does the model support "dimensions"?)`
+      )
+    }
+
+    // Unit-normalized by the API, but clamped in case a server returns raw values
+    return validateEmbedding(embedding)
+  }
+}
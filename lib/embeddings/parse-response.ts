@@ -0,0 +1,131 @@
+/**
+ * Embedding Response Parsing
+ *
+ * Model output is untrusted text: it may be wrapped in code fences,
+ * followed by prose, or hold values outside the schema. These helpers
+ * find the JSON in it and turn it into a vector the rest of the app can
+ * rely on, or fail with a reason.
+ */
+
+import { EMBEDDING_DIMENSIONS, clampToSchema, type EmbeddingSchema } from './schema'
+import { EmbeddingError } from './request'
+
+/**
+ * Find the end of the JSON array or object starting at `start`
+ * (bracket matching that skips over strings)
+ *
+ * @returns Index of the closing bracket, or -1 if it never closes
+ */
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0
+  let inString = false
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"') inString = true
+    else if (char === '[' || char === '{') depth++
+    else if (char === ']' || char === '}') {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+
+  return -1
+}
+
+/**
+ * Extract the first JSON array or object from model output
+ *
+ * Candidates are tried in order of their opening bracket, so prose such
+ * as "the values [below]" before the real payload is skipped.
+ *
+ * @param text - Raw model output
+ * @returns Parsed value
+ * @throws {EmbeddingError} parse_error if no candidate parses
+ *
+ * @example
+ * extractJson('```json\n[0.1, 0.2]\n```\nHope this helps!') // [0.1, 0.2]
+ */
+export function extractJson(text: string): unknown {
+  for (let start = 0; start < text.length; start++) {
+    if (text[start] !== '[' && text[start] !== '{') continue
+
+    const end = findClosingBracket(text, start)
+    if (end === -1) continue
+
+    try {
+      return JSON.parse(text.slice(start, end + 1))
+    } catch {
+      // Not JSON (e.g. "[sic]"); try the next bracket
+    }
+  }
+
+  throw new EmbeddingError('parse_error', 'No JSON array or object in response')
+}
+
+/**
+ * Validate and normalize a vector
+ *
+ * 1. Exactly EMBEDDING_DIMENSIONS entries
+ * 2. Every entry a finite number
+ * 3. Clamped to [-1, 1], then to each dimension's range (if a schema is given)
+ * 4. Not all zero (a zero vector has no direction to compare)
+ *
+ * @param value - Candidate vector
+ * @param schema - Schema with per-dimension ranges
+ * @returns Normalized vector
+ * @throws {EmbeddingError} parse_error if not an array, range_error otherwise
+ */
+export function validateEmbedding(value: unknown, schema?: EmbeddingSchema): number[] {
+  if (!Array.isArray(value)) {
+    throw new EmbeddingError('parse_error', 'Embedding is not an array')
+  }
+
+  if (value.length !== EMBEDDING_DIMENSIONS) {
+    throw new EmbeddingError('range_error', `Expected ${EMBEDDING_DIMENSIONS} values, got ${value.length}`)
+  }
+
+  if (!value.every((n) => typeof n === 'number' && Number.isFinite(n))) {
+    throw new EmbeddingError('range_error', 'Embedding contains non-finite or non-numeric values')
+  }
+
+  const clamped = (value as number[]).map((n) => Math.max(-1, Math.min(1, n)))
+  const embedding = schema ? clampToSchema(clamped, schema) : clamped
+
+  if (embedding.every((n) => n === 0)) {
+    throw new EmbeddingError('range_error', 'Embedding is a zero vector')
+  }
+
+  return embedding
+}
+
+/**
+ * Parse a rating response: a bare array, or an object with `dimensions`
+ *
+ * @param text - Raw model output
+ * @param schema - Schema the ratings belong to
+ * @returns Normalized vector and the parsed payload (for tags)
+ * @throws {EmbeddingError} parse_error or range_error
+ */
+export function parseRatingResponse(
+  text: string,
+  schema: EmbeddingSchema
+): { embedding: number[]; payload: unknown } {
+  const payload = extractJson(text)
+  const values = Array.isArray(payload)
+    ? payload
+    : (payload as Record<string, unknown>).dimensions
+
+  if (values === undefined) {
+    throw new EmbeddingError('parse_error', 'Response object has no "dimensions" array')
+  }
+
+  return { embedding: validateEmbedding(values, schema), payload }
+}
@@ -0,0 +1,155 @@
+/**
+ * Embedding Requests
+ *
+ * Shared failure reporting, timeout and retry policy for network
+ * providers. Every provider failure is an EmbeddingError with a reason,
+ * so logs and embedding_jobs.last_error say what went wrong:
+ * - http_error: non-2xx response (status kept)
+ * - network_error: the request never got a response
+ * - timeout: no response within the timeout
+ * - parse_error: the response held no usable vector
+ * - range_error: the vector had the wrong length, non-finite or all-zero values
+ * - suspicious_output: the vector looks steered by the message text
+ *   (lib/embeddings/manipulation.ts)
+ */
+
+import type { FetchLike } from './types'
+
+export type EmbeddingFailureReason =
+  | 'http_error'
+  | 'network_error'
+  | 'timeout'
+  | 'parse_error'
+  | 'range_error'
+  | 'suspicious_output'
+
+/**
+ * Embedding Error
+ *
+ * @example
+ * throw new EmbeddingError('parse_error', 'No JSON array in response')
+ * // message: 'parse_error: No JSON array in response'
+ */
+export class EmbeddingError extends Error {
+  readonly reason: EmbeddingFailureReason
+
+  /** HTTP status for http_error */
+  readonly status: number | null
+
+  constructor(reason: EmbeddingFailureReason, detail: string, status: number | null = null) {
+    super(`${reason}: ${detail}`)
+    this.name = 'EmbeddingError'
+    this.reason = reason
+    this.status = status
+  }
+
+  /**
+   * Transient failures worth another attempt: timeouts, dropped
+   * connections, rate limits and server errors. Bad output is not
+   * retried here (the job worker retries it later with backoff).
+   */
+  get retryable(): boolean {
+    if (this.reason === 'timeout' || this.reason === 'network_error') return true
+    if (this.reason !== 'http_error' || this.status === null) return false
+    return this.status === 408 || this.status === 429 || this.status >= 500
+  }
+}
+
+/**
+ * Timeout and retry policy for one embedding
+ */
+export interface RequestPolicy {
+  /** Per-attempt timeout (ms) */
+  timeoutMs: number
+
+  /** Extra attempts after a retryable failure */
+  maxRetries: number
+
+  /** Delay before the first retry (ms); doubles for each further retry */
+  retryDelayMs: number
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 15000,
+  maxRetries: 2,
+  retryDelayMs: 500
+}
+
+/**
+ * Fetch JSON with a timeout
+ *
+ * @param fetch - Fetch implementation
+ * @param url - Request URL
+ * @param init - Request options (signal is set here)
+ * @param timeoutMs - Abort after this long
+ * @param label - Service name for error details, e.g. 'Anthropic API'
+ * @returns Parsed response body
+ * @throws {EmbeddingError} http_error, network_error, timeout, or parse_error (body not JSON)
+ */
+export async function fetchJson(
+  fetch: FetchLike,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  label: string
+): Promise<unknown> {
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+
+  try {
+    let response: Response
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal })
+    } catch (error) {
+      if (timedOut) {
+        throw new EmbeddingError('timeout', `${label} did not respond within ${timeoutMs}ms`)
+      }
+      throw new EmbeddingError('network_error', `${label} request failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    if (!response.ok) {
+      throw new EmbeddingError('http_error', `${label} error: ${response.status}`, response.status)
+    }
+
+    try {
+      return await response.json()
+    } catch {
+      if (timedOut) {
+        throw new EmbeddingError('timeout', `${label} did not respond within ${timeoutMs}ms`)
+      }
+      throw new EmbeddingError('parse_error', `${label} returned a body that is not JSON`)
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Run an attempt, retrying retryable EmbeddingErrors with backoff
+ *
+ * @param attempt - One complete try (request and parse)
+ * @param policy - Retry policy
+ * @param sleep - Delay function (injectable for tests)
+ * @returns Result of the first successful attempt
+ * @throws {EmbeddingError} The last failure, once retries are exhausted or it is not retryable
+ */
+export async function withRetries<T>(
+  attempt: () => Promise<T>,
+  policy: Pick<RequestPolicy, 'maxRetries' | 'retryDelayMs'>,
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt()
+    } catch (error) {
+      const retryable = error instanceof EmbeddingError && error.retryable
+      if (!retryable || retry >= policy.maxRetries) throw error
+
+      await sleep(policy.retryDelayMs * 2 ** retry)
+    }
+  }
+}
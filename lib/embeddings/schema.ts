@@ -0,0 +1,175 @@
+/**
+ * Embedding Schemas
+ *
+ * Every stored vector carries `semantic_data.schema_version`, naming the
+ * schema that says what each of its dimensions means. Vectors are only
+ * compared with vectors of the same schema.
+ *
+ * - themes-v1: the original Claude prompt (10 numbers, no declared meaning).
+ *   Rows stored before versioning are read as themes-v1.
+ * - themes-v2: Claude rates the named dimensions below, message inline
+ *   in the prompt (a message could steer its own ratings)
+ * - themes-v3: the same dimensions, rated with the message isolated from
+ *   the instructions
+ * - themes-v4: the same dimensions, rated on meaning in any language, so
+ *   a Spanish and an English message about the same loss land together
+ *   (lib/embeddings/anthropic-provider.ts)
+ * - hashed-ngram-v1, openai:<model>: latent spaces without named
+ *   dimensions (local and embeddings-endpoint providers)
+ *
+ * Changing a prompt or dimension list means a new version here, then
+ * re-encoding old rows (scripts/backfill-embeddings.ts --upgrade).
+ */
+
+/**
+ * Number of dimensions in every stored embedding
+ */
+export const EMBEDDING_DIMENSIONS = 10
+
+/**
+ * One named dimension
+ */
+export interface SemanticDimension {
+  /** Stable identifier (snake_case) */
+  name: string
+
+  /** Value range; always within [-1, 1] */
+  range: readonly [number, number]
+
+  /** Meaning of the low end of the range */
+  low: string
+
+  /** Meaning of the high end of the range */
+  high: string
+}
+
+/**
+ * Embedding Schema
+ */
+export interface EmbeddingSchema {
+  /** Stored as semantic_data.schema_version */
+  version: string
+
+  /** One entry per vector position, in order */
+  dimensions: readonly SemanticDimension[]
+}
+
+/** Version assumed for rows stored before schema_version existed */
+export const LEGACY_SCHEMA_VERSION = 'themes-v1'
+
+/**
+ * Schema with unnamed latent dimensions
+ *
+ * @param version - Schema version, e.g. 'openai:text-embedding-3-small'
+ * @returns Schema whose dimensions are latent_1 ... latent_N in [-1, 1]
+ */
+export function latentSchema(version: string): EmbeddingSchema {
+  return {
+    version,
+    dimensions: Array.from({ length: EMBEDDING_DIMENSIONS }, (_, i) => ({
+      name: `latent_${i + 1}`,
+      range: [-1, 1] as const,
+      low: 'no declared meaning',
+      high: 'no declared meaning'
+    }))
+  }
+}
+
+export const THEMES_V1_SCHEMA: EmbeddingSchema = latentSchema(LEGACY_SCHEMA_VERSION)
+
+/**
+ * Named grief themes rated by Claude
+ *
+ * The first three dimensions also set sonification pitch
+ * (lib/audio/pitch-utils.ts).
+ */
+export const THEMES_V2_SCHEMA: EmbeddingSchema = {
+  version: 'themes-v2',
+  dimensions: [
+    { name: 'loss_type', range: [-1, 1], low: 'intangible loss (a future, an identity, a place)', high: 'loss of a person or animal' },
+    { name: 'emotional_tone', range: [-1, 1], low: 'despair, anguish', high: 'peace, gratitude, acceptance' },
+    { name: 'intensity', range: [0, 1], low: 'quiet, muted', high: 'raw, overwhelming' },
+    { name: 'temporal_orientation', range: [-1, 1], low: 'looking back (memories)', high: 'looking ahead (what will not be)' },
+    { name: 'recency', range: [-1, 1], low: 'long ago', high: 'happening now' },
+    { name: 'specificity', range: [-1, 1], low: 'abstract, general', high: 'concrete details' },
+    { name: 'scope', range: [-1, 1], low: 'intimately personal', high: 'universal, collective' },
+    { name: 'longing', range: [0, 1], low: 'no yearning', high: 'intense yearning' },
+    { name: 'guilt_regret', range: [0, 1], low: 'no regret', high: 'strong guilt or regret' },
+    { name: 'anger', range: [0, 1], low: 'no anger', high: 'strong anger' }
+  ]
+}
+
+/**
+ * THEMES_V2_SCHEMA's dimensions, rated by the injection-safe prompt
+ *
+ * A separate version so themes-v2 rows, which may have been steered by
+ * their own text, are never compared with these and are re-encoded by
+ * the upgrade backfill.
+ */
+export const THEMES_V3_SCHEMA: EmbeddingSchema = {
+  version: 'themes-v3',
+  dimensions: THEMES_V2_SCHEMA.dimensions
+}
+
+/**
+ * THEMES_V2_SCHEMA's dimensions, rated the same in every language
+ *
+ * The prompt tells Claude to rate meaning rather than wording in any
+ * language. themes-v3 ratings of non-English messages were not asked
+ * for that, so they are re-encoded rather than compared.
+ */
+export const THEMES_V4_SCHEMA: EmbeddingSchema = {
+  version: 'themes-v4',
+  dimensions: THEMES_V2_SCHEMA.dimensions
+}
+
+export const HASHED_NGRAM_V1_SCHEMA: EmbeddingSchema = latentSchema('hashed-ngram-v1')
+
+const KNOWN_SCHEMAS = [
+  THEMES_V1_SCHEMA,
+  THEMES_V2_SCHEMA,
+  THEMES_V3_SCHEMA,
+  THEMES_V4_SCHEMA,
+  HASHED_NGRAM_V1_SCHEMA
+]
+
+/**
+ * Look up a schema by version
+ *
+ * @param version - semantic_data.schema_version
+ * @returns Schema, latent for openai:<model>, or null if unknown
+ */
+export function getEmbeddingSchema(version: string): EmbeddingSchema | null {
+  const known = KNOWN_SCHEMAS.find((schema) => schema.version === version)
+  if (known) return known
+
+  return version.startsWith('openai:') ? latentSchema(version) : null
+}
+
+/**
+ * Clamp each value into its dimension's range
+ *
+ * @param embedding - Provider output, one value per dimension
+ * @param schema - Schema the values belong to
+ * @returns Values inside their declared ranges
+ */
+export function clampToSchema(embedding: number[], schema: EmbeddingSchema): number[] {
+  return embedding.map((value, i) => {
+    const [min, max] = schema.dimensions[i]?.range ?? [-1, 1]
+    return Math.max(min, Math.min(max, value))
+  })
+}
+
+/**
+ * Name each value of an embedding
+ *
+ * @param embedding - Vector in schema order
+ * @param schema - Schema the vector belongs to
+ * @returns Dimension name → value
+ *
+ * @example
+ * describeEmbedding(message.semantic_data.embedding, THEMES_V2_SCHEMA).emotional_tone
+ */
+export function describeEmbedding(embedding: number[], schema: EmbeddingSchema): Record<string, number> {
+  return Object.fromEntries(schema.dimensions.map((dimension, i) => [dimension.name, embedding[i]]))
+}
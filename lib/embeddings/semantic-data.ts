@@ -0,0 +1,99 @@
+/**
+ * Semantic Data
+ *
+ * Validation and comparison of stored semantic_data, with no runtime
+ * dependencies beyond the schema constants: used by browser code (the
+ * message pool, similarity index and types/grief-messages.ts) without
+ * pulling in the embedding providers.
+ */
+
+import type { SemanticData } from '@/types/database'
+import { EMBEDDING_DIMENSIONS, LEGACY_SCHEMA_VERSION } from './schema'
+
+/**
+ * Check that two embeddings can be compared
+ * Vectors from different schemas live in different spaces; comparing
+ * them gives a number with no meaning.
+ *
+ * @param a - First message's semantic data
+ * @param b - Second message's semantic data
+ * @returns True if both exist and share a schema version
+ */
+export function haveSameSchema(
+  a: Pick<SemanticData, 'schema_version'> | null | undefined,
+  b: Pick<SemanticData, 'schema_version'> | null | undefined
+): boolean {
+  if (!a || !b) return false
+  return (a.schema_version ?? LEGACY_SCHEMA_VERSION) === (b.schema_version ?? LEGACY_SCHEMA_VERSION)
+}
+
+/**
+ * Calculate cosine similarity between two embedding vectors
+ * Returns value between -1 (opposite) and 1 (identical)
+ *
+ * @param vec1 - First embedding vector
+ * @param vec2 - Second embedding vector
+ * @returns Cosine similarity score
+ */
+export function cosineSimilarity(vec1: number[], vec2: number[]): number {
+  if (vec1.length !== vec2.length) {
+    throw new Error('Vectors must have same length')
+  }
+
+  const dotProduct = vec1.reduce((sum, val, i) => sum + val * vec2[i], 0)
+  const mag1 = Math.sqrt(vec1.reduce((sum, val) => sum + val * val, 0))
+  const mag2 = Math.sqrt(vec2.reduce((sum, val) => sum + val * val, 0))
+
+  if (mag1 === 0 || mag2 === 0) return 0
+
+  return dotProduct / (mag1 * mag2)
+}
+
+/**
+ * Check that a value is a usable embedding vector
+ * (EMBEDDING_DIMENSIONS finite numbers)
+ *
+ * @param value - Candidate embedding
+ * @returns True if value can be used for similarity and pitch
+ */
+export function isEmbedding(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length === EMBEDDING_DIMENSIONS &&
+    value.every((n) => typeof n === 'number' && Number.isFinite(n))
+  )
+}
+
+/**
+ * Validate a semantic_data JSONB value read from the database
+ * Malformed payloads are treated as missing so callers fall back
+ * the same way they do for messages that were never embedded.
+ * Rows stored before schema versioning are read as LEGACY_SCHEMA_VERSION;
+ * rows stored before model stamps have no `model`.
+ *
+ * @param value - Raw semantic_data column value
+ * @returns Typed semantic data, or null if missing or malformed
+ *
+ * @example
+ * parseSemanticData({ embedding: [0.1, ...], generated_at: '2025-11-14T20:30:00Z', schema_version: 'themes-v2' })
+ * parseSemanticData({ embedding: 'oops' }) // null
+ */
+export function parseSemanticData(value: unknown): SemanticData | null {
+  if (typeof value !== 'object' || value === null) {
+    return null
+  }
+
+  const { embedding, generated_at, schema_version = LEGACY_SCHEMA_VERSION, model } = value as Record<string, unknown>
+
+  if (!isEmbedding(embedding) || typeof generated_at !== 'string' || typeof schema_version !== 'string') {
+    return null
+  }
+
+  if (model !== undefined && typeof model !== 'string') {
+    return null
+  }
+
+  return model === undefined
+    ? { embedding: [...embedding], generated_at, schema_version }
+    : { embedding: [...embedding], generated_at, schema_version, model }
+}
@@ -0,0 +1,212 @@
+/**
+ * Semantic Tags
+ *
+ * Interpretable categories stored next to the embedding
+ * (messages.semantic_tags): who was lost, what kind of loss, and the
+ * message's tone, each with a confidence.
+ *
+ * Providers that can tag (Claude) return tags with the embedding. For the
+ * others, and whenever a provider fails, the offline keyword tagger below
+ * fills in, so every stored message gets tags.
+ */
+
+import type {
+  SemanticTag,
+  SemanticTags,
+  TagLossKind,
+  TagRelationship,
+  TagTone
+} from '@/types/database'
+
+export const TAG_RELATIONSHIPS: readonly TagRelationship[] = [
+  'parent', 'grandparent', 'child', 'partner', 'sibling', 'friend', 'pet', 'self'
+]
+
+export const TAG_LOSS_KINDS: readonly TagLossKind[] = ['death', 'estrangement', 'illness', 'identity']
+
+export const TAG_TONES: readonly TagTone[] = [
+  'anguish', 'longing', 'anger', 'regret', 'numbness', 'gratitude', 'acceptance'
+]
+
+/** Tag categories and their allowed values */
+export const TAG_VOCABULARY = {
+  relationship: TAG_RELATIONSHIPS,
+  loss_kind: TAG_LOSS_KINDS,
+  tone: TAG_TONES
+} as const
+
+export type TagCategory = keyof typeof TAG_VOCABULARY
+
+/** Tag values without the tagger and timestamp (as returned by a provider) */
+export type SemanticTagValues = Pick<SemanticTags, TagCategory>
+
+export const KEYWORD_TAGGER_ID = 'keyword-v1'
+
+// Evidence for each value. Patterns are matched against lowercased text
+// on word boundaries; several hits for one value raise its confidence.
+const KEYWORDS: { [C in TagCategory]: Record<(typeof TAG_VOCABULARY)[C][number], RegExp[]> } = {
+  relationship: {
+    parent: [/\b(mother|mom|mum|mama|father|dad|papa|parents?)\b/g],
+    grandparent: [/\b(grandmother|grandma|granny|nana|grandfather|grandpa|grandparents?)\b/g],
+    child: [/\b(son|daughter|baby|child|children|kids?)\b/g],
+    partner: [/\b(husband|wife|partner|spouse|boyfriend|girlfriend|fianc[eé]e?)\b/g],
+    sibling: [/\b(brother|sister|siblings?|twin)\b/g],
+    friend: [/\b(friends?|best friend)\b/g],
+    pet: [/\b(dog|cat|pet|puppy|kitten|horse)\b/g],
+    self: [/\b(myself|who i was|the person i was|my (body|health|career|faith|home))\b/g]
+  },
+  loss_kind: {
+    death: [/\b(died|dead|death|passed( away)?|funeral|grave|buried|ashes|killed|suicide|lost (him|her|them))\b/g],
+    estrangement: [/\b(estranged|won'?t speak|doesn'?t speak|stopped (talking|speaking)|cut (me|us|them) off|divorce|left (me|us)|no contact|broke up)\b/g],
+    illness: [/\b(cancer|dementia|alzheimer'?s|diagnos(is|ed)|hospital|sick|illness|chemo|stroke|disease)\b/g],
+    identity: [/\b(who i was|the person i was|my (career|faith|body|home|future)|used to be|not the same)\b/g]
+  },
+  tone: {
+    anguish: [/\b(unbearable|can'?t breathe|broken|shattered|drowning|agony|hurts?|pain)\b/g],
+    longing: [/\b(miss(ing)?|wish|yearn(ing)?|if only|one more|reach for|still (set|call|hear|look))\b/g],
+    anger: [/\b(angry|anger|furious|rage|hate|unfair|why (did|would)|how could)\b/g],
+    regret: [/\b(sorry|regret|should have|shouldn'?t have|never (said|told)|guilt|guilty|forgive)\b/g],
+    numbness: [/\b(numb|nothing|empty|hollow|blank|can'?t feel)\b/g],
+    gratitude: [/\b(grateful|thank(ful| you)?|lucky|blessed|gift)\b/g],
+    acceptance: [/\b(peace|accept(ed|ance)?|healing|it'?s okay|let go|learning to)\b/g]
+  }
+}
+
+/**
+ * Pick the best-supported value of one category
+ *
+ * Confidence is hits / (all hits in the category + 1): one hit gives 0.5,
+ * more hits for the same value approach 1, competing values pull it down.
+ */
+function tagCategory<C extends TagCategory>(text: string, category: C): SemanticTag<(typeof TAG_VOCABULARY)[C][number]> | null {
+  const patterns = KEYWORDS[category] as Record<string, RegExp[]>
+  let best: { value: string; hits: number } | null = null
+  let total = 0
+
+  for (const [value, regexes] of Object.entries(patterns)) {
+    const hits = regexes.reduce((sum, regex) => sum + (text.match(regex)?.length ?? 0), 0)
+    total += hits
+    if (hits > 0 && (!best || hits > best.hits)) {
+      best = { value, hits }
+    }
+  }
+
+  if (!best) return null
+
+  return {
+    value: best.value as (typeof TAG_VOCABULARY)[C][number],
+    confidence: Math.round((best.hits / (total + 1)) * 100) / 100
+  }
+}
+
+/**
+ * Tag a message from keywords
+ *
+ * Deterministic and offline; used when the provider cannot tag.
+ *
+ * @param content - Message text
+ * @returns One tag (or null) per category
+ *
+ * @example
+ * keywordTags('I still set two cups out. Mom died in March.')
+ * // { relationship: { value: 'parent', confidence: 0.5 },
+ * //   loss_kind: { value: 'death', confidence: 0.5 },
+ * //   tone: { value: 'longing', confidence: 0.5 } }
+ */
+export function keywordTags(content: string): SemanticTagValues {
+  const text = content.normalize('NFKC').toLowerCase().replace(/[’‘]/g, "'")
+
+  return {
+    relationship: tagCategory(text, 'relationship'),
+    loss_kind: tagCategory(text, 'loss_kind'),
+    tone: tagCategory(text, 'tone')
+  }
+}
+
+/**
+ * Keyword tags ready to store
+ *
+ * @param content - Message text
+ * @param generatedAt - ISO timestamp
+ * @returns semantic_tags value from the keyword tagger
+ */
+export function tagWithKeywords(content: string, generatedAt: string): SemanticTags {
+  return { ...keywordTags(content), tagger: KEYWORD_TAGGER_ID, generated_at: generatedAt }
+}
+
+/**
+ * Validate one category's tag
+ */
+function parseTag<C extends TagCategory>(value: unknown, category: C): SemanticTag<(typeof TAG_VOCABULARY)[C][number]> | null {
+  if (typeof value !== 'object' || value === null) return null
+
+  const { value: tag, confidence } = value as Record<string, unknown>
+  const allowed: readonly string[] = TAG_VOCABULARY[category]
+
+  if (typeof tag !== 'string' || !allowed.includes(tag)) return null
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence)) return null
+
+  return {
+    value: tag as (typeof TAG_VOCABULARY)[C][number],
+    confidence: Math.max(0, Math.min(1, confidence))
+  }
+}
+
+/**
+ * Validate tag values from an untrusted source (provider output)
+ * Unknown values and malformed entries become null, category by category.
+ *
+ * @param value - Object with relationship, loss_kind and tone entries
+ * @returns Tag values, or null if value is not an object
+ */
+export function parseTagValues(value: unknown): SemanticTagValues | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return null
+  }
+
+  const row = value as Record<string, unknown>
+
+  return {
+    relationship: parseTag(row.relationship, 'relationship'),
+    loss_kind: parseTag(row.loss_kind, 'loss_kind'),
+    tone: parseTag(row.tone, 'tone')
+  }
+}
+
+/**
+ * Validate a semantic_tags JSONB value read from the database
+ *
+ * @param value - Raw semantic_tags column value
+ * @returns Typed tags, or null if missing or malformed
+ */
+export function parseSemanticTags(value: unknown): SemanticTags | null {
+  const values = parseTagValues(value)
+  if (!values) return null
+
+  const { tagger, generated_at } = value as Record<string, unknown>
+  if (typeof tagger !== 'string' || typeof generated_at !== 'string') {
+    return null
+  }
+
+  return { ...values, tagger, generated_at }
+}
+
+/**
+ * Read one tag if the tagger was confident enough
+ *
+ * @param tags - Message's semantic tags
+ * @param category - Tag category
+ * @param minConfidence - Lowest confidence accepted (default 0.5)
+ * @returns Tag value, or null
+ *
+ * @example
+ * if (getTag(message.semantic_tags, 'relationship') === 'pet') { ... }
+ */
+export function getTag<C extends TagCategory>(
+  tags: SemanticTags | null | undefined,
+  category: C,
+  minConfidence = 0.5
+): (typeof TAG_VOCABULARY)[C][number] | null {
+  const tag = tags?.[category]
+  return tag && tag.confidence >= minConfidence ? tag.value : null
+}
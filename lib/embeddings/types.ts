@@ -0,0 +1,61 @@
+/**
+ * Type definitions for embedding providers
+ */
+
+import type { EmbeddingSchema } from './schema'
+import type { SemanticTagValues } from './tags'
+
+/**
+ * Embedding plus semantic tags from one provider call
+ */
+export interface Encoding {
+  embedding: number[]
+
+  /** Null when the provider returned no usable tags */
+  tags: SemanticTagValues | null
+}
+
+/**
+ * Embedding Provider
+ *
+ * Turns message content into an EMBEDDING_DIMENSIONS vector with values
+ * in [-1, 1]. Providers throw on failure (with a message fit for job
+ * logs); getSemanticEmbedding converts failures to null.
+ *
+ * Embeddings are only comparable within one schema (stored as
+ * semantic_data.schema_version): switching provider or schema means
+ * re-embedding existing messages.
+ */
+export interface EmbeddingProvider {
+  /** Provider and model, e.g. 'local:hashed-ngram', 'openai:text-embedding-3-small' */
+  readonly id: string
+
+  /** What each vector position means; its version is stored with every embedding */
+  readonly schema: EmbeddingSchema
+
+  /**
+   * Embed one message
+   *
+   * @param content - Message text
+   * @returns Embedding vector
+   * @throws {Error} If the provider fails or returns an invalid vector
+   */
+  embed(content: string): Promise<number[]>
+
+  /**
+   * Embed and tag in one call (providers that can tag; others are tagged
+   * by keywords)
+   *
+   * @param content - Message text
+   * @returns Embedding and tags
+   * @throws {Error} As embed
+   */
+  encode?(content: string): Promise<Encoding>
+}
+
+export type EmbeddingProviderName = 'anthropic' | 'openai' | 'local'
+
+/**
+ * Fetch signature used by network providers (injectable for tests)
+ */
+export type FetchLike = (input: string, init: RequestInit) => Promise<Response>
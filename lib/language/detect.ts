@@ -0,0 +1,147 @@
+/**
+ * Language Detection
+ *
+ * Names the language a message is written in, at submission time
+ * (messages.language). Local and deterministic, like screening: the
+ * writing system decides most languages outright, and Latin-script
+ * messages are told apart by their common short words.
+ *
+ * Messages are short, so the answer is often 'und' (undetermined):
+ * "Mom." or a name and two dates say nothing about their language.
+ */
+
+/** ISO 639-2 code for a language that could not be determined */
+export const UNDETERMINED_LANGUAGE = 'und'
+
+/**
+ * Writing systems with their own language
+ * Japanese is written in Han and kana, so any kana makes the Han count
+ * as Japanese rather than Chinese.
+ */
+const SCRIPT_LANGUAGES: ReadonlyArray<{
+  pattern: RegExp
+  requires?: RegExp
+  language: (text: string) => string
+}> = [
+  {
+    pattern: /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/gu,
+    requires: /[\p{Script=Hiragana}\p{Script=Katakana}]/u,
+    language: () => 'ja'
+  },
+  { pattern: /\p{Script=Hangul}/gu, language: () => 'ko' },
+  { pattern: /\p{Script=Han}/gu, language: () => 'zh' },
+  { pattern: /\p{Script=Arabic}/gu, language: (text) => /[ٹڈڑںھے]/u.test(text) ? 'ur' : /[پچژگ]/u.test(text) ? 'fa' : 'ar' },
+  { pattern: /\p{Script=Hebrew}/gu, language: () => 'he' },
+  { pattern: /\p{Script=Cyrillic}/gu, language: (text) => /[іїєґ]/iu.test(text) ? 'uk' : 'ru' },
+  { pattern: /\p{Script=Greek}/gu, language: () => 'el' },
+  { pattern: /\p{Script=Thai}/gu, language: () => 'th' },
+  { pattern: /\p{Script=Devanagari}/gu, language: () => 'hi' }
+]
+
+/**
+ * Frequent short words per Latin-script language
+ * Words shared by several languages count for each, split between them.
+ */
+const LATIN_WORDS: Record<string, readonly string[]> = {
+  en: ['the', 'and', 'i', 'you', 'my', 'me', 'is', 'was', 'of', 'to', 'in', 'it', 'that', 'for', 'with', 'your', 'we', 'miss', 'never', 'still', 'every', 'wish', 'love', 'what', 'are', 'have', 'had', 'not'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una', 'mi', 'mis', 'tu', 'te', 'me', 'yo', 'es', 'fue', 'por', 'para', 'con', 'sin', 'no', 'lo', 'nunca', 'siempre', 'todos', 'todavía', 'aún', 'cada', 'pero', 'cuando', 'extraño'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'du', 'et', 'que', 'qui', 'un', 'une', 'je', 'tu', 'il', 'elle', 'mon', 'ma', 'mes', 'ton', 'ta', 'me', 'te', 'est', 'pas', 'ne', 'pour', 'avec', 'sans', 'jamais', 'toujours', 'chaque', 'mais', 'quand'],
+  de: ['der', 'die', 'das', 'und', 'ich', 'du', 'mein', 'meine', 'meinen', 'dich', 'mich', 'ist', 'war', 'nicht', 'ein', 'eine', 'mit', 'für', 'ohne', 'nie', 'immer', 'jeden', 'aber', 'wenn', 'noch', 'vermisse'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'do', 'da', 'que', 'e', 'em', 'um', 'uma', 'meu', 'minha', 'eu', 'você', 'te', 'é', 'foi', 'não', 'para', 'com', 'sem', 'nunca', 'sempre', 'cada', 'mas', 'quando', 'ainda', 'saudade'],
+  it: ['il', 'lo', 'la', 'gli', 'le', 'di', 'che', 'e', 'un', 'una', 'mio', 'mia', 'miei', 'mi', 'ti', 'io', 'tu', 'è', 'era', 'non', 'per', 'con', 'senza', 'mai', 'sempre', 'ogni', 'ma', 'quando', 'ancora', 'manchi'],
+  nl: ['de', 'het', 'een', 'en', 'ik', 'je', 'jij', 'mijn', 'mij', 'is', 'was', 'niet', 'van', 'voor', 'met', 'zonder', 'nooit', 'altijd', 'elke', 'maar', 'als', 'nog', 'mis']
+}
+
+/**
+ * Letters that only a few Latin-script languages use, worth one word each
+ */
+const LATIN_LETTERS: ReadonlyArray<{ pattern: RegExp; languages: readonly string[] }> = [
+  { pattern: /[ñ¿¡]/iu, languages: ['es'] },
+  { pattern: /[ãõ]/iu, languages: ['pt'] },
+  { pattern: /ß/u, languages: ['de'] },
+  { pattern: /[äöü]/iu, languages: ['de', 'nl'] },
+  { pattern: /[œèêëù]/iu, languages: ['fr'] },
+  { pattern: /[ìò]/iu, languages: ['it'] }
+]
+
+const WORD_WEIGHTS: Map<string, Map<string, number>> = (() => {
+  const weights = new Map<string, Map<string, number>>()
+  for (const [language, words] of Object.entries(LATIN_WORDS)) {
+    for (const word of new Set(words)) {
+      const entry = weights.get(word) ?? new Map<string, number>()
+      entry.set(language, 1)
+      weights.set(word, entry)
+    }
+  }
+  for (const entry of weights.values()) {
+    for (const language of entry.keys()) entry.set(language, 1 / entry.size)
+  }
+  return weights
+})()
+
+/**
+ * Count matches of a global pattern
+ */
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0
+}
+
+/**
+ * Latin-script language by common words and distinctive letters
+ * Needs a clear winner; a tie is undetermined.
+ */
+function detectLatinLanguage(text: string): string {
+  const scores = new Map<string, number>()
+  const add = (language: string, score: number) => scores.set(language, (scores.get(language) ?? 0) + score)
+
+  const words = text.toLowerCase().match(/\p{L}+(?:['’]\p{L}+)*/gu) ?? []
+  for (const word of words) {
+    // "l'amour", "j'ai": score the part before the apostrophe
+    const weights = WORD_WEIGHTS.get(word) ?? WORD_WEIGHTS.get(word.split(/['’]/)[0])
+    weights?.forEach((weight, language) => add(language, weight))
+  }
+
+  for (const { pattern, languages } of LATIN_LETTERS) {
+    if (pattern.test(text)) languages.forEach((language) => add(language, 1 / languages.length))
+  }
+
+  const [best, second] = [...scores.entries()].sort((a, b) => b[1] - a[1])
+  if (!best || best[1] < 1 || (second && second[1] === best[1])) {
+    return UNDETERMINED_LANGUAGE
+  }
+
+  return best[0]
+}
+
+/**
+ * Detect a message's language
+ *
+ * The writing system with the most letters decides; Latin script goes
+ * on to a word count.
+ *
+ * @param content - Message text
+ * @returns ISO 639-1 code (e.g. 'en', 'es', 'ja', 'ar'), or 'und'
+ *
+ * @example
+ * detectLanguage('I miss my mother every day')      // 'en'
+ * detectLanguage('Extraño a mi madre todos los días') // 'es'
+ * detectLanguage('お母さん、会いたい')                  // 'ja'
+ * detectLanguage('Mom.')                              // 'und'
+ */
+export function detectLanguage(content: string): string {
+  const latin = countMatches(content, /\p{Script=Latin}/gu)
+
+  let best: { count: number; language: (text: string) => string } | null = null
+  for (const { pattern, requires, language } of SCRIPT_LANGUAGES) {
+    if (requires && !requires.test(content)) continue
+
+    const count = countMatches(content, pattern)
+    if (count > (best?.count ?? 0)) best = { count, language }
+  }
+
+  if (best && best.count >= latin) {
+    return best.language(content)
+  }
+
+  return latin > 0 ? detectLatinLanguage(content) : UNDETERMINED_LANGUAGE
+}
@@ -0,0 +1,98 @@
+/**
+ * Text Metrics
+ *
+ * Script-aware measurements for laying out messages without a DOM
+ * (lib/message-positioning.ts) and for counting characters the way
+ * Postgres does (the 280-character limit).
+ *
+ * Widths are in ems of the installation's display font: most scripts
+ * average about half an em per character, while Chinese, Japanese and
+ * Korean characters and emoji are a full em. Combining marks (Hebrew
+ * and Arabic vowel points, Devanagari and Thai vowel signs) belong to
+ * the character before them and add no width.
+ */
+
+export type TextDirection = 'ltr' | 'rtl'
+
+/** Average width of a proportional character, in ems */
+export const NARROW_CHARACTER_EM = 0.52
+
+/** Width of a full-width (CJK, emoji) character, in ems */
+export const WIDE_CHARACTER_EM = 1
+
+/**
+ * East Asian wide and full-width characters, and emoji
+ */
+const WIDE_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Extended_Pictographic}　-〿！-｠￠-￦]/u
+
+/**
+ * Characters with no width of their own
+ */
+const ZERO_WIDTH_PATTERN = /^[\p{M}\p{Cf}]+$/u
+
+/**
+ * Right-to-left letters (Hebrew, Arabic, Syriac, Thaana, N'Ko)
+ */
+const RTL_PATTERN = /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u
+
+/**
+ * Split text into user-perceived characters
+ * Falls back to code points, with combining marks attached, where
+ * Intl.Segmenter is missing.
+ */
+function graphemes(text: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    return Array.from(segmenter.segment(text), ({ segment }) => segment)
+  }
+
+  return text.match(/\P{M}\p{M}*|\p{M}+/gu) ?? []
+}
+
+/**
+ * Count characters as Postgres char_length() does (code points)
+ * String length counts UTF-16 units, so an emoji or a rare Han
+ * character would count twice.
+ *
+ * @param text - Any text
+ * @returns Number of code points
+ *
+ * @example
+ * countCharacters('mamá') // 4
+ * countCharacters('🕯️')   // 2 (candle + variation selector)
+ */
+export function countCharacters(text: string): number {
+  return Array.from(text).length
+}
+
+/**
+ * Estimate the rendered width of text on one line
+ *
+ * @param text - Any text
+ * @returns Width in ems of the display font
+ *
+ * @example
+ * measureTextWidth('I miss you') // 5.2
+ * measureTextWidth('想你')        // 2
+ */
+export function measureTextWidth(text: string): number {
+  let width = 0
+  for (const grapheme of graphemes(text)) {
+    if (ZERO_WIDTH_PATTERN.test(grapheme)) continue
+    width += WIDE_PATTERN.test(grapheme) ? WIDE_CHARACTER_EM : NARROW_CHARACTER_EM
+  }
+  return width
+}
+
+/**
+ * Base direction of text, from its first letter
+ * As with dir="auto": the first strong character decides, so a Hebrew
+ * message quoting an English name is still right-to-left.
+ *
+ * @param text - Any text
+ * @returns 'rtl' if the first letter is Hebrew, Arabic or similar
+ */
+export function detectTextDirection(text: string): TextDirection {
+  const firstLetter = text.match(/\p{L}/u)?.[0]
+  return firstLetter !== undefined && RTL_PATTERN.test(firstLetter) ? 'rtl' : 'ltr'
+}
@@ -6,8 +6,11 @@
  * - Focus and Next treated identically for size
  * - Stricter collision detection with logging
  * - Support for position persistence (caching)
+ * - Script-aware sizing (CJK, RTL) via lib/language/text-metrics.ts
  */
 
+import { detectTextDirection, measureTextWidth, type TextDirection } from '@/lib/language/text-metrics'
+
 export interface ParticleInfo {
   id: string
   x: number
@@ -46,6 +49,7 @@ export interface PlacedMessage {
   height: number
   quadrant: Quadrant
   textAlign: 'left' | 'right'  // Right-align when message is left of particle
+  direction: TextDirection     // Base direction for the dir attribute (Hebrew, Arabic are 'rtl')
 }
 
 type Quadrant = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
@@ -105,6 +109,7 @@ function getScreenPadding(screenWidth: number): typeof CONFIG.screenPadding {
  * Estimate message dimensions - Focus and Next are IDENTICAL sizes
  * Updated for tighter lineHeight (1.15)
  * Mobile gets smaller max width to avoid overflow
+ * Width is measured per script: CJK characters are twice as wide as Latin
  */
 function estimateMessageDimensions(content: string, isFocusOrNext: boolean, screenWidth?: number): { width: number; height: number } {
   // Focus and Next use same sizing
@@ -116,10 +121,10 @@ function estimateMessageDimensions(content: string, isFocusOrNext: boolean, scre
   const maxWidth = isMobile ? 280 : CONFIG.maxWidth
   const minWidth = isMobile ? 140 : CONFIG.minWidth
   
-  const rawWidth = content.length * charWidth * 0.52
+  // charWidth is the font size; text width is in ems of it
+  const rawWidth = measureTextWidth(content) * charWidth
   const width = Math.min(maxWidth, Math.max(minWidth, rawWidth))
-  const charsPerLine = width / (charWidth * 0.52)
-  const numLines = Math.ceil(content.length / charsPerLine)
+  const numLines = Math.ceil(rawWidth / width)
   const height = numLines * lineHeight + CONFIG.textPadding * 2
   
   return { width, height }
@@ -480,7 +485,8 @@ export function positionMessages(
           width: dims.width,
           height: dims.height,
           quadrant,
-          textAlign
+          textAlign,
+          direction: detectTextDirection(msg.content)
         }
         
         // If no collision at all, this is clean
@@ -5,14 +5,17 @@
 
 import { Vector2D, ControlPoint, ConnectionLinePhysics } from '@/lib/types/spring-physics'
 import { SpringPhysicsConfig } from '@/lib/config/spring-physics-config'
+import type { RandomSource } from '@/lib/utils/random'
 
 /**
  * Initialize physics properties for a connection line
+ * Slack and initial velocities are random (from `random`, seeded for replays).
  */
 export function initializeConnectionPhysics(
   fromParticle: { x: number; y: number },
   toParticle: { x: number; y: number },
-  config: SpringPhysicsConfig
+  config: SpringPhysicsConfig,
+  random: RandomSource = Math.random
 ): ConnectionLinePhysics {
   // Calculate line geometry
   const dx = toParticle.x - fromParticle.x
@@ -60,8 +63,8 @@ export function initializeConnectionPhysics(
     // === NATURAL SLACK/CURVATURE ===
     // Each line has inherent looseness - control points rest at curved position, not straight
     // Random direction (+ or -) and magnitude variation for organic feel
-    const slackDirection = Math.random() < 0.5 ? -1 : 1  // Random side
-    const slackVariation = 0.8 + Math.random() * 0.4     // 80-120% of base slack
+    const slackDirection = random() < 0.5 ? -1 : 1  // Random side
+    const slackVariation = 0.8 + random() * 0.4     // 80-120% of base slack
     const perpHomeOffset = baseSlack * slackDirection * slackVariation
 
     // === GENTLE INITIALIZATION ===
@@ -69,10 +72,10 @@ export function initializeConnectionPhysics(
     // Perpendicular velocity: small but present (creates lateral billowing)
     // Parametric velocity: near-zero (prevents longitudinal sliding)
     const initialPerpOffset = perpHomeOffset  // Start exactly at home (no perturbation)
-    const initialPerpVelocity = (Math.random() - 0.5) * 1.0  // ±0.5 - enough for breathing motion
+    const initialPerpVelocity = (random() - 0.5) * 1.0  // ±0.5 - enough for breathing motion
     
     const initialTOffset = 0  // Start exactly at tHome
-    const initialTVelocity = (Math.random() - 0.5) * 0.1  // ±0.05 - TINY parametric velocity (locked)
+    const initialTVelocity = (random() - 0.5) * 0.1  // ±0.05 - TINY parametric velocity (locked)
 
     return {
       t: tHome + initialTOffset,  // Start at exact home position
@@ -0,0 +1,84 @@
+/**
+ * Content Screening Pipeline
+ *
+ * Runs every screening rule and reduces the matches to one action.
+ * The most severe action wins (allow < flag < hold < reject).
+ */
+
+import { runRules } from './rules'
+import {
+  SCREENING_SEVERITY,
+  type RuleMatch,
+  type ScreeningAction,
+  type ScreeningConfig,
+  type ScreeningResult,
+  type ScreeningRuleId
+} from './types'
+
+/**
+ * Gentle explanations shown to a submitter when a rule rejects.
+ * Never echo the matched text back.
+ */
+const REJECTION_MESSAGES: Record<ScreeningRuleId, string> = {
+  blocklist: 'Some of the words in this message can\'t be shared in this space. Please try again in your own words.',
+  url: 'Links can\'t be shared in the constellation. Please remove any web addresses and try again.',
+  email: 'For everyone\'s privacy, please remove email addresses and try again.',
+  phone: 'For everyone\'s privacy, please remove phone numbers and try again.',
+  repeated_characters: 'This message looks like it may not have come through as intended. Please try sharing it again in your own words.',
+  low_diversity: 'This message looks like it may not have come through as intended. Please try sharing it again in your own words.',
+  street_address: 'For everyone\'s privacy, please remove addresses and other identifying details and try again.',
+  prompt_injection: 'This message looks like it may not have come through as intended. Please try sharing it again in your own words.'
+}
+
+/**
+ * Screen Content
+ *
+ * @param content - Trimmed submission text
+ * @param config - Screening configuration
+ * @returns Aggregate action, all matches, and a user message if rejected
+ *
+ * @example
+ * const result = screenContent('call me 555-123-4567', config)
+ * result.action // 'hold'
+ */
+export function screenContent(content: string, config: ScreeningConfig): ScreeningResult {
+  if (!config.enabled) {
+    return { action: 'allow', matches: [] }
+  }
+
+  const matches = runRules(content, config).filter((m) => m.action !== 'allow')
+  const action = mostSevere(matches)
+
+  if (action !== 'reject') {
+    return { action, matches }
+  }
+
+  const rejecting = matches.find((m) => m.action === 'reject')!
+
+  return {
+    action,
+    matches,
+    userMessage: REJECTION_MESSAGES[rejecting.rule]
+  }
+}
+
+/**
+ * Most severe action across matches ('allow' if none)
+ */
+export function mostSevere(matches: RuleMatch[]): ScreeningAction {
+  return matches.reduce<ScreeningAction>(
+    (worst, m) => (SCREENING_SEVERITY[m.action] > SCREENING_SEVERITY[worst] ? m.action : worst),
+    'allow'
+  )
+}
+
+/**
+ * Summarize matches for moderator_notes
+ *
+ * @example
+ * describeMatches(matches) // 'screening hold: phone, street_address'
+ */
+export function describeMatches(result: ScreeningResult): string {
+  const rules = Array.from(new Set(result.matches.map((m) => m.rule)))
+  return `screening ${result.action}: ${rules.join(', ')}`
+}
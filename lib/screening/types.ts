@@ -0,0 +1,73 @@
+/**
+ * Type definitions for submission content screening
+ */
+
+/**
+ * Screening outcome, ordered from least to most severe
+ *
+ * - allow:  public per moderation config
+ * - flag:   stored and public, but flagged=true for moderator review
+ * - hold:   stored with approved=false until a moderator approves
+ * - reject: not stored; submitter sees a gentle explanation
+ */
+export type ScreeningAction = 'allow' | 'flag' | 'hold' | 'reject'
+
+export const SCREENING_SEVERITY: Record<ScreeningAction, number> = {
+  allow: 0,
+  flag: 1,
+  hold: 2,
+  reject: 3
+}
+
+export type ScreeningRuleId =
+  | 'blocklist'
+  | 'url'
+  | 'email'
+  | 'phone'
+  | 'repeated_characters'
+  | 'low_diversity'
+  | 'street_address'
+  | 'prompt_injection'
+
+/**
+ * Single rule hit
+ */
+export interface RuleMatch {
+  rule: ScreeningRuleId
+  action: ScreeningAction
+  /** Matched text fragments (for moderator notes, never shown to submitter) */
+  evidence: string[]
+}
+
+/**
+ * Screening rule
+ * Pure function: content in, matches out. Empty array = no match.
+ */
+export type ScreeningRule = (content: string, config: ScreeningConfig) => RuleMatch[]
+
+export interface ScreeningConfig {
+  enabled: boolean                            // default true
+
+  blocklist: string[]                         // Words/phrases, case-insensitive, whole-word
+
+  actions: Record<ScreeningRuleId, ScreeningAction>
+
+  spam: {
+    maxRepeatedCharacters: number             // Longest allowed run of one symbol, default 10
+    minDiversityLength: number                // Only check diversity at this length+, default 20
+    minDistinctCharacters: number             // Fewer distinct chars than this is mashing, default 6
+    minDiversityWords: number                 // Only check word repetition at this many words+, default 12
+    minWordDiversity: number                  // Distinct words / words, default 0.25
+  }
+}
+
+/**
+ * Aggregate result for one submission
+ */
+export interface ScreeningResult {
+  /** Most severe action across all matches */
+  action: ScreeningAction
+  matches: RuleMatch[]
+  /** Gentle explanation for the submitter (only set when rejected) */
+  userMessage?: string
+}
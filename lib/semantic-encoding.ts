@@ -1,60 +1,42 @@
 /**
  * Semantic Encoding Module
  *
- * Generates semantic embeddings for grief messages using Anthropic's Claude API.
+ * Generates semantic embeddings for grief messages through a pluggable
+ * provider (Claude, an OpenAI-compatible endpoint, or a local offline model).
  * Embeddings represent semantic themes like loss type, emotional tone, etc.
+ * Each message is also tagged (relationship, loss kind, tone) for code
+ * that needs explicit categories rather than vector distances.
  */
 
+import type { SemanticData, SemanticTags } from '@/types/database'
+import { getEmbeddingProvider } from '@/lib/embeddings/create-provider'
+import type { EmbeddingProvider, Encoding } from '@/lib/embeddings/types'
+import { tagWithKeywords } from '@/lib/embeddings/tags'
+import { assertNotManipulated } from '@/lib/embeddings/manipulation'
+import { EMBEDDING_DIMENSIONS } from '@/lib/embeddings/schema'
+
+export { EMBEDDING_DIMENSIONS }
+export {
+  cosineSimilarity,
+  haveSameSchema,
+  isEmbedding,
+  parseSemanticData
+} from '@/lib/embeddings/semantic-data'
+
 /**
  * Generate semantic embedding vector for grief message content
  * Returns 10-dimensional vector representing semantic themes
  *
+ * Uses the configured EmbeddingProvider (EMBEDDING_PROVIDER, see
+ * lib/embeddings). Failures are logged and reported as null so a
+ * message is never lost for want of an embedding.
+ *
  * @param content - The grief message text
  * @returns Array of 10 numbers between -1.0 and 1.0, or null if generation fails
  */
 export async function getSemanticEmbedding(content: string): Promise<number[] | null> {
   try {
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": process.env.ANTHROPIC_API_KEY || "",
-        "anthropic-version": "2023-06-01"
-      },
-      body: JSON.stringify({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 500,
-        messages: [{
-          role: "user",
-          content: `Generate a semantic embedding vector for this grief expression.
-          Consider themes of: loss type, emotional tone, temporal relationship,
-          specific vs abstract, personal vs universal.
-
-          Message: "${content}"
-
-          Return ONLY a JSON array of 10 numbers between -1.0 and 1.0 representing
-          semantic dimensions. No explanation.
-
-          Example format: [-0.8, 0.3, 0.7, -0.2, 0.9, -0.5, 0.1, 0.6, -0.4, 0.8]`
-        }]
-      })
-    })
-
-    if (!response.ok) {
-      console.error(`Anthropic API error: ${response.status}`)
-      return null
-    }
-
-    const data = await response.json()
-    const embedding = JSON.parse(data.content[0].text.trim())
-
-    // Validate embedding format
-    if (!Array.isArray(embedding) || embedding.length !== 10) {
-      console.error('Invalid embedding format')
-      return null
-    }
-
-    return embedding
+    return assertNotManipulated(await getEmbeddingProvider().embed(content))
   } catch (error) {
     console.error('Semantic encoding error:', error)
     return null
@@ -62,23 +44,78 @@ export async function getSemanticEmbedding(content: string): Promise<number[] |
 }
 
 /**
- * Calculate cosine similarity between two embedding vectors
- * Returns value between -1 (opposite) and 1 (identical)
+ * Columns written when a message is encoded
+ */
+export interface MessageEncoding {
+  semantic_data: SemanticData | null
+  semantic_tags: SemanticTags
+}
+
+/**
+ * Embed (and, where the provider supports it, tag) content
  *
- * @param vec1 - First embedding vector
- * @param vec2 - Second embedding vector
- * @returns Cosine similarity score
+ * @param content - The grief message text
+ * @param provider - Embedding provider
+ * @returns Embedding, and tags if the provider produced any
+ * @throws {Error} If the provider fails or the embedding looks manipulated
  */
-export function cosineSimilarity(vec1: number[], vec2: number[]): number {
-  if (vec1.length !== vec2.length) {
-    throw new Error('Vectors must have same length')
-  }
+export async function encodeContent(content: string, provider: EmbeddingProvider): Promise<Encoding> {
+  const encoding = provider.encode
+    ? await provider.encode(content)
+    : { embedding: await provider.embed(content), tags: null }
 
-  const dotProduct = vec1.reduce((sum, val, i) => sum + val * vec2[i], 0)
-  const mag1 = Math.sqrt(vec1.reduce((sum, val) => sum + val * val, 0))
-  const mag2 = Math.sqrt(vec2.reduce((sum, val) => sum + val * val, 0))
+  assertNotManipulated(encoding.embedding)
+  return encoding
+}
+
+/**
+ * Build the stored columns from a provider result
+ * Missing provider tags are filled in by the keyword tagger.
+ *
+ * @param content - The grief message text
+ * @param encoding - Provider result, or null if the provider failed
+ * @param provider - Provider that produced it
+ * @param generatedAt - ISO timestamp for both columns
+ * @returns semantic_data (null without an embedding, stamped with the
+ *   schema version and provider id) and semantic_tags
+ */
+export function toMessageEncoding(
+  content: string,
+  encoding: Encoding | null,
+  provider: EmbeddingProvider,
+  generatedAt: string
+): MessageEncoding {
+  return {
+    semantic_data: encoding
+      ? { embedding: encoding.embedding, generated_at: generatedAt, schema_version: provider.schema.version, model: provider.id }
+      : null,
+    semantic_tags: encoding?.tags
+      ? { ...encoding.tags, tagger: provider.id, generated_at: generatedAt }
+      : tagWithKeywords(content, generatedAt)
+  }
+}
 
-  if (mag1 === 0 || mag2 === 0) return 0
+/**
+ * Encode a message for storage
+ * Provider failures are logged: the message keeps keyword tags and
+ * is stored without semantic_data.
+ *
+ * @param content - The grief message text
+ * @param provider - Embedding provider (defaults to the configured one)
+ * @param now - Clock for generated_at
+ * @returns semantic_data stamped with the provider's schema version, and semantic_tags
+ */
+export async function encodeMessage(
+  content: string,
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+  now: () => Date = () => new Date()
+): Promise<MessageEncoding> {
+  let encoding: Encoding | null = null
+  try {
+    encoding = await encodeContent(content, provider)
+  } catch (error) {
+    console.error('Semantic encoding error:', error)
+  }
 
-  return dotProduct / (mag1 * mag2)
+  return toMessageEncoding(content, encoding, provider, now().toISOString())
 }
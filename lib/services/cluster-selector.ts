@@ -3,12 +3,22 @@
  *
  * Selects related messages based on similarity scoring.
  * Ensures traversal continuity by including previous focus.
+ * Optionally favours messages shown less often (exposure fairness).
  *
  * IMPORTANT: Pure business logic - NO visualization concepts.
  */
 
-import type { GriefMessage, MessagePoolConfig } from '@/types/grief-messages'
-import { sortBySimilarity } from '@/lib/utils/similarity-scoring'
+import type { ExposureRole, GriefMessage, MessagePoolConfig } from '@/types/grief-messages'
+import { calculateSimilarity, sortBySimilarity } from '@/lib/utils/similarity-scoring'
+import type { SimilarityIndex } from '@/lib/utils/similarity-index'
+import type { ExposureLedger } from './exposure-ledger'
+
+/**
+ * Candidates considered per slot when selecting for diversity or fairness
+ * Picks come from the most similar slots × this many, so they are never
+ * far down the ranking.
+ */
+const MMR_POOL_FACTOR = 3
 
 /**
  * Cluster Selector Class
@@ -19,10 +29,24 @@ import { sortBySimilarity } from '@/lib/utils/similarity-scoring'
  */
 export class ClusterSelector {
   private config: MessagePoolConfig
+  private index: SimilarityIndex | null
+  private exposure: ExposureLedger | null
 
-  constructor(config: MessagePoolConfig) {
+  /**
+   * @param config - Pool configuration (cluster size, similarity weights, fairness)
+   * @param index - Index over the candidates' pool (the working set); without
+   *   one, every candidate is scored
+   * @param exposure - Counts for the fairness boost; without them, choice is
+   *   by similarity alone
+   */
+  constructor(
+    config: MessagePoolConfig,
+    index: SimilarityIndex | null = null,
+    exposure: ExposureLedger | null = null
+  ) {
     this.config = config
-
+    this.index = index
+    this.exposure = exposure
   }
 
   /**
@@ -32,6 +56,13 @@ export class ClusterSelector {
    * Ensures previous focus is ALWAYS included for traversal continuity.
    * Prefers first-class (priority) messages when available.
    *
+   * With similarity.mmrLambda below 1, messages are chosen by maximal
+   * marginal relevance: similar to the focus, but unlike the messages
+   * already chosen, so near-duplicates do not fill the cluster.
+   *
+   * With a fairness weight, messages related less often rank higher
+   * (see fairnessBoost()); reported similarities are unchanged.
+   *
    * @param focus - The focal message for this cluster
    * @param candidates - Pool of available messages
    * @param previousFocusId - ID of previous cluster's focus (null for first cluster)
@@ -79,24 +110,47 @@ export class ClusterSelector {
     // Calculate slots available for similarity-based selection
     const similaritySlots = previousFocus ? slotsNeeded - 1 : slotsNeeded
 
-    // Sort candidates by similarity to focus
-    const sorted = sortBySimilarity(focus, availableCandidates, this.config.similarity)
-
-    // Separate into priority and non-priority messages
-    const priorityMessages = sorted.filter((r) => priorityIds.has(r.message.id))
-    const regularMessages = sorted.filter((r) => !priorityIds.has(r.message.id))
+    // Rank candidates by similarity to focus, priority and non-priority apart
+    // (a wider pool when selecting for diversity or fairness)
+    const lambda = this.config.similarity.mmrLambda
+    const diverse = lambda < 1
+    const fair = this.isFair()
+    const poolSize = diverse || fair ? similaritySlots * MMR_POOL_FACTOR : similaritySlots
+    const priorityMessages = this.rankBySimilarity(focus, availableCandidates, poolSize, (msg) => priorityIds.has(msg.id))
+    const regularMessages = this.rankBySimilarity(focus, availableCandidates, poolSize, (msg) => !priorityIds.has(msg.id))
 
     // Fill slots preferring priority messages first
     const selectedMessages: Array<{ message: GriefMessage; similarity: number }> = []
+    const take = (ranked: Array<{ message: GriefMessage; similarity: number }>, count: number) => {
+      // Choose on boosted scores, report true similarity
+      const scored = fair
+        ? ranked
+          .map((r) => ({ message: r.message, similarity: r.similarity + this.fairnessBoost(r.message.id, 'related') }))
+          .sort((a, b) => b.similarity - a.similarity)
+        : ranked
+      let picks: Array<{ message: GriefMessage; similarity: number }>
+      if (!diverse) {
+        picks = scored.slice(0, count)
+      } else {
+        const chosen = [...(previousFocus ? [previousFocus] : []), ...selectedMessages.map((s) => s.message)]
+        picks = this.selectDiverse(scored, count, chosen, lambda)
+      }
+      if (!fair) {
+        return picks
+      }
+      const similarity = new Map(ranked.map((r) => [r.message.id, r.similarity]))
+      return picks
+        .map((p) => ({ message: p.message, similarity: similarity.get(p.message.id)! }))
+        .sort((a, b) => b.similarity - a.similarity)
+    }
 
     // Take all priority messages that fit
-    const priorityToTake = Math.min(priorityMessages.length, similaritySlots)
-    selectedMessages.push(...priorityMessages.slice(0, priorityToTake))
+    selectedMessages.push(...take(priorityMessages, similaritySlots))
 
     // Fill remaining slots with regular messages
     const remainingSlots = similaritySlots - selectedMessages.length
     if (remainingSlots > 0) {
-      selectedMessages.push(...regularMessages.slice(0, remainingSlots))
+      selectedMessages.push(...take(regularMessages, remainingSlots))
     }
 
     const similarMessages = selectedMessages
@@ -118,6 +172,119 @@ export class ClusterSelector {
     return related
   }
 
+  /**
+   * Rank Candidates by Similarity
+   *
+   * Top `limit` candidates passing `filter`, highest similarity first.
+   * Indexed candidates come from the index; any it does not hold are
+   * scored directly.
+   *
+   * @param focus - Focus message
+   * @param candidates - Messages to rank
+   * @param limit - Number of results
+   * @param filter - Candidates to consider
+   * @returns Up to `limit` candidates with similarity scores
+   */
+  private rankBySimilarity(
+    focus: GriefMessage,
+    candidates: GriefMessage[],
+    limit: number,
+    filter: (message: GriefMessage) => boolean
+  ): Array<{ message: GriefMessage; similarity: number }> {
+    const eligible = candidates.filter(filter)
+
+    if (!this.index) {
+      return sortBySimilarity(focus, eligible, this.config.similarity).slice(0, Math.max(0, limit))
+    }
+
+    const index = this.index
+    const byId = new Map(eligible.map((msg) => [msg.id, msg]))
+    const unindexed = eligible.filter((msg) => !index.has(msg.id))
+
+    // Return the candidate objects, not the index's copies
+    const ranked = index
+      .topK(focus, limit, (msg) => byId.has(msg.id))
+      .map(({ message, similarity }) => ({ message: byId.get(message.id)!, similarity }))
+
+    if (unindexed.length === 0) {
+      return ranked
+    }
+
+    return [...ranked, ...sortBySimilarity(focus, unindexed, this.config.similarity)]
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, Math.max(0, limit))
+  }
+
+  /**
+   * Select Diverse Messages (maximal marginal relevance)
+   *
+   * Repeatedly takes the candidate with the best
+   * lambda × similarity to focus − (1 − lambda) × similarity to the
+   * closest message already chosen.
+   *
+   * @param ranked - Candidates with similarity to the focus
+   * @param count - Number to select
+   * @param chosen - Messages already in the cluster
+   * @param lambda - 1 = similarity only, 0 = diversity only
+   * @returns Selected candidates, highest similarity to focus first
+   */
+  private selectDiverse(
+    ranked: Array<{ message: GriefMessage; similarity: number }>,
+    count: number,
+    chosen: GriefMessage[],
+    lambda: number
+  ): Array<{ message: GriefMessage; similarity: number }> {
+    const remaining = [...ranked]
+    const redundancy = remaining.map((candidate) =>
+      chosen.reduce((max, msg) => Math.max(max, calculateSimilarity(candidate.message, msg, this.config.similarity)), 0)
+    )
+    const selected: Array<{ message: GriefMessage; similarity: number }> = []
+
+    while (selected.length < count && remaining.length > 0) {
+      let best = 0
+      let bestScore = -Infinity
+      remaining.forEach((candidate, i) => {
+        const score = lambda * candidate.similarity - (1 - lambda) * redundancy[i]
+        if (score > bestScore) {
+          best = i
+          bestScore = score
+        }
+      })
+
+      const [pick] = remaining.splice(best, 1)
+      redundancy.splice(best, 1)
+      selected.push(pick)
+
+      remaining.forEach((candidate, i) => {
+        redundancy[i] = Math.max(redundancy[i], calculateSimilarity(candidate.message, pick.message, this.config.similarity))
+      })
+    }
+
+    return selected.sort((a, b) => b.similarity - a.similarity)
+  }
+
+  /**
+   * Select Priority Next Message
+   *
+   * The first-class message that MUST become the next focus, if the
+   * cluster holds one. Every traversal strategy defers to this.
+   *
+   * @param related - Related messages from current cluster
+   * @param previousFocusId - ID of previous focus (never selected)
+   * @param priorityIds - Set of message IDs that are first-class (priority)
+   * @returns Highest-similarity first-class message, or null if none
+   */
+  selectPriorityNext(
+    related: Array<{ message: GriefMessage; similarity: number }>,
+    previousFocusId: string | null,
+    priorityIds: Set<string>
+  ): GriefMessage | null {
+    const firstClass = related.find(
+      (r) => priorityIds.has(r.message.id) && r.message.id !== previousFocusId
+    )
+    return firstClass ? firstClass.message : null
+  }
+
   /**
    * Select Next Message
    *
@@ -128,6 +295,7 @@ export class ClusterSelector {
    * Strategy:
    * 1. If ANY first-class messages in cluster, one MUST be selected as next
    * 2. If no first-class messages, pick most similar from related
+   *    (with a fairness weight, boosted by how rarely each was the focus)
    * 3. If no related messages, pick from candidates (working set)
    * 4. Exclude current focus and previous focus from selection
    *
@@ -147,25 +315,25 @@ export class ClusterSelector {
   ): GriefMessage | null {
 
     // CRITICAL REQUIREMENT: If ANY first-class messages in cluster, one MUST be next
-    if (related.length > 0) {
-      // Find first-class messages in cluster (excluding previous focus)
-      const firstClassInCluster = related.filter(
-        (r) => priorityIds.has(r.message.id) && r.message.id !== previousFocusId
-      )
-
-      if (firstClassInCluster.length > 0) {
-        // MUST select a first-class message - pick first one (highest similarity among priority)
-        const next = firstClassInCluster[0].message
-
-        return next
-      }
+    const priorityNext = this.selectPriorityNext(related, previousFocusId, priorityIds)
+    if (priorityNext) {
+      return priorityNext
+    }
 
+    if (related.length > 0) {
       // No first-class messages in cluster - use similarity-based selection
 
       // Filter out previous focus to prevent ping-pong between same messages
       const eligibleNext = related.filter((r) => r.message.id !== previousFocusId)
 
       if (eligibleNext.length > 0) {
+        if (this.isFair()) {
+          return eligibleNext.reduce((best, r) =>
+            r.similarity + this.fairnessBoost(r.message.id, 'focus') >
+              best.similarity + this.fairnessBoost(best.message.id, 'focus') ? r : best
+          ).message
+        }
+
         // Related array is already sorted by similarity (highest first)
         const next = eligibleNext[0].message
 
@@ -186,6 +354,28 @@ export class ClusterSelector {
     return null
   }
 
+  /**
+   * Fairness Boost
+   *
+   * weight / (1 + times shown in the role): a message never shown gets
+   * the whole weight, one shown three times a quarter of it.
+   *
+   * @param messageId - Candidate
+   * @param role - Role it is being chosen for ('focus' when choosing next)
+   * @returns Amount added to its similarity when choosing
+   */
+  private fairnessBoost(messageId: string, role: ExposureRole): number {
+    const weight = this.config.fairness?.weight ?? 0
+    return this.exposure ? weight / (1 + this.exposure.count(messageId, role)) : 0
+  }
+
+  /**
+   * Whether the fairness boost applies
+   */
+  private isFair(): boolean {
+    return this.exposure !== null && (this.config.fairness?.weight ?? 0) > 0
+  }
+
   /**
    * Validate Cluster
    *
@@ -0,0 +1,163 @@
+/**
+ * Constellation Walk
+ *
+ * The theme-tour traversal strategy. Chooses the next focus so
+ * traversal stays inside one constellation (lib/services/constellations.ts)
+ * until the working set has no unseen members of it left, then crosses
+ * to the nearest constellation not yet visited on this tour, entering at
+ * its representative when that message is in the working set.
+ *
+ * IMPORTANT: Pure business logic - NO visualization concepts.
+ */
+
+import type { Constellation, GriefMessage, WorkingSetChange } from '@/types/grief-messages'
+import type { TraversalContext, TraversalStrategy } from './traversal-strategies'
+
+/**
+ * Constellation Walk Class
+ *
+ * Holds the constellations, which message belongs to which, and the
+ * tour so far. Memberships are added as messages enter the working set.
+ */
+export class ConstellationWalk implements TraversalStrategy {
+  readonly name = 'theme-tour' as const
+  private constellations: Map<string, Constellation> = new Map()
+  private memberOf: Map<string, string> = new Map()
+
+  // Tour state
+  private currentId: string | null = null
+  private seenInCurrent: Set<string> = new Set()
+  private visited: Set<string> = new Set()
+
+  /**
+   * @param constellations - Constellations from the last build
+   */
+  constructor(constellations: Constellation[] = []) {
+    this.setConstellations(constellations)
+  }
+
+  /**
+   * Replace the constellations (memberships and tour start over)
+   */
+  setConstellations(constellations: Constellation[]): void {
+    this.constellations = new Map(constellations.map((c) => [c.id, c]))
+    this.memberOf.clear()
+    this.reset()
+  }
+
+  /**
+   * Record memberships
+   *
+   * @param memberships - Message id to constellation id (from ConstellationStore)
+   */
+  assign(memberships: Map<string, string>): void {
+    memberships.forEach((constellationId, messageId) => {
+      if (this.constellations.has(constellationId)) {
+        this.memberOf.set(messageId, constellationId)
+      }
+    })
+  }
+
+  /**
+   * Forget messages that left the working set
+   * Memberships of added messages come from assign().
+   */
+  onWorkingSetChange(change: WorkingSetChange): void {
+    change.removed.forEach((id) => this.memberOf.delete(id))
+  }
+
+  /**
+   * Constellation a message belongs to
+   *
+   * @returns Constellation, or null if the message was not clustered
+   */
+  constellationOf(messageId: string): Constellation | null {
+    const id = this.memberOf.get(messageId)
+    return id ? this.constellations.get(id) ?? null : null
+  }
+
+  /**
+   * Select Next Message
+   *
+   * Records the focus as seen, then picks the next focus: an unseen
+   * member of the focus's constellation (related messages first, in
+   * their order), else the way into the nearest unvisited constellation.
+   *
+   * @param context - Focus, related messages and candidates
+   * @returns Next focus, or null if the focus is in no constellation
+   */
+  selectNext({ focus, related, candidates, previousFocusId }: TraversalContext): GriefMessage | null {
+    const current = this.constellationOf(focus.id)
+    if (!current) {
+      return null
+    }
+
+    if (current.id !== this.currentId) {
+      this.currentId = current.id
+      this.seenInCurrent = new Set()
+      this.visited.add(current.id)
+    }
+    this.seenInCurrent.add(focus.id)
+
+    const pool = [...related.map((r) => r.message), ...candidates]
+      .filter((m) => m.id !== focus.id && m.id !== previousFocusId)
+
+    const stay = pool.find(
+      (m) => this.memberOf.get(m.id) === current.id && !this.seenInCurrent.has(m.id)
+    )
+    if (stay) {
+      return stay
+    }
+
+    return this.enterNearest(current, pool)
+  }
+
+  /**
+   * First message of the nearest unvisited constellation with members in the pool
+   * Starts a new tour once every constellation has been visited.
+   */
+  private enterNearest(from: Constellation, pool: GriefMessage[]): GriefMessage | null {
+    const present = new Map<string, GriefMessage[]>()
+    for (const message of pool) {
+      const id = this.memberOf.get(message.id)
+      if (id && id !== from.id) {
+        present.set(id, [...(present.get(id) ?? []), message])
+      }
+    }
+
+    let options = [...present.keys()].filter((id) => !this.visited.has(id))
+    if (options.length === 0) {
+      this.visited = new Set([from.id])
+      options = [...present.keys()]
+    }
+
+    const nearest = options
+      .map((id) => this.constellations.get(id)!)
+      .sort((a, b) => centroidSimilarity(from, b) - centroidSimilarity(from, a))[0]
+
+    if (!nearest) {
+      return null
+    }
+
+    const members = present.get(nearest.id)!
+    return members.find((m) => m.id === nearest.representativeId) ?? members[0]
+  }
+
+  /**
+   * Start a fresh tour (memberships are kept)
+   */
+  reset(): void {
+    this.currentId = null
+    this.seenInCurrent = new Set()
+    this.visited = new Set()
+  }
+}
+
+/**
+ * Cosine similarity of two constellations' centroids (unit length)
+ * Constellations of different schemas are as far apart as possible.
+ */
+function centroidSimilarity(a: Constellation, b: Constellation): number {
+  if (a.centroid.length !== b.centroid.length) return -Infinity
+  return a.centroid.reduce((sum, v, i) => sum + v * b.centroid[i], 0)
+}
@@ -0,0 +1,443 @@
+/**
+ * Constellations
+ *
+ * Persistent theme clusters over the whole archive. A batch build
+ * (scripts/build-constellations.ts) runs spherical k-means over every
+ * approved embedding of one schema version and stores each cluster with
+ * its centroid, members and a representative message (migration 015).
+ *
+ * Rebuilds start from the previous centroids, and a new cluster whose
+ * centroid matches an old one keeps its id and name, so constellations
+ * stay recognisable as messages arrive. The installation walks them
+ * with ConstellationWalk (lib/services/constellation-walk.ts).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ConstellationPayload, Database, Message, TagRelationship } from '@/types/database'
+import type { Constellation } from '@/types/grief-messages'
+import { parseSemanticData } from '@/lib/embeddings/semantic-data'
+import { getTag, parseSemanticTags } from '@/lib/embeddings/tags'
+import { getEmbeddingSchema } from '@/lib/embeddings/schema'
+import { sphericalKMeans } from '@/lib/utils/kmeans'
+
+/** Upper bound for the automatic constellation count */
+export const MAX_CONSTELLATIONS = 24
+
+/** Centroid cosine similarity above which a new cluster continues an old one */
+export const CARRY_OVER_SIMILARITY = 0.8
+
+/** Share of a cluster's members that must agree on a tag for it to name the cluster */
+const NAMING_SHARE = 0.4
+
+const RELATIONSHIP_NAMES: Record<TagRelationship, string> = {
+  parent: 'Parents',
+  grandparent: 'Grandparents',
+  child: 'Children',
+  partner: 'Partners',
+  sibling: 'Siblings',
+  friend: 'Friends',
+  pet: 'Animal companions',
+  self: 'Oneself'
+}
+
+type Row = Pick<Message, 'id' | 'semantic_data' | 'semantic_tags'>
+
+/**
+ * Message as clustered: id, embedding and tags
+ */
+export interface ClusterableMessage {
+  id: string
+  embedding: number[]
+  tags: Message['semantic_tags']
+}
+
+/**
+ * Constellation Store Interface
+ */
+export interface ConstellationStore {
+  /**
+   * Constellations from the last build
+   *
+   * @param schemaVersion - Only this schema's constellations (all when omitted)
+   */
+  load(schemaVersion?: string): Promise<Constellation[]>
+
+  /**
+   * Constellation of each message that has one
+   *
+   * @returns Message id to constellation id
+   */
+  memberships(messageIds: string[]): Promise<Map<string, string>>
+
+  /**
+   * Replace one schema version's constellations with a new build
+   */
+  replace(schemaVersion: string, constellations: ConstellationPayload[]): Promise<void>
+}
+
+function toConstellation(schemaVersion: string, payload: Omit<ConstellationPayload, 'members'>): Constellation {
+  return {
+    id: payload.id,
+    name: payload.name,
+    schemaVersion,
+    centroid: payload.centroid,
+    representativeId: payload.representative_id,
+    size: payload.size,
+    cohesion: payload.cohesion
+  }
+}
+
+/**
+ * Memory Constellation Store
+ *
+ * For tests and dry runs.
+ */
+export class MemoryConstellationStore implements ConstellationStore {
+  private constellations: Map<string, Constellation> = new Map()
+  private members: Map<string, string> = new Map()
+
+  async load(schemaVersion?: string): Promise<Constellation[]> {
+    return Array.from(this.constellations.values())
+      .filter((c) => schemaVersion === undefined || c.schemaVersion === schemaVersion)
+  }
+
+  async memberships(messageIds: string[]): Promise<Map<string, string>> {
+    const found = new Map<string, string>()
+    for (const id of messageIds) {
+      const constellationId = this.members.get(id)
+      if (constellationId) found.set(id, constellationId)
+    }
+    return found
+  }
+
+  async replace(schemaVersion: string, constellations: ConstellationPayload[]): Promise<void> {
+    for (const [id, constellation] of this.constellations) {
+      if (constellation.schemaVersion !== schemaVersion) continue
+      this.constellations.delete(id)
+      for (const [messageId, constellationId] of this.members) {
+        if (constellationId === id) this.members.delete(messageId)
+      }
+    }
+
+    for (const payload of constellations) {
+      this.constellations.set(payload.id, toConstellation(schemaVersion, payload))
+      payload.members.forEach((m) => this.members.set(m.message_id, payload.id))
+    }
+  }
+}
+
+/**
+ * Postgres Constellation Store
+ *
+ * Reads constellations and constellation_members (public under RLS);
+ * replace() goes through replace_constellations(), which needs a service
+ * role client.
+ */
+export class PostgresConstellationStore implements ConstellationStore {
+  private client: SupabaseClient<Database>
+
+  constructor(client: SupabaseClient<Database>) {
+    this.client = client
+  }
+
+  async load(schemaVersion?: string): Promise<Constellation[]> {
+    let query = this.client
+      .from('constellations')
+      .select('id, schema_version, name, centroid, representative_id, size, cohesion')
+
+    if (schemaVersion !== undefined) {
+      query = query.eq('schema_version', schemaVersion)
+    }
+
+    const { data, error } = await query.order('size', { ascending: false })
+
+    if (error) throw new Error(`Failed to load constellations: ${error.message}`)
+    return (data || []).map((row) => toConstellation(row.schema_version, row))
+  }
+
+  async memberships(messageIds: string[]): Promise<Map<string, string>> {
+    const found = new Map<string, string>()
+    if (messageIds.length === 0) return found
+
+    const { data, error } = await this.client
+      .from('constellation_members')
+      .select('message_id, constellation_id')
+      .in('message_id', messageIds)
+
+    if (error) throw new Error(`Failed to load constellation members: ${error.message}`)
+    for (const row of data || []) {
+      found.set(row.message_id.toString(), row.constellation_id)
+    }
+    return found
+  }
+
+  async replace(schemaVersion: string, constellations: ConstellationPayload[]): Promise<void> {
+    const { error } = await this.client.rpc('replace_constellations', {
+      p_schema_version: schemaVersion,
+      p_constellations: constellations
+    })
+
+    if (error) throw new Error(`Failed to store constellations: ${error.message}`)
+  }
+}
+
+/**
+ * Default constellation count for an archive size
+ * About √(n/2): 8 for 128 messages, 22 for 1000.
+ *
+ * @param messageCount - Messages being clustered
+ * @returns Between 1 and MAX_CONSTELLATIONS
+ */
+export function defaultConstellationCount(messageCount: number): number {
+  return Math.max(1, Math.min(MAX_CONSTELLATIONS, Math.round(Math.sqrt(messageCount / 2))))
+}
+
+/**
+ * Most common tag value among members, if enough of them share it
+ */
+function dominantTag(
+  members: ClusterableMessage[],
+  category: 'relationship' | 'tone'
+): string | null {
+  const counts = new Map<string, number>()
+  for (const member of members) {
+    const value = getTag(parseSemanticTags(member.tags), category)
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1)
+  }
+
+  const [best] = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  return best && best[1] >= members.length * NAMING_SHARE ? best[0] : null
+}
+
+/**
+ * Name a cluster from its members' tags, or its strongest named dimension
+ *
+ * @returns e.g. 'Parents · Longing', 'Friends', 'Strong anger', or null
+ */
+function describeCluster(members: ClusterableMessage[], centroid: number[], schemaVersion: string): string | null {
+  const relationship = dominantTag(members, 'relationship')
+  const tone = dominantTag(members, 'tone')
+  const parts = [
+    relationship && RELATIONSHIP_NAMES[relationship as TagRelationship],
+    tone && tone.charAt(0).toUpperCase() + tone.slice(1)
+  ].filter((part): part is string => Boolean(part))
+
+  if (parts.length > 0) return parts.join(' · ')
+
+  // Latent schemas have no meaning to name by
+  const schema = getEmbeddingSchema(schemaVersion)
+  if (!schema || schema.dimensions.every((d) => d.name.startsWith('latent_'))) return null
+
+  let strongest = 0
+  centroid.forEach((value, i) => {
+    if (Math.abs(value) > Math.abs(centroid[strongest])) strongest = i
+  })
+
+  const dimension = schema.dimensions[strongest]
+  const phrase = (centroid[strongest] >= 0 ? dimension.high : dimension.low).split(/[,(]/)[0].trim()
+  return phrase.charAt(0).toUpperCase() + phrase.slice(1)
+}
+
+/**
+ * Pair new clusters with previous constellations, most similar first
+ *
+ * @returns Previous constellation per new cluster index
+ */
+function matchPrevious(centroids: number[][], previous: Constellation[]): Map<number, Constellation> {
+  const pairs: Array<{ cluster: number; constellation: Constellation; similarity: number }> = []
+  centroids.forEach((centroid, cluster) => {
+    for (const constellation of previous) {
+      if (constellation.centroid.length !== centroid.length) continue
+      const norm = Math.sqrt(constellation.centroid.reduce((sum, v) => sum + v * v, 0)) || 1
+      const similarity = centroid.reduce((sum, v, d) => sum + v * constellation.centroid[d], 0) / norm
+      if (similarity >= CARRY_OVER_SIMILARITY) pairs.push({ cluster, constellation, similarity })
+    }
+  })
+
+  const matched = new Map<number, Constellation>()
+  const used = new Set<string>()
+  for (const pair of pairs.sort((a, b) => b.similarity - a.similarity)) {
+    if (matched.has(pair.cluster) || used.has(pair.constellation.id)) continue
+    matched.set(pair.cluster, pair.constellation)
+    used.add(pair.constellation.id)
+  }
+  return matched
+}
+
+export interface ClusterOptions {
+  /** Number of constellations (default: defaultConstellationCount) */
+  k?: number
+
+  /** k-means++ seed (default 1) */
+  seed?: number
+
+  /** Last build, to start from and keep ids and names of */
+  previous?: Constellation[]
+
+  /** New constellation ids (default: random UUIDs) */
+  createId?: () => string
+}
+
+/**
+ * Cluster messages into constellations
+ *
+ * Deterministic for the same messages, options and previous build.
+ * Constellations are returned largest first; names are unique.
+ *
+ * @param messages - Messages with embeddings, all of schemaVersion
+ * @param schemaVersion - Their schema (used to name latent-free clusters)
+ * @param options - Count, seed, previous build and id source
+ * @returns One payload per non-empty cluster, ready for replace_constellations()
+ */
+export function clusterMessages(
+  messages: ClusterableMessage[],
+  schemaVersion: string,
+  options: ClusterOptions = {}
+): ConstellationPayload[] {
+  if (messages.length === 0) return []
+
+  const previous = options.previous ?? []
+  const createId = options.createId ?? (() => crypto.randomUUID())
+  const k = options.k ?? defaultConstellationCount(messages.length)
+
+  const result = sphericalKMeans(messages.map((m) => m.embedding), {
+    k,
+    seed: options.seed,
+    initial: previous.map((c) => c.centroid)
+  })
+
+  const matched = matchPrevious(result.centroids, previous)
+  const usedNames = new Set<string>()
+
+  const payloads = result.centroids.map((centroid, cluster) => {
+    const members = messages
+      .map((message, i) => ({ message, similarity: result.similarities[i], cluster: result.assignments[i] }))
+      .filter((m) => m.cluster === cluster)
+      .sort((a, b) => b.similarity - a.similarity || parseInt(a.message.id, 10) - parseInt(b.message.id, 10))
+
+    return { cluster, centroid, members }
+  })
+    .filter(({ members }) => members.length > 0)
+    .sort((a, b) => b.members.length - a.members.length || a.cluster - b.cluster)
+
+  return payloads.map(({ cluster, centroid, members }, rank) => {
+    const carried = matched.get(cluster)
+
+    const base = carried?.name
+      ?? describeCluster(members.map((m) => m.message), centroid, schemaVersion)
+      ?? `Constellation ${rank + 1}`
+    let name = base
+    for (let n = 2; usedNames.has(name); n++) {
+      name = `${base} ${n}`
+    }
+    usedNames.add(name)
+
+    const cohesion = members.reduce((sum, m) => sum + m.similarity, 0) / members.length
+
+    return {
+      id: carried?.id ?? createId(),
+      name,
+      centroid,
+      representative_id: members[0].message.id,
+      size: members.length,
+      cohesion,
+      members: members.map((m) => ({ message_id: m.message.id, similarity: m.similarity }))
+    }
+  })
+}
+
+export interface BuildOptions extends Omit<ClusterOptions, 'previous'> {
+  /** Schema version to cluster (other embeddings are skipped) */
+  schemaVersion: string
+
+  /** Where constellations are read from and written to */
+  store: ConstellationStore
+
+  /** Messages read per page (default 1000) */
+  pageSize?: number
+
+  /** Cluster and report without writing */
+  dryRun?: boolean
+}
+
+export interface BuildReport {
+  schemaVersion: string
+
+  /** Approved, non-deleted messages read */
+  scanned: number
+
+  /** Messages clustered (embedded with schemaVersion) */
+  clustered: number
+
+  constellations: ConstellationPayload[]
+
+  /** Constellations that kept an id from the previous build */
+  carriedOver: number
+}
+
+/**
+ * Build Constellations
+ *
+ * Reads every approved, non-deleted message in id order, clusters those
+ * embedded with options.schemaVersion, and replaces that schema's
+ * constellations in the store.
+ *
+ * @param client - Client that can read messages (service role for the full archive)
+ * @param options - Schema version, store, clustering and paging
+ * @returns What was (or, in a dry run, would be) stored
+ * @throws {Error} If messages cannot be read or the store write fails
+ */
+export async function buildConstellations(
+  client: SupabaseClient<Database>,
+  options: BuildOptions
+): Promise<BuildReport> {
+  const pageSize = options.pageSize ?? 1000
+  const messages: ClusterableMessage[] = []
+  let scanned = 0
+  let cursor: string | null = null
+
+  while (true) {
+    let query = client
+      .from('messages')
+      .select('id, semantic_data, semantic_tags')
+      .eq('approved', true)
+      .is('deleted_at', null)
+
+    if (cursor) {
+      query = query.gt('id', cursor)
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .limit(pageSize)
+
+    if (error) throw new Error(`Failed to read messages: ${error.message}`)
+
+    const rows = (data || []) as Row[]
+    for (const row of rows) {
+      scanned++
+      const semanticData = parseSemanticData(row.semantic_data)
+      if (semanticData?.schema_version !== options.schemaVersion) continue
+      messages.push({ id: row.id.toString(), embedding: semanticData.embedding, tags: row.semantic_tags })
+    }
+
+    if (rows.length < pageSize) break
+    cursor = rows[rows.length - 1].id.toString()
+  }
+
+  const previous = await options.store.load(options.schemaVersion)
+  const constellations = clusterMessages(messages, options.schemaVersion, { ...options, previous })
+
+  if (!options.dryRun) {
+    await options.store.replace(options.schemaVersion, constellations)
+  }
+
+  const previousIds = new Set(previous.map((c) => c.id))
+  return {
+    schemaVersion: options.schemaVersion,
+    scanned,
+    clustered: messages.length,
+    constellations,
+    carriedOver: constellations.filter((c) => previousIds.has(c.id)).length
+  }
+}
@@ -12,6 +12,13 @@ import type { Database, Message } from '@/types/database'
 import type { GriefMessage } from '@/types/grief-messages'
 import { toGriefMessage } from '@/types/grief-messages'
 
+/**
+ * Columns loaded for every GriefMessage
+ * semantic_data is required for embedding-based similarity and pitch;
+ * semantic_tags for theme-aware selection.
+ */
+const MESSAGE_COLUMNS = 'id, content, created_at, approved, deleted_at, semantic_data, semantic_tags'
+
 /**
  * Database Service Class
  *
@@ -55,7 +62,7 @@ export class DatabaseService {
     try {
       let query = this.client
         .from('messages')
-        .select('id, content, created_at, approved, deleted_at')
+        .select(MESSAGE_COLUMNS)
         .eq('approved', true)
         .is('deleted_at', null)
         .limit(limit)
@@ -122,7 +129,7 @@ export class DatabaseService {
     try {
       const { data, error} = await this.client
         .from('messages')
-        .select('id, content, created_at, approved, deleted_at')
+        .select(MESSAGE_COLUMNS)
         .eq('approved', true)
         .is('deleted_at', null)
         .gt('id', watermark.toString())
@@ -155,6 +162,50 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Fetch Messages By IDs
+   *
+   * Retrieves the current rows of approved messages already seen,
+   * e.g. to pick up embeddings written after they were delivered.
+   *
+   * @param ids - Message IDs
+   * @returns Visible messages among them, in ID order
+   *
+   * @example
+   * const [refreshed] = await db.fetchMessagesByIds(['12345'])
+   */
+  async fetchMessagesByIds(ids: string[]): Promise<GriefMessage[]> {
+    if (ids.length === 0) {
+      return []
+    }
+
+    try {
+      const { data, error } = await this.client
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('approved', true)
+        .is('deleted_at', null)
+        .in('id', ids)
+        .order('id', { ascending: true })
+        .limit(ids.length)
+
+      if (error) {
+        throw new Error(`Message lookup failed: ${error.message}`)
+      }
+
+      // Reset retry delay on success
+      this.retryDelay = 1000
+
+      return (data || []).map(toGriefMessage)
+    } catch (error) {
+      return await this.handleQueryError(
+        error,
+        'fetchMessagesByIds',
+        () => this.fetchMessagesByIds(ids)
+      )
+    }
+  }
+
   /**
    * Get Max Message ID
    *
@@ -226,9 +277,11 @@ export class DatabaseService {
           content: message.content,
           approved: message.approved,
           created_at: message.created_at,
-          deleted_at: message.deleted_at
+          deleted_at: message.deleted_at,
+          semantic_data: message.semantic_data ?? null,
+          semantic_tags: message.semantic_tags ?? null
         })
-        .select('id, content, created_at, approved, deleted_at')
+        .select(MESSAGE_COLUMNS)
         .single()
 
       if (error) {
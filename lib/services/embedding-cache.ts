@@ -0,0 +1,311 @@
+/**
+ * Embedding Cache
+ *
+ * Reuses embeddings for messages with the same normalized content
+ * (lib/embeddings/content-hash.ts), so "I miss you" and "i miss you."
+ * cost one provider call between them. Entries are keyed by content hash
+ * and schema version, and only returned to the provider (model) that
+ * stored them: after a model change, each entry is replaced on its next
+ * miss.
+ *
+ * Two interchangeable caches share one interface:
+ * - MemoryEmbeddingCache: in-process (development, no service role)
+ * - PostgresEmbeddingCache: embedding_cache table (migration 011)
+ *
+ * CachedEmbeddingProvider wraps any provider with a cache and counts
+ * hits and misses. A cache that fails is logged and skipped; it never
+ * stops a message from being embedded.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, EmbeddingCacheEntry } from '@/types/database'
+import { loadEmbeddingConfig, type EmbeddingConfig } from '@/lib/config/embedding-config'
+import { hasAdminCredentials } from '@/lib/supabase/admin'
+import { encodeContent, isEmbedding } from '@/lib/semantic-encoding'
+import { contentHash } from '@/lib/embeddings/content-hash'
+import { createEmbeddingProvider } from '@/lib/embeddings/create-provider'
+import { parseSemanticTags } from '@/lib/embeddings/tags'
+import type { EmbeddingProvider, Encoding } from '@/lib/embeddings/types'
+
+/**
+ * Cache hits and misses counted by one CachedEmbeddingProvider
+ */
+export interface EmbeddingCacheStats {
+  hits: number
+
+  /** Provider calls made (paid, for network providers) */
+  misses: number
+}
+
+/**
+ * Stored totals across every process
+ */
+export interface EmbeddingCacheSummary {
+  /** Cached embeddings; each one cost a provider call */
+  entries: number
+
+  /** Times a cached embedding was reused instead */
+  hits: number
+}
+
+/**
+ * Embedding Cache Interface
+ */
+export interface EmbeddingCache {
+  /**
+   * Find an embedding stored by this provider, counting the hit
+   *
+   * @returns Cached encoding, or null on a miss
+   */
+  get(hash: string, schemaVersion: string, providerId: string): Promise<Encoding | null>
+
+  /**
+   * Store an embedding, replacing any entry for the same key
+   * (which, after a miss, came from another model)
+   */
+  set(hash: string, schemaVersion: string, providerId: string, encoding: Encoding): Promise<void>
+
+  summary(): Promise<EmbeddingCacheSummary>
+}
+
+/**
+ * Validate a stored entry
+ *
+ * @returns Encoding, or null if the row is malformed (treated as a miss)
+ */
+function toEncoding(entry: Pick<EmbeddingCacheEntry, 'embedding' | 'tags'>): Encoding | null {
+  if (!isEmbedding(entry.embedding)) return null
+
+  const tags = parseSemanticTags(entry.tags)
+  return {
+    embedding: entry.embedding,
+    tags: tags && { relationship: tags.relationship, loss_kind: tags.loss_kind, tone: tags.tone }
+  }
+}
+
+/**
+ * Entry columns for an encoding
+ */
+function toEntry(hash: string, schemaVersion: string, providerId: string, encoding: Encoding, now: Date) {
+  return {
+    content_hash: hash,
+    schema_version: schemaVersion,
+    provider_id: providerId,
+    embedding: encoding.embedding,
+    tags: encoding.tags && { ...encoding.tags, tagger: providerId, generated_at: now.toISOString() }
+  }
+}
+
+/** Entries kept by a memory cache before the least recently used is dropped */
+export const MEMORY_CACHE_MAX_ENTRIES = 5000
+
+/**
+ * Memory Embedding Cache
+ *
+ * Per-instance and lost on restart. Least recently used entries are
+ * dropped beyond maxEntries.
+ */
+export class MemoryEmbeddingCache implements EmbeddingCache {
+  private entries: Map<string, EmbeddingCacheEntry> = new Map()
+  private maxEntries: number
+  private now: () => Date
+
+  constructor(maxEntries: number = MEMORY_CACHE_MAX_ENTRIES, now: () => Date = () => new Date()) {
+    this.maxEntries = maxEntries
+    this.now = now
+  }
+
+  async get(hash: string, schemaVersion: string, providerId: string): Promise<Encoding | null> {
+    const key = `${schemaVersion}:${hash}`
+    const entry = this.entries.get(key)
+    if (!entry || entry.provider_id !== providerId) return null
+
+    entry.hits++
+    entry.last_hit_at = this.now().toISOString()
+
+    // Move to the back of the eviction order
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    return toEncoding(entry)
+  }
+
+  async set(hash: string, schemaVersion: string, providerId: string, encoding: Encoding): Promise<void> {
+    const key = `${schemaVersion}:${hash}`
+    this.entries.delete(key)
+
+    const now = this.now()
+    this.entries.set(key, {
+      ...toEntry(hash, schemaVersion, providerId, encoding, now),
+      hits: 0,
+      created_at: now.toISOString(),
+      last_hit_at: null
+    })
+
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest !== undefined) this.entries.delete(oldest)
+    }
+  }
+
+  async summary(): Promise<EmbeddingCacheSummary> {
+    let hits = 0
+    for (const entry of this.entries.values()) {
+      hits += entry.hits
+    }
+    return { entries: this.entries.size, hits }
+  }
+}
+
+/**
+ * Postgres Embedding Cache
+ *
+ * Entries live in embedding_cache; lookups go through
+ * hit_embedding_cache() (migration 012), which counts the hit in the
+ * same statement.
+ * Requires a service role client.
+ */
+export class PostgresEmbeddingCache implements EmbeddingCache {
+  private client: SupabaseClient<Database>
+  private now: () => Date
+
+  constructor(client: SupabaseClient<Database>, now: () => Date = () => new Date()) {
+    this.client = client
+    this.now = now
+  }
+
+  async get(hash: string, schemaVersion: string, providerId: string): Promise<Encoding | null> {
+    const { data, error } = await this.client.rpc('hit_embedding_cache', {
+      p_content_hash: hash,
+      p_schema_version: schemaVersion,
+      p_provider_id: providerId
+    })
+
+    if (error) throw new Error(`Failed to read embedding cache: ${error.message}`)
+    return data && data.length > 0 ? toEncoding(data[0]) : null
+  }
+
+  async set(hash: string, schemaVersion: string, providerId: string, encoding: Encoding): Promise<void> {
+    const { error } = await this.client
+      .from('embedding_cache')
+      .upsert(
+        { ...toEntry(hash, schemaVersion, providerId, encoding, this.now()), hits: 0, last_hit_at: null },
+        { onConflict: 'content_hash,schema_version' }
+      )
+
+    if (error) throw new Error(`Failed to write embedding cache: ${error.message}`)
+  }
+
+  async summary(): Promise<EmbeddingCacheSummary> {
+    const { data, error } = await this.client.rpc('embedding_cache_summary', {})
+
+    if (error) throw new Error(`Failed to summarize embedding cache: ${error.message}`)
+    const row = data?.[0]
+    return { entries: Number(row?.entries ?? 0), hits: Number(row?.hits ?? 0) }
+  }
+}
+
+/**
+ * Cached Embedding Provider
+ *
+ * Same id and schema as the wrapped provider, so cached and fresh
+ * embeddings are interchangeable. Only vectors that pass encodeContent's
+ * checks (including manipulation detection) are stored.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string
+  readonly schema: EmbeddingProvider['schema']
+  private provider: EmbeddingProvider
+  private cache: EmbeddingCache
+  private counts: EmbeddingCacheStats = { hits: 0, misses: 0 }
+
+  constructor(provider: EmbeddingProvider, cache: EmbeddingCache) {
+    this.id = provider.id
+    this.schema = provider.schema
+    this.provider = provider
+    this.cache = cache
+  }
+
+  async embed(content: string): Promise<number[]> {
+    return (await this.encode(content)).embedding
+  }
+
+  async encode(content: string): Promise<Encoding> {
+    const hash = contentHash(content)
+
+    let cached: Encoding | null = null
+    try {
+      cached = await this.cache.get(hash, this.schema.version, this.id)
+    } catch (error) {
+      console.warn('Embedding cache unavailable:', error)
+    }
+
+    if (cached) {
+      this.counts.hits++
+      return cached
+    }
+
+    this.counts.misses++
+    const encoding = await encodeContent(content, this.provider)
+
+    try {
+      await this.cache.set(hash, this.schema.version, this.id, encoding)
+    } catch (error) {
+      console.warn('Embedding cache unavailable:', error)
+    }
+
+    return encoding
+  }
+
+  /**
+   * Hits and misses since this provider was created
+   */
+  stats(): EmbeddingCacheStats {
+    return { ...this.counts }
+  }
+}
+
+// Shared across requests in this process (memory backend)
+let memoryCache: MemoryEmbeddingCache | null = null
+
+/**
+ * Create Embedding Cache
+ *
+ * @param client - Service role client (used by the Postgres backend)
+ * @param config - Embedding configuration
+ * @returns Cache for the configured backend (memory when Postgres lacks
+ *   service role credentials), or null for 'none'
+ */
+export function createEmbeddingCache(
+  client: SupabaseClient<Database>,
+  config: EmbeddingConfig = loadEmbeddingConfig()
+): EmbeddingCache | null {
+  if (config.cache === 'none') return null
+
+  if (config.cache === 'postgres' && hasAdminCredentials()) {
+    return new PostgresEmbeddingCache(client)
+  }
+
+  memoryCache ??= new MemoryEmbeddingCache()
+  return memoryCache
+}
+
+/**
+ * Create Cached Embedding Provider
+ *
+ * The configured provider behind the configured cache. The local
+ * provider is returned as is: it is free and deterministic.
+ *
+ * @param client - Service role client (used by the Postgres cache)
+ * @param config - Embedding configuration
+ * @returns Provider to hand to EmbeddingWorker or SubmissionService
+ */
+export function createCachedEmbeddingProvider(
+  client: SupabaseClient<Database>,
+  config: EmbeddingConfig = loadEmbeddingConfig()
+): EmbeddingProvider {
+  const provider = createEmbeddingProvider(config)
+  const cache = config.provider === 'local' ? null : createEmbeddingCache(client, config)
+
+  return cache ? new CachedEmbeddingProvider(provider, cache) : provider
+}
@@ -0,0 +1,630 @@
+/**
+ * Embedding Jobs
+ *
+ * Moves embedding generation out of the submission request:
+ * 1. SubmissionService stores the message and enqueues a job
+ * 2. EmbeddingWorker claims due jobs, embeds, and writes semantic_data
+ *    and semantic_tags
+ * 3. Failures retry with exponential backoff; after maxAttempts the job
+ *    is kept as failed (counted in reports, requeued by backfill)
+ *
+ * Two interchangeable job stores share one interface:
+ * - MemoryEmbeddingJobStore: in-process (development)
+ * - PostgresEmbeddingJobStore: embedding_jobs table (migration 008)
+ *
+ * Workers run after each submission response, on POST /api/admin/embeddings,
+ * and from scripts/backfill-embeddings.ts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, EmbeddingJob } from '@/types/database'
+import {
+  loadEmbeddingJobsConfig,
+  type EmbeddingJobsConfig
+} from '@/lib/config/embedding-jobs-config'
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin'
+import { encodeContent, parseSemanticData, toMessageEncoding } from '@/lib/semantic-encoding'
+import { parseSemanticTags } from '@/lib/embeddings/tags'
+import { createCachedEmbeddingProvider } from './embedding-cache'
+import type { EmbeddingProvider, Encoding } from '@/lib/embeddings/types'
+
+/**
+ * Jobs per status
+ */
+export interface EmbeddingJobCounts {
+  pending: number
+  running: number
+  failed: number
+}
+
+/**
+ * Embedding Job Store Interface
+ */
+export interface EmbeddingJobStore {
+  /**
+   * Queue messages for embedding (messages already queued are left as they are)
+   */
+  enqueue(messageIds: string[]): Promise<void>
+
+  /**
+   * Lease up to `limit` due jobs, incrementing their attempt count
+   */
+  claim(limit: number, leaseMs: number): Promise<EmbeddingJob[]>
+
+  /**
+   * Remove a finished job
+   */
+  complete(messageId: string): Promise<void>
+
+  /**
+   * Return a job to the queue for another attempt
+   */
+  retry(messageId: string, nextAttemptAt: Date, error: string): Promise<void>
+
+  /**
+   * Keep a job that exhausted its attempts
+   */
+  fail(messageId: string, error: string): Promise<void>
+
+  /**
+   * Move failed jobs back to pending with a fresh attempt count
+   *
+   * @returns Number of jobs requeued
+   */
+  requeueFailed(): Promise<number>
+
+  counts(): Promise<EmbeddingJobCounts>
+}
+
+/**
+ * Retry delay after a failed attempt
+ *
+ * @param attempts - Attempts made so far (1 after the first failure)
+ * @param config - baseDelayMs and maxDelayMs
+ * @returns Delay in ms: base, 2x base, 4x base ... capped at maxDelayMs
+ */
+export function retryDelay(
+  attempts: number,
+  config: Pick<EmbeddingJobsConfig, 'baseDelayMs' | 'maxDelayMs'>
+): number {
+  return Math.min(config.maxDelayMs, config.baseDelayMs * Math.pow(2, Math.max(0, attempts - 1)))
+}
+
+/**
+ * Memory Embedding Job Store
+ *
+ * State is per-instance and resets on restart - suitable for
+ * development or a single long-lived server only. Anything lost is
+ * found again by the backfill.
+ */
+export class MemoryEmbeddingJobStore implements EmbeddingJobStore {
+  private jobs: Map<string, EmbeddingJob> = new Map()
+  private now: () => number
+
+  constructor(now: () => number = Date.now) {
+    this.now = now
+  }
+
+  async enqueue(messageIds: string[]): Promise<void> {
+    const timestamp = new Date(this.now()).toISOString()
+
+    for (const messageId of messageIds) {
+      if (this.jobs.has(messageId)) continue
+
+      this.jobs.set(messageId, {
+        message_id: messageId,
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: timestamp,
+        last_error: null,
+        created_at: timestamp,
+        updated_at: timestamp
+      })
+    }
+  }
+
+  async claim(limit: number, leaseMs: number): Promise<EmbeddingJob[]> {
+    const now = this.now()
+
+    const due = Array.from(this.jobs.values())
+      .filter((job) => job.status !== 'failed' && Date.parse(job.next_attempt_at) <= now)
+      .sort((a, b) => Date.parse(a.next_attempt_at) - Date.parse(b.next_attempt_at))
+      .slice(0, limit)
+
+    return due.map((job) => {
+      Object.assign(job, {
+        status: 'running',
+        attempts: job.attempts + 1,
+        next_attempt_at: new Date(now + leaseMs).toISOString(),
+        updated_at: new Date(now).toISOString()
+      })
+      return { ...job }
+    })
+  }
+
+  async complete(messageId: string): Promise<void> {
+    this.jobs.delete(messageId)
+  }
+
+  async retry(messageId: string, nextAttemptAt: Date, error: string): Promise<void> {
+    this.update(messageId, { status: 'pending', next_attempt_at: nextAttemptAt.toISOString(), last_error: error })
+  }
+
+  async fail(messageId: string, error: string): Promise<void> {
+    this.update(messageId, { status: 'failed', last_error: error })
+  }
+
+  async requeueFailed(): Promise<number> {
+    const failed = Array.from(this.jobs.values()).filter((job) => job.status === 'failed')
+    const timestamp = new Date(this.now()).toISOString()
+
+    for (const job of failed) {
+      Object.assign(job, { status: 'pending', attempts: 0, next_attempt_at: timestamp, updated_at: timestamp })
+    }
+
+    return failed.length
+  }
+
+  async counts(): Promise<EmbeddingJobCounts> {
+    const counts: EmbeddingJobCounts = { pending: 0, running: 0, failed: 0 }
+    for (const job of this.jobs.values()) {
+      counts[job.status]++
+    }
+    return counts
+  }
+
+  private update(messageId: string, changes: Partial<EmbeddingJob>): void {
+    const job = this.jobs.get(messageId)
+    if (job) {
+      Object.assign(job, changes, { updated_at: new Date(this.now()).toISOString() })
+    }
+  }
+}
+
+/**
+ * Postgres Embedding Job Store
+ *
+ * Jobs live in embedding_jobs and are leased through the
+ * claim_embedding_jobs() function (FOR UPDATE SKIP LOCKED), so several
+ * workers can run at once. Requires a service role client.
+ */
+export class PostgresEmbeddingJobStore implements EmbeddingJobStore {
+  private client: SupabaseClient<Database>
+
+  constructor(client: SupabaseClient<Database>) {
+    this.client = client
+  }
+
+  async enqueue(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return
+
+    const { error } = await this.client
+      .from('embedding_jobs')
+      .upsert(
+        messageIds.map((message_id) => ({ message_id })),
+        { onConflict: 'message_id', ignoreDuplicates: true }
+      )
+
+    if (error) throw new Error(`Failed to enqueue embedding jobs: ${error.message}`)
+  }
+
+  async claim(limit: number, leaseMs: number): Promise<EmbeddingJob[]> {
+    const { data, error } = await this.client.rpc('claim_embedding_jobs', {
+      batch_size: limit,
+      lease_seconds: Math.ceil(leaseMs / 1000)
+    })
+
+    if (error) throw new Error(`Failed to claim embedding jobs: ${error.message}`)
+    return data || []
+  }
+
+  async complete(messageId: string): Promise<void> {
+    const { error } = await this.client
+      .from('embedding_jobs')
+      .delete()
+      .eq('message_id', messageId)
+
+    if (error) throw new Error(`Failed to complete embedding job: ${error.message}`)
+  }
+
+  async retry(messageId: string, nextAttemptAt: Date, lastError: string): Promise<void> {
+    await this.update(messageId, {
+      status: 'pending',
+      next_attempt_at: nextAttemptAt.toISOString(),
+      last_error: lastError
+    })
+  }
+
+  async fail(messageId: string, lastError: string): Promise<void> {
+    await this.update(messageId, { status: 'failed', last_error: lastError })
+  }
+
+  async requeueFailed(): Promise<number> {
+    const { data, error } = await this.client
+      .from('embedding_jobs')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('status', 'failed')
+      .select('message_id')
+
+    if (error) throw new Error(`Failed to requeue embedding jobs: ${error.message}`)
+    return data?.length ?? 0
+  }
+
+  async counts(): Promise<EmbeddingJobCounts> {
+    const count = async (status: EmbeddingJob['status']) => {
+      const { count, error } = await this.client
+        .from('embedding_jobs')
+        .select('message_id', { count: 'exact', head: true })
+        .eq('status', status)
+
+      if (error) throw new Error(`Failed to count embedding jobs: ${error.message}`)
+      return count ?? 0
+    }
+
+    const [pending, running, failed] = await Promise.all([
+      count('pending'),
+      count('running'),
+      count('failed')
+    ])
+
+    return { pending, running, failed }
+  }
+
+  private async update(messageId: string, changes: Partial<EmbeddingJob>): Promise<void> {
+    const { error } = await this.client
+      .from('embedding_jobs')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('message_id', messageId)
+
+    if (error) throw new Error(`Failed to update embedding job: ${error.message}`)
+  }
+}
+
+/**
+ * Outcome of one or more worker batches
+ */
+export interface EmbeddingWorkerReport {
+  /** Jobs leased */
+  claimed: number
+
+  /** Embeddings written (or message no longer needed one) */
+  succeeded: number
+
+  /** Failed attempts scheduled for retry */
+  retried: number
+
+  /** Jobs that exhausted their attempts */
+  failed: number
+}
+
+export interface EmbeddingWorkerOptions {
+  /**
+   * Embedding provider (defaults to the configured one behind the
+   * embedding cache; errors are kept in last_error)
+   */
+  provider?: EmbeddingProvider
+
+  now?: () => Date
+}
+
+function emptyReport(): EmbeddingWorkerReport {
+  return { claimed: 0, succeeded: 0, retried: 0, failed: 0 }
+}
+
+function addReports(a: EmbeddingWorkerReport, b: EmbeddingWorkerReport): EmbeddingWorkerReport {
+  return {
+    claimed: a.claimed + b.claimed,
+    succeeded: a.succeeded + b.succeeded,
+    retried: a.retried + b.retried,
+    failed: a.failed + b.failed
+  }
+}
+
+/**
+ * Embedding Worker
+ *
+ * Claims due jobs, embeds each message, and writes semantic_data.
+ * Needs a service role client: messages are not writable under RLS.
+ */
+export class EmbeddingWorker {
+  private client: SupabaseClient<Database>
+  private store: EmbeddingJobStore
+  private config: EmbeddingJobsConfig
+  private provider: EmbeddingProvider
+  private now: () => Date
+
+  constructor(
+    client: SupabaseClient<Database>,
+    store: EmbeddingJobStore,
+    config: EmbeddingJobsConfig,
+    options: EmbeddingWorkerOptions = {}
+  ) {
+    this.client = client
+    this.store = store
+    this.config = config
+    this.provider = options.provider ?? createCachedEmbeddingProvider(client)
+    this.now = options.now ?? (() => new Date())
+  }
+
+  /**
+   * Process one batch of due jobs
+   *
+   * @returns Counts for this batch (claimed 0 means nothing was due)
+   */
+  async runOnce(): Promise<EmbeddingWorkerReport> {
+    const report = emptyReport()
+    const jobs = await this.store.claim(this.config.batchSize, this.config.leaseMs)
+    report.claimed = jobs.length
+
+    if (jobs.length === 0) return report
+
+    const { data, error } = await this.client
+      .from('messages')
+      .select('id, content, deleted_at, semantic_data, semantic_tags')
+      .in('id', jobs.map((job) => job.message_id))
+
+    if (error) {
+      // Leases expire and the jobs are picked up again
+      throw new Error(`Failed to load messages for embedding: ${error.message}`)
+    }
+
+    const messages = new Map((data || []).map((row) => [row.id.toString(), row]))
+
+    for (const job of jobs) {
+      const message = messages.get(job.message_id)
+
+      // Deleted or already embedded in the current schema: nothing left to do.
+      // Embeddings in an older schema are replaced (backfill --upgrade).
+      if (!message || message.deleted_at || this.isCurrent(message)) {
+        await this.store.complete(job.message_id)
+        report.succeeded++
+        continue
+      }
+
+      const failure = await this.embedMessage(job.message_id, message.content)
+
+      if (!failure) {
+        await this.store.complete(job.message_id)
+        report.succeeded++
+      } else if (job.attempts >= this.config.maxAttempts) {
+        await this.store.fail(job.message_id, failure)
+        report.failed++
+        console.error(`Embedding job ${job.message_id} failed after ${job.attempts} attempts: ${failure}`)
+      } else {
+        const delay = retryDelay(job.attempts, this.config)
+        await this.store.retry(job.message_id, new Date(this.now().getTime() + delay), failure)
+        report.retried++
+      }
+    }
+
+    return report
+  }
+
+  /**
+   * Process batches until no job is due
+   *
+   * Retried jobs are scheduled in the future, so this always ends.
+   *
+   * @param options.maxBatches - Stop early after this many batches (serverless time limits)
+   * @param options.onProgress - Called with running totals after each batch
+   * @returns Totals across all batches
+   */
+  async runUntilIdle(
+    options: { maxBatches?: number; onProgress?: (report: EmbeddingWorkerReport) => void } = {}
+  ): Promise<EmbeddingWorkerReport> {
+    const maxBatches = options.maxBatches ?? Infinity
+    let total = emptyReport()
+
+    for (let batches = 0; batches < maxBatches; batches++) {
+      const batch = await this.runOnce()
+      if (batch.claimed === 0) break
+
+      total = addReports(total, batch)
+      options.onProgress?.(total)
+    }
+
+    return total
+  }
+
+  /**
+   * Check whether a message is tagged and embedded in the provider's schema
+   */
+  private isCurrent(message: { semantic_data: unknown; semantic_tags: unknown }): boolean {
+    return (
+      parseSemanticData(message.semantic_data)?.schema_version === this.provider.schema.version &&
+      parseSemanticTags(message.semantic_tags) !== null
+    )
+  }
+
+  /**
+   * Embed, tag and store one message
+   *
+   * @returns Error description, or null on success
+   */
+  private async embedMessage(messageId: string, content: string): Promise<string | null> {
+    let encoding: Encoding
+    try {
+      encoding = await encodeContent(content, this.provider)
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error)
+    }
+
+    const { error } = await this.client
+      .from('messages')
+      .update(toMessageEncoding(content, encoding, this.provider, this.now().toISOString()))
+      .eq('id', messageId)
+
+    return error ? `Failed to store embedding: ${error.message}` : null
+  }
+}
+
+/**
+ * Backfill outcome
+ */
+export interface BackfillReport {
+  /** Messages without (current) semantic_data that were queued */
+  found: number
+
+  /** Previously failed jobs given fresh attempts */
+  requeued: number
+}
+
+/**
+ * Backfill Embeddings
+ *
+ * Queues every non-deleted message whose semantic_data IS NULL (including
+ * rows stored before the queue existed) and requeues failed jobs.
+ * With `schemaVersion`, also queues messages embedded in any other schema
+ * or never tagged, so the worker re-encodes them (the upgrade path after
+ * a schema change).
+ * Run the worker afterwards to generate the embeddings.
+ *
+ * @param client - Service role client
+ * @param store - Job store to fill
+ * @param options.pageSize - Messages scanned per query (default 500)
+ * @param options.schemaVersion - Current schema version; older embeddings are queued too
+ * @param options.onProgress - Called with the running total after each page
+ * @returns Counts of queued and requeued jobs
+ */
+export async function backfillEmbeddings(
+  client: SupabaseClient<Database>,
+  store: EmbeddingJobStore,
+  options: { pageSize?: number; schemaVersion?: string; onProgress?: (found: number) => void } = {}
+): Promise<BackfillReport> {
+  const pageSize = options.pageSize ?? 500
+  let found = 0
+  let cursor: string | null = null
+
+  while (true) {
+    let query = client
+      .from('messages')
+      .select('id')
+      .is('deleted_at', null)
+
+    query = options.schemaVersion
+      // Quoted: versions such as openai:<model> contain PostgREST delimiters
+      ? query.or(`semantic_data.is.null,semantic_tags.is.null,semantic_data->>schema_version.neq."${options.schemaVersion}"`)
+      : query.is('semantic_data', null)
+
+    if (cursor) {
+      query = query.gt('id', cursor)
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .limit(pageSize)
+
+    if (error) throw new Error(`Failed to scan messages: ${error.message}`)
+
+    const ids = (data || []).map((row) => row.id.toString())
+    if (ids.length === 0) break
+
+    await store.enqueue(ids)
+    found += ids.length
+    cursor = ids[ids.length - 1]
+    options.onProgress?.(found)
+
+    if (ids.length < pageSize) break
+  }
+
+  const requeued = await store.requeueFailed()
+
+  return { found, requeued }
+}
+
+// Memory backend must outlive individual requests
+let memoryJobStore: MemoryEmbeddingJobStore | null = null
+
+/**
+ * Create Embedding Job Store
+ *
+ * @param client - Service role client (used by the Postgres backend)
+ * @param config - Embedding jobs configuration
+ * @returns Store for the configured backend
+ */
+export function createEmbeddingJobStore(
+  client: SupabaseClient<Database>,
+  config: EmbeddingJobsConfig = loadEmbeddingJobsConfig()
+): EmbeddingJobStore {
+  if (config.backend === 'memory') {
+    memoryJobStore ??= new MemoryEmbeddingJobStore()
+    return memoryJobStore
+  }
+
+  return new PostgresEmbeddingJobStore(client)
+}
+
+// One worker run at a time per process
+let processing: Promise<EmbeddingWorkerReport> | null = null
+
+// Set when a call joins the run in progress: its job may have been
+// queued after the run's last claim, so the run claims once more
+let rerunRequested = false
+
+/**
+ * Run the worker until the queue is idle and no call joined meanwhile
+ */
+async function drainEmbeddingJobs(createWorker: () => Pick<EmbeddingWorker, 'runUntilIdle'>): Promise<EmbeddingWorkerReport> {
+  const worker = createWorker()
+  let total = emptyReport()
+
+  do {
+    rerunRequested = false
+    total = addReports(total, await worker.runUntilIdle())
+  } while (rerunRequested)
+
+  return total
+}
+
+/**
+ * Process Embedding Jobs
+ *
+ * Runs due jobs until the queue is idle, from environment configuration.
+ * Safe to call after every submission: calls made while a run is in
+ * progress share it, and the run claims again before it ends so their
+ * jobs are not left for the next submission. Never throws.
+ *
+ * @param options.createWorker - Worker for a new run (default: from
+ *   environment, with a service role client)
+ * @returns Totals, or null if service role credentials are missing or the run failed
+ */
+export async function processEmbeddingJobs(
+  options: { createWorker?: () => Pick<EmbeddingWorker, 'runUntilIdle'> } = {}
+): Promise<EmbeddingWorkerReport | null> {
+  if (!hasAdminCredentials()) return null
+
+  const joined = processing !== null
+  if (joined) {
+    rerunRequested = true
+  }
+
+  const run = processing ??= drainEmbeddingJobs(options.createWorker ?? (() => {
+    const config = loadEmbeddingJobsConfig()
+    const client = createAdminClient()
+    return new EmbeddingWorker(client, createEmbeddingJobStore(client, config), config)
+  }))
+
+  try {
+    const report = await run
+
+    // Joined as the run was finishing, after its last check: run again
+    if (joined && rerunRequested && processing !== run) {
+      return processEmbeddingJobs(options)
+    }
+
+    return report
+  } catch (error) {
+    console.error('Embedding worker error:', error)
+    return null
+  } finally {
+    // Only the run's own callers clear it, never a later run
+    if (processing === run) {
+      processing = null
+    }
+  }
+}
@@ -0,0 +1,577 @@
+/**
+ * Exposure Ledger
+ *
+ * Counts how often each message is shown as a cluster's focus, as
+ * related and as next. The historical cursor recycles the archive
+ * without looking at what was shown, so some messages return as focus
+ * again and again while others never do; the ledger lets the cluster
+ * selector favour the under-exposed (config.fairness.weight) and the
+ * exposure report show the spread.
+ *
+ * Counts are kept in this browser (LocalExposureStore, a rolling ledger)
+ * or shared by every screen in message_exposures (migration 016): screens
+ * record through POST /api/exposures (ApiExposureStore), trusted server
+ * code directly (PostgresExposureStore).
+ *
+ * IMPORTANT: Pure business logic - NO visualization concepts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, ExposurePayload, MessageExposureRow } from '@/types/database'
+import type { ExposureRole, MessageCluster, MessageExposure } from '@/types/grief-messages'
+
+/** localStorage key of the local ledger */
+export const EXPOSURE_STORAGE_KEY = 'requiary:exposures'
+
+/** Messages the local ledger remembers; the longest unseen are dropped first */
+export const LOCAL_LEDGER_SIZE = 5000
+
+/** Exposures one POST /api/exposures call may carry */
+export const MAX_EXPOSURES_PER_RECORD = 100
+
+/** How long a screen waits for POST /api/exposures before giving up */
+export const EXPOSURE_RECORD_TIMEOUT_MS = 10000
+
+/**
+ * Exposure Store Interface
+ */
+export interface ExposureStore {
+  /**
+   * Counts of the messages that have been shown
+   *
+   * @returns Message id to exposure (never-shown messages are absent)
+   */
+  load(messageIds: string[]): Promise<Map<string, MessageExposure>>
+
+  /**
+   * Add counts (each entry is shown since the last record)
+   */
+  record(exposures: MessageExposure[]): Promise<void>
+
+  /**
+   * Every message's counts, for the exposure report
+   */
+  all(): Promise<MessageExposure[]>
+}
+
+/**
+ * The parts of Web Storage the local ledger uses
+ */
+export type ExposureStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+function emptyExposure(messageId: string, lastShownAt: string): MessageExposure {
+  return { messageId, focus: 0, related: 0, next: 0, lastShownAt }
+}
+
+function addExposure(a: MessageExposure, b: MessageExposure): MessageExposure {
+  return {
+    messageId: a.messageId,
+    focus: a.focus + b.focus,
+    related: a.related + b.related,
+    next: a.next + b.next,
+    lastShownAt: a.lastShownAt > b.lastShownAt ? a.lastShownAt : b.lastShownAt
+  }
+}
+
+function toExposure(row: MessageExposureRow): MessageExposure {
+  return {
+    messageId: row.message_id.toString(),
+    focus: row.focus_count,
+    related: row.related_count,
+    next: row.next_count,
+    lastShownAt: new Date(row.last_shown_at).toISOString()
+  }
+}
+
+/**
+ * This browser's localStorage, if it has one and allows it
+ */
+function browserStorage(): ExposureStorage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Local Exposure Store
+ *
+ * A rolling ledger for one screen: counts persist in localStorage (in
+ * memory only where there is none, e.g. tests and scripts) and only the
+ * maxEntries most recently shown messages are kept.
+ */
+export class LocalExposureStore implements ExposureStore {
+  private entries: Map<string, MessageExposure> = new Map()
+  private storage: ExposureStorage | null
+  private maxEntries: number
+
+  /**
+   * @param storage - Where the ledger persists (default: localStorage; null for memory only)
+   * @param maxEntries - Messages remembered (default LOCAL_LEDGER_SIZE)
+   */
+  constructor(storage: ExposureStorage | null = browserStorage(), maxEntries: number = LOCAL_LEDGER_SIZE) {
+    this.storage = storage
+    this.maxEntries = maxEntries
+
+    try {
+      const saved = JSON.parse(storage?.getItem(EXPOSURE_STORAGE_KEY) ?? '[]') as MessageExposure[]
+      saved.forEach((exposure) => this.entries.set(exposure.messageId, exposure))
+    } catch (error) {
+      console.warn('Exposure ledger unreadable, starting afresh:', error)
+    }
+  }
+
+  async load(messageIds: string[]): Promise<Map<string, MessageExposure>> {
+    const found = new Map<string, MessageExposure>()
+    for (const id of messageIds) {
+      const exposure = this.entries.get(id)
+      if (exposure) found.set(id, { ...exposure })
+    }
+    return found
+  }
+
+  async record(exposures: MessageExposure[]): Promise<void> {
+    for (const exposure of exposures) {
+      const current = this.entries.get(exposure.messageId)
+      this.entries.set(exposure.messageId, current ? addExposure(current, exposure) : { ...exposure })
+    }
+
+    if (this.entries.size > this.maxEntries) {
+      const kept = [...this.entries.values()]
+        .sort((a, b) => b.lastShownAt.localeCompare(a.lastShownAt))
+        .slice(0, this.maxEntries)
+      this.entries = new Map(kept.map((e) => [e.messageId, e]))
+    }
+
+    try {
+      this.storage?.setItem(EXPOSURE_STORAGE_KEY, JSON.stringify([...this.entries.values()]))
+    } catch (error) {
+      // Quota or private browsing: the counts still hold for this session
+      console.warn('Exposure ledger not saved:', error)
+    }
+  }
+
+  async all(): Promise<MessageExposure[]> {
+    return [...this.entries.values()].map((e) => ({ ...e }))
+  }
+}
+
+/**
+ * Read exposures sent to POST /api/exposures
+ *
+ * @param value - Parsed request body field
+ * @returns The exposures, or null if any is malformed, a message appears
+ *   twice (record_exposures() updates each row once per call) or there
+ *   are more than MAX_EXPOSURES_PER_RECORD
+ */
+export function parseExposures(value: unknown): MessageExposure[] | null {
+  if (!Array.isArray(value) || value.length > MAX_EXPOSURES_PER_RECORD) return null
+
+  const isCount = (n: unknown): n is number => Number.isInteger(n) && (n as number) >= 0
+  const exposures: MessageExposure[] = []
+  const seen = new Set<string>()
+
+  for (const entry of value) {
+    const e = entry as Partial<MessageExposure> | null
+    if (
+      typeof e !== 'object' || e === null ||
+      typeof e.messageId !== 'string' || !/^\d{1,18}$/.test(e.messageId) ||
+      !isCount(e.focus) || !isCount(e.related) || !isCount(e.next) ||
+      typeof e.lastShownAt !== 'string' || Number.isNaN(Date.parse(e.lastShownAt)) ||
+      seen.has(e.messageId)
+    ) {
+      return null
+    }
+    seen.add(e.messageId)
+    exposures.push({
+      messageId: e.messageId,
+      focus: e.focus,
+      related: e.related,
+      next: e.next,
+      lastShownAt: new Date(e.lastShownAt).toISOString()
+    })
+  }
+
+  return exposures
+}
+
+/**
+ * Postgres Exposure Store
+ *
+ * Reads message_exposures (public under RLS) and adds to it through
+ * record_exposures(), which only the service role may call: recording
+ * needs the admin client (see ApiExposureStore for screens).
+ */
+export class PostgresExposureStore implements ExposureStore {
+  private client: SupabaseClient<Database>
+  private pageSize: number
+
+  /**
+   * @param client - Supabase client
+   * @param pageSize - Rows read per page by all() (default 1000)
+   */
+  constructor(client: SupabaseClient<Database>, pageSize: number = 1000) {
+    this.client = client
+    this.pageSize = pageSize
+  }
+
+  async load(messageIds: string[]): Promise<Map<string, MessageExposure>> {
+    const found = new Map<string, MessageExposure>()
+    if (messageIds.length === 0) return found
+
+    const { data, error } = await this.client
+      .from('message_exposures')
+      .select('message_id, focus_count, related_count, next_count, last_shown_at')
+      .in('message_id', messageIds)
+
+    if (error) throw new Error(`Failed to load exposures: ${error.message}`)
+    for (const row of data || []) {
+      const exposure = toExposure(row)
+      found.set(exposure.messageId, exposure)
+    }
+    return found
+  }
+
+  async record(exposures: MessageExposure[]): Promise<void> {
+    if (exposures.length === 0) return
+
+    const payload: ExposurePayload[] = exposures.map((e) => ({
+      message_id: e.messageId,
+      focus: e.focus,
+      related: e.related,
+      next: e.next,
+      shown_at: e.lastShownAt
+    }))
+    const { error } = await this.client.rpc('record_exposures', { p_exposures: payload })
+
+    if (error) throw new Error(`Failed to record exposures: ${error.message}`)
+  }
+
+  async all(): Promise<MessageExposure[]> {
+    const exposures: MessageExposure[] = []
+    let cursor: string | null = null
+
+    while (true) {
+      let query = this.client
+        .from('message_exposures')
+        .select('message_id, focus_count, related_count, next_count, last_shown_at')
+
+      if (cursor) {
+        query = query.gt('message_id', cursor)
+      }
+
+      const { data, error } = await query
+        .order('message_id', { ascending: true })
+        .limit(this.pageSize)
+
+      if (error) throw new Error(`Failed to read exposures: ${error.message}`)
+
+      const rows = data || []
+      exposures.push(...rows.map(toExposure))
+
+      if (rows.length < this.pageSize) break
+      cursor = rows[rows.length - 1].message_id.toString()
+    }
+
+    return exposures
+  }
+}
+
+export interface ApiExposureStoreOptions {
+  /** Route counts are posted to (default '/api/exposures') */
+  endpoint?: string
+
+  /** Identifies this screen to the route's rate limit (default: a random UUID) */
+  sessionId?: string
+
+  /** Abort a write after this long (default EXPOSURE_RECORD_TIMEOUT_MS) */
+  timeoutMs?: number
+
+  /** Default: global fetch */
+  fetch?: (input: string, init: RequestInit) => Promise<Response>
+}
+
+/**
+ * API Exposure Store
+ *
+ * The database ledger as a screen uses it: reads message_exposures with
+ * the anon key, and records through POST /api/exposures, which holds the
+ * service role and limits how often each screen and IP may write. Each
+ * record() is one POST of at most MAX_EXPOSURES_PER_RECORD counts (the
+ * ledger flushes in batches of that size). A refused, failed or timed
+ * out write throws, so the ledger keeps the counts for the next flush.
+ */
+export class ApiExposureStore extends PostgresExposureStore {
+  private endpoint: string
+  private sessionId: string
+  private timeoutMs: number
+  private fetch: (input: string, init: RequestInit) => Promise<Response>
+
+  /**
+   * @param client - Supabase client (anon key) the counts are read with
+   * @param options - Endpoint, screen id, timeout and fetch
+   */
+  constructor(client: SupabaseClient<Database>, options: ApiExposureStoreOptions = {}) {
+    super(client)
+    this.endpoint = options.endpoint ?? '/api/exposures'
+    this.sessionId = options.sessionId ?? crypto.randomUUID()
+    this.timeoutMs = options.timeoutMs ?? EXPOSURE_RECORD_TIMEOUT_MS
+    // Resolve global fetch per call so test doubles installed later apply
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init))
+  }
+
+  async record(exposures: MessageExposure[]): Promise<void> {
+    if (exposures.length === 0) return
+    if (exposures.length > MAX_EXPOSURES_PER_RECORD) {
+      throw new Error(`Failed to record exposures: at most ${MAX_EXPOSURES_PER_RECORD} per call`)
+    }
+
+    const response = await this.fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: this.sessionId, exposures }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to record exposures: HTTP ${response.status}`)
+    }
+  }
+}
+
+/**
+ * Exposure Ledger Class
+ *
+ * Running counts for the messages this screen has loaded or shown.
+ * Clusters are counted as they are built; flush() adds the counts since
+ * the last flush to the store in batches, and keeps the batches the
+ * store did not take for the next flush.
+ */
+export class ExposureLedger {
+  private store: ExposureStore
+  private batchSize: number
+  private totals: Map<string, MessageExposure> = new Map()
+  private pending: Map<string, MessageExposure> = new Map()
+
+  /**
+   * @param store - Where counts are loaded from and recorded to
+   * @param batchSize - Messages per store.record() call (default MAX_EXPOSURES_PER_RECORD)
+   */
+  constructor(store: ExposureStore, batchSize: number = MAX_EXPOSURES_PER_RECORD) {
+    this.store = store
+    this.batchSize = batchSize
+  }
+
+  /**
+   * Times a message has been shown in a role
+   */
+  count(messageId: string, role: ExposureRole): number {
+    return this.totals.get(messageId)?.[role] ?? 0
+  }
+
+  /**
+   * Counts of every message known to the ledger
+   */
+  exposures(): MessageExposure[] {
+    return [...this.totals.values()].map((e) => ({ ...e }))
+  }
+
+  /**
+   * Count a cluster's focus, related messages and next
+   *
+   * @param cluster - Cluster as shown
+   */
+  recordShown(cluster: MessageCluster): void {
+    const shownAt = cluster.timestamp.toISOString()
+    this.add(cluster.focusId, 'focus', shownAt)
+    cluster.related.forEach((r) => this.add(r.messageId, 'related', shownAt))
+    if (cluster.nextId !== null) {
+      this.add(cluster.nextId, 'next', shownAt)
+    }
+  }
+
+  /**
+   * Load stored counts for messages entering the working set
+   *
+   * @throws {Error} If the store cannot be read
+   */
+  async load(messageIds: string[]): Promise<void> {
+    const stored = await this.store.load(messageIds)
+    stored.forEach((exposure, id) => {
+      const unsaved = this.pending.get(id)
+      this.totals.set(id, unsaved ? addExposure(exposure, unsaved) : exposure)
+    })
+  }
+
+  /**
+   * Record the counts since the last flush
+   *
+   * @throws {Error} If the store cannot be written (counts not yet
+   *   recorded are kept; batches already recorded are not sent again)
+   */
+  async flush(): Promise<void> {
+    if (this.pending.size === 0) return
+
+    const unsaved = [...this.pending.values()]
+    this.pending = new Map()
+
+    for (let i = 0; i < unsaved.length; i += this.batchSize) {
+      try {
+        await this.store.record(unsaved.slice(i, i + this.batchSize))
+      } catch (error) {
+        unsaved.slice(i).forEach((exposure) => {
+          const later = this.pending.get(exposure.messageId)
+          this.pending.set(exposure.messageId, later ? addExposure(exposure, later) : exposure)
+        })
+        throw error
+      }
+    }
+  }
+
+  private add(messageId: string, role: ExposureRole, shownAt: string): void {
+    for (const counts of [this.totals, this.pending]) {
+      const exposure = counts.get(messageId) ?? emptyExposure(messageId, shownAt)
+      counts.set(messageId, { ...exposure, [role]: exposure[role] + 1, lastShownAt: shownAt })
+    }
+  }
+}
+
+/**
+ * How exposure in one role is spread over the messages
+ */
+export interface RoleDistribution {
+  /** Times shown in this role, over all messages */
+  total: number
+
+  mean: number
+  max: number
+
+  /** Gini coefficient: 0 when every message is shown equally, near 1 when a few take it all */
+  gini: number
+
+  /** Messages per range of times shown: 0, 1, 2-3, 4-7, ... */
+  histogram: Array<{ min: number; max: number; messages: number }>
+}
+
+export interface ExposureReport {
+  /** Messages reported on */
+  messages: number
+
+  /** Messages never shown in any role */
+  neverShown: number
+
+  roles: Record<ExposureRole, RoleDistribution>
+
+  /** Never-shown messages (oldest first), then those shown longest ago */
+  longestUnseen: Array<{ messageId: string; lastShownAt: string | null }>
+}
+
+function distribution(counts: number[]): RoleDistribution {
+  const sorted = [...counts].sort((a, b) => a - b)
+  const n = sorted.length
+  const total = sorted.reduce((sum, c) => sum + c, 0)
+  const max = n > 0 ? sorted[n - 1] : 0
+
+  // G = 2 Σ i·x(i) / (n Σx) − (n + 1) / n, x ascending, i from 1
+  const weighted = sorted.reduce((sum, c, i) => sum + (i + 1) * c, 0)
+  const gini = total > 0 ? (2 * weighted) / (n * total) - (n + 1) / n : 0
+
+  const histogram: RoleDistribution['histogram'] = [{ min: 0, max: 0, messages: 0 }]
+  for (let min = 1; min <= max; min *= 2) {
+    histogram.push({ min, max: min * 2 - 1, messages: 0 })
+  }
+  for (const count of sorted) {
+    histogram.find((bucket) => count <= bucket.max)!.messages++
+  }
+
+  return { total, mean: n > 0 ? total / n : 0, max, gini, histogram }
+}
+
+/**
+ * Build Exposure Report
+ *
+ * @param messageIds - Messages to report on (the archive, or a screen's working set)
+ * @param exposures - Counts from a store or ledger (others are ignored)
+ * @param limit - Longest-unseen messages listed (default 10)
+ * @returns Distribution per role and the longest-unseen messages
+ *
+ * @example
+ * const report = buildExposureReport(ids, await store.all())
+ * console.log(`${report.neverShown} of ${report.messages} never shown`)
+ */
+export function buildExposureReport(
+  messageIds: string[],
+  exposures: MessageExposure[],
+  limit: number = 10
+): ExposureReport {
+  const byId = new Map(exposures.map((e) => [e.messageId, e]))
+  const ids = [...new Set(messageIds)]
+  const counts = (role: ExposureRole) => ids.map((id) => byId.get(id)?.[role] ?? 0)
+
+  const longestUnseen = ids
+    .map((messageId) => ({ messageId, lastShownAt: byId.get(messageId)?.lastShownAt ?? null }))
+    .sort((a, b) => {
+      if (a.lastShownAt === b.lastShownAt) return parseInt(a.messageId, 10) - parseInt(b.messageId, 10)
+      if (a.lastShownAt === null) return -1
+      if (b.lastShownAt === null) return 1
+      return a.lastShownAt.localeCompare(b.lastShownAt)
+    })
+    .slice(0, limit)
+
+  return {
+    messages: ids.length,
+    neverShown: ids.filter((id) => !byId.has(id)).length,
+    roles: {
+      focus: distribution(counts('focus')),
+      related: distribution(counts('related')),
+      next: distribution(counts('next'))
+    },
+    longestUnseen
+  }
+}
+
+/**
+ * Report on the Archive
+ *
+ * Exposure of every approved, non-deleted message.
+ *
+ * @param client - Client that can read messages (service role for the full archive)
+ * @param options - Store to report from, longest-unseen limit and paging
+ * @returns Exposure report
+ * @throws {Error} If messages or exposures cannot be read
+ */
+export async function reportArchiveExposure(
+  client: SupabaseClient<Database>,
+  options: { store: ExposureStore; limit?: number; pageSize?: number }
+): Promise<ExposureReport> {
+  const pageSize = options.pageSize ?? 1000
+  const messageIds: string[] = []
+  let cursor: string | null = null
+
+  while (true) {
+    let query = client
+      .from('messages')
+      .select('id')
+      .eq('approved', true)
+      .is('deleted_at', null)
+
+    if (cursor) {
+      query = query.gt('id', cursor)
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .limit(pageSize)
+
+    if (error) throw new Error(`Failed to read messages: ${error.message}`)
+
+    const rows = data || []
+    messageIds.push(...rows.map((row) => row.id.toString()))
+
+    if (rows.length < pageSize) break
+    cursor = rows[rows.length - 1].id.toString()
+  }
+
+  return buildExposureReport(messageIds, await options.store.all(), options.limit)
+}
@@ -18,6 +18,19 @@ import type {
 import { DatabaseService } from './database-service'
 import { MessagePoolManager } from './message-pool-manager'
 import { ClusterSelector } from './cluster-selector'
+import { ConstellationWalk } from './constellation-walk'
+import { PostgresConstellationStore, type ConstellationStore } from './constellations'
+import { createTraversalStrategy, type TraversalStrategy } from './traversal-strategies'
+import {
+  ApiExposureStore,
+  buildExposureReport,
+  ExposureLedger,
+  LocalExposureStore,
+  type ExposureReport,
+  type ExposureStore
+} from './exposure-ledger'
+import { SimilarityIndex } from '@/lib/utils/similarity-index'
+import { randomStream } from '@/lib/utils/random'
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
 
@@ -38,7 +51,12 @@ export class MessageLogicService {
   private databaseService: DatabaseService
   private poolManager: MessagePoolManager
   private clusterSelector: ClusterSelector
+  private similarityIndex: SimilarityIndex
   private config: MessagePoolConfig
+  private traversal: TraversalStrategy
+  private constellationStore: ConstellationStore | null
+  private exposure: ExposureLedger
+  private exposureFlush: Promise<void> | null = null
 
   // Working Set (the particle universe)
   private workingSet: GriefMessage[] = []
@@ -55,13 +73,38 @@ export class MessageLogicService {
   // Event callbacks
   private workingSetChangeCallback: ((change: WorkingSetChange) => void) | null = null
 
-  constructor(supabaseClient: SupabaseClient<Database>, config: MessagePoolConfig) {
+  /**
+   * @param supabaseClient - Supabase client
+   * @param config - Pool configuration
+   * @param constellationStore - Constellation source for the theme tour
+   *   (default: constellations tables, when config.traversalStrategy is 'theme-tour')
+   * @param exposureStore - Where exposure counts are kept
+   *   (default: see createExposureStore)
+   */
+  constructor(
+    supabaseClient: SupabaseClient<Database>,
+    config: MessagePoolConfig,
+    constellationStore?: ConstellationStore,
+    exposureStore?: ExposureStore
+  ) {
 
     // Create service instances
     this.databaseService = new DatabaseService(supabaseClient)
     this.poolManager = new MessagePoolManager(this.databaseService, config)
-    this.clusterSelector = new ClusterSelector(config)
+    this.similarityIndex = new SimilarityIndex(config.similarity)
+    this.exposure = new ExposureLedger(exposureStore ?? this.createExposureStore(supabaseClient, config))
+    this.clusterSelector = new ClusterSelector(config, this.similarityIndex, this.exposure)
     this.config = config
+    this.traversal = createTraversalStrategy(
+      config.traversalStrategy,
+      this.clusterSelector,
+      randomStream(config.seed, 'traversal')
+    )
+    this.constellationStore = this.traversal instanceof ConstellationWalk
+      ? constellationStore ?? new PostgresConstellationStore(supabaseClient)
+      : null
+
+    this.poolManager.onMessageEmbedded((message) => this.replaceMessage(message))
 
   }
 
@@ -99,13 +142,17 @@ export class MessageLogicService {
       this.workingSet = initialBatch.messages
       this.priorityMessageIds = new Set(initialBatch.priorityIds)
 
+      const change: WorkingSetChange = {
+        removed: [],
+        added: this.workingSet,
+        reason: 'initialization'
+      }
+      this.similarityIndex.applyChange(change)
+      await this.loadExposure(this.workingSet)
+      await this.loadConstellations()
+
       // Fire callback for initial working set
       if (this.workingSetChangeCallback) {
-        const change: WorkingSetChange = {
-          removed: [],
-          added: this.workingSet,
-          reason: 'initialization'
-        }
         this.workingSetChangeCallback(change)
       }
 
@@ -188,13 +235,22 @@ export class MessageLogicService {
 
       // Step 4: Select next message (MUST be priority if any available)
       // Use same filtered candidates for consistency
-      const next = this.clusterSelector.selectNextMessage(
-        focus,
-        related,
-        eligibleCandidates,  // Use filtered candidates
-        this.previousFocusId,
-        this.priorityMessageIds
-      )
+      // Otherwise the traversal strategy decides, falling back to greedy
+      const next = this.clusterSelector.selectPriorityNext(related, this.previousFocusId, this.priorityMessageIds)
+        ?? this.traversal.selectNext({
+          focus,
+          related,
+          candidates: eligibleCandidates,
+          previousFocusId: this.previousFocusId,
+          priorityIds: this.priorityMessageIds
+        })
+        ?? this.clusterSelector.selectNextMessage(
+          focus,
+          related,
+          eligibleCandidates,  // Use filtered candidates
+          this.previousFocusId,
+          this.priorityMessageIds
+        )
 
       // Step 5: Build cluster
       const cluster: MessageCluster = {
@@ -212,6 +268,13 @@ export class MessageLogicService {
         totalClustersShown: this.totalClustersShown
       }
 
+      if (this.traversal instanceof ConstellationWalk) {
+        const constellation = this.traversal.constellationOf(focus.id)
+        cluster.constellation = constellation ? { id: constellation.id, name: constellation.name } : null
+      }
+      this.traversal.recordShown?.(cluster)
+      this.exposure.recordShown(cluster)
+
       // Validate cluster
       // TEMPORARILY DISABLED - has duplicate detection issue
       /*
@@ -299,16 +362,25 @@ export class MessageLogicService {
         const minAcceptable = Math.floor(this.config.workingSetSize * 0.9)
         const maxAcceptable = Math.ceil(this.config.workingSetSize * 1.1)
 
-        // Step 9: Emit working set change event
-        if (this.workingSetChangeCallback) {
-          const change: WorkingSetChange = {
-            removed: messagesToRemove, // Old cluster messages
-            added: toAdd,
-            reason: 'cluster_cycle'
-          }
+        // Step 9: Update the similarity index and emit working set change event
+        const change: WorkingSetChange = {
+          removed: messagesToRemove, // Old cluster messages
+          added: toAdd,
+          reason: 'cluster_cycle'
+        }
+        this.similarityIndex.applyChange(change)
+        this.traversal.onWorkingSetChange?.(change)
+        await this.loadMemberships(toAdd)
+        await this.loadExposure(toAdd)
 
+        if (this.workingSetChangeCallback) {
           this.workingSetChangeCallback(change)
         }
+      } else {
+        // Nothing to replenish, but the index still drops the old cluster
+        const change: WorkingSetChange = { removed: messagesToRemove, added: [], reason: 'cluster_cycle' }
+        this.similarityIndex.applyChange(change)
+        this.traversal.onWorkingSetChange?.(change)
       }
 
       // Step 10: Update traversal state
@@ -332,6 +404,8 @@ export class MessageLogicService {
       }
       
       this.totalClustersShown++
+      // In the background: a slow ledger must not hold up the next cluster
+      void this.flushExposure()
 
       return cluster
     } catch (error) {
@@ -479,6 +553,22 @@ export class MessageLogicService {
     }
   }
 
+  /**
+   * Get Exposure Report
+   *
+   * How often the messages this screen has loaded were shown as focus,
+   * related and next, and which have gone unseen longest. For the whole
+   * archive across screens, see scripts/exposure-report.ts.
+   *
+   * @param limit - Longest-unseen messages listed (default 10)
+   * @returns Exposure report
+   */
+  getExposureReport(limit: number = 10): ExposureReport {
+    const exposures = this.exposure.exposures()
+    const messageIds = [...this.workingSet.map((m) => m.id), ...exposures.map((e) => e.messageId)]
+    return buildExposureReport(messageIds, exposures, limit)
+  }
+
   /**
    * Get Total Message Count
    *
@@ -521,6 +611,7 @@ export class MessageLogicService {
     this.previousFocus = null
     this.totalClustersShown = 0
     this.currentClusterMessageIds.clear()
+    this.traversal.reset()
 
     // NOTE: Working set is NOT cleared on reset - that would require re-initialization
     // Only traversal state is reset
@@ -542,11 +633,17 @@ export class MessageLogicService {
     // Stop pool manager polling
     this.poolManager.cleanup()
 
+    // Record the last clusters' exposure (in the background, after any
+    // flush still in flight)
+    void this.flushExposure().then(() => this.flushExposure())
+
     // Cleanup database service
     this.databaseService.cleanup()
 
     // Clear working set and priority tracking
     this.workingSet = []
+    this.similarityIndex.clear()
+    this.traversal.reset()
     this.priorityMessageIds.clear()
     this.currentClusterMessageIds.clear()
     this.workingSetChangeCallback = null
@@ -561,5 +658,121 @@ export class MessageLogicService {
   }
 
   // ========== PRIVATE METHODS ==========
-  // (None currently - focus selection is now inline in getNextCluster)
+
+  /**
+   * Load constellations and the working set's memberships (theme tour)
+   * Without them the tour has no opinion and traversal stays greedy,
+   * rather than stopping the installation.
+   */
+  private async loadConstellations(): Promise<void> {
+    if (!(this.traversal instanceof ConstellationWalk) || !this.constellationStore) {
+      return
+    }
+
+    try {
+      const constellations = await this.constellationStore.load()
+      if (constellations.length === 0) {
+        console.warn('Theme tour selected but no constellations are built')
+        return
+      }
+
+      this.traversal.setConstellations(constellations)
+      await this.loadMemberships(this.workingSet)
+    } catch (error) {
+      console.warn('Constellations unavailable, walking by similarity:', error)
+    }
+  }
+
+  /**
+   * Replace a working set message with its embedded copy
+   *
+   * New messages can join before their embedding is written; without
+   * this they would keep the fallback similarity and pitch.
+   */
+  private replaceMessage(message: GriefMessage): void {
+    if (this.nextFocus?.id === message.id) this.nextFocus = message
+    if (this.previousFocus?.id === message.id) this.previousFocus = message
+
+    const index = this.workingSet.findIndex((m) => m.id === message.id)
+    if (index === -1) {
+      return
+    }
+    this.workingSet[index] = message
+
+    const change: WorkingSetChange = { removed: [], added: [], updated: [message], reason: 'message_embedded' }
+    this.similarityIndex.applyChange(change)
+    this.traversal.onWorkingSetChange?.(change)
+
+    if (this.workingSetChangeCallback) {
+      this.workingSetChangeCallback(change)
+    }
+  }
+
+  /**
+   * Load exposure counts for messages entering the working set
+   * Without them the fairness boost treats the messages as unseen.
+   */
+  private async loadExposure(messages: GriefMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return
+    }
+
+    try {
+      await this.exposure.load(messages.map((m) => m.id))
+    } catch (error) {
+      console.warn('Exposure counts unavailable:', error)
+    }
+  }
+
+  /**
+   * Default exposure store
+   *
+   * A seeded run counts in memory only: counts carried over from other
+   * runs would change what fairness picks, and a replay should not add
+   * to the shared counts. Otherwise message_exposures (recorded through
+   * POST /api/exposures) when config.fairness.ledger is 'database', or
+   * this browser.
+   */
+  private createExposureStore(supabaseClient: SupabaseClient<Database>, config: MessagePoolConfig): ExposureStore {
+    if (config.seed !== null && config.seed !== undefined) {
+      return new LocalExposureStore(null)
+    }
+    return config.fairness?.ledger === 'database'
+      ? new ApiExposureStore(supabaseClient)
+      : new LocalExposureStore()
+  }
+
+  /**
+   * Record exposure counts (kept for the next cluster on failure)
+   *
+   * One flush at a time: while one is in flight this returns it, and
+   * counts added since go with the next.
+   */
+  private flushExposure(): Promise<void> {
+    if (!this.exposureFlush) {
+      this.exposureFlush = this.exposure.flush()
+        .catch((error) => {
+          console.warn('Exposure counts not recorded:', error)
+        })
+        .finally(() => {
+          this.exposureFlush = null
+        })
+    }
+    return this.exposureFlush
+  }
+
+  /**
+   * Add memberships for messages entering the working set (theme tour)
+   */
+  private async loadMemberships(messages: GriefMessage[]): Promise<void> {
+    if (!(this.traversal instanceof ConstellationWalk) || !this.constellationStore || messages.length === 0) {
+      return
+    }
+
+    try {
+      this.traversal.assign(await this.constellationStore.memberships(messages.map((m) => m.id)))
+    } catch (error) {
+      console.warn('Constellation memberships unavailable:', error)
+    }
+  }
 }
@@ -0,0 +1,225 @@
+/**
+ * Message Notifier
+ *
+ * Server-side LISTEN on the Postgres `new_message` channel
+ * (see supabase/migrations/006_new_message_notify.sql).
+ *
+ * One connection per server process is shared by every open stream;
+ * it is opened for the first subscriber and closed after the last.
+ *
+ * NEVER import from client components.
+ */
+
+import { Client, type Notification } from 'pg'
+import type { GriefMessage } from '@/types/grief-messages'
+import { parseGriefMessage } from '@/types/grief-messages'
+
+export const NEW_MESSAGE_CHANNEL = 'new_message'
+
+export type NewMessageListener = (message: GriefMessage) => void
+
+/**
+ * Subset of pg.Client used by the notifier
+ */
+export interface ListenClient {
+  connect(): Promise<unknown>
+  query(sql: string): Promise<unknown>
+  end(): Promise<void>
+  on(event: 'notification', listener: (notification: Notification) => void): unknown
+  on(event: 'error', listener: (error: Error) => void): unknown
+}
+
+/**
+ * Parse a `new_message` payload into a GriefMessage
+ *
+ * @param payload - JSON text from pg_notify
+ * @returns Message, or null if the payload is not a visible message row
+ */
+export function parseNotificationPayload(payload: string | undefined): GriefMessage | null {
+  if (!payload) return null
+
+  try {
+    const message = parseGriefMessage(JSON.parse(payload))
+    return message && message.approved && message.deleted_at === null ? message : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Message Notifier Class
+ *
+ * Fans out new-message notifications to in-process subscribers.
+ * Reconnects with exponential backoff if the connection drops.
+ */
+export class MessageNotifier {
+  private createClient: () => ListenClient
+  private client: ListenClient | null = null
+  private connecting: Promise<void> | null = null
+  private listeners = new Set<NewMessageListener>()
+  private retryDelay: number = 1000 // Start at 1 second
+  private maxRetryDelay: number = 30000 // Max 30 seconds
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(createClient: () => ListenClient) {
+    this.createClient = createClient
+  }
+
+  /**
+   * Subscribe
+   *
+   * Registers a listener and connects if this is the first one.
+   * Resolves once LISTEN is active, so callers can run a catch-up
+   * query afterwards without missing messages in between.
+   *
+   * @param listener - Called once per newly visible message
+   * @returns Unsubscribe function
+   * @throws {Error} If the initial connection fails
+   */
+  async subscribe(listener: NewMessageListener): Promise<() => void> {
+    this.listeners.add(listener)
+
+    try {
+      await this.ensureConnected()
+    } catch (error) {
+      this.listeners.delete(listener)
+      throw error
+    }
+
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) {
+        void this.disconnect()
+      }
+    }
+  }
+
+  /**
+   * Number of active subscribers (for monitoring)
+   */
+  getSubscriberCount(): number {
+    return this.listeners.size
+  }
+
+  // ========== PRIVATE METHODS ==========
+
+  private ensureConnected(): Promise<void> {
+    if (this.client) return Promise.resolve()
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null
+      })
+    }
+    return this.connecting
+  }
+
+  private async connect(): Promise<void> {
+    const client = this.createClient()
+
+    client.on('notification', (notification) => this.handleNotification(notification))
+    client.on('error', () => this.handleConnectionLost(client))
+
+    try {
+      await client.connect()
+      await client.query(`LISTEN ${NEW_MESSAGE_CHANNEL}`)
+    } catch (error) {
+      await client.end().catch(() => {})
+      throw error
+    }
+
+    // Everyone unsubscribed while we were connecting
+    if (this.listeners.size === 0) {
+      await client.end().catch(() => {})
+      return
+    }
+
+    this.client = client
+    this.retryDelay = 1000
+  }
+
+  private handleNotification(notification: Notification): void {
+    if (notification.channel !== NEW_MESSAGE_CHANNEL) return
+
+    const message = parseNotificationPayload(notification.payload)
+    if (!message) return
+
+    for (const listener of this.listeners) {
+      try {
+        listener(message)
+      } catch (error) {
+        console.error('New message listener failed:', error)
+      }
+    }
+  }
+
+  /**
+   * Drop a broken connection and reconnect while anyone is subscribed.
+   * Notifications sent while disconnected are lost; stream clients
+   * recover them on their own reconnect via Last-Event-ID.
+   */
+  private handleConnectionLost(client: ListenClient): void {
+    if (this.client !== client) return
+
+    this.client = null
+    void client.end().catch(() => {})
+    this.scheduleReconnect()
+  }
+
+  private scheduleReconnect(): void {
+    if (this.listeners.size === 0 || this.retryTimer) return
+
+    this.retryTimer = setTimeout(async () => {
+      this.retryTimer = null
+      if (this.listeners.size === 0 || this.client) return
+
+      try {
+        await this.ensureConnected()
+      } catch (error) {
+        console.error('Message notifier reconnect failed:', error)
+        // Exponential backoff: double delay
+        this.retryDelay = Math.min(this.retryDelay * 2, this.maxRetryDelay)
+        this.scheduleReconnect()
+      }
+    }, this.retryDelay)
+  }
+
+  private async disconnect(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+
+    const client = this.client
+    this.client = null
+
+    if (client) {
+      await client.end().catch(() => {})
+    }
+  }
+}
+
+let sharedNotifier: MessageNotifier | null = null
+
+/**
+ * Check whether a direct Postgres connection is configured
+ * (LISTEN is not available through the Supabase REST API)
+ */
+export function hasDatabaseUrl(): boolean {
+  return Boolean(process.env.DATABASE_URL)
+}
+
+/**
+ * Get the process-wide notifier
+ *
+ * @returns Shared notifier, or null if DATABASE_URL is not set
+ */
+export function getMessageNotifier(): MessageNotifier | null {
+  if (!hasDatabaseUrl()) return null
+
+  if (!sharedNotifier) {
+    const connectionString = process.env.DATABASE_URL!
+    sharedNotifier = new MessageNotifier(() => new Client({ connectionString }))
+  }
+
+  return sharedNotifier
+}
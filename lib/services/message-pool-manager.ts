@@ -6,11 +6,17 @@
  * 1. Historical Cursor - Works backwards through existing messages
  * 2. New Message Watermark - Tracks incoming submissions
  *
+ * New submissions arrive from a NewMessageSource (polling or stream).
+ * Queued embeddings are written after a submission is published, so a
+ * new message may arrive without semantic_data; the source delivers it
+ * again once embedded and the stored copy is replaced.
+ *
  * IMPORTANT: Pure business logic - NO visualization concepts.
  */
 
 import type { GriefMessage, MessagePoolConfig, PoolStats } from '@/types/grief-messages'
 import type { DatabaseService } from './database-service'
+import { createNewMessageSource, type NewMessageSource } from './new-message-source'
 import { getMemoryUsage } from '@/lib/config/message-pool-config'
 
 /**
@@ -41,20 +47,32 @@ export class MessagePoolManager {
   // Priority queue for new messages
   private priorityQueue: GriefMessage[] = []
 
-  // Polling state
-  private pollingTimer: NodeJS.Timeout | null = null
+  // New message delivery (polling or stream)
+  private newMessageSource: NewMessageSource
+
+  // IDs recently queued, so pushed duplicates of local submissions are ignored
+  private recentNewIds = new Set<string>()
+
+  // Recent new messages handed out before their embedding was written
+  private unembeddedIds = new Set<string>()
+  private messageEmbeddedCallback: ((message: GriefMessage) => void) | null = null
 
   // Surge mode removed - using simplified allocation strategy
 
-  constructor(databaseService: DatabaseService, config: MessagePoolConfig) {
+  constructor(
+    databaseService: DatabaseService,
+    config: MessagePoolConfig,
+    newMessageSource?: NewMessageSource
+  ) {
     this.databaseService = databaseService
     this.config = config
+    this.newMessageSource = newMessageSource ?? createNewMessageSource(config, databaseService)
   }
 
   /**
    * Initialize
    *
-   * Sets up dual cursors and starts polling for new messages.
+   * Sets up dual cursors and starts listening for new messages.
    * MUST be called before using getNextBatch.
    *
    * @throws {Error} If unable to determine max message ID
@@ -75,8 +93,12 @@ export class MessagePoolManager {
       this.historicalCursor = maxId
       this.newMessageWatermark = maxId
 
-      // Start polling for new messages
-      this.startPolling()
+      // Start receiving new messages
+      this.newMessageSource.start(
+        () => this.newMessageWatermark,
+        (messages) => this.receiveNewMessages(messages),
+        () => Array.from(this.unembeddedIds)
+      )
 
     } catch (error) {
       throw new Error(`Failed to initialize pool manager: ${error}`)
@@ -123,6 +145,7 @@ export class MessagePoolManager {
         const fromNew = newMessages.slice(0, needed)
         messages.push(...fromNew)
         priorityIds.push(...fromNew.map(m => m.id))
+        fromNew.forEach((message) => this.rememberNewMessage(message))
         
         // Update watermark
         const maxId = Math.max(...newMessages.map(m => parseInt(m.id, 10)))
@@ -156,6 +179,7 @@ export class MessagePoolManager {
 
     // Add to end of queue (FIFO)
     this.priorityQueue.push(message)
+    this.rememberNewMessage(message)
 
     // Update watermark
     const messageId = parseInt(message.id, 10)
@@ -171,6 +195,19 @@ export class MessagePoolManager {
     }
   }
 
+  /**
+   * Register Message Embedded Callback
+   *
+   * Called when a new message that has already left the priority queue
+   * is delivered again with its embedding. Messages still queued are
+   * replaced in place.
+   *
+   * @param callback - Receives the embedded message
+   */
+  onMessageEmbedded(callback: (message: GriefMessage) => void): void {
+    this.messageEmbeddedCallback = callback
+  }
+
   /**
    * Get Statistics
    *
@@ -195,16 +232,16 @@ export class MessagePoolManager {
   /**
    * Cleanup
    *
-   * Stops polling and releases resources.
+   * Stops new message delivery and releases resources.
    */
   cleanup(): void {
 
-    if (this.pollingTimer) {
-      clearInterval(this.pollingTimer)
-      this.pollingTimer = null
-    }
+    this.newMessageSource.stop()
 
     this.priorityQueue = []
+    this.recentNewIds.clear()
+    this.unembeddedIds.clear()
+    this.messageEmbeddedCallback = null
   }
 
   /**
@@ -276,38 +313,58 @@ export class MessagePoolManager {
   }
 
   /**
-   * Start Polling
+   * Receive New Messages
+   *
+   * Adds messages from the new message source to the priority queue.
+   * Skips messages already queued (e.g. a local submission that is
+   * also pushed by the stream), unless they now carry the embedding
+   * the first copy was missing.
    *
-   * Begins periodic polling for new messages.
+   * @param messages - Newly visible messages
    */
-  private startPolling(): void {
-
-    this.pollingTimer = setInterval(() => {
-      this.checkForNewMessages()
-    }, this.config.pollingInterval)
+  private async receiveNewMessages(messages: GriefMessage[]): Promise<void> {
+    for (const message of messages) {
+      if (this.recentNewIds.has(message.id)) {
+        if (message.semantic_data && this.unembeddedIds.delete(message.id)) {
+          this.receiveEmbedding(message)
+        }
+        continue
+      }
+      await this.addNewMessage(message)
+    }
   }
 
   /**
-   * Check For New Messages
-   *
-   * Polls database for messages above watermark.
-   * Adds found messages to priority queue.
+   * Replace a queued copy, or pass the message on if it was handed out
    */
-  private async checkForNewMessages(): Promise<void> {
-    try {
-      const newMessages = await this.databaseService.fetchNewMessagesAboveWatermark(
-        this.newMessageWatermark
-      )
+  private receiveEmbedding(message: GriefMessage): void {
+    const index = this.priorityQueue.findIndex((queued) => queued.id === message.id)
+    if (index !== -1) {
+      this.priorityQueue[index] = message
+      return
+    }
 
-      if (newMessages.length > 0) {
+    this.messageEmbeddedCallback?.(message)
+  }
 
-        // Add to priority queue
-        for (const message of newMessages) {
-          await this.addNewMessage(message)
-        }
+  /**
+   * Remember a new message's ID (and whether it still needs its
+   * embedding), bounded to a few queues' worth
+   */
+  private rememberNewMessage(message: GriefMessage): void {
+    this.recentNewIds.add(message.id)
+    if (!message.semantic_data) {
+      this.unembeddedIds.add(message.id)
+    }
+
+    const limit = this.config.priorityQueue.maxSize * 2
+    if (this.recentNewIds.size > limit) {
+      // Sets iterate in insertion order - drop the oldest
+      const oldest = this.recentNewIds.values().next().value
+      if (oldest !== undefined) {
+        this.recentNewIds.delete(oldest)
+        this.unembeddedIds.delete(oldest)
       }
-    } catch (error) {
-      // Continue polling despite error
     }
   }
 
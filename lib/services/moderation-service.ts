@@ -0,0 +1,202 @@
+/**
+ * Moderation Service
+ *
+ * Review queue operations for the admin API.
+ * Requires a service role client: held and deleted messages are
+ * invisible to the anon role under RLS.
+ *
+ * State model (no hard deletes):
+ * - pending:  approved=false, deleted_at IS NULL
+ * - flagged:  flagged=true, deleted_at IS NULL
+ * - public:   approved=true, deleted_at IS NULL
+ * - removed:  deleted_at IS NOT NULL (rejected or soft-deleted)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Message, MessageUpdate } from '@/types/database'
+
+/**
+ * Queue filter for listing messages
+ */
+export type ModerationQueue = 'pending' | 'flagged' | 'removed'
+
+/**
+ * Moderator action on a single message
+ */
+export type ModerationAction = 'approve' | 'reject' | 'delete' | 'restore' | 'note'
+
+export const MODERATION_ACTIONS: readonly ModerationAction[] = [
+  'approve',
+  'reject',
+  'delete',
+  'restore',
+  'note'
+]
+
+export const MODERATION_QUEUES: readonly ModerationQueue[] = ['pending', 'flagged', 'removed']
+
+/**
+ * Queue listing options
+ */
+export interface ModerationQueueOptions {
+  queue: ModerationQueue
+
+  /** Page size */
+  limit: number
+
+  /** Return messages with id < before (for paging, newest first) */
+  before?: number
+}
+
+/**
+ * Moderation Service Class
+ */
+export class ModerationService {
+  private client: SupabaseClient<Database>
+
+  constructor(client: SupabaseClient<Database>) {
+    this.client = client
+  }
+
+  /**
+   * List Queue
+   *
+   * Returns messages in a review queue, newest first.
+   *
+   * @param options - Queue, page size and cursor
+   * @returns Messages in the queue
+   */
+  async listQueue(options: ModerationQueueOptions): Promise<Message[]> {
+    let query = this.client
+      .from('messages')
+      .select('*')
+      .order('id', { ascending: false })
+      .limit(options.limit)
+
+    if (options.queue === 'pending') {
+      query = query.eq('approved', false).is('deleted_at', null)
+    } else if (options.queue === 'flagged') {
+      query = query.eq('flagged', true).is('deleted_at', null)
+    } else {
+      query = query.not('deleted_at', 'is', null)
+    }
+
+    if (options.before !== undefined) {
+      query = query.lt('id', options.before.toString())
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Moderation queue query failed: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  /**
+   * Apply Action
+   *
+   * Performs a moderator action and optionally attaches a note.
+   *
+   * - approve: make public and clear the flag
+   * - reject:  keep hidden and remove from the pending queue
+   * - delete:  soft-delete (hidden from all public queries)
+   * - restore: undo reject/delete (approval state unchanged)
+   * - note:    attach a note only
+   *
+   * @param id - Message ID
+   * @param action - Action to perform
+   * @param note - Optional moderator note (appended, never replaced)
+   * @returns Updated message, or null if no message has that ID
+   */
+  async applyAction(
+    id: string,
+    action: ModerationAction,
+    note?: string
+  ): Promise<Message | null> {
+    const existing = await this.getMessage(id)
+
+    if (!existing) {
+      return null
+    }
+
+    const now = new Date().toISOString()
+    const changes: MessageUpdate = {}
+
+    switch (action) {
+      case 'approve':
+        changes.approved = true
+        changes.flagged = false
+        changes.deleted_at = null
+        break
+      case 'reject':
+        changes.approved = false
+        changes.flagged = false
+        changes.deleted_at = now
+        break
+      case 'delete':
+        changes.deleted_at = now
+        break
+      case 'restore':
+        changes.deleted_at = null
+        break
+      case 'note':
+        break
+    }
+
+    if (note && note.trim()) {
+      changes.moderator_notes = appendNote(existing.moderator_notes, action, note.trim(), now)
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return existing
+    }
+
+    const { data, error } = await this.client
+      .from('messages')
+      .update(changes)
+      .eq('id', id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Moderation update failed: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Get Message
+   *
+   * @param id - Message ID
+   * @returns Message in any moderation state, or null
+   */
+  async getMessage(id: string): Promise<Message | null> {
+    const { data, error } = await this.client
+      .from('messages')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Message lookup failed: ${error.message}`)
+    }
+
+    return data
+  }
+}
+
+/**
+ * Append a timestamped note line to existing moderator notes
+ */
+export function appendNote(
+  existing: string | null,
+  action: ModerationAction,
+  note: string,
+  timestamp: string
+): string {
+  const line = `[${timestamp}] ${action}: ${note}`
+  return existing ? `${existing}\n${line}` : line
+}
@@ -0,0 +1,227 @@
+/**
+ * New Message Sources
+ *
+ * Deliver newly visible messages to MessagePoolManager's priority queue.
+ * - PollingMessageSource: queries above the watermark every pollingInterval ms
+ * - StreamMessageSource: server-sent events from /api/messages/stream,
+ *   pushed by a Postgres NOTIFY trigger (falls back to polling)
+ *
+ * IMPORTANT: Pure business logic - NO visualization concepts.
+ */
+
+import type { GriefMessage, MessagePoolConfig } from '@/types/grief-messages'
+import { parseGriefMessage } from '@/types/grief-messages'
+import type { DatabaseService } from './database-service'
+
+export type NewMessageHandler = (messages: GriefMessage[]) => void | Promise<void>
+
+/**
+ * New Message Source
+ *
+ * @example
+ * source.start(() => watermark, (messages) => queue.push(...messages))
+ * // later
+ * source.stop()
+ */
+export interface NewMessageSource {
+  /**
+   * Begin delivering messages
+   *
+   * @param getWatermark - Highest message ID already seen (read on each fetch)
+   * @param onMessages - Receives new messages in ID order, and messages
+   *   already delivered again once their embedding has been written
+   * @param getUnembeddedIds - Delivered messages still waiting for an
+   *   embedding (read on each fetch)
+   */
+  start(getWatermark: () => number, onMessages: NewMessageHandler, getUnembeddedIds?: () => string[]): void
+
+  /**
+   * Stop delivering and release timers/connections
+   */
+  stop(): void
+}
+
+/**
+ * Polling Message Source
+ *
+ * Periodically fetches approved messages above the watermark, and
+ * re-fetches delivered ones whose embedding had not been written yet.
+ */
+export class PollingMessageSource implements NewMessageSource {
+  private databaseService: DatabaseService
+  private interval: number
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  constructor(databaseService: DatabaseService, interval: number) {
+    this.databaseService = databaseService
+    this.interval = interval
+  }
+
+  start(
+    getWatermark: () => number,
+    onMessages: NewMessageHandler,
+    getUnembeddedIds: () => string[] = () => []
+  ): void {
+    this.stop()
+
+    this.timer = setInterval(async () => {
+      try {
+        const unembeddedIds = getUnembeddedIds()
+        if (unembeddedIds.length > 0) {
+          const embedded = (await this.databaseService.fetchMessagesByIds(unembeddedIds))
+            .filter((message) => message.semantic_data)
+
+          if (embedded.length > 0) {
+            await onMessages(embedded)
+          }
+        }
+
+        const messages = await this.databaseService.fetchNewMessagesAboveWatermark(
+          getWatermark()
+        )
+
+        if (messages.length > 0) {
+          await onMessages(messages)
+        }
+      } catch {
+        // Continue polling despite error
+      }
+    }, this.interval)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+/**
+ * Subset of the browser EventSource used by StreamMessageSource
+ */
+export interface EventSourceLike {
+  readonly readyState: number
+  addEventListener(type: string, listener: (event: MessageEvent<string>) => void): void
+  close(): void
+}
+
+export type EventSourceFactory = (url: string) => EventSourceLike
+
+/** EventSource.CLOSED - the browser gave up (e.g. server answered 503) */
+const EVENT_SOURCE_CLOSED = 2
+
+export const NEW_MESSAGE_EVENT = 'message'
+
+/**
+ * Stream Message Source
+ *
+ * Subscribes to /api/messages/stream, which also resends a message once
+ * its embedding is written (migration 017). The browser reconnects on its own
+ * and resumes from the last event ID; if the server refuses the stream
+ * (not configured, or the endpoint is missing) this switches to the
+ * fallback source for the rest of the session.
+ */
+export class StreamMessageSource implements NewMessageSource {
+  private url: string
+  private createEventSource: EventSourceFactory
+  private fallback: NewMessageSource
+  private eventSource: EventSourceLike | null = null
+  private usingFallback: boolean = false
+
+  constructor(url: string, createEventSource: EventSourceFactory, fallback: NewMessageSource) {
+    this.url = url
+    this.createEventSource = createEventSource
+    this.fallback = fallback
+  }
+
+  start(
+    getWatermark: () => number,
+    onMessages: NewMessageHandler,
+    getUnembeddedIds?: () => string[]
+  ): void {
+    this.stop()
+
+    const separator = this.url.includes('?') ? '&' : '?'
+    const eventSource = this.createEventSource(`${this.url}${separator}after=${getWatermark()}`)
+    this.eventSource = eventSource
+
+    eventSource.addEventListener(NEW_MESSAGE_EVENT, (event) => {
+      const message = parseStreamMessage(event.data)
+      if (message) {
+        void onMessages([message])
+      }
+    })
+
+    eventSource.addEventListener('error', () => {
+      if (eventSource.readyState !== EVENT_SOURCE_CLOSED || this.eventSource !== eventSource) {
+        return // Browser is retrying
+      }
+
+      eventSource.close()
+      this.eventSource = null
+      this.usingFallback = true
+      this.fallback.start(getWatermark, onMessages, getUnembeddedIds)
+    })
+  }
+
+  stop(): void {
+    if (this.eventSource) {
+      this.eventSource.close()
+      this.eventSource = null
+    }
+
+    if (this.usingFallback) {
+      this.fallback.stop()
+      this.usingFallback = false
+    }
+  }
+
+  /**
+   * Whether the stream failed and polling took over
+   */
+  isUsingFallback(): boolean {
+    return this.usingFallback
+  }
+}
+
+/**
+ * Parse a stream event payload
+ *
+ * @param data - JSON message row
+ * @returns Message, or null if malformed
+ */
+export function parseStreamMessage(data: string): GriefMessage | null {
+  try {
+    return parseGriefMessage(JSON.parse(data))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Create New Message Source
+ *
+ * Picks the configured source. Streaming needs a browser EventSource;
+ * elsewhere (tests, server rendering) polling is used.
+ *
+ * @param config - Pool configuration (newMessageSource, pollingInterval)
+ * @param databaseService - Used for polling and stream fallback
+ * @returns Source ready to start
+ */
+export function createNewMessageSource(
+  config: MessagePoolConfig,
+  databaseService: DatabaseService
+): NewMessageSource {
+  const polling = new PollingMessageSource(databaseService, config.pollingInterval)
+
+  if (config.newMessageSource === 'stream' && typeof EventSource !== 'undefined') {
+    return new StreamMessageSource(
+      '/api/messages/stream',
+      (url) => new EventSource(url),
+      polling
+    )
+  }
+
+  return polling
+}
@@ -0,0 +1,325 @@
+/**
+ * Rate Limiter
+ *
+ * Limits message submissions per session and per hashed IP.
+ * Two interchangeable backends share one interface:
+ * - MemoryRateLimiter: sliding window held in process memory
+ * - PostgresRateLimiter: counts recent rows in the messages table
+ *
+ * Usage:
+ * 1. check() before inserting a message
+ * 2. insertWithinLimits() where the backend has it, otherwise insert and
+ *    record() after the insert succeeds
+ *
+ * Only successful submissions count toward the limit.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, MessageInsert, PublicMessage } from '@/types/database'
+import type { RateLimitConfig } from '@/lib/config/rate-limit-config'
+
+/**
+ * Identifiers a submission is limited by
+ */
+export interface RateLimitKeys {
+  /** Anonymous client session ID */
+  sessionId: string
+
+  /** Salted hash of submitter IP (null if unknown) */
+  ipHash: string | null
+}
+
+/**
+ * Rate Limit Result
+ */
+export interface RateLimitResult {
+  /** True if the submission may proceed */
+  allowed: boolean
+
+  /** Which limit was hit (only set when allowed is false) */
+  limitedBy?: 'session' | 'ip'
+
+  /** Submissions left for the session in the current window */
+  remaining: number
+
+  /**
+   * Seconds until the blocking limit frees a slot
+   * 0 when allowed.
+   */
+  retryAfter: number
+}
+
+/**
+ * Outcome of an insert that the limits were checked for in the same step
+ */
+export interface LimitedInsertResult {
+  /** Limits before this insert */
+  rateLimit: RateLimitResult
+
+  /** Stored row (null when a limit was reached or the insert failed) */
+  message: (PublicMessage & { approved: boolean }) | null
+
+  error: { code?: string; message: string } | null
+}
+
+/**
+ * Rate Limiter Interface
+ */
+export interface RateLimiter {
+  /**
+   * Check whether a submission is allowed (does not consume a slot)
+   */
+  check(keys: RateLimitKeys): Promise<RateLimitResult>
+
+  /**
+   * Record a successful submission
+   */
+  record(keys: RateLimitKeys): Promise<void>
+
+  /**
+   * Insert a message only if the limits still allow it, in one step
+   *
+   * Optional: without it, concurrent submissions can all pass the same
+   * check() before any of them is recorded.
+   */
+  insertWithinLimits?(keys: RateLimitKeys, message: MessageInsert): Promise<LimitedInsertResult>
+}
+
+/**
+ * Window usage for a single key
+ */
+interface WindowUsage {
+  count: number
+  oldestAt: number | null // Epoch ms of oldest submission in window
+}
+
+/**
+ * Combine session and IP usage into a single result
+ */
+function evaluate(
+  session: WindowUsage,
+  ip: WindowUsage | null,
+  config: RateLimitConfig,
+  now: number
+): RateLimitResult {
+  const secondsUntilFree = (usage: WindowUsage): number => {
+    if (usage.oldestAt === null) return 1
+    return Math.max(1, Math.ceil((usage.oldestAt + config.windowMs - now) / 1000))
+  }
+
+  const remaining = Math.max(0, config.maxPerSession - session.count)
+
+  if (session.count >= config.maxPerSession) {
+    return {
+      allowed: false,
+      limitedBy: 'session',
+      remaining: 0,
+      retryAfter: secondsUntilFree(session)
+    }
+  }
+
+  if (ip && ip.count >= config.maxPerIp) {
+    return {
+      allowed: false,
+      limitedBy: 'ip',
+      remaining,
+      retryAfter: secondsUntilFree(ip)
+    }
+  }
+
+  return { allowed: true, remaining, retryAfter: 0 }
+}
+
+/**
+ * Memory Rate Limiter
+ *
+ * Sliding window of submission timestamps per key.
+ * State is per-instance and resets on restart - suitable for
+ * development or a single long-lived server only.
+ */
+export class MemoryRateLimiter implements RateLimiter {
+  private config: RateLimitConfig
+  private submissions: Map<string, number[]> = new Map()
+  private now: () => number
+
+  constructor(config: RateLimitConfig, now: () => number = Date.now) {
+    this.config = config
+    this.now = now
+  }
+
+  async check(keys: RateLimitKeys): Promise<RateLimitResult> {
+    const now = this.now()
+    const session = this.usage(`session:${keys.sessionId}`, now)
+    const ip = keys.ipHash ? this.usage(`ip:${keys.ipHash}`, now) : null
+
+    return evaluate(session, ip, this.config, now)
+  }
+
+  async record(keys: RateLimitKeys): Promise<void> {
+    const now = this.now()
+    this.append(`session:${keys.sessionId}`, now)
+
+    if (keys.ipHash) {
+      this.append(`ip:${keys.ipHash}`, now)
+    }
+  }
+
+  /**
+   * Usage within the window, pruning expired timestamps
+   */
+  private usage(key: string, now: number): WindowUsage {
+    const windowStart = now - this.config.windowMs
+    const timestamps = (this.submissions.get(key) || []).filter((t) => t > windowStart)
+
+    if (timestamps.length === 0) {
+      this.submissions.delete(key)
+      return { count: 0, oldestAt: null }
+    }
+
+    this.submissions.set(key, timestamps)
+    return { count: timestamps.length, oldestAt: timestamps[0] }
+  }
+
+  private append(key: string, now: number): void {
+    const timestamps = this.submissions.get(key) || []
+    timestamps.push(now)
+    this.submissions.set(key, timestamps)
+  }
+}
+
+/**
+ * Postgres Rate Limiter
+ *
+ * Derives usage from the messages table itself, so limits hold across
+ * restarts and serverless instances. Session lookups use
+ * idx_messages_session (session_id, created_at); IP lookups use
+ * idx_messages_ip_hash (ip_hash, created_at).
+ *
+ * check() is an early look, before any embedding work;
+ * insertWithinLimits() counts again and inserts in one transaction
+ * (insert_message_within_limits(), migration 018), so concurrent
+ * submissions cannot all pass the same count. The inserted row IS the
+ * record, so record() is a no-op.
+ *
+ * Needs a service role client: held rows are invisible to the anon key,
+ * and only the service role may run the insert.
+ *
+ * check() fails open: if the count query errors, the submission goes on
+ * to the insert. No technical failure should prevent grief from being
+ * witnessed.
+ */
+export class PostgresRateLimiter implements RateLimiter {
+  private client: SupabaseClient<Database>
+  private config: RateLimitConfig
+  private now: () => number
+
+  constructor(
+    client: SupabaseClient<Database>,
+    config: RateLimitConfig,
+    now: () => number = Date.now
+  ) {
+    this.client = client
+    this.config = config
+    this.now = now
+  }
+
+  async check(keys: RateLimitKeys): Promise<RateLimitResult> {
+    const now = this.now()
+    const since = new Date(now - this.config.windowMs).toISOString()
+
+    try {
+      const [session, ip] = await Promise.all([
+        this.usage('session_id', keys.sessionId, since),
+        keys.ipHash ? this.usage('ip_hash', keys.ipHash, since) : Promise.resolve(null)
+      ])
+
+      return evaluate(session, ip, this.config, now)
+    } catch (error) {
+      console.error('Rate limit check failed, allowing submission:', error)
+      return { allowed: true, remaining: this.config.maxPerSession, retryAfter: 0 }
+    }
+  }
+
+  async record(): Promise<void> {
+    // Inserted message row is the record
+  }
+
+  async insertWithinLimits(keys: RateLimitKeys, message: MessageInsert): Promise<LimitedInsertResult> {
+    const now = this.now()
+    const { data, error } = await this.client.rpc('insert_message_within_limits', {
+      p_message: message,
+      p_session_id: keys.sessionId,
+      p_ip_hash: keys.ipHash,
+      p_window_ms: this.config.windowMs,
+      p_max_per_session: this.config.maxPerSession,
+      p_max_per_ip: this.config.maxPerIp
+    })
+
+    if (error || !data) {
+      return {
+        rateLimit: { allowed: true, remaining: this.config.maxPerSession, retryAfter: 0 },
+        message: null,
+        error: error ?? { message: 'No result from insert_message_within_limits' }
+      }
+    }
+
+    const usage = (count: number, oldestAt: string | null): WindowUsage => ({
+      count,
+      oldestAt: oldestAt ? new Date(oldestAt).getTime() : null
+    })
+    const rateLimit = evaluate(
+      usage(data.session_count, data.session_oldest_at),
+      keys.ipHash ? usage(data.ip_count, data.ip_oldest_at) : null,
+      this.config,
+      now
+    )
+
+    return { rateLimit, message: data.message, error: null }
+  }
+
+  /**
+   * Count rows for a key since the window start, plus the oldest timestamp
+   */
+  private async usage(
+    column: 'session_id' | 'ip_hash',
+    value: string,
+    since: string
+  ): Promise<WindowUsage> {
+    const { data, count, error } = await this.client
+      .from('messages')
+      .select('created_at', { count: 'exact' })
+      .eq(column, value)
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Rate limit query failed: ${error.message}`)
+    }
+
+    const oldest = (data as Array<{ created_at: string }> | null)?.[0]
+
+    return {
+      count: count || 0,
+      oldestAt: oldest ? new Date(oldest.created_at).getTime() : null
+    }
+  }
+}
+
+/**
+ * Build HTTP headers describing a rate limit result
+ *
+ * @param result - Result from RateLimiter.check()
+ * @returns Headers for the API response
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Remaining': result.remaining.toString()
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = result.retryAfter.toString()
+  }
+
+  return headers
+}
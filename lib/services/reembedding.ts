@@ -0,0 +1,242 @@
+/**
+ * Re-embedding
+ *
+ * Re-encodes stored messages after a model or prompt change, outside the
+ * job queue: messages are streamed in id order with a cursor, encoded at
+ * a bounded request rate, and written with the current schema version and
+ * model stamp (semantic_data.model).
+ *
+ * Progress is reported as a checkpoint after every batch, so an
+ * interrupted run resumes after the last finished batch
+ * (scripts/reembed-messages.ts keeps it in a file).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Message } from '@/types/database'
+import { encodeContent, parseSemanticData, toMessageEncoding } from '@/lib/semantic-encoding'
+import { parseSemanticTags } from '@/lib/embeddings/tags'
+import type { EmbeddingProvider } from '@/lib/embeddings/types'
+
+/**
+ * Why a message needs re-encoding
+ */
+export type StaleReason = 'missing' | 'schema' | 'model' | 'untagged' | 'forced'
+
+type Row = Pick<Message, 'id' | 'content' | 'semantic_data' | 'semantic_tags'>
+
+/**
+ * Running totals, saved in checkpoints
+ */
+export interface ReembedReport {
+  /** Messages read */
+  scanned: number
+
+  /** Messages that needed re-encoding (in a dry run: would have been re-encoded) */
+  stale: number
+
+  /** Messages written */
+  updated: number
+
+  /** Messages whose encoding or write failed (left as they were) */
+  failed: number
+
+  /** Stale messages per reason */
+  reasons: Record<StaleReason, number>
+}
+
+/**
+ * Resume point for an interrupted run
+ */
+export interface ReembedCheckpoint {
+  /** Provider id the run encodes with; a checkpoint for another is not resumed */
+  model: string
+
+  schema_version: string
+
+  /** Last message id fully processed */
+  cursor: string | null
+
+  report: ReembedReport
+
+  updated_at: string
+}
+
+export interface ReembedOptions {
+  /** Provider to encode with (uncached, so every vector is fresh) */
+  provider: EmbeddingProvider
+
+  /** Messages read and encoded per batch (default 20) */
+  batchSize?: number
+
+  /** Upper bound on provider calls per minute (default 60) */
+  requestsPerMinute?: number
+
+  /** Count what would change without calling the provider or writing */
+  dryRun?: boolean
+
+  /** Re-encode every message, including current ones */
+  force?: boolean
+
+  /** Continue after this checkpoint */
+  resumeFrom?: ReembedCheckpoint | null
+
+  /** Called after each batch with the new checkpoint */
+  onCheckpoint?: (checkpoint: ReembedCheckpoint) => void | Promise<void>
+
+  sleep?: (ms: number) => Promise<void>
+  now?: () => Date
+}
+
+function emptyReport(): ReembedReport {
+  return {
+    scanned: 0,
+    stale: 0,
+    updated: 0,
+    failed: 0,
+    reasons: { missing: 0, schema: 0, model: 0, untagged: 0, forced: 0 }
+  }
+}
+
+/**
+ * Decide whether a stored message needs re-encoding by a provider
+ *
+ * @param row - semantic_data and semantic_tags as stored
+ * @param provider - Provider that would re-encode it
+ * @param force - Treat current messages as stale too
+ * @returns First reason found, or null if the message is current
+ *
+ * @example
+ * staleReason({ semantic_data: null, semantic_tags: null }, provider) // 'missing'
+ */
+export function staleReason(
+  row: Pick<Row, 'semantic_data' | 'semantic_tags'>,
+  provider: EmbeddingProvider,
+  force = false
+): StaleReason | null {
+  const data = parseSemanticData(row.semantic_data)
+
+  if (!data) return 'missing'
+  if (data.schema_version !== provider.schema.version) return 'schema'
+  if (data.model !== provider.id) return 'model'
+  if (!parseSemanticTags(row.semantic_tags)) return 'untagged'
+  return force ? 'forced' : null
+}
+
+/**
+ * Re-embed Messages
+ *
+ * Scans every non-deleted message in id order. Stale messages are
+ * encoded one at a time, no faster than requestsPerMinute, and written
+ * back. Failures are counted and skipped: the old vector stays.
+ *
+ * @param client - Service role client (messages are not writable under RLS)
+ * @param options - Provider, batching, rate, dry run and checkpoint
+ * @returns Totals, including any carried over from resumeFrom
+ * @throws {Error} If a page of messages cannot be read
+ */
+export async function reembedMessages(
+  client: SupabaseClient<Database>,
+  options: ReembedOptions
+): Promise<ReembedReport> {
+  const { provider } = options
+  const batchSize = options.batchSize ?? 20
+  const intervalMs = 60000 / (options.requestsPerMinute ?? 60)
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)))
+  const now = options.now ?? (() => new Date())
+
+  const resume = options.resumeFrom
+  if (resume && (resume.model !== provider.id || resume.schema_version !== provider.schema.version)) {
+    throw new Error(`Checkpoint is for ${resume.model} (${resume.schema_version}), not ${provider.id} (${provider.schema.version})`)
+  }
+
+  const report: ReembedReport = resume
+    ? { ...resume.report, reasons: { ...resume.report.reasons } }
+    : emptyReport()
+  let cursor: string | null = resume?.cursor ?? null
+  let lastRequestAt = -Infinity
+
+  while (true) {
+    let query = client
+      .from('messages')
+      .select('id, content, semantic_data, semantic_tags')
+      .is('deleted_at', null)
+
+    if (cursor) {
+      query = query.gt('id', cursor)
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .limit(batchSize)
+
+    if (error) throw new Error(`Failed to scan messages: ${error.message}`)
+
+    const rows = (data || []) as Row[]
+    if (rows.length === 0) break
+
+    for (const row of rows) {
+      report.scanned++
+
+      const reason = staleReason(row, provider, options.force)
+      if (!reason) continue
+
+      report.stale++
+      report.reasons[reason]++
+      if (options.dryRun) continue
+
+      // Space requests evenly instead of bursting a whole batch
+      const wait = lastRequestAt + intervalMs - now().getTime()
+      if (wait > 0) await sleep(wait)
+      lastRequestAt = now().getTime()
+
+      if (await reembedRow(client, provider, row, now)) {
+        report.updated++
+      } else {
+        report.failed++
+      }
+    }
+
+    cursor = rows[rows.length - 1].id.toString()
+
+    if (!options.dryRun) {
+      await options.onCheckpoint?.({
+        model: provider.id,
+        schema_version: provider.schema.version,
+        cursor,
+        report: { ...report, reasons: { ...report.reasons } },
+        updated_at: now().toISOString()
+      })
+    }
+
+    if (rows.length < batchSize) break
+  }
+
+  return report
+}
+
+/**
+ * Encode and store one message
+ *
+ * @returns True if written
+ */
+async function reembedRow(
+  client: SupabaseClient<Database>,
+  provider: EmbeddingProvider,
+  row: Row,
+  now: () => Date
+): Promise<boolean> {
+  try {
+    const encoding = await encodeContent(row.content, provider)
+
+    const { error } = await client
+      .from('messages')
+      .update(toMessageEncoding(row.content, encoding, provider, now().toISOString()))
+      .eq('id', row.id)
+
+    if (error) throw new Error(`Failed to store embedding: ${error.message}`)
+    return true
+  } catch (error) {
+    console.error(`Re-embedding message ${row.id} failed:`, error instanceof Error ? error.message : error)
+    return false
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * Submission Service
+ *
+ * The single path every new message takes, whatever channel it arrives
+ * on (web form, SMS):
+ * 1. Validate content (1-280 characters, trimmed) and detect its language
+ * 2. Return the original message if this is a retry
+ * 3. Screen content with local rules
+ * 4. Check rate limits
+ * 5. Insert, applying moderation and screening outcomes
+ * 6. Queue the semantic embedding and tags (lib/services/embedding-jobs.ts),
+ *    or generate them inline before the insert when no queue is configured
+ * 7. Record the submission against the rate limits
+ *
+ * Channels map SubmissionResult to their own response format.
+ */
+
+import crypto from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, MessageInsert, PublicMessage } from '@/types/database'
+import { loadModerationConfig, type ModerationConfig } from '@/lib/config/moderation-config'
+import { loadRateLimitConfig } from '@/lib/config/rate-limit-config'
+import { loadScreeningConfig } from '@/lib/config/screening-config'
+import type { ScreeningConfig } from '@/lib/screening/types'
+import {
+  MemoryRateLimiter,
+  PostgresRateLimiter,
+  type LimitedInsertResult,
+  type RateLimiter,
+  type RateLimitKeys,
+  type RateLimitResult
+} from './rate-limiter'
+import { screenContent, describeMatches } from '@/lib/screening/screen-content'
+import { encodeMessage, type MessageEncoding } from '@/lib/semantic-encoding'
+import { tagWithKeywords } from '@/lib/embeddings/tags'
+import { getEmbeddingProvider } from '@/lib/embeddings/create-provider'
+import type { EmbeddingProvider } from '@/lib/embeddings/types'
+import { hasAdminCredentials } from '@/lib/supabase/admin'
+import { createEmbeddingJobStore, processEmbeddingJobs } from './embedding-jobs'
+import { createCachedEmbeddingProvider } from './embedding-cache'
+import { detectLanguage } from '@/lib/language/detect'
+import { countCharacters } from '@/lib/language/text-metrics'
+
+export const MAX_MESSAGE_LENGTH = 280
+
+/**
+ * Without an idempotency key, the same content from the same session
+ * within this window is treated as a retry (10 minutes)
+ */
+export const DUPLICATE_WINDOW_MS = 10 * 60 * 1000
+
+/** Printable ASCII, as sent in the Idempotency-Key header */
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7E]{1,255}$/
+
+// Public fields, plus approved for the pending flag. Moderation notes,
+// flags and hashes stay server-side: echoing them would tell a spammer
+// which screening rule tripped.
+const SUBMITTED_COLUMNS = 'id, content, created_at, source, approved'
+
+// Postgres unique_violation (idx_messages_idempotency)
+const UNIQUE_VIOLATION = '23505'
+
+export type SubmissionSource = 'web' | 'sms'
+
+/**
+ * One submission from any channel
+ */
+export interface SubmissionInput {
+  /** Raw content as received (validated here) */
+  content: unknown
+
+  /** Rate limit keys: anonymous session (web) or hashed phone number (sms) */
+  rateLimitKeys: RateLimitKeys
+
+  /** Stored in messages.session_id */
+  sessionId: string
+
+  /** Stored in messages.ip_hash */
+  ipHash: string | null
+
+  source: SubmissionSource
+
+  /**
+   * Client-chosen key identifying this submission across retries
+   * (unique per sessionId). Without one, retries are matched by content.
+   */
+  idempotencyKey?: string | null
+}
+
+export type SubmissionResult =
+  | { status: 'invalid'; error: string }
+  | { status: 'rejected'; error: string }
+  | { status: 'rate_limited'; rateLimit: RateLimitResult }
+  | { status: 'failed'; error: string }
+  | { status: 'created'; message: PublicMessage; pending: boolean; rateLimit: RateLimitResult }
+  | { status: 'duplicate'; message: PublicMessage | null; pending: boolean }
+
+export interface SubmissionServiceOptions {
+  rateLimiter: RateLimiter
+  screeningConfig: ScreeningConfig
+  moderationConfig: ModerationConfig
+
+  /**
+   * Queue an embedding for a stored message. When set, the insert does not
+   * wait for the embedding; otherwise `provider` runs inline before the insert.
+   */
+  enqueueEmbedding?: (messageId: string) => Promise<void>
+
+  /** Inline embedding provider (defaults to the configured one) */
+  provider?: EmbeddingProvider
+
+  /** Content-match window for submissions without a key (default DUPLICATE_WINDOW_MS) */
+  duplicateWindowMs?: number
+
+  now?: () => Date
+}
+
+/**
+ * Validate and trim message content
+ *
+ * Content is NFC-normalized, so a decomposed "é" or Hangul syllable is
+ * stored and counted the same as its composed form. Length is in code
+ * points, matching the char_length() CHECK on messages.content.
+ *
+ * @param content - Untrusted input
+ * @returns Trimmed content, or a client-facing error
+ */
+export function validateContent(
+  content: unknown
+): { ok: true; content: string } | { ok: false; error: string } {
+  if (!content || typeof content !== 'string') {
+    return { ok: false, error: 'Content is required' }
+  }
+
+  const trimmed = content.normalize('NFC').trim()
+  const length = countCharacters(trimmed)
+  if (length < 1 || length > MAX_MESSAGE_LENGTH) {
+    return { ok: false, error: `Content must be between 1 and ${MAX_MESSAGE_LENGTH} characters` }
+  }
+
+  return { ok: true, content: trimmed }
+}
+
+/**
+ * Check an Idempotency-Key header value
+ *
+ * @param key - Header value
+ * @returns True for 1-255 printable ASCII characters
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return IDEMPOTENCY_KEY_PATTERN.test(key)
+}
+
+/**
+ * Salted one-way hash for identifiers we must not store (IP, phone number)
+ *
+ * @param value - Raw identifier
+ * @returns SHA-256 hex digest salted with IP_SALT
+ */
+export function hashIdentifier(value: string): string {
+  const salt = process.env.IP_SALT || 'default-salt-change-in-production'
+  return crypto.createHash('sha256').update(`${value}:${salt}`).digest('hex')
+}
+
+/**
+ * Public fields of a stored submission
+ */
+function toPublicMessage(row: PublicMessage): PublicMessage {
+  return { id: row.id, content: row.content, created_at: row.created_at, source: row.source }
+}
+
+/**
+ * Submission Service Class
+ */
+export class SubmissionService {
+  private client: SupabaseClient<Database>
+  private rateLimiter: RateLimiter
+  private screeningConfig: ScreeningConfig
+  private moderationConfig: ModerationConfig
+  private enqueueEmbedding: ((messageId: string) => Promise<void>) | null
+  private provider: EmbeddingProvider | null
+  private duplicateWindowMs: number
+  private now: () => Date
+
+  constructor(client: SupabaseClient<Database>, options: SubmissionServiceOptions) {
+    this.client = client
+    this.rateLimiter = options.rateLimiter
+    this.screeningConfig = options.screeningConfig
+    this.moderationConfig = options.moderationConfig
+    this.enqueueEmbedding = options.enqueueEmbedding ?? null
+    this.provider = options.provider ?? null
+    this.duplicateWindowMs = options.duplicateWindowMs ?? DUPLICATE_WINDOW_MS
+    this.now = options.now ?? (() => new Date())
+  }
+
+  /**
+   * Submit
+   *
+   * @param input - Submission from any channel
+   * @returns Outcome for the channel to report
+   *
+   * @example
+   * const result = await submissions.submit({
+   *   content: body.content,
+   *   rateLimitKeys: { sessionId, ipHash },
+   *   sessionId,
+   *   ipHash,
+   *   source: 'web'
+   * })
+   */
+  async submit(input: SubmissionInput): Promise<SubmissionResult> {
+    const validated = validateContent(input.content)
+    if (!validated.ok) {
+      return { status: 'invalid', error: validated.error }
+    }
+    const content = validated.content
+    const idempotencyKey = input.idempotencyKey ?? null
+
+    // Retries return the stored message without counting against rate limits
+    const existing = await this.findExisting(input.sessionId, idempotencyKey, content)
+    if (existing) {
+      return { status: 'duplicate', message: toPublicMessage(existing), pending: !existing.approved }
+    }
+
+    // Content screening (before any paid or database work)
+    const screening = screenContent(content, this.screeningConfig)
+
+    if (screening.action === 'reject') {
+      console.log(`Submission rejected by ${describeMatches(screening)}`)
+      return { status: 'rejected', error: screening.userMessage || 'This message cannot be shared here.' }
+    }
+
+    let rateLimit = await this.rateLimiter.check(input.rateLimitKeys)
+    if (!rateLimit.allowed) {
+      return { status: 'rate_limited', rateLimit }
+    }
+
+    const timestamp = this.now().toISOString()
+
+    // Inline embedding only when there is no queue to hand it to. Queued
+    // messages start with keyword tags; the worker replaces them.
+    let encoding: MessageEncoding
+    if (!this.enqueueEmbedding) {
+      console.log(`Generating embedding for: "${content.substring(0, 50)}..."`)
+      encoding = await encodeMessage(content, this.provider ?? getEmbeddingProvider(), this.now)
+
+      if (!encoding.semantic_data) {
+        console.warn('Failed to generate embedding, storing message without semantic data')
+      }
+    } else {
+      encoding = { semantic_data: null, semantic_tags: tagWithKeywords(content, timestamp) }
+    }
+
+    const row: MessageInsert = {
+      content,
+      language: detectLanguage(content),
+      session_id: input.sessionId,
+      ip_hash: input.ipHash,
+      source: input.source,
+      semantic_data: encoding.semantic_data,
+      semantic_tags: encoding.semantic_tags,
+      approved: !this.moderationConfig.requireApproval && screening.action !== 'hold',
+      flagged: screening.action === 'flag',
+      moderator_notes: screening.matches.length > 0
+        ? `[${timestamp}] ${describeMatches(screening)}`
+        : null,
+      idempotency_key: idempotencyKey
+    }
+
+    // Backends that can count and insert in one step close the gap
+    // between check() and the insert
+    let stored: Pick<LimitedInsertResult, 'message' | 'error'>
+    if (this.rateLimiter.insertWithinLimits) {
+      const limited = await this.rateLimiter.insertWithinLimits(input.rateLimitKeys, row)
+      if (!limited.error) {
+        if (!limited.rateLimit.allowed) {
+          return { status: 'rate_limited', rateLimit: limited.rateLimit }
+        }
+        rateLimit = limited.rateLimit
+      }
+      stored = limited
+    } else {
+      const { data, error } = await this.client
+        .from('messages')
+        .insert(row)
+        .select(SUBMITTED_COLUMNS)
+        .single()
+      stored = { message: data, error }
+    }
+    const { message: data, error } = stored
+
+    // A concurrent retry with the same key won the insert. An anon client
+    // cannot see held rows, so a taken key with no visible row is an
+    // earlier attempt awaiting review.
+    if (error?.code === UNIQUE_VIOLATION && idempotencyKey) {
+      const original = await this.findExisting(input.sessionId, idempotencyKey, content)
+      if (original) {
+        return { status: 'duplicate', message: toPublicMessage(original), pending: !original.approved }
+      }
+      return { status: 'duplicate', message: null, pending: true }
+    }
+
+    if (error || !data) {
+      console.error('Supabase error:', error)
+      return { status: 'failed', error: 'Failed to save message' }
+    }
+
+    await this.rateLimiter.record(input.rateLimitKeys)
+
+    let embeddingStatus = encoding.semantic_data ? 'with embedding' : 'without embedding'
+    if (this.enqueueEmbedding) {
+      try {
+        await this.enqueueEmbedding(data.id)
+        embeddingStatus = 'embedding queued'
+      } catch (error) {
+        // The message is stored; the backfill finds rows without semantic_data
+        console.error('Failed to queue embedding:', error)
+        embeddingStatus = 'embedding not queued'
+      }
+    }
+
+    console.log(`✅ Message ${data.id} stored, ${embeddingStatus} (${input.source})`)
+
+    return {
+      status: 'created',
+      message: toPublicMessage(data),
+      pending: !data.approved,
+      rateLimit: { ...rateLimit, remaining: Math.max(0, rateLimit.remaining - 1) }
+    }
+  }
+
+  /**
+   * Find the message an earlier attempt stored
+   *
+   * With a key: the row with that key for the session (any age).
+   * Without: the session's most recent row with identical content inside
+   * the duplicate window.
+   *
+   * Lookup errors are logged and treated as "not found", so a failed
+   * lookup never blocks a submission.
+   */
+  private async findExisting(
+    sessionId: string,
+    idempotencyKey: string | null,
+    content: string
+  ): Promise<(PublicMessage & { approved: boolean }) | null> {
+    let query = this.client
+      .from('messages')
+      .select(SUBMITTED_COLUMNS)
+      .eq('session_id', sessionId)
+
+    if (idempotencyKey) {
+      query = query.eq('idempotency_key', idempotencyKey)
+    } else {
+      const since = new Date(this.now().getTime() - this.duplicateWindowMs).toISOString()
+      query = query.eq('content', content).gte('created_at', since)
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      console.error('Duplicate lookup failed:', error)
+      return null
+    }
+
+    return data?.[0] ?? null
+  }
+}
+
+// Memory backend must outlive individual requests, and is shared by all channels
+let memoryRateLimiter: MemoryRateLimiter | null = null
+
+/**
+ * Create Submission Service
+ *
+ * Wires the service from environment configuration
+ * (rate-limit, screening, moderation, embedding jobs and embedding configs).
+ *
+ * Embeddings are queued when service role credentials exist (the worker
+ * must write to messages); otherwise they are generated inline, through
+ * the embedding cache.
+ *
+ * @param client - Service role client (required by the postgres rate limit
+ *   backend: held rows are invisible to anon under RLS, so they would not
+ *   be counted). An anon client works with the memory backend only.
+ * @param options.scheduleEmbeddingWork - Runs a task after the response is
+ *   sent (Next.js `after`); queued jobs are processed there
+ * @returns Service for one request
+ * @throws {Error} If the postgres backend is configured without service role credentials
+ */
+export function createSubmissionService(
+  client: SupabaseClient<Database>,
+  options: { scheduleEmbeddingWork?: (task: () => Promise<unknown>) => void } = {}
+): SubmissionService {
+  const rateLimitConfig = loadRateLimitConfig()
+
+  let rateLimiter: RateLimiter
+  if (rateLimitConfig.backend === 'postgres') {
+    // Fail closed rather than count only the rows anon can see
+    if (!hasAdminCredentials()) {
+      throw new Error('RATE_LIMIT_BACKEND=postgres requires SUPABASE_SERVICE_ROLE_KEY')
+    }
+    rateLimiter = new PostgresRateLimiter(client, rateLimitConfig)
+  } else {
+    memoryRateLimiter ??= new MemoryRateLimiter(rateLimitConfig)
+    rateLimiter = memoryRateLimiter
+  }
+
+  let enqueueEmbedding: ((messageId: string) => Promise<void>) | undefined
+  if (hasAdminCredentials()) {
+    const jobs = createEmbeddingJobStore(client)
+    enqueueEmbedding = async (messageId) => {
+      await jobs.enqueue([messageId])
+      options.scheduleEmbeddingWork?.(processEmbeddingJobs)
+    }
+  }
+
+  return new SubmissionService(client, {
+    rateLimiter,
+    screeningConfig: loadScreeningConfig(),
+    moderationConfig: loadModerationConfig(),
+    enqueueEmbedding,
+    // Only used for inline embedding
+    provider: enqueueEmbedding ? undefined : createCachedEmbeddingProvider(client)
+  })
+}
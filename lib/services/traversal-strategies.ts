@@ -0,0 +1,277 @@
+/**
+ * Traversal Strategies
+ *
+ * How MessageLogicService moves from one focus to the next. Whatever
+ * the strategy, a first-class (priority) message in the cluster always
+ * becomes the next focus (ClusterSelector.selectPriorityNext()); the
+ * strategy chooses otherwise. A strategy that has no opinion returns
+ * null and the greedy choice is used.
+ *
+ * - greedy: the most similar related message (the original walk)
+ * - weighted-random: a related message drawn in proportion to similarity
+ * - chronological: the next message in time, a memorial timeline
+ * - theme-tour: constellation by constellation (ConstellationWalk)
+ * - least-recently-shown: the message not seen for longest, for coverage
+ *
+ * IMPORTANT: Pure business logic - NO visualization concepts.
+ */
+
+import type {
+  GriefMessage,
+  MessageCluster,
+  TraversalStrategyName,
+  WorkingSetChange
+} from '@/types/grief-messages'
+import type { RandomSource } from '@/lib/utils/random'
+import type { ClusterSelector } from './cluster-selector'
+import { ConstellationWalk } from './constellation-walk'
+
+/** Every strategy name, for config and URL validation */
+export const TRAVERSAL_STRATEGIES: readonly TraversalStrategyName[] = [
+  'greedy',
+  'weighted-random',
+  'chronological',
+  'theme-tour',
+  'least-recently-shown'
+]
+
+/**
+ * What a strategy sees when choosing the next focus
+ */
+export interface TraversalContext {
+  /** Current focus */
+  focus: GriefMessage
+
+  /** Related messages, highest similarity first */
+  related: Array<{ message: GriefMessage; similarity: number }>
+
+  /** Working set messages eligible as next (focus excluded) */
+  candidates: GriefMessage[]
+
+  /** Previous focus (never chosen, to prevent ping-pong) */
+  previousFocusId: string | null
+
+  /** First-class message ids */
+  priorityIds: Set<string>
+}
+
+/**
+ * Traversal Strategy Interface
+ */
+export interface TraversalStrategy {
+  readonly name: TraversalStrategyName
+
+  /**
+   * Choose the next focus
+   *
+   * @returns Next focus, or null to fall back to the greedy choice
+   */
+  selectNext(context: TraversalContext): GriefMessage | null
+
+  /**
+   * Called with each cluster once it is built
+   */
+  recordShown?(cluster: MessageCluster): void
+
+  /**
+   * Called when messages leave or enter the working set
+   */
+  onWorkingSetChange?(change: WorkingSetChange): void
+
+  /**
+   * Start over (MessageLogicService.resetTraversal())
+   */
+  reset(): void
+}
+
+/**
+ * Check a strategy name, e.g. from a URL parameter
+ */
+export function isTraversalStrategyName(value: unknown): value is TraversalStrategyName {
+  return typeof value === 'string' && (TRAVERSAL_STRATEGIES as readonly string[]).includes(value)
+}
+
+/**
+ * Candidates other than the focus and previous focus, related first
+ */
+function eligible(context: TraversalContext): GriefMessage[] {
+  const seen = new Set([context.focus.id, context.previousFocusId])
+  const messages: GriefMessage[] = []
+  for (const message of [...context.related.map((r) => r.message), ...context.candidates]) {
+    if (seen.has(message.id)) continue
+    seen.add(message.id)
+    messages.push(message)
+  }
+  return messages
+}
+
+/**
+ * Greedy Strategy
+ *
+ * The most similar related message, else the first candidate.
+ */
+export class GreedyStrategy implements TraversalStrategy {
+  readonly name = 'greedy' as const
+  private selector: ClusterSelector
+
+  constructor(selector: ClusterSelector) {
+    this.selector = selector
+  }
+
+  selectNext(context: TraversalContext): GriefMessage | null {
+    return this.selector.selectNextMessage(
+      context.focus,
+      context.related,
+      context.candidates,
+      context.previousFocusId,
+      context.priorityIds
+    )
+  }
+
+  reset(): void {}
+}
+
+/**
+ * Weighted Random Strategy
+ *
+ * A related message drawn with probability proportional to its
+ * similarity, so the walk usually follows the strongest connection but
+ * sometimes takes a weaker one.
+ */
+export class WeightedRandomStrategy implements TraversalStrategy {
+  readonly name = 'weighted-random' as const
+  private random: RandomSource
+
+  /**
+   * @param random - Uniform source in [0, 1) (default Math.random)
+   */
+  constructor(random: RandomSource = Math.random) {
+    this.random = random
+  }
+
+  selectNext(context: TraversalContext): GriefMessage | null {
+    const options = context.related.filter(
+      (r) => r.message.id !== context.focus.id && r.message.id !== context.previousFocusId
+    )
+    if (options.length === 0) {
+      return null
+    }
+
+    // A zero similarity still gets a small chance
+    const weights = options.map((r) => Math.max(r.similarity, 0.01))
+    let target = this.random() * weights.reduce((sum, w) => sum + w, 0)
+    for (let i = 0; i < options.length; i++) {
+      target -= weights[i]
+      if (target < 0) return options[i].message
+    }
+    return options[options.length - 1].message
+  }
+
+  reset(): void {}
+}
+
+/**
+ * Order by submission time, then id
+ */
+function compareChronologically(a: GriefMessage, b: GriefMessage): number {
+  const byTime = Date.parse(a.created_at) - Date.parse(b.created_at)
+  return byTime !== 0 ? byTime : parseInt(a.id, 10) - parseInt(b.id, 10)
+}
+
+/**
+ * Chronological Strategy (memorial timeline)
+ *
+ * The working set message submitted next after the focus; after the
+ * latest, back to the earliest.
+ */
+export class ChronologicalStrategy implements TraversalStrategy {
+  readonly name = 'chronological' as const
+
+  selectNext(context: TraversalContext): GriefMessage | null {
+    const ordered = eligible(context).sort(compareChronologically)
+    if (ordered.length === 0) {
+      return null
+    }
+
+    return ordered.find((m) => compareChronologically(m, context.focus) > 0) ?? ordered[0]
+  }
+
+  reset(): void {}
+}
+
+/**
+ * Least Recently Shown Strategy (coverage)
+ *
+ * The candidate shown longest ago, in any role, or never shown; among
+ * equals, the most similar to the focus. Over an evening every message
+ * in the working set gets its turn.
+ */
+export class LeastRecentlyShownStrategy implements TraversalStrategy {
+  readonly name = 'least-recently-shown' as const
+
+  // Message id to the cluster number it was last shown in
+  private lastShown: Map<string, number> = new Map()
+  private clustersShown = 0
+
+  selectNext(context: TraversalContext): GriefMessage | null {
+    const similarity = new Map(context.related.map((r) => [r.message.id, r.similarity]))
+
+    let best: GriefMessage | null = null
+    let bestShown = Infinity
+    let bestSimilarity = -Infinity
+    for (const message of eligible(context)) {
+      const shown = this.lastShown.get(message.id) ?? -1
+      const sim = similarity.get(message.id) ?? 0
+      if (shown < bestShown || (shown === bestShown && sim > bestSimilarity)) {
+        best = message
+        bestShown = shown
+        bestSimilarity = sim
+      }
+    }
+    return best
+  }
+
+  recordShown(cluster: MessageCluster): void {
+    this.clustersShown++
+    this.lastShown.set(cluster.focusId, this.clustersShown)
+    cluster.related.forEach((r) => this.lastShown.set(r.messageId, this.clustersShown))
+  }
+
+  reset(): void {
+    this.lastShown.clear()
+    this.clustersShown = 0
+  }
+}
+
+/**
+ * Create Traversal Strategy
+ *
+ * The theme tour starts without constellations; MessageLogicService
+ * loads them (ConstellationWalk.setConstellations()).
+ *
+ * @param name - Strategy name (config.traversalStrategy; greedy if unset)
+ * @param selector - Cluster selector, for the greedy choice
+ * @param random - Uniform source for weighted-random (default Math.random)
+ * @returns New strategy
+ *
+ * @example
+ * const strategy = createTraversalStrategy('chronological', selector)
+ */
+export function createTraversalStrategy(
+  name: TraversalStrategyName,
+  selector: ClusterSelector,
+  random?: RandomSource
+): TraversalStrategy {
+  switch (name) {
+    case 'weighted-random':
+      return new WeightedRandomStrategy(random)
+    case 'chronological':
+      return new ChronologicalStrategy()
+    case 'theme-tour':
+      return new ConstellationWalk()
+    case 'least-recently-shown':
+      return new LeastRecentlyShownStrategy()
+    default:
+      return new GreedyStrategy(selector)
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Inbound SMS Handler
+ *
+ * Turns a Twilio-format webhook post into a submission:
+ * 1. Verify X-Twilio-Signature against the configured auth token
+ * 2. Submit Body through the shared SubmissionService (same validation,
+ *    screening, rate limits and embedding as the web form)
+ * 3. Acknowledge the sender with a TwiML reply
+ *
+ * The phone number is never stored: it is hashed and used as the
+ * rate limit key and session ID. MessageSid is the idempotency key, so
+ * a webhook retried by Twilio stores the message once.
+ */
+
+import type { SmsConfig } from '@/lib/config/sms-config'
+import {
+  MAX_MESSAGE_LENGTH,
+  hashIdentifier,
+  type SubmissionResult,
+  type SubmissionService
+} from '@/lib/services/submission-service'
+import { TWILIO_SIGNATURE_HEADER, twimlMessage, verifyTwilioSignature } from './twilio'
+
+export interface InboundSmsDependencies {
+  config: SmsConfig
+
+  /** Called only for verified requests */
+  getSubmissionService: () => Pick<SubmissionService, 'submit'> | Promise<Pick<SubmissionService, 'submit'>>
+}
+
+export const SMS_REPLIES = {
+  created: 'Thank you. Your words have joined the others.',
+  pending: 'Thank you. Your words will appear once they have been reviewed.',
+  empty: `Send a message of up to ${MAX_MESSAGE_LENGTH} characters to share it.`,
+  tooLong: `Your message is longer than ${MAX_MESSAGE_LENGTH} characters. Please shorten it and send it again.`,
+  rateLimited: 'You have shared a message recently. Please wait a little while before sending another.',
+  failed: 'We could not save your message. Please try again later.'
+}
+
+/**
+ * Reply text for a submission outcome
+ *
+ * @param result - Submission outcome
+ * @param content - Body as received
+ * @returns Text for the TwiML reply
+ */
+export function replyForResult(result: SubmissionResult, content: string): string {
+  switch (result.status) {
+    case 'created':
+    case 'duplicate':
+      return result.pending ? SMS_REPLIES.pending : SMS_REPLIES.created
+    case 'invalid':
+      return content.trim().length > MAX_MESSAGE_LENGTH ? SMS_REPLIES.tooLong : SMS_REPLIES.empty
+    case 'rejected':
+      return result.error
+    case 'rate_limited':
+      return SMS_REPLIES.rateLimited
+    case 'failed':
+      return SMS_REPLIES.failed
+  }
+}
+
+function twimlResponse(text: string): Response {
+  return new Response(twimlMessage(text), {
+    status: 200,
+    headers: { 'Content-Type': 'text/xml; charset=utf-8' }
+  })
+}
+
+/**
+ * Handle Inbound SMS
+ *
+ * @param request - Webhook POST (application/x-www-form-urlencoded)
+ * @param deps - Configuration and submission service
+ * @returns TwiML reply (200), or 400/403/503 for requests Twilio should not retry into a reply
+ */
+export async function handleInboundSms(
+  request: Request,
+  deps: InboundSmsDependencies
+): Promise<Response> {
+  const { authToken, webhookUrl } = deps.config
+
+  if (!authToken) {
+    return new Response('SMS webhook is not configured', { status: 503 })
+  }
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return new Response('Expected form-encoded body', { status: 400 })
+  }
+
+  const params: Record<string, string> = {}
+  form.forEach((value, key) => {
+    if (typeof value === 'string') {
+      params[key] = value
+    }
+  })
+
+  const signature = request.headers.get(TWILIO_SIGNATURE_HEADER)
+  if (!verifyTwilioSignature(authToken, signature, webhookUrl ?? request.url, params)) {
+    return new Response('Invalid signature', { status: 403 })
+  }
+
+  const from = params.From?.trim()
+  if (!from) {
+    return new Response('Missing From', { status: 400 })
+  }
+
+  const content = params.Body ?? ''
+  const phoneHash = hashIdentifier(from)
+
+  try {
+    const submissions = await deps.getSubmissionService()
+    const result = await submissions.submit({
+      content,
+      rateLimitKeys: { sessionId: `sms:${phoneHash}`, ipHash: null },
+      sessionId: `sms:${phoneHash}`,
+      ipHash: null,
+      source: 'sms',
+      // Twilio retries a webhook with the same MessageSid
+      idempotencyKey: params.MessageSid || null
+    })
+
+    return twimlResponse(replyForResult(result, content))
+  } catch (error) {
+    console.error('SMS submission error:', error)
+    return twimlResponse(SMS_REPLIES.failed)
+  }
+}
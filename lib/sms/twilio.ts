@@ -0,0 +1,79 @@
+/**
+ * Twilio Webhook Helpers
+ *
+ * Request signature verification and TwiML replies, using only Node crypto.
+ *
+ * Signature scheme (https://www.twilio.com/docs/usage/security):
+ * base64(HMAC-SHA1(authToken, url + each POST param name+value, sorted by name))
+ */
+
+import crypto from 'crypto'
+
+export const TWILIO_SIGNATURE_HEADER = 'x-twilio-signature'
+
+/**
+ * Compute Twilio Signature
+ *
+ * @param authToken - Account auth token
+ * @param url - Full webhook URL Twilio posted to (including query string)
+ * @param params - Form-encoded POST parameters
+ * @returns Base64 signature, as sent in X-Twilio-Signature
+ */
+export function computeTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>
+): string {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url)
+
+  return crypto.createHmac('sha1', authToken).update(data, 'utf8').digest('base64')
+}
+
+/**
+ * Verify Twilio Signature
+ *
+ * @param authToken - Account auth token
+ * @param signature - X-Twilio-Signature header value
+ * @param url - Full webhook URL Twilio posted to
+ * @param params - Form-encoded POST parameters
+ * @returns True if the signature matches
+ */
+export function verifyTwilioSignature(
+  authToken: string,
+  signature: string | null,
+  url: string,
+  params: Record<string, string>
+): boolean {
+  if (!signature) {
+    return false
+  }
+
+  const expected = Buffer.from(computeTwilioSignature(authToken, url, params))
+  const given = Buffer.from(signature)
+
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected)
+}
+
+/**
+ * Escape text for an XML element body
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * TwiML reply with a single SMS message
+ *
+ * @param text - Reply text (escaped here)
+ * @returns TwiML document
+ */
+export function twimlMessage(text: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(text)}</Message></Response>`
+}
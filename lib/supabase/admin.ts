@@ -0,0 +1,36 @@
+/**
+ * Supabase Service Role Client
+ * For trusted server-side operations that must bypass RLS
+ * (moderation, rate limit counts over held messages)
+ *
+ * NEVER import from client components.
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+
+/**
+ * Check whether service role credentials are configured
+ */
+export function hasAdminCredentials(): boolean {
+  return Boolean(
+    process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  );
+}
+
+export function createAdminClient(): SupabaseClient<Database> {
+  if (!hasAdminCredentials()) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+  }
+
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
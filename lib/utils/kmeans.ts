@@ -0,0 +1,179 @@
+/**
+ * Spherical k-means
+ *
+ * Groups embeddings by direction (cosine similarity), the same measure
+ * semantic similarity uses. Seeding is k-means++ from a seeded PRNG, so
+ * the same vectors and seed always give the same clusters. Starting
+ * centroids can be passed in to carry clusters over from a previous run.
+ */
+
+import { seededRandom } from './random'
+
+export interface KMeansOptions {
+  /** Number of clusters (capped at the number of vectors) */
+  k: number
+
+  /** PRNG seed for k-means++ seeding (default 1) */
+  seed?: number
+
+  /** Iteration cap (default 50) */
+  maxIterations?: number
+
+  /** Starting centroids, used before any k-means++ seeds */
+  initial?: number[][]
+}
+
+export interface KMeansResult {
+  /** Unit-length centroids, one per cluster */
+  centroids: number[][]
+
+  /** Cluster index per input vector */
+  assignments: number[]
+
+  /** Cosine similarity of each vector to its centroid */
+  similarities: number[]
+
+  iterations: number
+
+  /** False if maxIterations ran out before assignments settled */
+  converged: boolean
+}
+
+/**
+ * Scale to unit length (a zero vector stays zero)
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return norm === 0 ? vector.map(() => 0) : vector.map((v) => v / norm)
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+/**
+ * Index and similarity of the closest centroid
+ */
+function nearest(point: number[], centroids: number[][]): { index: number; similarity: number } {
+  let index = 0
+  let similarity = -Infinity
+  centroids.forEach((centroid, i) => {
+    const s = dot(point, centroid)
+    if (s > similarity) {
+      similarity = s
+      index = i
+    }
+  })
+  return { index, similarity }
+}
+
+/**
+ * k-means++: each new seed is drawn with probability proportional to its
+ * squared distance from the seeds so far
+ */
+function seedCentroids(points: number[][], k: number, initial: number[][], random: () => number): number[][] {
+  const centroids = initial.slice(0, k).map(normalize)
+
+  if (centroids.length === 0) {
+    centroids.push(points[Math.floor(random() * points.length)])
+  }
+
+  while (centroids.length < k) {
+    const weights = points.map((point) => Math.pow(1 - nearest(point, centroids).similarity, 2))
+    const total = weights.reduce((sum, w) => sum + w, 0)
+
+    // Every point already sits on a seed: any point will do
+    let target = random() * total
+    let chosen = total === 0 ? Math.floor(random() * points.length) : points.length - 1
+    if (total > 0) {
+      for (let i = 0; i < weights.length; i++) {
+        target -= weights[i]
+        if (target < 0) {
+          chosen = i
+          break
+        }
+      }
+    }
+
+    centroids.push(points[chosen])
+  }
+
+  return centroids
+}
+
+/**
+ * Cluster vectors by cosine similarity
+ *
+ * @param vectors - Embeddings, all the same length
+ * @param options - k, seed, iteration cap and starting centroids
+ * @returns Centroids, assignments and per-vector similarity
+ *
+ * @example
+ * const { assignments } = sphericalKMeans(embeddings, { k: 8, seed: 42 })
+ */
+export function sphericalKMeans(vectors: number[][], options: KMeansOptions): KMeansResult {
+  const points = vectors.map(normalize)
+  const k = Math.min(Math.max(1, Math.floor(options.k)), points.length)
+  const maxIterations = options.maxIterations ?? 50
+
+  if (points.length === 0) {
+    return { centroids: [], assignments: [], similarities: [], iterations: 0, converged: true }
+  }
+
+  const random = seededRandom(options.seed ?? 1)
+  let centroids = seedCentroids(points, k, options.initial ?? [], random)
+  let assignments: number[] = new Array(points.length).fill(-1)
+  let similarities: number[] = new Array(points.length).fill(0)
+  let iterations = 0
+  let converged = false
+
+  while (iterations < maxIterations) {
+    iterations++
+
+    let changed = false
+    const next = points.map((point) => nearest(point, centroids))
+    next.forEach(({ index }, i) => {
+      if (index !== assignments[i]) changed = true
+    })
+    assignments = next.map((n) => n.index)
+    similarities = next.map((n) => n.similarity)
+
+    if (!changed) {
+      converged = true
+      break
+    }
+
+    // New centroid: direction of the members' sum
+    const sums = centroids.map(() => new Array(points[0].length).fill(0))
+    const sizes = new Array(centroids.length).fill(0)
+    points.forEach((point, i) => {
+      const sum = sums[assignments[i]]
+      point.forEach((v, d) => { sum[d] += v })
+      sizes[assignments[i]]++
+    })
+
+    // An empty cluster takes the point worst served by its own cluster
+    const taken = new Set<number>()
+    centroids = sums.map((sum, c) => {
+      if (sizes[c] > 0) return normalize(sum)
+
+      let worst = -1
+      similarities.forEach((s, i) => {
+        if (!taken.has(i) && (worst === -1 || s < similarities[worst])) worst = i
+      })
+      taken.add(worst)
+      return points[worst]
+    })
+  }
+
+  // Out of iterations: report against the final centroids
+  if (!converged) {
+    const final = points.map((point) => nearest(point, centroids))
+    assignments = final.map((n) => n.index)
+    similarities = final.map((n) => n.similarity)
+  }
+
+  return { centroids, assignments, similarities, iterations, converged }
+}
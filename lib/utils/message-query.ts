@@ -0,0 +1,246 @@
+/**
+ * Message List Query
+ *
+ * Parses and applies the public filters for listing messages
+ * (GET /api/messages). Pagination uses id cursors so it stays on the
+ * idx_messages_cursor_desc / idx_messages_cursor_asc indexes and remains
+ * stable while new messages arrive.
+ *
+ * - before=<id>: messages with id < before, newest first (default)
+ * - after=<id>: messages with id > after, oldest first
+ *
+ * The same filters apply to kindred messages
+ * (GET /api/messages/:id/kindred?k=12).
+ */
+
+export const MESSAGE_LIST_DEFAULT_LIMIT = 100
+export const MESSAGE_LIST_MAX_LIMIT = 200
+
+export const KINDRED_DEFAULT_K = 12
+export const KINDRED_MAX_K = 50
+
+export const MESSAGE_SOURCES = ['web', 'sms'] as const
+export type MessageSource = (typeof MESSAGE_SOURCES)[number]
+
+export type CursorDirection = 'ASC' | 'DESC'
+
+export interface MessageFilters {
+  since: string | null          // ISO timestamp, inclusive
+  until: string | null          // ISO timestamp, exclusive
+  source: MessageSource | null
+  hasEmbedding: boolean | null
+}
+
+export interface MessageListQuery extends MessageFilters {
+  limit: number
+  direction: CursorDirection
+  cursor: string | null         // Exclusive bound in `direction`
+}
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string }
+
+export interface KindredQuery extends MessageFilters {
+  k: number
+}
+
+export interface MessagePage<T> {
+  messages: T[]
+  nextCursor: string | null
+}
+
+const ID_PATTERN = /^[1-9]\d{0,18}$/
+
+function parseTimestamp(value: string | null, name: string): ParseResult<string | null> {
+  if (value === null || value === '') return { ok: true, value: null }
+
+  const time = Date.parse(value)
+  if (isNaN(time)) {
+    return { ok: false, error: `Invalid ${name}: expected an ISO 8601 timestamp` }
+  }
+
+  return { ok: true, value: new Date(time).toISOString() }
+}
+
+/**
+ * Parse Message Filters
+ *
+ * Reads `since`, `until`, `source` and `hasEmbedding`.
+ *
+ * @param params - URL search params
+ * @returns Filters, or a client-facing error message
+ */
+export function parseMessageFilters(params: URLSearchParams): ParseResult<MessageFilters> {
+  const since = parseTimestamp(params.get('since'), 'since')
+  if (!since.ok) return since
+
+  const until = parseTimestamp(params.get('until'), 'until')
+  if (!until.ok) return until
+
+  if (since.value && until.value && since.value >= until.value) {
+    return { ok: false, error: 'Invalid range: since must be before until' }
+  }
+
+  const sourceParam = params.get('source')
+  let source: MessageSource | null = null
+  if (sourceParam) {
+    if (!(MESSAGE_SOURCES as readonly string[]).includes(sourceParam)) {
+      return { ok: false, error: `Invalid source: must be one of ${MESSAGE_SOURCES.join(', ')}` }
+    }
+    source = sourceParam as MessageSource
+  }
+
+  const embeddingParam = params.get('hasEmbedding')
+  let hasEmbedding: boolean | null = null
+  if (embeddingParam) {
+    if (embeddingParam !== 'true' && embeddingParam !== 'false') {
+      return { ok: false, error: 'Invalid hasEmbedding: must be true or false' }
+    }
+    hasEmbedding = embeddingParam === 'true'
+  }
+
+  return { ok: true, value: { since: since.value, until: until.value, source, hasEmbedding } }
+}
+
+/**
+ * Parse Message List Query
+ *
+ * Reads filters plus `limit`, `before` and `after`. `limit` is clamped
+ * to MESSAGE_LIST_MAX_LIMIT; `before` and `after` are mutually exclusive.
+ *
+ * @param params - URL search params
+ * @returns Query, or a client-facing error message
+ *
+ * @example
+ * const parsed = parseMessageListQuery(new URLSearchParams('after=500&limit=50'))
+ * // parsed.value → { direction: 'ASC', cursor: '500', limit: 50, ... }
+ */
+export function parseMessageListQuery(params: URLSearchParams): ParseResult<MessageListQuery> {
+  const filters = parseMessageFilters(params)
+  if (!filters.ok) return filters
+
+  const limitParam = params.get('limit')
+  let limit = MESSAGE_LIST_DEFAULT_LIMIT
+  if (limitParam) {
+    if (!/^\d+$/.test(limitParam) || parseInt(limitParam, 10) < 1) {
+      return { ok: false, error: 'Invalid limit: must be a positive integer' }
+    }
+    limit = Math.min(parseInt(limitParam, 10), MESSAGE_LIST_MAX_LIMIT)
+  }
+
+  const before = params.get('before')
+  const after = params.get('after')
+
+  if (before && after) {
+    return { ok: false, error: 'Use either before or after, not both' }
+  }
+
+  const cursor = before || after || null
+  if (cursor !== null && !ID_PATTERN.test(cursor)) {
+    return { ok: false, error: `Invalid ${before ? 'before' : 'after'}: must be a message id` }
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...filters.value,
+      limit,
+      direction: after ? 'ASC' : 'DESC',
+      cursor
+    }
+  }
+}
+
+/**
+ * Check a message id path or cursor parameter
+ *
+ * @param value - Candidate id
+ * @returns True for a positive integer id
+ */
+export function isMessageId(value: string): boolean {
+  return ID_PATTERN.test(value)
+}
+
+/**
+ * Parse Kindred Query
+ *
+ * Reads filters plus `k`, clamped to KINDRED_MAX_K.
+ *
+ * @param params - URL search params
+ * @returns Query, or a client-facing error message
+ *
+ * @example
+ * const parsed = parseKindredQuery(new URLSearchParams('k=5&source=sms'))
+ * // parsed.value → { k: 5, source: 'sms', ... }
+ */
+export function parseKindredQuery(params: URLSearchParams): ParseResult<KindredQuery> {
+  const filters = parseMessageFilters(params)
+  if (!filters.ok) return filters
+
+  const kParam = params.get('k')
+  let k = KINDRED_DEFAULT_K
+  if (kParam) {
+    if (!/^\d+$/.test(kParam) || parseInt(kParam, 10) < 1) {
+      return { ok: false, error: 'Invalid k: must be a positive integer' }
+    }
+    k = Math.min(parseInt(kParam, 10), KINDRED_MAX_K)
+  }
+
+  return { ok: true, value: { ...filters.value, k } }
+}
+
+/**
+ * Subset of the Supabase filter builder used by applyMessageFilters
+ */
+export interface FilterableQuery<Q> {
+  eq(column: string, value: string): Q
+  gte(column: string, value: string): Q
+  lt(column: string, value: string): Q
+  is(column: string, value: null): Q
+  not(column: string, operator: string, value: null): Q
+}
+
+/**
+ * Apply Message Filters
+ *
+ * Adds `since`/`until`/`source`/`hasEmbedding` constraints to a query.
+ *
+ * @param query - Supabase filter builder
+ * @param filters - Parsed filters
+ * @returns The constrained query
+ */
+export function applyMessageFilters<Q extends FilterableQuery<Q>>(
+  query: Q,
+  filters: MessageFilters
+): Q {
+  let result = query
+
+  if (filters.since) result = result.gte('created_at', filters.since)
+  if (filters.until) result = result.lt('created_at', filters.until)
+  if (filters.source) result = result.eq('source', filters.source)
+  if (filters.hasEmbedding === true) result = result.not('semantic_data', 'is', null)
+  if (filters.hasEmbedding === false) result = result.is('semantic_data', null)
+
+  return result
+}
+
+/**
+ * To Message Page
+ *
+ * Trims a result fetched with `limit + 1` rows and derives the cursor
+ * for the next request (pass it back as `before` for DESC, `after` for ASC).
+ *
+ * @param rows - Rows in cursor order, at most limit + 1
+ * @param limit - Requested page size
+ * @returns Page with nextCursor, or null when there are no more rows
+ */
+export function toMessagePage<T extends { id: string }>(rows: T[], limit: number): MessagePage<T> {
+  const messages = rows.slice(0, limit)
+  const hasMore = rows.length > limit
+
+  return {
+    messages,
+    nextCursor: hasMore && messages.length > 0 ? messages[messages.length - 1].id : null
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Seeded Random Numbers
+ *
+ * Reproducible pseudo-random sequences, for work that must come out the
+ * same on every run with the same seed (offline clustering, synthetic
+ * test data, replaying a traversal with ?seed=).
+ */
+
+/**
+ * Source of uniform floats in [0, 1): Math.random or a seeded stream
+ */
+export type RandomSource = () => number
+
+/**
+ * Small seeded PRNG (mulberry32)
+ *
+ * @param seed - Any integer
+ * @returns Function returning floats in [0, 1)
+ *
+ * @example
+ * const random = seededRandom(42)
+ * random() // same value on every run
+ */
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Random Stream
+ *
+ * One module's random source for a run. With a seed, each name gets its
+ * own stream (the seed mixed with an FNV-1a hash of the name), so a
+ * module that draws more or fewer numbers, such as an audio layer on a
+ * timer, does not shift any other module's sequence.
+ *
+ * @param seed - Run seed, or null/undefined for Math.random
+ * @param name - Stream name, e.g. 'traversal' or 'audio.ground'
+ * @returns Random source
+ *
+ * @example
+ * const random = randomStream(1234, 'particles')
+ * const x = random() * width
+ */
+export function randomStream(seed: number | null | undefined, name: string): RandomSource {
+  if (seed === null || seed === undefined) {
+    return Math.random
+  }
+
+  let hash = 0x811c9dc5
+  for (let i = 0; i < name.length; i++) {
+    hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193)
+  }
+  return seededRandom((seed ^ hash) >>> 0)
+}
+
+/**
+ * Parse a seed, e.g. the ?seed= URL parameter
+ *
+ * @param value - Decimal integer from 0 to 4294967295
+ * @returns Seed, or null if absent or not such an integer
+ */
+export function parseSeed(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || !/^\d+$/.test(value.trim())) {
+    return null
+  }
+  const seed = Number(value.trim())
+  return seed <= 0xffffffff ? seed : null
+}
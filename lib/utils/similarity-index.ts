@@ -0,0 +1,482 @@
+/**
+ * Similarity Index
+ *
+ * Answers "the k messages most similar to this one" without scoring
+ * every candidate. Scores are the same weighted similarity as
+ * calculateSimilarity (temporal + length + semantic).
+ *
+ * Messages with an embedding are kept in one vantage-point tree per
+ * schema version, under the distance
+ *
+ *   D = (wt·a + wl·b + ws·c) / (wt + wl + ws)
+ *
+ * where a = 1 - temporal proximity, b = 1 - length similarity and
+ * c = half the chord between the unit embeddings. Each part is a
+ * metric, so D is one, and 1 - similarity = (wt·a + wl·b + ws·c²) / W.
+ * A lower bound on D for a subtree therefore bounds the best score in
+ * it, and subtrees that cannot beat the current k-th result are skipped.
+ * Results are exact, not approximate.
+ *
+ * Messages without a usable embedding, and messages in another schema
+ * than the focus, score 0 on the semantic part; they are scored one by
+ * one with calculateSimilarity.
+ *
+ * The index is updated in place (add, remove, applyChange): inserts go
+ * down to a leaf, removed vantage points are kept as routing-only
+ * tombstones, and a tree is rebuilt once half of it has changed.
+ */
+
+import type { GriefMessage, MessagePoolConfig, WorkingSetChange } from '@/types/grief-messages'
+import { isEmbedding } from '@/lib/embeddings/semantic-data'
+import { LEGACY_SCHEMA_VERSION } from '@/lib/embeddings/schema'
+import { calculateSimilarity } from './similarity-scoring'
+
+/** Scores are compared with this slack, so rounding never prunes a tie */
+const EPSILON = 1e-9
+
+/** Entries per leaf before it is split */
+const LEAF_CAPACITY = 8
+
+/** Changes tolerated before a small tree is rebuilt */
+const MIN_REBUILD_CHANGES = 32
+
+/** Same constants as calculateTemporalProximity and calculateLengthSimilarity */
+const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000
+const MAX_LENGTH = 280
+
+type Weights = MessagePoolConfig['similarity']
+
+export type ScoredMessage = { message: GriefMessage; similarity: number }
+
+interface Entry {
+  message: GriefMessage
+  time: number
+  length: number
+  unit: number[]
+  removed: boolean
+
+  /** Leaf holding the entry, or null when it is a vantage point */
+  leaf: Leaf | null
+}
+
+interface Leaf {
+  kind: 'leaf'
+  entries: Entry[]
+}
+
+interface Branch {
+  kind: 'branch'
+  vantage: Entry
+  radius: number
+
+  /** Entries within radius of the vantage point */
+  inside: Node
+
+  /** Entries beyond it */
+  outside: Node
+}
+
+type Node = Leaf | Branch
+
+interface Tree {
+  root: Node
+  live: number
+  changes: number
+}
+
+/**
+ * Index Statistics
+ */
+export interface SimilarityIndexStats {
+  /** Messages indexed */
+  size: number
+
+  /** Messages in a vantage-point tree (the rest are scored one by one) */
+  indexed: number
+
+  /** Schema versions with a tree */
+  trees: number
+
+  /** Messages scored by the last topK query */
+  lastQueryScored: number
+}
+
+/**
+ * Collects the k best scores, highest first
+ */
+class TopK {
+  readonly results: ScoredMessage[] = []
+  private k: number
+
+  constructor(k: number) {
+    this.k = k
+  }
+
+  /** Score needed to enter the results (-Infinity until full) */
+  get threshold(): number {
+    return this.results.length < this.k ? -Infinity : this.results[this.results.length - 1].similarity
+  }
+
+  offer(message: GriefMessage, similarity: number): void {
+    if (this.k <= 0 || similarity <= this.threshold) return
+
+    let i = this.results.length
+    while (i > 0 && this.results[i - 1].similarity < similarity) i--
+    this.results.splice(i, 0, { message, similarity })
+
+    if (this.results.length > this.k) this.results.pop()
+  }
+}
+
+/**
+ * Similarity Index Class
+ *
+ * @example
+ * const index = new SimilarityIndex(config.similarity)
+ * index.applyChange({ removed: [], added: workingSet })
+ * const kindred = index.topK(focus, 11)
+ */
+export class SimilarityIndex {
+  private weights: Weights
+  private totalWeight: number
+  private entries: Map<string, Entry> = new Map()
+  private trees: Map<string, Tree> = new Map()
+
+  /** Messages without a usable embedding */
+  private unindexed: Map<string, GriefMessage> = new Map()
+
+  private lastQueryScored = 0
+
+  constructor(weights: Weights) {
+    this.weights = weights
+    this.totalWeight = weights.temporalWeight + weights.lengthWeight + weights.semanticWeight
+  }
+
+  get size(): number {
+    return this.entries.size + this.unindexed.size
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id) || this.unindexed.has(id)
+  }
+
+  /**
+   * Add a message, replacing any indexed version of it
+   * (e.g. once its embedding has arrived)
+   *
+   * @param message - Message to index
+   */
+  add(message: GriefMessage): void {
+    this.remove(message.id)
+
+    const entry = this.totalWeight > 0 ? this.toEntry(message) : null
+    if (!entry) {
+      this.unindexed.set(message.id, message)
+      return
+    }
+
+    this.entries.set(message.id, entry)
+
+    const schema = schemaOf(message)
+    const tree = this.trees.get(schema)
+    if (!tree) {
+      this.trees.set(schema, { root: this.build([entry]), live: 1, changes: 0 })
+      return
+    }
+
+    tree.root = this.insert(tree.root, entry)
+    tree.live++
+    tree.changes++
+    this.rebuildIfStale(schema, tree)
+  }
+
+  /**
+   * Remove a message
+   *
+   * @param id - Message ID
+   * @returns True if it was indexed
+   */
+  remove(id: string): boolean {
+    if (this.unindexed.delete(id)) return true
+
+    const entry = this.entries.get(id)
+    if (!entry) return false
+
+    this.entries.delete(id)
+    entry.removed = true
+
+    // Leaf entries go now; vantage points stay to route searches until a rebuild
+    if (entry.leaf) {
+      entry.leaf.entries.splice(entry.leaf.entries.indexOf(entry), 1)
+      entry.leaf = null
+    }
+
+    const schema = schemaOf(entry.message)
+    const tree = this.trees.get(schema)!
+    tree.live--
+    tree.changes++
+
+    if (tree.live === 0) {
+      this.trees.delete(schema)
+    } else {
+      this.rebuildIfStale(schema, tree)
+    }
+
+    return true
+  }
+
+  /**
+   * Apply a working set change: removals first, then additions and updates
+   *
+   * @param change - Event from MessageLogicService.onWorkingSetChange
+   */
+  applyChange(change: WorkingSetChange): void {
+    change.removed.forEach((id) => this.remove(id))
+    change.added.forEach((message) => this.add(message))
+    change.updated?.forEach((message) => this.add(message))
+  }
+
+  clear(): void {
+    this.entries.clear()
+    this.trees.clear()
+    this.unindexed.clear()
+  }
+
+  /**
+   * Find the Most Similar Messages
+   *
+   * Same scores as sortBySimilarity over every indexed message; ties
+   * may come back in a different order.
+   *
+   * @param focus - Message to compare against (need not be indexed; never returned)
+   * @param k - Number of results
+   * @param filter - Only messages passing this are returned
+   * @returns Up to k messages, highest similarity first
+   */
+  topK(
+    focus: GriefMessage,
+    k: number,
+    filter: (message: GriefMessage) => boolean = () => true
+  ): ScoredMessage[] {
+    const best = new TopK(k)
+    this.lastQueryScored = 0
+
+    if (k <= 0) return best.results
+
+    const accept = (message: GriefMessage) => message.id !== focus.id && filter(message)
+    const scoreDirectly = (message: GriefMessage) => {
+      if (!accept(message)) return
+      this.lastQueryScored++
+      best.offer(message, calculateSimilarity(focus, message, this.weights))
+    }
+
+    const query = this.totalWeight > 0 ? this.toEntry(focus) : null
+    const schema = query ? schemaOf(focus) : null
+
+    for (const [version, tree] of this.trees) {
+      if (query && version === schema) {
+        this.search(tree.root, query, best, accept)
+      } else {
+        // Another schema, or no usable focus embedding: semantic part is 0
+        this.forEachLive(tree.root, (entry) => scoreDirectly(entry.message))
+      }
+    }
+
+    this.unindexed.forEach(scoreDirectly)
+
+    return best.results
+  }
+
+  getStats(): SimilarityIndexStats {
+    return {
+      size: this.size,
+      indexed: this.entries.size,
+      trees: this.trees.size,
+      lastQueryScored: this.lastQueryScored
+    }
+  }
+
+  /**
+   * Precompute what the distance needs, or null if the message has no
+   * usable embedding or timestamp
+   */
+  private toEntry(message: GriefMessage): Entry | null {
+    const embedding = message.semantic_data?.embedding
+    const time = new Date(message.created_at).getTime()
+    if (!isEmbedding(embedding) || !Number.isFinite(time)) return null
+
+    const norm = Math.sqrt(embedding.reduce((sum, v) => sum + v * v, 0))
+    if (norm === 0) return null
+
+    return {
+      message,
+      time,
+      length: message.content.length,
+      unit: embedding.map((v) => v / norm),
+      removed: false,
+      leaf: null
+    }
+  }
+
+  /**
+   * Per-part distances: a, b and c² (c² = 1 - semantic similarity)
+   */
+  private parts(x: Entry, y: Entry): { a: number; b: number; c2: number } {
+    let dot = 0
+    for (let i = 0; i < x.unit.length; i++) {
+      dot += x.unit[i] * y.unit[i]
+    }
+
+    return {
+      a: Math.min(1, Math.abs(x.time - y.time) / THIRTY_DAYS_MS),
+      b: Math.min(1, Math.abs(x.length - y.length) / MAX_LENGTH),
+      c2: Math.min(1, Math.max(0, (1 - dot) / 2))
+    }
+  }
+
+  /**
+   * Tree distance D (a metric)
+   */
+  private distance(x: Entry, y: Entry): number {
+    const { a, b, c2 } = this.parts(x, y)
+    const { temporalWeight, lengthWeight, semanticWeight } = this.weights
+    return (temporalWeight * a + lengthWeight * b + semanticWeight * Math.sqrt(c2)) / this.totalWeight
+  }
+
+  /**
+   * Similarity from the same parts as the distance
+   * (equal to calculateSimilarity up to rounding)
+   */
+  private similarity(parts: { a: number; b: number; c2: number }): number {
+    const { temporalWeight, lengthWeight, semanticWeight } = this.weights
+    const cost = temporalWeight * parts.a + lengthWeight * parts.b + semanticWeight * parts.c2
+    return Math.min(1, Math.max(0, 1 - cost / this.totalWeight))
+  }
+
+  /**
+   * Best similarity possible at distance of at least `distance`
+   *
+   * With X = D·W split between the linear parts and ws·c, the cost
+   * wt·a + wl·b + ws·c² is smallest when c takes all of X (while
+   * c ≤ 1/2), otherwise when c = 1/2: X²/ws or X - ws/4.
+   */
+  private maxSimilarity(distance: number): number {
+    const x = Math.max(0, distance) * this.totalWeight
+    const ws = this.weights.semanticWeight
+    const cost = ws === 0 ? x : x <= ws / 2 ? (x * x) / ws : x - ws / 4
+    return 1 - cost / this.totalWeight
+  }
+
+  private search(node: Node, query: Entry, best: TopK, accept: (message: GriefMessage) => boolean): void {
+    if (node.kind === 'leaf') {
+      for (const entry of node.entries) {
+        this.consider(entry, query, best, accept)
+      }
+      return
+    }
+
+    const d = this.distance(query, node.vantage)
+    if (!node.vantage.removed) {
+      this.consider(node.vantage, query, best, accept)
+    }
+
+    const inside = { node: node.inside, bound: Math.max(0, d - node.radius) }
+    const outside = { node: node.outside, bound: Math.max(0, node.radius - d) }
+    const [near, far] = d <= node.radius ? [inside, outside] : [outside, inside]
+
+    for (const { node: child, bound } of [near, far]) {
+      if (this.maxSimilarity(bound) + EPSILON >= best.threshold) {
+        this.search(child, query, best, accept)
+      }
+    }
+  }
+
+  private consider(entry: Entry, query: Entry, best: TopK, accept: (message: GriefMessage) => boolean): void {
+    if (!accept(entry.message)) return
+    this.lastQueryScored++
+    best.offer(entry.message, this.similarity(this.parts(query, entry)))
+  }
+
+  /**
+   * Build a balanced subtree: the first entry is the vantage point, and
+   * the median distance to it splits the rest
+   */
+  private build(entries: Entry[]): Node {
+    if (entries.length <= LEAF_CAPACITY) {
+      return this.leaf(entries)
+    }
+
+    const [vantage, ...rest] = entries
+    const distances = rest.map((entry) => ({ entry, d: this.distance(vantage, entry) }))
+    distances.sort((x, y) => x.d - y.d)
+
+    // All at one distance: nothing to split on
+    if (distances[0].d === distances[distances.length - 1].d) {
+      return this.leaf(entries)
+    }
+
+    const radius = distances[Math.floor((distances.length - 1) / 2)].d
+    vantage.leaf = null
+
+    return {
+      kind: 'branch',
+      vantage,
+      radius,
+      inside: this.build(distances.filter((x) => x.d <= radius).map((x) => x.entry)),
+      outside: this.build(distances.filter((x) => x.d > radius).map((x) => x.entry))
+    }
+  }
+
+  private leaf(entries: Entry[]): Leaf {
+    const leaf: Leaf = { kind: 'leaf', entries }
+    entries.forEach((entry) => { entry.leaf = leaf })
+    return leaf
+  }
+
+  /**
+   * Insert below a node
+   *
+   * @returns The node to keep in its place (a full leaf becomes a subtree)
+   */
+  private insert(node: Node, entry: Entry): Node {
+    if (node.kind === 'branch') {
+      if (this.distance(node.vantage, entry) <= node.radius) {
+        node.inside = this.insert(node.inside, entry)
+      } else {
+        node.outside = this.insert(node.outside, entry)
+      }
+      return node
+    }
+
+    node.entries.push(entry)
+    entry.leaf = node
+    return node.entries.length > LEAF_CAPACITY * 2 ? this.build(node.entries) : node
+  }
+
+  /**
+   * Rebuild once changes since the last build reach half the tree,
+   * dropping tombstones and rebalancing
+   */
+  private rebuildIfStale(schema: string, tree: Tree): void {
+    if (tree.changes < Math.max(MIN_REBUILD_CHANGES, tree.live / 2)) return
+
+    const live: Entry[] = []
+    this.forEachLive(tree.root, (entry) => live.push(entry))
+    this.trees.set(schema, { root: this.build(live), live: live.length, changes: 0 })
+  }
+
+  private forEachLive(node: Node, visit: (entry: Entry) => void): void {
+    if (node.kind === 'leaf') {
+      node.entries.forEach(visit)
+      return
+    }
+
+    if (!node.vantage.removed) visit(node.vantage)
+    this.forEachLive(node.inside, visit)
+    this.forEachLive(node.outside, visit)
+  }
+}
+
+function schemaOf(message: GriefMessage): string {
+  return message.semantic_data?.schema_version ?? LEGACY_SCHEMA_VERSION
+}
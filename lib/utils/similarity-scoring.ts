@@ -11,7 +11,7 @@
  */
 
 import type { GriefMessage, MessagePoolConfig } from '@/types/grief-messages'
-import { cosineSimilarity } from '@/lib/semantic-encoding'
+import { cosineSimilarity, haveSameSchema, isEmbedding } from '@/lib/embeddings/semantic-data'
 
 /**
  * Calculate Similarity Score
@@ -133,13 +133,13 @@ export function calculateLengthSimilarity(
  * Calculate Semantic Similarity
  *
  * Measures semantic/theme similarity between messages using embeddings.
- * Uses cosine similarity between 10-dimensional embedding vectors.
+ * Uses cosine similarity between EMBEDDING_DIMENSIONS-length vectors.
  *
  * Approach:
- * 1. Check if both messages have semantic embeddings
+ * 1. Check if both messages have semantic embeddings of the same schema
  * 2. Calculate cosine similarity between embedding vectors
  * 3. Normalize to 0-1 range (cosine similarity is -1 to 1)
- * 4. Return 0 if embeddings not available (fallback)
+ * 4. Return 0 if embeddings not available or not comparable (fallback)
  *
  * @param messageA - First message
  * @param messageB - Second message
@@ -149,25 +149,23 @@ export function calculateSemanticSimilarity(
   messageA: GriefMessage,
   messageB: GriefMessage
 ): number {
+  const embeddingA = messageA.semantic_data?.embedding
+  const embeddingB = messageB.semantic_data?.embedding
+
   // Check if both messages have semantic embeddings
-  if (
-    !messageA.semantic_data?.embedding ||
-    !messageB.semantic_data?.embedding ||
-    !Array.isArray(messageA.semantic_data.embedding) ||
-    !Array.isArray(messageB.semantic_data.embedding) ||
-    messageA.semantic_data.embedding.length !== 10 ||
-    messageB.semantic_data.embedding.length !== 10
-  ) {
+  if (!isEmbedding(embeddingA) || !isEmbedding(embeddingB)) {
     // No embeddings available - return 0 (no semantic similarity)
     return 0
   }
 
+  // Different schemas (e.g. mid re-embedding) are different spaces
+  if (!haveSameSchema(messageA.semantic_data, messageB.semantic_data)) {
+    return 0
+  }
+
   try {
     // Calculate cosine similarity (-1 to 1)
-    const cosineSim = cosineSimilarity(
-      messageA.semantic_data.embedding,
-      messageB.semantic_data.embedding
-    )
+    const cosineSim = cosineSimilarity(embeddingA, embeddingB)
 
     // Normalize to 0-1 range
     // Cosine similarity of -1 (opposite) → 0
@@ -0,0 +1,82 @@
+/**
+ * Backfill Embeddings
+ *
+ * Queues every message stored without semantic_data (including ones
+ * from before the embedding queue existed), requeues failed jobs, then
+ * works through the queue, printing progress.
+ *
+ * Usage:
+ *   npx tsx --env-file=.env.local scripts/backfill-embeddings.ts [--queue-only] [--upgrade]
+ *
+ * --queue-only  Only queue; leave processing to the app and scheduler
+ * --upgrade     Also re-encode embeddings from other schema versions than
+ *               the configured provider's (after changing provider or schema)
+ *
+ * Requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ * Exits with status 1 if any job is left failed.
+ */
+
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin'
+import { loadEmbeddingJobsConfig } from '@/lib/config/embedding-jobs-config'
+import {
+  EmbeddingWorker,
+  backfillEmbeddings,
+  createEmbeddingJobStore
+} from '@/lib/services/embedding-jobs'
+import { CachedEmbeddingProvider, createCachedEmbeddingProvider } from '@/lib/services/embedding-cache'
+
+async function main() {
+  if (!hasAdminCredentials()) {
+    console.error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+    process.exit(1)
+  }
+
+  const queueOnly = process.argv.includes('--queue-only')
+  const upgrade = process.argv.includes('--upgrade')
+  const config = loadEmbeddingJobsConfig()
+
+  if (config.backend === 'memory' && queueOnly) {
+    console.error('--queue-only needs EMBEDDING_JOBS_BACKEND=postgres (a memory queue ends with this process)')
+    process.exit(1)
+  }
+
+  const client = createAdminClient()
+  const store = createEmbeddingJobStore(client, config)
+  const provider = createCachedEmbeddingProvider(client)
+
+  console.log(upgrade
+    ? `Scanning for messages without ${provider.schema.version} embeddings...`
+    : 'Scanning for messages without embeddings...')
+  const backfill = await backfillEmbeddings(client, store, {
+    schemaVersion: upgrade ? provider.schema.version : undefined,
+    onProgress: (found) => console.log(`  queued ${found}`)
+  })
+  console.log(`Queued ${backfill.found} messages, requeued ${backfill.requeued} failed jobs`)
+
+  if (!queueOnly) {
+    const worker = new EmbeddingWorker(client, store, config, { provider })
+    const report = await worker.runUntilIdle({
+      onProgress: (total) => console.log(
+        `  processed ${total.claimed}: ${total.succeeded} embedded, ${total.retried} retrying, ${total.failed} failed`
+      )
+    })
+    console.log(`Processed ${report.claimed} jobs: ${report.succeeded} embedded, ${report.retried} retrying, ${report.failed} failed`)
+
+    if (provider instanceof CachedEmbeddingProvider) {
+      const { hits, misses } = provider.stats()
+      console.log(`Embedding cache: ${hits} hits, ${misses} misses (provider calls)`)
+    }
+  }
+
+  const counts = await store.counts()
+  console.log(`Queue: ${counts.pending} pending, ${counts.running} running, ${counts.failed} failed`)
+
+  if (counts.failed > 0) {
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error('Backfill failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,82 @@
+/**
+ * Build Constellations
+ *
+ * Clusters every approved message embedded with one schema version into
+ * persistent theme constellations (lib/services/constellations.ts) and
+ * replaces that schema's constellations in the database. Rebuilds keep
+ * the ids and names of constellations whose centre has not moved, so
+ * run it again whenever the archive has grown.
+ *
+ * Usage:
+ *   npx tsx --env-file=.env.local scripts/build-constellations.ts [options]
+ *
+ * --dry-run     Cluster and print the result; no writes
+ * --k=N         Number of constellations (default: about √(messages / 2), at most 24)
+ * --seed=N      Clustering seed (default 1)
+ * --schema=V    Schema version to cluster (default: the configured provider's)
+ *
+ * Requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ */
+
+import { parseArgs } from 'util'
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin'
+import { getEmbeddingProvider } from '@/lib/embeddings/create-provider'
+import { buildConstellations, PostgresConstellationStore } from '@/lib/services/constellations'
+
+function parsePositiveInt(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    console.error(`--${name} must be a positive integer`)
+    process.exit(1)
+  }
+  return parsed
+}
+
+async function main() {
+  if (!hasAdminCredentials()) {
+    console.error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+    process.exit(1)
+  }
+
+  const { values } = parseArgs({
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      k: { type: 'string' },
+      seed: { type: 'string' },
+      schema: { type: 'string' }
+    }
+  })
+
+  const dryRun = values['dry-run']
+  const schemaVersion = values.schema ?? getEmbeddingProvider().schema.version
+  const client = createAdminClient()
+
+  console.log(`${dryRun ? 'Dry run: clustering' : 'Clustering'} ${schemaVersion} messages...`)
+
+  const report = await buildConstellations(client, {
+    schemaVersion,
+    store: new PostgresConstellationStore(client),
+    k: parsePositiveInt(values.k, 'k'),
+    seed: parsePositiveInt(values.seed, 'seed'),
+    dryRun
+  })
+
+  for (const constellation of report.constellations) {
+    console.log(
+      `  ${constellation.name}: ${constellation.size} messages, ` +
+      `cohesion ${constellation.cohesion.toFixed(2)}, representative ${constellation.representative_id}`
+    )
+  }
+
+  console.log(
+    `${dryRun ? 'Would store' : 'Stored'} ${report.constellations.length} constellations ` +
+    `from ${report.clustered} of ${report.scanned} messages (${report.carriedOver} carried over)`
+  )
+}
+
+main().catch((error) => {
+  console.error('Constellation build failed:', error)
+  process.exit(1)
+})
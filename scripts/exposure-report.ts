@@ -0,0 +1,70 @@
+/**
+ * Exposure Report
+ *
+ * How often every approved message has been shown as a cluster's focus,
+ * as related and as next, summed over every screen recording to
+ * message_exposures (POOL_EXPOSURE_LEDGER=database, migration 016), and
+ * which messages have gone unseen longest. A high Gini coefficient means
+ * a few messages take most of the exposure; POOL_FAIRNESS_WEIGHT evens
+ * it out.
+ *
+ * Usage:
+ *   npx tsx --env-file=.env.local scripts/exposure-report.ts [options]
+ *
+ * --limit=N     Longest-unseen messages listed (default 20)
+ *
+ * Requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ */
+
+import { parseArgs } from 'util'
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin'
+import { PostgresExposureStore, reportArchiveExposure } from '@/lib/services/exposure-ledger'
+import type { ExposureRole } from '@/types/grief-messages'
+
+const ROLES: ExposureRole[] = ['focus', 'related', 'next']
+
+async function main() {
+  if (!hasAdminCredentials()) {
+    console.error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+    process.exit(1)
+  }
+
+  const { values } = parseArgs({
+    options: {
+      limit: { type: 'string', default: '20' }
+    }
+  })
+
+  const limit = Number(values.limit)
+  if (!Number.isInteger(limit) || limit < 0) {
+    console.error('--limit must be a non-negative integer')
+    process.exit(1)
+  }
+
+  const client = createAdminClient()
+  const report = await reportArchiveExposure(client, { store: new PostgresExposureStore(client), limit })
+
+  console.log(`${report.messages} messages, ${report.neverShown} never shown`)
+
+  for (const role of ROLES) {
+    const stats = report.roles[role]
+    console.log(
+      `\n${role}: ${stats.total} times, mean ${stats.mean.toFixed(2)}, ` +
+      `max ${stats.max}, Gini ${stats.gini.toFixed(2)}`
+    )
+    for (const bucket of stats.histogram) {
+      const range = bucket.min === bucket.max ? `${bucket.min}` : `${bucket.min}-${bucket.max}`
+      console.log(`  ${range.padStart(9)} times: ${bucket.messages} messages`)
+    }
+  }
+
+  console.log('\nLongest unseen:')
+  for (const { messageId, lastShownAt } of report.longestUnseen) {
+    console.log(`  ${messageId}: ${lastShownAt ?? 'never shown'}`)
+  }
+}
+
+main().catch((error) => {
+  console.error('Exposure report failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+/**
+ * Fake Twilio SMS
+ *
+ * Posts a signed, Twilio-format inbound SMS to a local server, for
+ * exercising /api/sms/inbound without a phone number.
+ *
+ * Usage:
+ *   TWILIO_AUTH_TOKEN=test-token node scripts/fake-twilio-sms.mjs "I miss you, Dad" [+15555550100]
+ *
+ * Env:
+ *   TWILIO_AUTH_TOKEN  - must match the server's token
+ *   SMS_WEBHOOK_URL    - defaults to http://localhost:3000/api/sms/inbound
+ *                        (must equal the server's TWILIO_WEBHOOK_URL if set)
+ */
+
+import crypto from 'crypto'
+
+const authToken = process.env.TWILIO_AUTH_TOKEN
+const url = process.env.SMS_WEBHOOK_URL || 'http://localhost:3000/api/sms/inbound'
+const [body, from = '+15555550100'] = process.argv.slice(2)
+
+if (!authToken || body === undefined) {
+  console.error('Usage: TWILIO_AUTH_TOKEN=<token> node scripts/fake-twilio-sms.mjs "<message>" [from]')
+  process.exit(1)
+}
+
+const params = {
+  AccountSid: 'AC' + '0'.repeat(32),
+  MessageSid: 'SM' + crypto.randomBytes(16).toString('hex'),
+  From: from,
+  To: '+15555550199',
+  Body: body,
+  NumMedia: '0'
+}
+
+// Same scheme as lib/sms/twilio.ts computeTwilioSignature
+const data = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], url)
+const signature = crypto.createHmac('sha1', authToken).update(data, 'utf8').digest('base64')
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    'X-Twilio-Signature': signature
+  },
+  body: new URLSearchParams(params)
+})
+
+console.log(`${response.status} ${response.statusText}`)
+console.log(await response.text())
@@ -0,0 +1,118 @@
+/**
+ * Re-embed Messages
+ *
+ * Re-encodes stored messages with the configured provider after a model
+ * or prompt change, stamping each vector with its schema version and
+ * model. Streams messages in id order, at most --per-minute provider
+ * calls, and saves a checkpoint after every batch: rerun the same
+ * command after an interruption to continue where it stopped.
+ *
+ * Usage:
+ *   npx tsx --env-file=.env.local scripts/reembed-messages.ts [options]
+ *
+ * --dry-run          Count the messages that would change; no provider calls or writes
+ * --all              Re-encode every message, not only stale ones
+ * --batch-size=N     Messages per batch and checkpoint (default 20)
+ * --per-minute=N     Maximum provider calls per minute (default 60)
+ * --checkpoint=PATH  Checkpoint file (default .reembed-checkpoint.json)
+ * --restart          Ignore an existing checkpoint
+ *
+ * A message is stale when it has no embedding, or one from another schema
+ * version or model, or no tags. The embedding cache is bypassed so every
+ * vector comes from the current model.
+ *
+ * Requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ * Exits with status 1 if any message failed.
+ */
+
+import fs from 'fs'
+import { parseArgs } from 'util'
+import { createAdminClient, hasAdminCredentials } from '@/lib/supabase/admin'
+import { getEmbeddingProvider } from '@/lib/embeddings/create-provider'
+import {
+  reembedMessages,
+  type ReembedCheckpoint,
+  type ReembedReport
+} from '@/lib/services/reembedding'
+
+function parsePositiveInt(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) return fallback
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    console.error(`--${name} must be a positive integer`)
+    process.exit(1)
+  }
+  return parsed
+}
+
+function describe(report: ReembedReport): string {
+  const reasons = Object.entries(report.reasons)
+    .filter(([, count]) => count > 0)
+    .map(([reason, count]) => `${reason} ${count}`)
+    .join(', ')
+
+  return `${report.scanned} scanned, ${report.stale} stale${reasons ? ` (${reasons})` : ''}`
+}
+
+async function main() {
+  if (!hasAdminCredentials()) {
+    console.error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+    process.exit(1)
+  }
+
+  const { values } = parseArgs({
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      all: { type: 'boolean', default: false },
+      'batch-size': { type: 'string' },
+      'per-minute': { type: 'string' },
+      checkpoint: { type: 'string', default: '.reembed-checkpoint.json' },
+      restart: { type: 'boolean', default: false }
+    }
+  })
+
+  const dryRun = values['dry-run']
+  const checkpointPath = values.checkpoint
+  const provider = getEmbeddingProvider()
+
+  let resumeFrom: ReembedCheckpoint | null = null
+  if (!dryRun && !values.restart && fs.existsSync(checkpointPath)) {
+    resumeFrom = JSON.parse(fs.readFileSync(checkpointPath, 'utf8')) as ReembedCheckpoint
+    console.log(`Resuming after message ${resumeFrom.cursor} (${describe(resumeFrom.report)})`)
+  }
+
+  console.log(`${dryRun ? 'Dry run: checking' : 'Re-encoding'} messages for ${provider.id} (${provider.schema.version})...`)
+
+  const report = await reembedMessages(createAdminClient(), {
+    provider,
+    batchSize: parsePositiveInt(values['batch-size'], 20, 'batch-size'),
+    requestsPerMinute: parsePositiveInt(values['per-minute'], 60, 'per-minute'),
+    dryRun,
+    force: values.all,
+    resumeFrom,
+    onCheckpoint: (checkpoint) => {
+      fs.writeFileSync(checkpointPath, JSON.stringify(checkpoint, null, 2))
+      console.log(`  ${describe(checkpoint.report)}, ${checkpoint.report.updated} updated, ${checkpoint.report.failed} failed`)
+    }
+  })
+
+  if (dryRun) {
+    console.log(`Would re-encode ${report.stale} of ${report.scanned} messages (${describe(report)})`)
+    return
+  }
+
+  // Finished: the next run starts from the beginning (current messages are skipped)
+  fs.rmSync(checkpointPath, { force: true })
+  console.log(`Done: ${describe(report)}, ${report.updated} updated, ${report.failed} failed`)
+
+  if (report.failed > 0) {
+    console.log('Run again to retry the failed messages')
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error('Re-embedding failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,21 @@
+-- Migration: IP hash index for rate limiting
+-- Date: 2026-10-19
+-- Purpose: Support per-IP submission limits in PostgresRateLimiter
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- IP-based rate limiting (companion to idx_messages_session)
+CREATE INDEX IF NOT EXISTS idx_messages_ip_hash
+  ON messages(ip_hash, created_at)
+  WHERE ip_hash IS NOT NULL;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Index created: idx_messages_ip_hash (ip_hash, created_at)';
+END $$;
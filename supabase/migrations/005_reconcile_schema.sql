@@ -0,0 +1,80 @@
+-- Migration: Reconcile messages table with types/database.ts
+-- Date: 2026-10-19
+-- Purpose: Add columns the application already reads and writes
+--          (moderation, submission metadata, semantic tags) and keep
+--          updated_at current on every write
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS flagged BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS moderator_notes TEXT,
+  ADD COLUMN IF NOT EXISTS user_agent TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS semantic_tags JSONB;
+
+-- Existing rows: last write was their creation
+UPDATE messages SET updated_at = created_at WHERE updated_at > created_at;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS messages_set_updated_at ON messages;
+
+CREATE TRIGGER messages_set_updated_at
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Moderation queues: pending and flagged, newest first
+CREATE INDEX IF NOT EXISTS idx_messages_moderation
+  ON messages(id DESC)
+  WHERE deleted_at IS NULL AND (approved = false OR flagged = true);
+
+-- ============================================================================
+-- DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN messages.approved IS
+  'Whether message is approved for public display. Default: true. Set false by content screening or MODERATION_REQUIRE_APPROVAL.';
+
+COMMENT ON COLUMN messages.flagged IS
+  'Marked for moderator review (by content screening or a moderator). Flagged messages remain public while approved = true.';
+
+COMMENT ON COLUMN messages.moderator_notes IS
+  'Append-only moderation history, one timestamped line per action.';
+
+COMMENT ON COLUMN messages.user_agent IS
+  'Submitting client user agent, for abuse investigation.';
+
+COMMENT ON COLUMN messages.updated_at IS
+  'Timestamp of last modification. Maintained by the messages_set_updated_at trigger.';
+
+COMMENT ON COLUMN messages.semantic_tags IS
+  'Interpretable semantic tags with confidence scores. Structure: {tag: confidence}.';
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Columns added: flagged, moderator_notes, user_agent, updated_at, semantic_tags';
+  RAISE NOTICE 'Trigger created: messages_set_updated_at';
+  RAISE NOTICE 'Index created: idx_messages_moderation';
+END $$;
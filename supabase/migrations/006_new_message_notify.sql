@@ -0,0 +1,69 @@
+-- Migration: Push notifications for newly visible messages
+-- Date: 2026-10-19
+-- Purpose: NOTIFY listeners (GET /api/messages/stream) when a message becomes
+--          publicly visible, so installations no longer poll for new messages
+
+-- ============================================================================
+-- FUNCTION
+-- ============================================================================
+
+-- Payload carries the full public row (content <= 280 chars plus a small
+-- embedding), well under the 8000 byte NOTIFY limit, so listeners need no
+-- follow-up query
+CREATE OR REPLACE FUNCTION notify_new_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.approved AND NEW.deleted_at IS NULL THEN
+    PERFORM pg_notify(
+      'new_message',
+      json_build_object(
+        'id', NEW.id::text,
+        'content', NEW.content,
+        'created_at', NEW.created_at,
+        'approved', NEW.approved,
+        'deleted_at', NEW.deleted_at,
+        'semantic_data', NEW.semantic_data
+      )::text
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- New submissions that are visible immediately
+DROP TRIGGER IF EXISTS messages_notify_insert ON messages;
+
+CREATE TRIGGER messages_notify_insert
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_message();
+
+-- Held submissions released by a moderator
+DROP TRIGGER IF EXISTS messages_notify_approved ON messages;
+
+CREATE TRIGGER messages_notify_approved
+  AFTER UPDATE OF approved ON messages
+  FOR EACH ROW
+  WHEN (OLD.approved = false AND NEW.approved = true)
+  EXECUTE FUNCTION notify_new_message();
+
+-- ============================================================================
+-- DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON FUNCTION notify_new_message() IS
+  'Publishes newly visible messages on the new_message channel as JSON (id, content, created_at, approved, deleted_at, semantic_data).';
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Function created: notify_new_message';
+  RAISE NOTICE 'Triggers created: messages_notify_insert, messages_notify_approved';
+END $$;
@@ -0,0 +1,34 @@
+-- Migration: Idempotency keys for submissions
+-- Date: 2026-10-19
+-- Purpose: Let clients retry POST /api/messages (and Twilio retry webhooks)
+--          without inserting duplicate messages
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+COMMENT ON COLUMN messages.idempotency_key IS
+  'Client-supplied key (Idempotency-Key header, or Twilio MessageSid). Unique per session_id.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- One message per (session, key); a concurrent retry fails the insert and
+-- the application returns the original row instead
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_idempotency
+  ON messages(session_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Column added: idempotency_key';
+  RAISE NOTICE 'Index created: idx_messages_idempotency (session_id, idempotency_key)';
+END $$;
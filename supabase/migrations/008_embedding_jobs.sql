@@ -0,0 +1,77 @@
+-- Migration: Embedding job queue
+-- Date: 2026-10-19
+-- Purpose: Generate embeddings after the insert instead of during it.
+--          Submissions enqueue a job; a worker claims jobs, retries
+--          failures with backoff, and records exhausted jobs as failed.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+-- One row per message awaiting an embedding; deleted once it succeeds
+CREATE TABLE IF NOT EXISTS embedding_jobs (
+  message_id BIGINT PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE embedding_jobs IS
+  'Queued semantic embedding work. running jobs whose next_attempt_at has passed are reclaimable (worker lease expired).';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Claim scan: due jobs in order
+CREATE INDEX IF NOT EXISTS idx_embedding_jobs_due
+  ON embedding_jobs(next_attempt_at)
+  WHERE status IN ('pending', 'running');
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Atomically lease up to batch_size due jobs. SKIP LOCKED lets several
+-- workers (cron, post-submit, backfill CLI) run without taking the same job.
+CREATE OR REPLACE FUNCTION claim_embedding_jobs(batch_size INTEGER, lease_seconds INTEGER)
+RETURNS SETOF embedding_jobs AS $$
+  UPDATE embedding_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      next_attempt_at = NOW() + make_interval(secs => lease_seconds),
+      updated_at = NOW()
+  WHERE message_id IN (
+    SELECT message_id
+    FROM embedding_jobs
+    WHERE status IN ('pending', 'running')
+      AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+-- No policies: only the service role (which bypasses RLS) touches jobs
+ALTER TABLE embedding_jobs ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION claim_embedding_jobs(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Table created: embedding_jobs';
+  RAISE NOTICE 'Function created: claim_embedding_jobs(batch_size, lease_seconds)';
+  RAISE NOTICE 'Backfill existing rows with: npx tsx scripts/backfill-embeddings.ts';
+END $$;
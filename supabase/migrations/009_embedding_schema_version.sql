@@ -0,0 +1,37 @@
+-- Migration: Embedding schema versions
+-- Date: 2026-10-19
+-- Purpose: Record which embedding schema (lib/embeddings/schema.ts) produced
+--          each semantic_data vector, so vectors from different schemas are
+--          never compared and old ones can be found and re-encoded
+
+-- ============================================================================
+-- DATA
+-- ============================================================================
+
+-- Embeddings stored before versioning came from the original prompt
+UPDATE messages
+SET semantic_data = semantic_data || '{"schema_version": "themes-v1"}'::jsonb
+WHERE semantic_data IS NOT NULL
+  AND NOT semantic_data ? 'schema_version';
+
+COMMENT ON COLUMN messages.semantic_data IS
+  'Embedding payload: {embedding: number[10], generated_at, schema_version}. Compare only within one schema_version.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Upgrade backfill scans for rows whose schema_version is not current
+CREATE INDEX IF NOT EXISTS idx_messages_schema_version
+  ON messages((semantic_data->>'schema_version'))
+  WHERE deleted_at IS NULL;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Existing embeddings stamped with schema_version themes-v1';
+  RAISE NOTICE 'Index created: idx_messages_schema_version';
+END $$;
@@ -0,0 +1,59 @@
+-- Migration: Structured semantic tags
+-- Date: 2026-10-19
+-- Purpose: Document the semantic_tags payload (relationship, loss kind, tone
+--          with confidences) and include it in new message notifications
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+COMMENT ON COLUMN messages.semantic_tags IS
+  'Tags: {relationship, loss_kind, tone: {value, confidence} | null, tagger, generated_at}. Vocabulary in lib/embeddings/tags.ts.';
+
+-- ============================================================================
+-- FUNCTION
+-- ============================================================================
+
+-- Same as 006, plus semantic_tags (a few hundred bytes at most)
+CREATE OR REPLACE FUNCTION notify_new_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.approved AND NEW.deleted_at IS NULL THEN
+    PERFORM pg_notify(
+      'new_message',
+      json_build_object(
+        'id', NEW.id::text,
+        'content', NEW.content,
+        'created_at', NEW.created_at,
+        'approved', NEW.approved,
+        'deleted_at', NEW.deleted_at,
+        'semantic_data', NEW.semantic_data,
+        'semantic_tags', NEW.semantic_tags
+      )::text
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION notify_new_message() IS
+  'Publishes newly visible messages on the new_message channel as JSON (id, content, created_at, approved, deleted_at, semantic_data, semantic_tags).';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Curation queries by theme, e.g. semantic_tags @> '{"relationship": {"value": "pet"}}'
+CREATE INDEX IF NOT EXISTS idx_messages_semantic_tags
+  ON messages USING GIN (semantic_tags)
+  WHERE semantic_tags IS NOT NULL;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Function updated: notify_new_message (adds semantic_tags)';
+  RAISE NOTICE 'Index created: idx_messages_semantic_tags';
+END $$;
@@ -0,0 +1,70 @@
+-- Migration: Embedding cache
+-- Date: 2026-10-19
+-- Purpose: Reuse embeddings for messages with the same normalized content
+--          ("I miss you", "i miss you.") instead of paying for each one.
+--          Rows are keyed by content hash and schema version; hits are
+--          counted per row for cost monitoring.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  content_hash TEXT NOT NULL,
+  schema_version TEXT NOT NULL,
+  provider_id TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  tags JSONB,
+  hits INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_hit_at TIMESTAMPTZ,
+  PRIMARY KEY (content_hash, schema_version)
+);
+
+COMMENT ON TABLE embedding_cache IS
+  'Embeddings by SHA-256 of normalized content (lib/embeddings/content-hash.ts). One row per provider call that was cached; hits counts reuses.';
+
+COMMENT ON COLUMN embedding_cache.tags IS
+  'Provider tags in the messages.semantic_tags shape, or NULL when the provider does not tag.';
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Look up and count a hit in one round trip
+CREATE OR REPLACE FUNCTION hit_embedding_cache(p_content_hash TEXT, p_schema_version TEXT)
+RETURNS SETOF embedding_cache AS $$
+  UPDATE embedding_cache
+  SET hits = hits + 1,
+      last_hit_at = NOW()
+  WHERE content_hash = p_content_hash
+    AND schema_version = p_schema_version
+  RETURNING *;
+$$ LANGUAGE sql;
+
+-- Totals for GET /api/admin/embeddings
+CREATE OR REPLACE FUNCTION embedding_cache_summary()
+RETURNS TABLE (entries BIGINT, hits BIGINT) AS $$
+  SELECT COUNT(*), COALESCE(SUM(hits), 0)
+  FROM embedding_cache;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+-- No policies: only the service role (which bypasses RLS) reads or writes
+ALTER TABLE embedding_cache ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION hit_embedding_cache(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION embedding_cache_summary() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Table created: embedding_cache';
+  RAISE NOTICE 'Functions created: hit_embedding_cache(content_hash, schema_version), embedding_cache_summary()';
+END $$;
@@ -0,0 +1,44 @@
+-- Migration: Embedding model stamps
+-- Date: 2026-10-19
+-- Purpose: Record which provider and model produced each vector
+--          (semantic_data.model), so a model change within one schema
+--          can be found and re-encoded (scripts/reembed-messages.ts), and
+--          make embedding cache hits model-specific
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+COMMENT ON COLUMN messages.semantic_data IS
+  'Embedding payload: {embedding: number[10], generated_at, schema_version, model?}. Compare only within one schema_version. model is absent on rows stored before migration 012.';
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Replaces the 011 lookup: an entry from another model is a miss, and the
+-- caller overwrites it with the current model's vector
+DROP FUNCTION IF EXISTS hit_embedding_cache(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION hit_embedding_cache(p_content_hash TEXT, p_schema_version TEXT, p_provider_id TEXT)
+RETURNS SETOF embedding_cache AS $$
+  UPDATE embedding_cache
+  SET hits = hits + 1,
+      last_hit_at = NOW()
+  WHERE content_hash = p_content_hash
+    AND schema_version = p_schema_version
+    AND provider_id = p_provider_id
+  RETURNING *;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION hit_embedding_cache(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Function replaced: hit_embedding_cache(content_hash, schema_version, provider_id)';
+  RAISE NOTICE 'Re-encode after a model change with: npx tsx scripts/reembed-messages.ts --dry-run';
+END $$;
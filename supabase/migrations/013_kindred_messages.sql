@@ -0,0 +1,104 @@
+-- Migration: Kindred messages
+-- Date: 2026-10-19
+-- Purpose: Similarity search across the whole archive for
+--          GET /api/messages/:id/kindred, computed from stored
+--          semantic_data (no extension needed). Scores match the
+--          client's semantic similarity: (cosine + 1) / 2, only between
+--          embeddings of the same schema_version. Each embedding is kept
+--          as a unit-length REAL[] beside semantic_data, so a search does
+--          not unpack JSON or compute norms per pair.
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- semantic_data.embedding scaled to unit length, so a dot product is the
+-- cosine (an all-zero embedding stays zero, cosine 0). NULL unless it is
+-- an array of 10 numbers.
+CREATE OR REPLACE FUNCTION embedding_unit_vector(p_semantic_data JSONB)
+RETURNS REAL[] AS $$
+DECLARE
+  v FLOAT8[];
+  norm FLOAT8;
+BEGIN
+  IF jsonb_typeof(p_semantic_data->'embedding') IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_semantic_data->'embedding') <> 10 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT array_agg(x::FLOAT8 ORDER BY i) INTO v
+  FROM jsonb_array_elements_text(p_semantic_data->'embedding') WITH ORDINALITY AS e(x, i);
+
+  SELECT SQRT(SUM(x * x)) INTO norm FROM unnest(v) AS x;
+
+  RETURN ARRAY(
+    SELECT (x / COALESCE(NULLIF(norm, 0), 1))::REAL
+    FROM unnest(v) WITH ORDINALITY AS u(x, i)
+    ORDER BY i
+  );
+EXCEPTION
+  -- Non-numeric elements: not an embedding (never fail the write)
+  WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Dot product of two unit vectors of equal length: their cosine
+CREATE OR REPLACE FUNCTION embedding_dot(a REAL[], b REAL[])
+RETURNS DOUBLE PRECISION AS $$
+  SELECT COALESCE(SUM(x::FLOAT8 * y::FLOAT8), 0) FROM unnest(a, b) AS t(x, y);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+-- Kept in step with semantic_data by Postgres (re-embedding included)
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS embedding_unit REAL[]
+  GENERATED ALWAYS AS (embedding_unit_vector(semantic_data)) STORED;
+
+COMMENT ON COLUMN messages.embedding_unit IS
+  'semantic_data.embedding scaled to unit length (generated), for kindred_messages()';
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Every approved, non-deleted message comparable with p_message_id, scored.
+-- Returns nothing if that message is not approved or has no embedding.
+-- Runs as the caller, so RLS applies; callers filter, order and limit
+-- the result (PostgREST: ?order=similarity.desc&limit=12).
+CREATE OR REPLACE FUNCTION kindred_messages(p_message_id BIGINT)
+RETURNS TABLE (
+  id BIGINT,
+  content TEXT,
+  created_at TIMESTAMPTZ,
+  source TEXT,
+  similarity DOUBLE PRECISION
+) AS $$
+  SELECT m.id, m.content, m.created_at, m.source,
+         LEAST(1, GREATEST(0, (embedding_dot(m.embedding_unit, f.embedding_unit) + 1) / 2))
+  FROM messages f
+  JOIN messages m
+    ON m.id <> f.id
+   AND COALESCE(m.semantic_data->>'schema_version', 'themes-v1') = COALESCE(f.semantic_data->>'schema_version', 'themes-v1')
+  WHERE f.id = p_message_id
+    AND f.approved AND f.deleted_at IS NULL
+    AND m.approved AND m.deleted_at IS NULL
+    AND f.embedding_unit IS NOT NULL
+    AND m.embedding_unit IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION embedding_dot(REAL[], REAL[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION kindred_messages(BIGINT) TO anon, authenticated;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Column added: messages.embedding_unit';
+  RAISE NOTICE 'Functions created: embedding_unit_vector(semantic_data), embedding_dot(a, b), kindred_messages(message_id)';
+END $$;
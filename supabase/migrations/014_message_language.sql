@@ -0,0 +1,39 @@
+-- Migration: Message language
+-- Date: 2026-10-19
+-- Purpose: Store the language each message is written in, detected at
+--          submission (lib/language/detect.ts), so the archive can be
+--          read and curated by language
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS language TEXT;
+
+ALTER TABLE messages
+  DROP CONSTRAINT IF EXISTS messages_language_check;
+
+ALTER TABLE messages
+  ADD CONSTRAINT messages_language_check CHECK (language ~ '^[a-z]{2,3}$');
+
+COMMENT ON COLUMN messages.language IS
+  'ISO 639-1 code (en, es, ja, ...), or und when the text is too short to tell. NULL for messages stored before detection.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_messages_language
+  ON messages(language)
+  WHERE language IS NOT NULL;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Column added: messages.language';
+  RAISE NOTICE 'Index created: idx_messages_language';
+END $$;
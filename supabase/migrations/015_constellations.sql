@@ -0,0 +1,133 @@
+-- Migration: Constellations
+-- Date: 2026-10-19
+-- Purpose: Persistent theme clusters built offline by
+--          scripts/build-constellations.ts (spherical k-means over every
+--          approved embedding of one schema version). Each constellation
+--          has a centroid, a representative message and its members, so
+--          the installation can walk them as stable named groups.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Ids are kept across rebuilds when a cluster carries over, so a
+-- constellation's name and identity survive new messages arriving
+CREATE TABLE IF NOT EXISTS constellations (
+  id TEXT PRIMARY KEY,
+  schema_version TEXT NOT NULL,
+  name TEXT NOT NULL,
+  centroid REAL[] NOT NULL,
+  representative_id BIGINT REFERENCES messages(id) ON DELETE SET NULL,
+  size INTEGER NOT NULL,
+  cohesion REAL NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE constellations IS
+  'Theme clusters from the last build for each schema_version. centroid is unit length; cohesion is the mean cosine similarity of members to it.';
+
+-- One constellation per message (a message has one schema version)
+CREATE TABLE IF NOT EXISTS constellation_members (
+  message_id BIGINT PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  constellation_id TEXT NOT NULL REFERENCES constellations(id) ON DELETE CASCADE,
+  similarity REAL NOT NULL
+);
+
+COMMENT ON COLUMN constellation_members.similarity IS
+  'Cosine similarity of the message embedding to its constellation centroid.';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_constellations_schema_version
+  ON constellations(schema_version);
+
+CREATE INDEX IF NOT EXISTS idx_constellation_members_constellation
+  ON constellation_members(constellation_id);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Swap in a new build for one schema version in a single transaction, so
+-- readers never see half of it. p_constellations is a JSON array of
+-- {id, name, centroid, representative_id, size, cohesion,
+--  members: [{message_id, similarity}]}. Constellations of that schema
+-- version missing from the array are dropped with their members.
+CREATE OR REPLACE FUNCTION replace_constellations(p_schema_version TEXT, p_constellations JSONB)
+RETURNS INTEGER AS $$
+BEGIN
+  DELETE FROM constellations
+  WHERE schema_version = p_schema_version
+    AND id NOT IN (SELECT c->>'id' FROM jsonb_array_elements(p_constellations) AS c);
+
+  INSERT INTO constellations (id, schema_version, name, centroid, representative_id, size, cohesion)
+  SELECT c->>'id',
+         p_schema_version,
+         c->>'name',
+         ARRAY(SELECT v::REAL FROM jsonb_array_elements_text(c->'centroid') AS v),
+         (c->>'representative_id')::BIGINT,
+         (c->>'size')::INTEGER,
+         (c->>'cohesion')::REAL
+  FROM jsonb_array_elements(p_constellations) AS c
+  ON CONFLICT (id) DO UPDATE
+  SET name = EXCLUDED.name,
+      centroid = EXCLUDED.centroid,
+      representative_id = EXCLUDED.representative_id,
+      size = EXCLUDED.size,
+      cohesion = EXCLUDED.cohesion,
+      updated_at = NOW();
+
+  DELETE FROM constellation_members
+  WHERE constellation_id IN (SELECT c->>'id' FROM jsonb_array_elements(p_constellations) AS c);
+
+  -- Skips messages hard-deleted since the build read them
+  INSERT INTO constellation_members (message_id, constellation_id, similarity)
+  SELECT (m->>'message_id')::BIGINT, c->>'id', (m->>'similarity')::REAL
+  FROM jsonb_array_elements(p_constellations) AS c,
+       jsonb_array_elements(c->'members') AS m
+  WHERE EXISTS (SELECT 1 FROM messages WHERE messages.id = (m->>'message_id')::BIGINT)
+  ON CONFLICT (message_id) DO UPDATE
+  SET constellation_id = EXCLUDED.constellation_id,
+      similarity = EXCLUDED.similarity;
+
+  RETURN jsonb_array_length(p_constellations);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE constellations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE constellation_members ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON constellations, constellation_members TO anon, authenticated;
+
+-- The installation reads constellations with the anon key
+CREATE POLICY "Public can view constellations"
+  ON constellations
+  FOR SELECT
+  USING (true);
+
+-- Membership only for messages the caller can see (messages RLS applies)
+CREATE POLICY "Public can view members of visible messages"
+  ON constellation_members
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM messages WHERE messages.id = constellation_members.message_id));
+
+-- Only the service role (build script) writes
+REVOKE EXECUTE ON FUNCTION replace_constellations(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Tables created: constellations, constellation_members';
+  RAISE NOTICE 'Function created: replace_constellations(schema_version, constellations)';
+  RAISE NOTICE 'Build them with: npx tsx scripts/build-constellations.ts';
+END $$;
@@ -0,0 +1,95 @@
+-- Migration: Message exposures
+-- Date: 2026-10-19
+-- Purpose: How often each message has been shown as a cluster's focus,
+--          as related and as next, and when last, shared by every
+--          installation screen (POOL_EXPOSURE_LEDGER=database). Lets the
+--          cluster selector favour messages the historical cursor keeps
+--          passing over, and scripts/exposure-report.ts show the spread.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- A row appears the first time a message is shown; messages without one
+-- have never been shown
+CREATE TABLE IF NOT EXISTS message_exposures (
+  message_id BIGINT PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  focus_count INTEGER NOT NULL DEFAULT 0,
+  related_count INTEGER NOT NULL DEFAULT 0,
+  next_count INTEGER NOT NULL DEFAULT 0,
+  last_shown_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE message_exposures IS
+  'Times each message was shown per cluster role, summed over every screen. Written only through record_exposures().';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_message_exposures_last_shown
+  ON message_exposures(last_shown_at);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Add counts from one screen. p_exposures is a JSON array of
+-- {message_id, focus, related, next, shown_at}. Only adds to messages the
+-- public can see, and at most 100 per role per message per call. That
+-- bounds one call, not how many calls are made, so only the service role
+-- may run it: screens record through POST /api/exposures, which limits
+-- the calls per screen and per IP.
+CREATE OR REPLACE FUNCTION record_exposures(p_exposures JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  recorded INTEGER;
+BEGIN
+  INSERT INTO message_exposures AS e (message_id, focus_count, related_count, next_count, last_shown_at)
+  SELECT (x->>'message_id')::BIGINT,
+         LEAST(GREATEST(COALESCE((x->>'focus')::INTEGER, 0), 0), 100),
+         LEAST(GREATEST(COALESCE((x->>'related')::INTEGER, 0), 0), 100),
+         LEAST(GREATEST(COALESCE((x->>'next')::INTEGER, 0), 0), 100),
+         LEAST(COALESCE((x->>'shown_at')::TIMESTAMPTZ, NOW()), NOW())
+  FROM jsonb_array_elements(p_exposures) AS x
+  JOIN messages m ON m.id = (x->>'message_id')::BIGINT
+  WHERE m.approved AND m.deleted_at IS NULL
+  ON CONFLICT (message_id) DO UPDATE
+  SET focus_count = e.focus_count + EXCLUDED.focus_count,
+      related_count = e.related_count + EXCLUDED.related_count,
+      next_count = e.next_count + EXCLUDED.next_count,
+      last_shown_at = GREATEST(e.last_shown_at, EXCLUDED.last_shown_at);
+
+  GET DIAGNOSTICS recorded = ROW_COUNT;
+  RETURN recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE message_exposures ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON message_exposures TO anon, authenticated;
+
+-- Exposure only for messages the caller can see (messages RLS applies)
+CREATE POLICY "Public can view exposure of visible messages"
+  ON message_exposures
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM messages WHERE messages.id = message_exposures.message_id));
+
+-- Functions are executable by everyone unless revoked
+REVOKE EXECUTE ON FUNCTION record_exposures(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_exposures(JSONB) TO service_role;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Table created: message_exposures';
+  RAISE NOTICE 'Function created: record_exposures(exposures)';
+  RAISE NOTICE 'Report with: npx tsx scripts/exposure-report.ts';
+END $$;
@@ -0,0 +1,29 @@
+-- Migration: Notify when a new message's embedding arrives
+-- Date: 2026-10-19
+-- Purpose: Queued embeddings (008) are written after the insert has already
+--          been published, so installations first see new messages without
+--          semantic_data. Publish the row again once the worker stores it;
+--          listeners replace the copy they hold.
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- First embedding of a message (re-encoding an existing one is not news).
+-- notify_new_message() (010) skips held and deleted rows.
+DROP TRIGGER IF EXISTS messages_notify_embedded ON messages;
+
+CREATE TRIGGER messages_notify_embedded
+  AFTER UPDATE OF semantic_data ON messages
+  FOR EACH ROW
+  WHEN (OLD.semantic_data IS NULL AND NEW.semantic_data IS NOT NULL)
+  EXECUTE FUNCTION notify_new_message();
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Trigger created: messages_notify_embedded';
+END $$;
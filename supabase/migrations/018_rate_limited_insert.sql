@@ -0,0 +1,88 @@
+-- Migration: Rate limited message insert
+-- Date: 2026-10-19
+-- Purpose: PostgresRateLimiter counted a session's and an IP's recent rows
+--          and the message was inserted in a separate request, so
+--          concurrent submissions could all pass the same count. Count and
+--          insert in one transaction, serialized per session and per IP.
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Insert p_message unless the session or IP already has its maximum of
+-- rows since the window start. Transaction-scoped advisory locks make
+-- concurrent submissions for the same key wait for each other's insert
+-- (session first, then IP, so they cannot deadlock).
+-- Returns the usage counted before the insert, and the stored row
+-- (null when a limit was reached):
+-- {session_count, session_oldest_at, ip_count, ip_oldest_at, message}
+CREATE OR REPLACE FUNCTION insert_message_within_limits(
+  p_message JSONB,
+  p_session_id TEXT,
+  p_ip_hash TEXT,
+  p_window_ms INTEGER,
+  p_max_per_session INTEGER,
+  p_max_per_ip INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  since TIMESTAMPTZ := NOW() - make_interval(secs => p_window_ms / 1000.0);
+  session_count INTEGER;
+  session_oldest TIMESTAMPTZ;
+  ip_count INTEGER := 0;
+  ip_oldest TIMESTAMPTZ;
+  stored JSONB;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended('rate_limit:session:' || p_session_id, 0));
+
+  SELECT COUNT(*), MIN(created_at) INTO session_count, session_oldest
+  FROM messages
+  WHERE session_id = p_session_id AND created_at >= since;
+
+  IF p_ip_hash IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended('rate_limit:ip:' || p_ip_hash, 0));
+
+    SELECT COUNT(*), MIN(created_at) INTO ip_count, ip_oldest
+    FROM messages
+    WHERE ip_hash = p_ip_hash AND created_at >= since;
+  END IF;
+
+  IF session_count < p_max_per_session AND (p_ip_hash IS NULL OR ip_count < p_max_per_ip) THEN
+    INSERT INTO messages (
+      content, language, session_id, ip_hash, source, semantic_data, semantic_tags,
+      approved, flagged, moderator_notes, idempotency_key
+    )
+    SELECT m.content, m.language, m.session_id, m.ip_hash, m.source, m.semantic_data, m.semantic_tags,
+           COALESCE(m.approved, FALSE), COALESCE(m.flagged, FALSE), m.moderator_notes, m.idempotency_key
+    FROM jsonb_populate_record(NULL::messages, p_message) AS m
+    RETURNING jsonb_build_object(
+      'id', id::TEXT, 'content', content, 'created_at', created_at, 'source', source, 'approved', approved
+    ) INTO stored;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'session_count', session_count,
+    'session_oldest_at', session_oldest,
+    'ip_count', ip_count,
+    'ip_oldest_at', ip_oldest,
+    'message', stored
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+-- Inserts any row as given (approved included): service role only
+REVOKE EXECUTE ON FUNCTION insert_message_within_limits(JSONB, TEXT, TEXT, INTEGER, INTEGER, INTEGER)
+  FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Function created: insert_message_within_limits(message, session_id, ip_hash, window_ms, max_per_session, max_per_ip)';
+END $$;
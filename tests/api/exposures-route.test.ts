@@ -0,0 +1,89 @@
+/**
+ * Exposures Route Tests
+ *
+ * Tests cover:
+ * - Refusing to record without service role credentials
+ * - Validating the screen id and exposures
+ * - Recording through record_exposures() with the admin client
+ * - Limiting calls per screen
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+const admin = vi.hoisted(() => ({
+  configured: true,
+  rpc: vi.fn()
+}))
+
+vi.mock('@/lib/supabase/admin', () => ({
+  hasAdminCredentials: () => admin.configured,
+  createAdminClient: () => ({ rpc: admin.rpc })
+}))
+
+import { POST } from '@/app/api/exposures/route'
+
+const shown = { messageId: '7', focus: 1, related: 0, next: 2, lastShownAt: '2025-01-01T00:00:00.000Z' }
+
+function post(body: unknown, ip = '203.0.113.7'): NextRequest {
+  return new NextRequest('http://localhost/api/exposures', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': ip },
+    body: JSON.stringify(body)
+  })
+}
+
+describe('POST /api/exposures', () => {
+  beforeEach(() => {
+    admin.configured = true
+    admin.rpc.mockReset().mockResolvedValue({ data: 1, error: null })
+  })
+
+  it('should refuse without service role credentials', async () => {
+    admin.configured = false
+
+    const response = await POST(post({ sessionId: 'screen-a', exposures: [shown] }))
+
+    expect(response.status).toBe(503)
+    expect(admin.rpc).not.toHaveBeenCalled()
+  })
+
+  it('should refuse a missing screen id, malformed or repeated exposures', async () => {
+    expect((await POST(post({ exposures: [shown] }))).status).toBe(400)
+    expect((await POST(post({ sessionId: 'screen-b', exposures: [{ ...shown, focus: -5 }] }))).status).toBe(400)
+    expect((await POST(post({ sessionId: 'screen-b', exposures: 'all' }))).status).toBe(400)
+    expect((await POST(post({ sessionId: 'screen-b', exposures: [shown, shown] }))).status).toBe(400)
+    expect(admin.rpc).not.toHaveBeenCalled()
+  })
+
+  it('should record through record_exposures()', async () => {
+    const response = await POST(post({ sessionId: 'screen-c', exposures: [shown] }))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ success: true, recorded: 1 })
+    expect(admin.rpc).toHaveBeenCalledWith('record_exposures', {
+      p_exposures: [{ message_id: '7', focus: 1, related: 0, next: 2, shown_at: '2025-01-01T00:00:00.000Z' }]
+    })
+  })
+
+  it('should limit calls per screen', async () => {
+    const statuses: number[] = []
+    for (let i = 0; i < 21; i++) {
+      statuses.push((await POST(post({ sessionId: 'screen-d', exposures: [shown] }, '198.51.100.1'))).status)
+    }
+
+    expect(statuses.slice(0, 20).every((s) => s === 200)).toBe(true)
+    expect(statuses[20]).toBe(429)
+    expect(admin.rpc).toHaveBeenCalledTimes(20)
+  })
+
+  it('should report a failed write', async () => {
+    admin.rpc.mockResolvedValue({ data: null, error: { message: 'denied' } })
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const response = await POST(post({ sessionId: 'screen-e', exposures: [shown] }))
+
+    expect(response.status).toBe(500)
+    error.mockRestore()
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Kindred Route Tests
+ *
+ * Tests cover:
+ * - Unknown, held or deleted messages (404) and malformed ids (400)
+ * - Messages without an embedding, and hasEmbedding=false (no search)
+ * - The search missing until migration 013 is applied (503)
+ * - Filters, ordering and k passed to kindred_messages()
+ * - Cache headers and the per-IP limit
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+const db = vi.hoisted(() => ({
+  message: null as unknown,
+  messageError: null as unknown,
+  rows: [] as unknown[],
+  rpcError: null as unknown,
+  calls: [] as unknown[][]
+}))
+
+/**
+ * Records the chain and resolves to a fixed result
+ */
+function chain(result: () => unknown) {
+  const query: Record<string, unknown> = {}
+  for (const method of ['select', 'eq', 'is', 'gte', 'lt', 'not', 'order', 'limit']) {
+    query[method] = (...args: unknown[]) => {
+      db.calls.push([method, ...args])
+      return query
+    }
+  }
+  query.maybeSingle = async () => result()
+  query.then = (resolve: (value: unknown) => void) => resolve(result())
+  return query
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => ({
+    from: () => chain(() => ({ data: db.message, error: db.messageError })),
+    rpc: (name: string, args: unknown) => {
+      db.calls.push(['rpc', name, args])
+      return chain(() => ({ data: db.rpcError ? null : db.rows, error: db.rpcError }))
+    }
+  })
+}))
+
+import { GET } from '@/app/api/messages/[id]/kindred/route'
+
+const EMBEDDED = {
+  embedding: [0.5, -0.2, 0.7, 0.1, 0.9, -0.4, 0.3, 0.6, 0.2, 0],
+  generated_at: '2026-01-01T00:00:00.000Z',
+  schema_version: 'themes-v2'
+}
+
+const kindred = { id: '12', content: 'My brother', created_at: '2026-01-02T00:00:00.000Z', source: 'web', similarity: 0.91 }
+
+let ipCounter = 0
+
+function get(id: string, query = '', ip = `203.0.113.${++ipCounter % 250}`) {
+  const request = new NextRequest(`http://localhost/api/messages/${id}/kindred${query}`, {
+    headers: { 'x-forwarded-for': ip }
+  })
+  return GET(request, { params: Promise.resolve({ id }) })
+}
+
+describe('GET /api/messages/:id/kindred', () => {
+  beforeEach(() => {
+    db.message = { id: '7', semantic_data: EMBEDDED }
+    db.messageError = null
+    db.rows = [kindred]
+    db.rpcError = null
+    db.calls = []
+  })
+
+  it('should refuse a non-numeric id', async () => {
+    expect((await get('abc')).status).toBe(400)
+  })
+
+  it('should not find unknown, held or deleted messages', async () => {
+    db.message = null
+
+    const response = await get('7')
+
+    expect(response.status).toBe(404)
+    expect(db.calls).toContainEqual(['eq', 'approved', true])
+    expect(db.calls).toContainEqual(['is', 'deleted_at', null])
+  })
+
+  it('should answer no kindred for a message without an embedding', async () => {
+    db.message = { id: '7', semantic_data: null }
+
+    const response = await get('7')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ messageId: '7', messages: [], k: 12, embedded: false })
+    expect(db.calls.some(([method]) => method === 'rpc')).toBe(false)
+  })
+
+  it('should answer no kindred for hasEmbedding=false', async () => {
+    const response = await get('7', '?hasEmbedding=false')
+
+    expect(await response.json()).toEqual({ messageId: '7', messages: [], k: 12, embedded: true })
+    expect(db.calls.some(([method]) => method === 'rpc')).toBe(false)
+  })
+
+  it('should answer 503 until migration 013 is applied', async () => {
+    db.rpcError = { code: 'PGRST202', message: 'Could not find the function' }
+
+    expect((await get('7')).status).toBe(503)
+  })
+
+  it('should pass filters, order and k to the search', async () => {
+    const response = await get('7', '?k=5&since=2026-01-01T00:00:00.000Z&source=web&hasEmbedding=true')
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('cache-control')).toContain('s-maxage=')
+    expect(await response.json()).toEqual({ messageId: '7', messages: [kindred], k: 5, embedded: true })
+
+    const search = db.calls.slice(db.calls.findIndex(([method]) => method === 'rpc'))
+    expect(search).toEqual([
+      ['rpc', 'kindred_messages', { p_message_id: '7' }],
+      ['gte', 'created_at', '2026-01-01T00:00:00.000Z'],
+      ['eq', 'source', 'web'],
+      ['order', 'similarity', { ascending: false }],
+      ['order', 'id', { ascending: false }],
+      ['limit', 5]
+    ])
+  })
+
+  it('should refuse malformed filters', async () => {
+    expect((await get('7', '?k=0')).status).toBe(400)
+    expect((await get('7', '?source=fax')).status).toBe(400)
+  })
+
+  it('should limit searches per IP', async () => {
+    const statuses: number[] = []
+    for (let i = 0; i < 31; i++) {
+      statuses.push((await get('7', '', '198.51.100.9')).status)
+    }
+
+    expect(statuses.slice(0, 30).every((s) => s === 200)).toBe(true)
+    expect(statuses[30]).toBe(429)
+  })
+})
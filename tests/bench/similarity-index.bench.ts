@@ -0,0 +1,51 @@
+/**
+ * Similarity Index Benchmarks
+ *
+ * Top-11 related messages (a cluster) by brute force (sortBySimilarity)
+ * and by SimilarityIndex, at working-set sizes from today's 300 up to an
+ * archive, plus the cost of one cluster cycle's index update.
+ *
+ * Run: npm run bench
+ */
+
+import { bench, describe } from 'vitest'
+import { SimilarityIndex } from '@/lib/utils/similarity-index'
+import { sortBySimilarity } from '@/lib/utils/similarity-scoring'
+import { DEFAULT_CONFIG } from '@/lib/config/message-pool-config'
+import { createSyntheticMessages } from '../helpers/synthetic-messages'
+
+const SIZES = [300, 1000, 3000, 10000]
+const K = DEFAULT_CONFIG.clusterSize - 1
+const weights = DEFAULT_CONFIG.similarity
+
+for (const size of SIZES) {
+  describe(`top ${K} of ${size} messages`, () => {
+    const messages = createSyntheticMessages(size, size)
+    const index = new SimilarityIndex(weights)
+    index.applyChange({ removed: [], added: messages })
+    let i = 0
+
+    bench('brute force', () => {
+      const focus = messages[i++ % size]
+      sortBySimilarity(focus, messages.filter((m) => m.id !== focus.id), weights).slice(0, K)
+    }, { time: 500 })
+
+    bench('index', () => {
+      index.topK(messages[i++ % size], K)
+    }, { time: 500 })
+  })
+}
+
+describe('cluster cycle update (12 out, 12 in) at 3000 messages', () => {
+  const pool = createSyntheticMessages(20000, 42)
+  const index = new SimilarityIndex(weights)
+  index.applyChange({ removed: [], added: pool.slice(0, 3000) })
+  let cycle = 0
+
+  bench('index applyChange', () => {
+    const removed = pool.slice(cycle * 12, (cycle + 1) * 12).map((m) => m.id)
+    const added = pool.slice(3000 + cycle * 12, 3000 + (cycle + 1) * 12)
+    index.applyChange({ removed, added, reason: 'cluster_cycle' })
+    cycle = (cycle + 1) % 1000
+  }, { time: 500 })
+})
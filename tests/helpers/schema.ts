@@ -0,0 +1,257 @@
+/**
+ * Schema Helpers for Tests
+ *
+ * Reads the declared schema from two sources so tests can compare them:
+ * - supabase/migrations/*.sql (replayed in filename order)
+ * - types/database.ts (parsed with the TypeScript compiler API)
+ *
+ * The SQL reader understands the subset of DDL this repo uses:
+ * CREATE TABLE, DROP TABLE, ALTER TABLE ADD/DROP COLUMN and
+ * ALTER COLUMN SET/DROP NOT NULL / SET DEFAULT.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import ts from 'typescript'
+
+export interface SqlColumn {
+  name: string
+  type: string       // Upper-case SQL type, e.g. 'TIMESTAMPTZ', 'REAL[]'
+  nullable: boolean
+  hasDefault: boolean
+}
+
+export type SqlSchema = Map<string, Map<string, SqlColumn>>
+
+export interface TsField {
+  name: string
+  type: string       // Type text without `| null`
+  nullable: boolean
+  optional: boolean
+}
+
+export interface TsTable {
+  Row: Map<string, TsField>
+  Insert: Map<string, TsField>
+}
+
+const ROOT = path.resolve(__dirname, '../..')
+export const MIGRATIONS_DIR = path.join(ROOT, 'supabase/migrations')
+export const DATABASE_TYPES_FILE = path.join(ROOT, 'types/database.ts')
+
+// ========== SQL ==========
+
+/**
+ * Remove comments and dollar-quoted bodies (functions, DO blocks)
+ */
+function stripSql(sql: string): string {
+  return sql
+    .replace(/\$\$[\s\S]*?\$\$/g, "''")
+    .replace(/--[^\n]*/g, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+}
+
+/**
+ * Split on commas that are not inside parentheses or quotes
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quoted = false
+  let current = ''
+
+  for (const ch of text) {
+    if (ch === "'") quoted = !quoted
+    if (!quoted && ch === '(') depth++
+    if (!quoted && ch === ')') depth--
+
+    if (!quoted && depth === 0 && ch === ',') {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+/**
+ * Parse "name TYPE [constraints...]"
+ */
+function parseColumnDefinition(definition: string): SqlColumn | null {
+  const match = definition.match(/^"?(\w+)"?\s+(.+)$/s)
+  if (!match) return null
+
+  const [, name, rest] = match
+  if (/^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN|EXCLUDE)$/i.test(name)) return null
+
+  const typeMatch = rest.match(/^([A-Za-z]+(?:\s+PRECISION|\s+VARYING)?(?:\s*\([^)]*\))?(?:\[\])?)/)
+  const type = (typeMatch ? typeMatch[1] : rest.split(/\s+/)[0]).toUpperCase().replace(/\s*\(.*\)/, '')
+  const upper = rest.toUpperCase()
+
+  return {
+    name,
+    type,
+    nullable: !/\bNOT\s+NULL\b/.test(upper) && !/\bPRIMARY\s+KEY\b/.test(upper),
+    hasDefault: /\bDEFAULT\b/.test(upper) || /SERIAL/.test(type)
+  }
+}
+
+/**
+ * Replay all migrations and return the resulting schema
+ */
+export function readMigrationSchema(dir: string = MIGRATIONS_DIR): SqlSchema {
+  const schema: SqlSchema = new Map()
+
+  const files = fs.readdirSync(dir).filter((f) => f.endsWith('.sql')).sort()
+
+  for (const file of files) {
+    const statements = stripSql(fs.readFileSync(path.join(dir, file), 'utf8')).split(';')
+
+    for (const raw of statements) {
+      const statement = raw.trim()
+
+      const drop = statement.match(/^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?"?(\w+)"?/i)
+      if (drop) {
+        schema.delete(drop[1])
+        continue
+      }
+
+      const create = statement.match(/^CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?"?(\w+)"?\s*\(([\s\S]*)\)\s*$/i)
+      if (create) {
+        const columns = new Map<string, SqlColumn>()
+        for (const definition of splitTopLevel(create[2])) {
+          const column = parseColumnDefinition(definition)
+          if (column) columns.set(column.name, column)
+        }
+        schema.set(create[1], columns)
+        continue
+      }
+
+      const alter = statement.match(/^ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?"?(\w+)"?\s+([\s\S]*)$/i)
+      if (alter) {
+        const columns = schema.get(alter[1])
+        if (!columns) continue
+
+        for (const clause of splitTopLevel(alter[2])) {
+          const add = clause.match(/^ADD\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?([\s\S]+)$/i)
+          const dropColumn = clause.match(/^DROP\s+(?:COLUMN\s+)?(?:IF\s+EXISTS\s+)?"?(\w+)"?/i)
+          const alterColumn = clause.match(/^ALTER\s+(?:COLUMN\s+)?"?(\w+)"?\s+([\s\S]+)$/i)
+
+          if (add && !/^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN)\b/i.test(add[1])) {
+            const column = parseColumnDefinition(add[1])
+            if (column && !columns.has(column.name)) columns.set(column.name, column)
+          } else if (dropColumn && !/^DROP\s+CONSTRAINT/i.test(clause)) {
+            columns.delete(dropColumn[1])
+          } else if (alterColumn) {
+            const column = columns.get(alterColumn[1])
+            if (!column) continue
+            const action = alterColumn[2].toUpperCase()
+            if (/^SET\s+NOT\s+NULL/.test(action)) column.nullable = false
+            if (/^DROP\s+NOT\s+NULL/.test(action)) column.nullable = true
+            if (/^SET\s+DEFAULT/.test(action)) column.hasDefault = true
+            if (/^DROP\s+DEFAULT/.test(action)) column.hasDefault = false
+          }
+        }
+      }
+    }
+  }
+
+  return schema
+}
+
+// ========== TypeScript ==========
+
+function findMember(node: ts.Node, name: string): ts.TypeNode | undefined {
+  const members = ts.isInterfaceDeclaration(node) || ts.isTypeLiteralNode(node) ? node.members : undefined
+  const member = members?.find(
+    (m): m is ts.PropertySignature =>
+      ts.isPropertySignature(m) && m.name.getText() === name
+  )
+  return member?.type
+}
+
+function readFields(literal: ts.TypeNode, source: ts.SourceFile): Map<string, TsField> {
+  const fields = new Map<string, TsField>()
+  if (!ts.isTypeLiteralNode(literal)) return fields
+
+  for (const member of literal.members) {
+    if (!ts.isPropertySignature(member) || !member.type) continue
+
+    const variants = ts.isUnionTypeNode(member.type)
+      ? member.type.types.map((t) => t.getText(source))
+      : [member.type.getText(source)]
+
+    const name = member.name.getText(source)
+    fields.set(name, {
+      name,
+      type: variants.filter((v) => v !== 'null').join(' | '),
+      nullable: variants.includes('null'),
+      optional: Boolean(member.questionToken)
+    })
+  }
+
+  return fields
+}
+
+/**
+ * Read Database['public']['Tables'] from types/database.ts
+ */
+export function readDatabaseTypes(file: string = DATABASE_TYPES_FILE): Map<string, TsTable> {
+  const source = ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true)
+
+  const database = source.statements.find(
+    (s): s is ts.InterfaceDeclaration => ts.isInterfaceDeclaration(s) && s.name.text === 'Database'
+  )
+  if (!database) throw new Error('Database interface not found')
+
+  const tablesNode = findMember(findMember(database, 'public')!, 'Tables')!
+  const tables = new Map<string, TsTable>()
+
+  if (!ts.isTypeLiteralNode(tablesNode)) return tables
+
+  for (const table of tablesNode.members) {
+    if (!ts.isPropertySignature(table) || !table.type) continue
+
+    tables.set(table.name.getText(source), {
+      Row: readFields(findMember(table.type, 'Row')!, source),
+      Insert: readFields(findMember(table.type, 'Insert')!, source)
+    })
+  }
+
+  return tables
+}
+
+// ========== Comparison ==========
+
+const SQL_TYPE_FAMILIES: Record<string, string[]> = {
+  string: ['TEXT', 'VARCHAR', 'CHARACTER VARYING', 'UUID', 'TIMESTAMPTZ', 'TIMESTAMP', 'DATE', 'BIGSERIAL', 'BIGINT'],
+  number: ['INTEGER', 'INT', 'SMALLINT', 'SERIAL', 'BIGSERIAL', 'BIGINT', 'REAL', 'DOUBLE PRECISION', 'NUMERIC', 'FLOAT8'],
+  boolean: ['BOOLEAN', 'BOOL'],
+  json: ['JSONB', 'JSON']
+}
+
+/**
+ * Classify a TypeScript field type into a family
+ */
+export function tsTypeFamily(type: string): 'string' | 'number' | 'boolean' | 'json' | 'array' | 'unknown' {
+  const trimmed = type.trim()
+  if (trimmed === 'string' || /^'[^']*'(\s*\|\s*'[^']*')*$/.test(trimmed)) return 'string'
+  if (trimmed === 'number') return 'number'
+  if (trimmed === 'boolean') return 'boolean'
+  if (/^(number|string|boolean)\[\]$/.test(trimmed)) return 'array'
+  if (trimmed.startsWith('{') || trimmed.startsWith('Record<') || /^[A-Z]\w*$/.test(trimmed)) return 'json'
+  return 'unknown'
+}
+
+/**
+ * Check whether a SQL column type can hold a TypeScript field type
+ */
+export function isCompatible(sqlType: string, tsType: string): boolean {
+  const family = tsTypeFamily(tsType)
+  if (family === 'array') return sqlType.endsWith('[]') || SQL_TYPE_FAMILIES.json.includes(sqlType)
+  if (family === 'unknown') return false
+  return SQL_TYPE_FAMILIES[family].includes(sqlType)
+}
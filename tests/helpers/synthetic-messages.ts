@@ -0,0 +1,53 @@
+/**
+ * Synthetic Messages
+ *
+ * Seeded, reproducible working sets for the similarity index tests and
+ * benchmarks. Embeddings gather around a handful of themes, timestamps
+ * spread over four months and lengths over the full 280 characters,
+ * roughly like the archive.
+ */
+
+import type { GriefMessage } from '@/types/grief-messages'
+import { seededRandom } from '@/lib/utils/random'
+
+const BASE_TIME = Date.parse('2025-09-01T00:00:00.000Z')
+const SPAN_MS = 120 * 24 * 60 * 60 * 1000
+const THEMES = 8
+
+/**
+ * Generate messages with embeddings
+ *
+ * @param count - Number of messages
+ * @param seed - PRNG seed (same seed, same messages)
+ * @param options.startId - First message ID
+ * @param options.unembeddedRatio - Share of messages without semantic_data
+ * @returns Messages with IDs startId, startId + 1, ...
+ */
+export function createSyntheticMessages(
+  count: number,
+  seed = 1,
+  options: { startId?: number; unembeddedRatio?: number } = {}
+): GriefMessage[] {
+  const random = seededRandom(seed)
+  const startId = options.startId ?? 1
+  const unembeddedRatio = options.unembeddedRatio ?? 0
+
+  const themes = Array.from({ length: THEMES }, () => Array.from({ length: 10 }, () => random() * 2 - 1))
+
+  return Array.from({ length: count }, (_, i) => {
+    const theme = themes[Math.floor(random() * THEMES)]
+    const createdAt = new Date(BASE_TIME + Math.floor(random() * SPAN_MS)).toISOString()
+    const embedding = theme.map((v) => Math.max(-1, Math.min(1, v + (random() - 0.5) * 0.6)))
+
+    return {
+      id: (startId + i).toString(),
+      content: 'x'.repeat(1 + Math.floor(random() * 280)),
+      created_at: createdAt,
+      approved: true,
+      deleted_at: null,
+      semantic_data: random() < unembeddedRatio
+        ? null
+        : { embedding, generated_at: createdAt, schema_version: 'themes-v3' }
+    }
+  })
+}
@@ -0,0 +1,137 @@
+/**
+ * Seeded Traversal Tests
+ *
+ * With config.seed (or ?seed= on /installation), the same data replays
+ * the same traversal, so whole traversals can be snapshotted: a change
+ * to clustering or traversal shows up as a snapshot diff.
+ *
+ * Tests cover:
+ * - The same seed replaying every cluster exactly
+ * - Different seeds taking different walks
+ * - Snapshots of whole traversals per strategy
+ * - Reading the seed from POOL_SEED and ?seed=
+ * - Replaying with a fairness weight (seeded runs count exposure in memory)
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { MessagePoolConfig, TraversalStrategyName } from '@/types/grief-messages'
+import { MessageLogicService } from '@/lib/services/message-logic-service'
+import { EXPOSURE_STORAGE_KEY, LocalExposureStore } from '@/lib/services/exposure-ledger'
+import { DEFAULT_CONFIG, loadConfig, readScreenOverrides } from '@/lib/config/message-pool-config'
+import { createSyntheticMessages } from '../helpers/synthetic-messages'
+import { createMockSupabaseClient } from '../mocks/supabase-client'
+
+describe('Seeded Traversal', () => {
+  const services: MessageLogicService[] = []
+
+  afterEach(() => {
+    services.splice(0).forEach((service) => service.cleanup())
+  })
+
+  /**
+   * Run a traversal and record each cluster's ids (timestamps vary by run)
+   */
+  async function traverse(overrides: Partial<MessagePoolConfig>, clusters = 25) {
+    const client = createMockSupabaseClient()
+    client.setMessages(createSyntheticMessages(120, 3))
+    const config: MessagePoolConfig = { ...DEFAULT_CONFIG, workingSetSize: 60, clusterSize: 8, ...overrides }
+    const service = new MessageLogicService(client as unknown as SupabaseClient<Database>, config, undefined, new LocalExposureStore(null))
+    services.push(service)
+    await service.initialize()
+
+    const steps: Array<{ focus: string; related: string[]; next: string | null }> = []
+    for (let i = 0; i < clusters; i++) {
+      const cluster = (await service.getNextCluster())!
+      steps.push({ focus: cluster.focusId, related: cluster.related.map((r) => r.messageId), next: cluster.nextId })
+    }
+    return steps
+  }
+
+  it('should replay the same clusters for the same seed', async () => {
+    const first = await traverse({ traversalStrategy: 'weighted-random', seed: 1234 })
+    const second = await traverse({ traversalStrategy: 'weighted-random', seed: 1234 })
+
+    expect(second).toEqual(first)
+  })
+
+  it('should take a different walk with another seed', async () => {
+    const first = await traverse({ traversalStrategy: 'weighted-random', seed: 1234 })
+    const other = await traverse({ traversalStrategy: 'weighted-random', seed: 4321 })
+
+    expect(other.map((s) => s.focus)).not.toEqual(first.map((s) => s.focus))
+  })
+
+  it('should read the seed from POOL_SEED', () => {
+    expect(loadConfig().seed).toBeNull()
+    vi.stubEnv('POOL_SEED', '1234')
+    try {
+      expect(loadConfig().seed).toBe(1234)
+      vi.stubEnv('POOL_SEED', '-1')
+      expect(() => loadConfig()).toThrow()
+    } finally {
+      vi.unstubAllEnvs()
+    }
+  })
+
+  it('should read the seed from ?seed=', () => {
+    expect(readScreenOverrides(new URLSearchParams('seed=1234&traversal=chronological')).overrides).toEqual({
+      seed: 1234,
+      traversalStrategy: 'chronological'
+    })
+    expect(readScreenOverrides(new URLSearchParams('seed=0')).overrides).toEqual({ seed: 0 })
+
+    const invalid = readScreenOverrides(new URLSearchParams('seed=-7'))
+    expect(invalid.overrides).toEqual({})
+    expect(invalid.warnings).toEqual(['Invalid seed "-7", running unseeded'])
+  })
+
+  it('should replay a seeded URL with a fairness weight, counting exposure in memory only', async () => {
+    // A browser ledger that earlier runs have written to
+    const saved = new Map<string, string>()
+    const localStorage = {
+      getItem: (key: string) => saved.get(key) ?? null,
+      setItem: (key: string, value: string) => { saved.set(key, value) }
+    }
+    vi.stubGlobal('window', { localStorage })
+
+    const { overrides } = readScreenOverrides(new URLSearchParams('?seed=1234&traversal=weighted-random'))
+    const run = async () => {
+      const client = createMockSupabaseClient()
+      client.setMessages(createSyntheticMessages(120, 3))
+      const service = new MessageLogicService(client as unknown as SupabaseClient<Database>, {
+        ...DEFAULT_CONFIG,
+        workingSetSize: 60,
+        clusterSize: 8,
+        fairness: { weight: 0.5, ledger: 'local' },
+        ...overrides
+      })
+      services.push(service)
+      await service.initialize()
+
+      const foci: string[] = []
+      for (let i = 0; i < 25; i++) {
+        foci.push((await service.getNextCluster())!.focusId)
+      }
+      return foci
+    }
+
+    try {
+      const first = await run()
+      const second = await run()
+
+      expect(second).toEqual(first)
+      expect(saved.has(EXPOSURE_STORAGE_KEY)).toBe(false)
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  const strategies: TraversalStrategyName[] = ['greedy', 'weighted-random', 'chronological', 'least-recently-shown']
+  for (const traversalStrategy of strategies) {
+    it(`should match the recorded ${traversalStrategy} traversal`, async () => {
+      expect(await traverse({ traversalStrategy, seed: 1234 }, 12)).toMatchSnapshot()
+    })
+  }
+})
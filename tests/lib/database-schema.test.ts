@@ -0,0 +1,122 @@
+/**
+ * Schema Drift Tests
+ *
+ * Replays supabase/migrations and compares the result against the
+ * Database type in types/database.ts, so code that reads or writes a
+ * declared column cannot fail at runtime because no migration made it.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  readMigrationSchema,
+  readDatabaseTypes,
+  isCompatible,
+  tsTypeFamily
+} from '../helpers/schema'
+
+const sqlSchema = readMigrationSchema()
+const tsTables = readDatabaseTypes()
+
+describe('migrations match types/database.ts', () => {
+  for (const [tableName, tsTable] of tsTables) {
+    describe(tableName, () => {
+      const columns = sqlSchema.get(tableName)
+
+      it('should be created by a migration', () => {
+        expect(columns, `no migration creates table "${tableName}"`).toBeDefined()
+      })
+
+      it('should have the same columns', () => {
+        const sqlNames = Array.from(columns?.keys() || []).sort()
+        const tsNames = Array.from(tsTable.Row.keys()).sort()
+        expect(sqlNames).toEqual(tsNames)
+      })
+
+      it('should agree on nullability', () => {
+        for (const field of tsTable.Row.values()) {
+          const column = columns?.get(field.name)
+          if (!column) continue
+          expect(column.nullable, `${tableName}.${field.name} nullability`).toBe(field.nullable)
+        }
+      })
+
+      it('should use compatible column types', () => {
+        for (const field of tsTable.Row.values()) {
+          const column = columns?.get(field.name)
+          if (!column) continue
+          expect(
+            isCompatible(column.type, field.type),
+            `${tableName}.${field.name}: SQL ${column.type} vs TS ${field.type}`
+          ).toBe(true)
+        }
+      })
+
+      it('should only make Insert fields optional when the database can fill them', () => {
+        for (const field of tsTable.Insert.values()) {
+          const column = columns?.get(field.name)
+          if (!column || !field.optional) continue
+          expect(
+            column.nullable || column.hasDefault,
+            `${tableName}.${field.name} is optional on Insert but NOT NULL without DEFAULT`
+          ).toBe(true)
+        }
+      })
+    })
+  }
+})
+
+describe('readMigrationSchema', () => {
+  const dirs: string[] = []
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  function schemaFrom(files: Record<string, string>) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'))
+    dirs.push(dir)
+    for (const [name, sql] of Object.entries(files)) {
+      fs.writeFileSync(path.join(dir, name), sql)
+    }
+    return readMigrationSchema(dir)
+  }
+
+  it('should replay create, alter and drop in filename order', () => {
+    const schema = schemaFrom({
+      '001_a.sql': `CREATE TABLE t (
+        id BIGSERIAL PRIMARY KEY, -- comment, with comma
+        body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 10),
+        old TEXT
+      );`,
+      '002_b.sql': `ALTER TABLE t
+        ADD COLUMN IF NOT EXISTS flag BOOLEAN NOT NULL DEFAULT false,
+        DROP COLUMN IF EXISTS old;
+        DO $$ BEGIN RAISE NOTICE 'ALTER TABLE t DROP COLUMN body;'; END $$;`
+    })
+
+    const t = schema.get('t')!
+    expect(Array.from(t.keys())).toEqual(['id', 'body', 'flag'])
+    expect(t.get('id')).toMatchObject({ type: 'BIGSERIAL', nullable: false, hasDefault: true })
+    expect(t.get('flag')).toMatchObject({ type: 'BOOLEAN', nullable: false, hasDefault: true })
+  })
+
+  it('should detect a column the types declare but no migration creates', () => {
+    const schema = schemaFrom({ '001.sql': 'CREATE TABLE t (id BIGSERIAL PRIMARY KEY);' })
+    expect(schema.get('t')?.has('flagged')).toBe(false)
+  })
+})
+
+describe('tsTypeFamily', () => {
+  it('should classify field types', () => {
+    expect(tsTypeFamily('string')).toBe('string')
+    expect(tsTypeFamily("'web' | 'sms'")).toBe('string')
+    expect(tsTypeFamily('Record<string, number>')).toBe('json')
+    expect(tsTypeFamily('{ embedding: number[] }')).toBe('json')
+    expect(tsTypeFamily('number[]')).toBe('array')
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * Embedding Provider Tests
+ *
+ * Tests cover:
+ * - Local provider determinism, shape, and similarity behavior
+ * - Anthropic and OpenAI-compatible providers (fake fetch)
+ * - Provider selection from configuration
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { LocalEmbeddingProvider, extractFeatures, tokenize } from '@/lib/embeddings/local-provider'
+import { AnthropicEmbeddingProvider, ANTHROPIC_MESSAGES_URL } from '@/lib/embeddings/anthropic-provider'
+import { OpenAICompatibleEmbeddingProvider } from '@/lib/embeddings/openai-provider'
+import { createEmbeddingProvider } from '@/lib/embeddings/create-provider'
+import { DEFAULT_EMBEDDING_CONFIG, loadEmbeddingConfig } from '@/lib/config/embedding-config'
+import { cosineSimilarity, isEmbedding } from '@/lib/semantic-encoding'
+
+const EMBEDDING = [-0.8, 0.3, 0.7, -0.2, 0.9, -0.5, 0.1, 0.6, 0.4, 0.8]
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider()
+
+  it('should return a unit-length 10-dimensional embedding', async () => {
+    const embedding = await provider.embed('My mother. Every day I reach for the phone.')
+
+    expect(isEmbedding(embedding)).toBe(true)
+    expect(Math.hypot(...embedding)).toBeCloseTo(1, 6)
+    embedding.forEach((value) => {
+      expect(Math.abs(value)).toBeLessThanOrEqual(1)
+    })
+  })
+
+  it('should be deterministic across instances', async () => {
+    const text = 'The house is so quiet without him.'
+    expect(await new LocalEmbeddingProvider().embed(text)).toEqual(await provider.embed(text))
+  })
+
+  it('should ignore case, punctuation, and stop words', async () => {
+    expect(await provider.embed('My MOTHER, my mother!')).toEqual(await provider.embed('mother mother'))
+  })
+
+  it('should place messages sharing words closer than unrelated ones', async () => {
+    const a = await provider.embed('I miss my mother every morning')
+    const b = await provider.embed('Every morning I miss my mother’s voice')
+    const c = await provider.embed('The dog waits by the door for a car that never comes')
+
+    expect(cosineSimilarity(a, b)).toBeGreaterThan(cosineSimilarity(a, c))
+  })
+
+  it('should return a zero vector for content without words', async () => {
+    expect(await provider.embed('... !!!')).toEqual(new Array(10).fill(0))
+  })
+
+  it('should tokenize any script', () => {
+    expect(tokenize('Café ÉTÉ')).toEqual(['café', 'été'])
+    expect(tokenize('أمي')).toEqual(['أمي'])
+    expect(tokenize("don't")).toEqual(["don't"])
+  })
+
+  it('should weight words, pairs, and trigrams', () => {
+    const features = extractFeatures('lost dog')
+    expect(features.get('w:lost')).toBe(1)
+    expect(features.get('p:lost dog')).toBe(0.5)
+    expect(features.get('t: lo')).toBe(0.25)
+  })
+})
+
+describe('AnthropicEmbeddingProvider', () => {
+  it('should send the message to the configured model and parse the array', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ content: [{ text: JSON.stringify(EMBEDDING) }] }))
+    const provider = new AnthropicEmbeddingProvider({ apiKey: 'key', model: 'claude-test', fetch })
+
+    expect(await provider.embed('Test grief message')).toEqual(EMBEDDING)
+    expect(provider.id).toBe('anthropic:claude-test')
+    expect(provider.schema.version).toBe('themes-v4')
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    const body = JSON.parse(init.body as string)
+    expect(url).toBe(ANTHROPIC_MESSAGES_URL)
+    expect(body.model).toBe('claude-test')
+    expect(body.messages[0].content).toContain('Test grief message')
+  })
+
+  it('should return tags from an object response', async () => {
+    const text = JSON.stringify({
+      dimensions: EMBEDDING,
+      relationship: { value: 'parent', confidence: 0.9 },
+      loss_kind: { value: 'mystery', confidence: 0.9 },
+      tone: null
+    })
+    const provider = new AnthropicEmbeddingProvider({
+      apiKey: 'key',
+      model: 'claude-test',
+      fetch: async () => jsonResponse({ content: [{ text }] })
+    })
+
+    expect(await provider.encode('Test grief message')).toEqual({
+      embedding: EMBEDDING,
+      tags: { relationship: { value: 'parent', confidence: 0.9 }, loss_kind: null, tone: null }
+    })
+  })
+
+  it('should throw on API errors and invalid vectors', async () => {
+    const failing = new AnthropicEmbeddingProvider({
+      apiKey: 'key',
+      model: 'claude-test',
+      fetch: async () => jsonResponse({}, 529),
+      sleep: async () => {}
+    })
+    const malformed = new AnthropicEmbeddingProvider({
+      apiKey: 'key',
+      model: 'claude-test',
+      fetch: async () => jsonResponse({ content: [{ text: '[1, 2, 3]' }] })
+    })
+
+    await expect(failing.embed('x')).rejects.toThrow('http_error: Anthropic API error: 529')
+    await expect(malformed.embed('x')).rejects.toThrow('range_error: Expected 10 values, got 3')
+  })
+
+  it('should read ratings wrapped in code fences and prose', async () => {
+    const text = `Here are the ratings:\n\`\`\`json\n${JSON.stringify({ dimensions: EMBEDDING, tone: null })}\n\`\`\`\nLet me know [if] that helps.`
+    const provider = new AnthropicEmbeddingProvider({
+      apiKey: 'key',
+      model: 'claude-test',
+      fetch: async () => jsonResponse({ content: [{ type: 'text', text }] })
+    })
+
+    expect(await provider.embed('x')).toEqual(EMBEDDING)
+  })
+
+  it('should retry rate limits and server errors, but not bad requests', async () => {
+    const responses = [jsonResponse({}, 429), jsonResponse({}, 503), jsonResponse({ content: [{ text: JSON.stringify(EMBEDDING) }] })]
+    const fetch = vi.fn(async () => responses.shift()!)
+    const delays: number[] = []
+    const provider = new AnthropicEmbeddingProvider({
+      apiKey: 'key',
+      model: 'claude-test',
+      policy: { maxRetries: 2, retryDelayMs: 100 },
+      fetch,
+      sleep: async (ms) => { delays.push(ms) }
+    })
+
+    expect(await provider.embed('x')).toEqual(EMBEDDING)
+    expect(delays).toEqual([100, 200])
+
+    const badRequest = vi.fn(async () => jsonResponse({}, 400))
+    await expect(new AnthropicEmbeddingProvider({ apiKey: 'key', model: 'm', fetch: badRequest }).embed('x'))
+      .rejects.toMatchObject({ reason: 'http_error', status: 400 })
+    expect(badRequest).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('OpenAICompatibleEmbeddingProvider', () => {
+  it('should request 10 dimensions from /embeddings', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ data: [{ embedding: EMBEDDING }] }))
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'nomic-embed-text',
+      apiKey: 'secret',
+      fetch
+    })
+
+    expect(await provider.embed('Test grief message')).toEqual(EMBEDDING)
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('http://localhost:11434/v1/embeddings')
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret')
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'nomic-embed-text',
+      input: 'Test grief message',
+      dimensions: 10
+    })
+  })
+
+  it('should omit authorization without a key', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ data: [{ embedding: EMBEDDING }] }))
+    await new OpenAICompatibleEmbeddingProvider({ baseUrl: 'http://x/v1', model: 'm', fetch }).embed('x')
+
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(init.headers).not.toHaveProperty('Authorization')
+  })
+
+  it('should throw when the model ignores the dimensions parameter', async () => {
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      baseUrl: 'http://x/v1',
+      model: 'm',
+      fetch: async () => jsonResponse({ data: [{ embedding: new Array(768).fill(0.01) }] })
+    })
+
+    await expect(provider.embed('x')).rejects.toThrow('does the model support "dimensions"?')
+  })
+})
+
+describe('createEmbeddingProvider', () => {
+  const originalEnv = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  it('should default to the anthropic provider', () => {
+    delete process.env.EMBEDDING_PROVIDER
+    expect(loadEmbeddingConfig()).toEqual(DEFAULT_EMBEDDING_CONFIG)
+    expect(createEmbeddingProvider(loadEmbeddingConfig()).id).toBe('anthropic:claude-sonnet-4-20250514')
+  })
+
+  it('should select providers from the environment', () => {
+    process.env.EMBEDDING_PROVIDER = 'local'
+    expect(createEmbeddingProvider(loadEmbeddingConfig())).toBeInstanceOf(LocalEmbeddingProvider)
+
+    process.env.EMBEDDING_PROVIDER = 'openai'
+    process.env.EMBEDDING_OPENAI_MODEL = 'text-embedding-3-large'
+    expect(createEmbeddingProvider(loadEmbeddingConfig()).id).toBe('openai:text-embedding-3-large')
+  })
+
+  it('should reject unknown providers', () => {
+    process.env.EMBEDDING_PROVIDER = 'word2vec'
+    expect(() => loadEmbeddingConfig()).toThrow()
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Tests for Embedding Response Parsing and Requests
+ *
+ * Tests cover:
+ * - JSON extraction from fenced or chatty model output
+ * - Vector validation (length, finiteness, clamping, zero vectors)
+ * - Failure reasons, timeouts and bounded retries
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { extractJson, parseRatingResponse, validateEmbedding } from '@/lib/embeddings/parse-response'
+import { EmbeddingError, fetchJson, withRetries } from '@/lib/embeddings/request'
+import { THEMES_V2_SCHEMA } from '@/lib/embeddings/schema'
+
+const EMBEDDING = [-0.8, 0.3, 0.7, -0.2, 0.9, -0.5, 0.1, 0.6, 0.4, 0.8]
+
+function reasonOf(fn: () => unknown): string | null {
+  try {
+    fn()
+    return null
+  } catch (error) {
+    return error instanceof EmbeddingError ? error.reason : 'other'
+  }
+}
+
+describe('extractJson', () => {
+  it('should parse bare and fenced JSON', () => {
+    expect(extractJson('[0.1, 0.2]')).toEqual([0.1, 0.2])
+    expect(extractJson('```json\n[0.1, 0.2]\n```')).toEqual([0.1, 0.2])
+  })
+
+  it('should skip prose and brackets that are not JSON', () => {
+    expect(extractJson('Ratings [see below]: [0.1, 0.2]. Hope this helps!')).toEqual([0.1, 0.2])
+    expect(extractJson('Sure! {"dimensions": [1], "note": "a ] inside"} trailing')).toEqual({
+      dimensions: [1],
+      note: 'a ] inside'
+    })
+  })
+
+  it('should fail with parse_error when there is no JSON', () => {
+    expect(reasonOf(() => extractJson('I cannot rate this message.'))).toBe('parse_error')
+    expect(reasonOf(() => extractJson('[0.1, NaN, 0.3]'))).toBe('parse_error')
+    expect(reasonOf(() => extractJson('[0.1, 0.2'))).toBe('parse_error')
+  })
+})
+
+describe('validateEmbedding', () => {
+  it('should clamp to [-1, 1] and to the schema ranges', () => {
+    expect(validateEmbedding([3, -3, 0, 0, 0, 0, 0, 0, 0, 0])).toEqual([1, -1, 0, 0, 0, 0, 0, 0, 0, 0])
+    expect(validateEmbedding([3, -3, -0.5, 0, 0, 0, 0, 0, 0, 0], THEMES_V2_SCHEMA).slice(0, 3)).toEqual([1, -1, 0])
+  })
+
+  it('should reject wrong lengths, non-numbers, and zero vectors with range_error', () => {
+    expect(reasonOf(() => validateEmbedding([0.1, 0.2]))).toBe('range_error')
+    expect(reasonOf(() => validateEmbedding([...EMBEDDING.slice(0, 9), '0.5']))).toBe('range_error')
+    expect(reasonOf(() => validateEmbedding([...EMBEDDING.slice(0, 9), Infinity]))).toBe('range_error')
+    expect(reasonOf(() => validateEmbedding(new Array(10).fill(0)))).toBe('range_error')
+  })
+
+  it('should reject non-arrays with parse_error', () => {
+    expect(reasonOf(() => validateEmbedding('0.1, 0.2'))).toBe('parse_error')
+  })
+})
+
+describe('parseRatingResponse', () => {
+  it('should accept an array or an object with dimensions', () => {
+    expect(parseRatingResponse(JSON.stringify(EMBEDDING), THEMES_V2_SCHEMA).embedding).toEqual(EMBEDDING)
+    expect(parseRatingResponse(JSON.stringify({ dimensions: EMBEDDING }), THEMES_V2_SCHEMA).embedding).toEqual(EMBEDDING)
+    expect(reasonOf(() => parseRatingResponse('{"ratings": []}', THEMES_V2_SCHEMA))).toBe('parse_error')
+  })
+})
+
+describe('fetchJson', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should report HTTP and network failures', async () => {
+    await expect(fetchJson(async () => new Response('', { status: 502 }), 'u', {}, 1000, 'API'))
+      .rejects.toMatchObject({ reason: 'http_error', status: 502, retryable: true })
+    await expect(fetchJson(async () => { throw new TypeError('fetch failed') }, 'u', {}, 1000, 'API'))
+      .rejects.toMatchObject({ reason: 'network_error', retryable: true })
+    await expect(fetchJson(async () => new Response('<html>'), 'u', {}, 1000, 'API'))
+      .rejects.toMatchObject({ reason: 'parse_error', retryable: false })
+  })
+
+  it('should abort after the timeout', async () => {
+    vi.useFakeTimers()
+    const hanging = (_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')))
+    })
+
+    const result = expect(fetchJson(hanging, 'u', {}, 5000, 'API')).rejects.toMatchObject({ reason: 'timeout' })
+    await vi.advanceTimersByTimeAsync(5000)
+    await result
+  })
+})
+
+describe('withRetries', () => {
+  it('should stop after maxRetries', async () => {
+    const attempt = vi.fn(async () => { throw new EmbeddingError('timeout', 'slow') })
+
+    await expect(withRetries(attempt, { maxRetries: 2, retryDelayMs: 10 }, async () => {})).rejects.toThrow('timeout: slow')
+    expect(attempt).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not retry bad output', async () => {
+    const attempt = vi.fn(async () => { throw new EmbeddingError('range_error', 'zero vector') })
+
+    await expect(withRetries(attempt, { maxRetries: 2, retryDelayMs: 10 }, async () => {})).rejects.toThrow('range_error')
+    expect(attempt).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * Tests for Spherical k-means
+ *
+ * Tests cover:
+ * - Separated groups found regardless of vector length
+ * - Same seed, same clusters
+ * - k capped at the number of vectors, and empty input
+ * - Starting centroids keep their cluster index
+ */
+
+import { describe, it, expect } from 'vitest'
+import { sphericalKMeans } from '@/lib/utils/kmeans'
+import { seededRandom } from '@/lib/utils/random'
+
+/**
+ * Vectors scattered around each of the given directions
+ */
+function groups(directions: number[][], perGroup: number, seed = 7): number[][] {
+  const random = seededRandom(seed)
+  return directions.flatMap((direction) =>
+    Array.from({ length: perGroup }, () =>
+      direction.map((v) => (v + (random() - 0.5) * 0.2) * (0.5 + random()))
+    )
+  )
+}
+
+const DIRECTIONS = [
+  [1, 0, 0, 0],
+  [0, 1, 0, 0],
+  [0, 0, -1, 0]
+]
+
+describe('sphericalKMeans', () => {
+  it('should find separated groups by direction', () => {
+    const vectors = groups(DIRECTIONS, 10)
+    const { assignments, centroids, converged } = sphericalKMeans(vectors, { k: 3 })
+
+    expect(converged).toBe(true)
+    expect(centroids).toHaveLength(3)
+    for (let g = 0; g < 3; g++) {
+      const members = new Set(assignments.slice(g * 10, g * 10 + 10))
+      expect(members.size).toBe(1)
+    }
+    expect(new Set(assignments).size).toBe(3)
+  })
+
+  it('should return unit-length centroids and each vector\'s similarity', () => {
+    const vectors = groups(DIRECTIONS, 5)
+    const { centroids, similarities } = sphericalKMeans(vectors, { k: 3 })
+
+    centroids.forEach((c) => {
+      expect(Math.hypot(...c)).toBeCloseTo(1)
+    })
+    similarities.forEach((s) => {
+      expect(s).toBeGreaterThan(0.9)
+      expect(s).toBeLessThanOrEqual(1 + 1e-9)
+    })
+  })
+
+  it('should give the same clusters for the same seed', () => {
+    const vectors = groups(DIRECTIONS, 8)
+    expect(sphericalKMeans(vectors, { k: 4, seed: 3 })).toEqual(sphericalKMeans(vectors, { k: 4, seed: 3 }))
+  })
+
+  it('should cap k at the number of vectors', () => {
+    expect(sphericalKMeans([[1, 0], [0, 1]], { k: 5 }).centroids).toHaveLength(2)
+    expect(sphericalKMeans([], { k: 3 })).toEqual({
+      centroids: [], assignments: [], similarities: [], iterations: 0, converged: true
+    })
+  })
+
+  it('should keep starting centroids at their index', () => {
+    const vectors = groups(DIRECTIONS, 6)
+    const { assignments } = sphericalKMeans(vectors, {
+      k: 3,
+      initial: [[0, 0, -1, 0], [1, 0, 0, 0], [0, 1, 0, 0]]
+    })
+
+    expect(assignments.slice(0, 6).every((a) => a === 1)).toBe(true)
+    expect(assignments.slice(6, 12).every((a) => a === 2)).toBe(true)
+    expect(assignments.slice(12).every((a) => a === 0)).toBe(true)
+  })
+})
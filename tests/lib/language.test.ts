@@ -0,0 +1,127 @@
+/**
+ * Tests for Language Detection and Text Metrics
+ *
+ * Tests cover:
+ * - Languages by writing system, and Latin-script languages by word
+ * - Undetermined results for text too short to tell
+ * - Character counts that match Postgres char_length()
+ * - Widths for Latin, CJK, combining marks and emoji
+ * - Text direction, and message placement sized and marked by script
+ */
+
+import { describe, it, expect } from 'vitest'
+import { detectLanguage, UNDETERMINED_LANGUAGE } from '@/lib/language/detect'
+import {
+  countCharacters,
+  detectTextDirection,
+  measureTextWidth,
+  NARROW_CHARACTER_EM,
+  WIDE_CHARACTER_EM
+} from '@/lib/language/text-metrics'
+import { positionMessages, type ParticleInfo } from '@/lib/message-positioning'
+
+describe('detectLanguage', () => {
+  it.each([
+    ['I miss my mother every day', 'en'],
+    ['Extraño a mi madre todos los días', 'es'],
+    ['Ma mère me manque chaque jour', 'fr'],
+    ['Ich vermisse meine Mutter jeden Tag', 'de'],
+    ['Sinto falta da minha mãe todos os dias', 'pt'],
+    ['Mi manca mia madre ogni giorno', 'it'],
+    ['Ik mis mijn moeder elke dag', 'nl']
+  ])('should tell Latin-script languages apart by word: %s', (content, language) => {
+    expect(detectLanguage(content)).toBe(language)
+  })
+
+  it.each([
+    ['お母さん、会いたい', 'ja'],
+    ['母親が亡くなった日', 'ja'],
+    ['我很想念我的母亲', 'zh'],
+    ['엄마가 보고 싶어요', 'ko'],
+    ['أفتقد أمي كل يوم', 'ar'],
+    ['دلم برای مادرم تنگ شده', 'fa'],
+    ['אני מתגעגע לאמא שלי', 'he'],
+    ['Я скучаю по маме', 'ru'],
+    ['Я сумую за мамою, її немає', 'uk'],
+    ['Μου λείπει η μητέρα μου', 'el'],
+    ['คิดถึงแม่ทุกวัน', 'th'],
+    ['मुझे माँ की याद आती है', 'hi']
+  ])('should name the language of other writing systems: %s', (content, language) => {
+    expect(detectLanguage(content)).toBe(language)
+  })
+
+  it('should go by the script with the most letters', () => {
+    expect(detectLanguage('Mom, 我每天都想念你')).toBe('zh')
+    expect(detectLanguage('I still say おやすみ to you every night')).toBe('en')
+  })
+
+  it('should be undetermined when the text cannot tell', () => {
+    expect(detectLanguage('Mom.')).toBe(UNDETERMINED_LANGUAGE)
+    expect(detectLanguage('Rosa 1948-2023')).toBe(UNDETERMINED_LANGUAGE)
+    expect(detectLanguage('🕯️ 💔')).toBe(UNDETERMINED_LANGUAGE)
+    expect(detectLanguage('')).toBe(UNDETERMINED_LANGUAGE)
+  })
+})
+
+describe('countCharacters', () => {
+  it('should count code points, not UTF-16 units', () => {
+    expect(countCharacters('mamá')).toBe(4)
+    expect(countCharacters('𠮷')).toBe(1)
+    expect('𠮷'.length).toBe(2)
+    expect(countCharacters('🕯')).toBe(1)
+  })
+})
+
+describe('measureTextWidth', () => {
+  it('should keep the Latin average', () => {
+    expect(measureTextWidth('I miss you')).toBeCloseTo(10 * NARROW_CHARACTER_EM)
+  })
+
+  it('should make CJK characters and emoji full width', () => {
+    expect(measureTextWidth('想你')).toBe(2 * WIDE_CHARACTER_EM)
+    expect(measureTextWidth('보고 싶어')).toBeCloseTo(4 * WIDE_CHARACTER_EM + NARROW_CHARACTER_EM)
+    expect(measureTextWidth('👨‍👩‍👧')).toBe(WIDE_CHARACTER_EM)
+  })
+
+  it('should give combining marks no width', () => {
+    expect(measureTextWidth('שָׁלוֹם')).toBeCloseTo(measureTextWidth('שלום'))
+    expect(measureTextWidth('mamá'.normalize('NFD'))).toBeCloseTo(measureTextWidth('mamá'))
+  })
+})
+
+describe('detectTextDirection', () => {
+  it('should follow the first letter', () => {
+    expect(detectTextDirection('אמא, I miss you')).toBe('rtl')
+    expect(detectTextDirection('«أمي» 1950')).toBe('rtl')
+    expect(detectTextDirection('Mom — אמא')).toBe('ltr')
+    expect(detectTextDirection('1948-2023')).toBe('ltr')
+  })
+})
+
+describe('positionMessages', () => {
+  const particles = new Map<string, ParticleInfo>([
+    ['1', { id: '1', x: 400, y: 300, size: 6 }],
+    ['2', { id: '2', x: 1400, y: 300, size: 6 }]
+  ])
+
+  function place(content: string) {
+    const [placed] = positionMessages(
+      [{ id: '1', content, isFocus: true, isNext: false, opacity: 1 }],
+      particles,
+      [],
+      1920,
+      1080
+    )
+    return placed
+  }
+
+  it('should size CJK messages for their wider characters', () => {
+    expect(place('想'.repeat(20)).width).toBeGreaterThan(place('a'.repeat(20)).width)
+    expect(place('想'.repeat(60)).height).toBeGreaterThan(place('a'.repeat(60)).height)
+  })
+
+  it('should mark right-to-left messages', () => {
+    expect(place('אני מתגעגע לאמא שלי').direction).toBe('rtl')
+    expect(place('I miss my mother').direction).toBe('ltr')
+  })
+})
@@ -0,0 +1,182 @@
+/**
+ * Tests for Message List Query
+ *
+ * Tests cover:
+ * - Parameter validation and limit clamping
+ * - Cursor direction (before/after)
+ * - Filter application onto a query builder
+ * - Page trimming and nextCursor
+ * - Kindred query k and message id validation
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  KINDRED_DEFAULT_K,
+  KINDRED_MAX_K,
+  MESSAGE_LIST_DEFAULT_LIMIT,
+  MESSAGE_LIST_MAX_LIMIT,
+  applyMessageFilters,
+  isMessageId,
+  parseKindredQuery,
+  parseMessageListQuery,
+  toMessagePage,
+  type FilterableQuery
+} from '@/lib/utils/message-query'
+
+function parse(query: string) {
+  return parseMessageListQuery(new URLSearchParams(query))
+}
+
+function expectValue(query: string) {
+  const result = parse(query)
+  if (!result.ok) throw new Error(`unexpected error: ${result.error}`)
+  return result.value
+}
+
+function expectError(query: string) {
+  const result = parse(query)
+  expect(result.ok).toBe(false)
+  return result.ok ? '' : result.error
+}
+
+describe('parseMessageListQuery', () => {
+  it('should default to newest first with no filters', () => {
+    expect(expectValue('')).toEqual({
+      limit: MESSAGE_LIST_DEFAULT_LIMIT,
+      direction: 'DESC',
+      cursor: null,
+      since: null,
+      until: null,
+      source: null,
+      hasEmbedding: null
+    })
+  })
+
+  it('should clamp limit to the maximum page size', () => {
+    expect(expectValue('limit=100000').limit).toBe(MESSAGE_LIST_MAX_LIMIT)
+    expect(expectValue('limit=5').limit).toBe(5)
+  })
+
+  it('should reject non-positive or non-numeric limits', () => {
+    expect(expectError('limit=0')).toContain('limit')
+    expect(expectError('limit=-3')).toContain('limit')
+    expect(expectError('limit=ten')).toContain('limit')
+  })
+
+  it('should page backwards with before and forwards with after', () => {
+    expect(expectValue('before=900')).toMatchObject({ direction: 'DESC', cursor: '900' })
+    expect(expectValue('after=12')).toMatchObject({ direction: 'ASC', cursor: '12' })
+  })
+
+  it('should reject both cursors or a malformed cursor', () => {
+    expect(expectError('before=10&after=5')).toContain('either')
+    expect(expectError('before=abc')).toContain('before')
+    expect(expectError('after=0')).toContain('after')
+  })
+
+  it('should normalize since and until to ISO timestamps', () => {
+    const value = expectValue('since=2025-01-01&until=2025-02-01T00:00:00Z')
+    expect(value.since).toBe('2025-01-01T00:00:00.000Z')
+    expect(value.until).toBe('2025-02-01T00:00:00.000Z')
+  })
+
+  it('should reject invalid or inverted time ranges', () => {
+    expect(expectError('since=yesterday')).toContain('since')
+    expect(expectError('since=2025-02-01&until=2025-01-01')).toContain('range')
+  })
+
+  it('should validate source and hasEmbedding', () => {
+    expect(expectValue('source=sms&hasEmbedding=false')).toMatchObject({
+      source: 'sms',
+      hasEmbedding: false
+    })
+    expect(expectError('source=email')).toContain('source')
+    expect(expectError('hasEmbedding=yes')).toContain('hasEmbedding')
+  })
+})
+
+describe('parseKindredQuery', () => {
+  function parseKindred(query: string) {
+    return parseKindredQuery(new URLSearchParams(query))
+  }
+
+  it('should default k and accept the list filters', () => {
+    expect(parseKindred('source=web&since=2025-01-01')).toEqual({
+      ok: true,
+      value: {
+        k: KINDRED_DEFAULT_K,
+        since: '2025-01-01T00:00:00.000Z',
+        until: null,
+        source: 'web',
+        hasEmbedding: null
+      }
+    })
+  })
+
+  it('should clamp k and reject invalid values', () => {
+    expect(parseKindred('k=5')).toMatchObject({ ok: true, value: { k: 5 } })
+    expect(parseKindred('k=1000')).toMatchObject({ ok: true, value: { k: KINDRED_MAX_K } })
+    expect(parseKindred('k=0')).toMatchObject({ ok: false })
+    expect(parseKindred('k=twelve')).toMatchObject({ ok: false })
+    expect(parseKindred('source=email')).toMatchObject({ ok: false })
+  })
+})
+
+describe('isMessageId', () => {
+  it('should accept positive integer ids only', () => {
+    expect(isMessageId('42')).toBe(true)
+    expect(['0', '-1', '4.2', 'abc', ''].some(isMessageId)).toBe(false)
+  })
+})
+
+describe('applyMessageFilters', () => {
+  class RecordingQuery implements FilterableQuery<RecordingQuery> {
+    calls: string[] = []
+    eq(column: string, value: string) { this.calls.push(`eq ${column} ${value}`); return this }
+    gte(column: string, value: string) { this.calls.push(`gte ${column} ${value}`); return this }
+    lt(column: string, value: string) { this.calls.push(`lt ${column} ${value}`); return this }
+    is(column: string, value: null) { this.calls.push(`is ${column} ${value}`); return this }
+    not(column: string, operator: string, value: null) {
+      this.calls.push(`not ${column} ${operator} ${value}`)
+      return this
+    }
+  }
+
+  it('should add nothing when no filters are set', () => {
+    const query = applyMessageFilters(new RecordingQuery(), expectValue(''))
+    expect(query.calls).toEqual([])
+  })
+
+  it('should translate each filter', () => {
+    const query = applyMessageFilters(
+      new RecordingQuery(),
+      expectValue('since=2025-01-01&until=2025-02-01&source=web&hasEmbedding=true')
+    )
+    expect(query.calls).toEqual([
+      'gte created_at 2025-01-01T00:00:00.000Z',
+      'lt created_at 2025-02-01T00:00:00.000Z',
+      'eq source web',
+      'not semantic_data is null'
+    ])
+  })
+
+  it('should match rows without embeddings', () => {
+    const query = applyMessageFilters(new RecordingQuery(), expectValue('hasEmbedding=false'))
+    expect(query.calls).toEqual(['is semantic_data null'])
+  })
+})
+
+describe('toMessagePage', () => {
+  const rows = ['30', '29', '28', '27'].map((id) => ({ id }))
+
+  it('should return a cursor when an extra row was fetched', () => {
+    const page = toMessagePage(rows, 3)
+    expect(page.messages.map((m) => m.id)).toEqual(['30', '29', '28'])
+    expect(page.nextCursor).toBe('28')
+  })
+
+  it('should return a null cursor on the last page', () => {
+    expect(toMessagePage(rows, 4).nextCursor).toBeNull()
+    expect(toMessagePage([], 10)).toEqual({ messages: [], nextCursor: null })
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Seeded Random Tests
+ *
+ * Tests cover:
+ * - Same seed, same sequence; streams independent per name
+ * - Unseeded streams falling back to Math.random
+ * - Parsing ?seed=
+ * - Seeded pitch fallback and spring slack reproducing exactly
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseSeed, randomStream, seededRandom } from '@/lib/utils/random'
+import { embeddingToPitch } from '@/lib/audio/pitch-utils'
+import { initializeConnectionPhysics } from '@/lib/physics/spring-physics-utils'
+import { DEFAULT_SPRING_PHYSICS_CONFIG } from '@/lib/config/spring-physics-config'
+
+function draw(random: () => number, count: number): number[] {
+  return Array.from({ length: count }, () => random())
+}
+
+describe('randomStream', () => {
+  it('should repeat a named stream for the same seed', () => {
+    expect(draw(randomStream(1234, 'traversal'), 5)).toEqual(draw(randomStream(1234, 'traversal'), 5))
+    expect(draw(randomStream(1234, 'traversal'), 5)).not.toEqual(draw(randomStream(1235, 'traversal'), 5))
+  })
+
+  it('should give each name its own stream', () => {
+    const traversal = draw(randomStream(1234, 'traversal'), 5)
+    const particles = draw(randomStream(1234, 'particles'), 5)
+
+    expect(traversal).not.toEqual(particles)
+    expect(traversal).not.toEqual(draw(seededRandom(1234), 5))
+    expect([...traversal, ...particles].every((v) => v >= 0 && v < 1)).toBe(true)
+  })
+
+  it('should use Math.random without a seed', () => {
+    expect(randomStream(null, 'traversal')).toBe(Math.random)
+    expect(randomStream(undefined, 'traversal')).toBe(Math.random)
+  })
+})
+
+describe('parseSeed', () => {
+  it('should accept unsigned 32-bit integers only', () => {
+    expect(parseSeed('1234')).toBe(1234)
+    expect(parseSeed(' 0 ')).toBe(0)
+    expect(parseSeed('4294967295')).toBe(4294967295)
+    expect(parseSeed('4294967296')).toBeNull()
+    expect(parseSeed('-1')).toBeNull()
+    expect(parseSeed('1.5')).toBeNull()
+    expect(parseSeed('abc')).toBeNull()
+    expect(parseSeed('')).toBeNull()
+    expect(parseSeed(null)).toBeNull()
+  })
+})
+
+describe('seeded modules', () => {
+  it('should pick the same fallback pitches', () => {
+    const scale = [0, 3, 5, 7, 10]
+    const pitches = (random: () => number) =>
+      Array.from({ length: 8 }, () => embeddingToPitch(undefined, scale, 55, 2, random).hz)
+
+    expect(pitches(randomStream(7, 'audio.cluster'))).toEqual(pitches(randomStream(7, 'audio.cluster')))
+  })
+
+  it('should hang connection lines the same way', () => {
+    const line = (random: () => number) => {
+      const physics = initializeConnectionPhysics({ x: 0, y: 0 }, { x: 300, y: 100 }, DEFAULT_SPRING_PHYSICS_CONFIG, random)
+      return [physics.controlPoint1, physics.controlPoint2].map((c) => [c.perpHomeOffset, c.perpVelocity, c.tVelocity])
+    }
+
+    expect(line(randomStream(7, 'physics'))).toEqual(line(randomStream(7, 'physics')))
+    expect(line(randomStream(7, 'physics'))).not.toEqual(line(randomStream(8, 'physics')))
+  })
+})
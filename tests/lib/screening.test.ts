@@ -0,0 +1,216 @@
+/**
+ * Tests for Content Screening
+ *
+ * Tests cover:
+ * - Each rule in isolation (matches and known false-positive traps)
+ * - Pipeline severity reduction and user-facing messages
+ * - Environment configuration overrides
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  blocklistRule,
+  urlRule,
+  emailRule,
+  phoneRule,
+  repeatedCharactersRule,
+  lowDiversityRule,
+  streetAddressRule
+} from '@/lib/screening/rules'
+import { screenContent, describeMatches } from '@/lib/screening/screen-content'
+import { DEFAULT_SCREENING_CONFIG, loadScreeningConfig } from '@/lib/config/screening-config'
+import type { ScreeningConfig } from '@/lib/screening/types'
+
+const config: ScreeningConfig = {
+  ...DEFAULT_SCREENING_CONFIG,
+  blocklist: ['buy now', 'spamword']
+}
+
+describe('blocklistRule', () => {
+  it('should match whole words and phrases case-insensitively', () => {
+    expect(blocklistRule('BUY NOW and feel better', config)[0].evidence).toEqual(['buy now'])
+    expect(blocklistRule('a spamword here', config)).toHaveLength(1)
+  })
+
+  it('should not match inside other words', () => {
+    expect(blocklistRule('spamwords are different', config)).toEqual([])
+  })
+
+  it('should ignore diacritics', () => {
+    expect(blocklistRule('spämword', config)).toHaveLength(1)
+  })
+})
+
+describe('urlRule', () => {
+  it('should match links and bare domains', () => {
+    expect(urlRule('see https://example.org/page', config)).toHaveLength(1)
+    expect(urlRule('visit www.example.net', config)).toHaveLength(1)
+    expect(urlRule('go to mystore.com now', config)[0].evidence).toEqual(['mystore.com'])
+  })
+
+  it('should pass ordinary sentences', () => {
+    expect(urlRule('I miss you. Every. Single. Day.', config)).toEqual([])
+  })
+
+  it('should leave email addresses to the email rule', () => {
+    expect(urlRule('write me at jane@example.com', config)).toEqual([])
+  })
+})
+
+describe('emailRule', () => {
+  it('should match email addresses', () => {
+    expect(emailRule('write me at jane.doe@example.com', config)[0].evidence).toEqual([
+      'jane.doe@example.com'
+    ])
+  })
+})
+
+describe('phoneRule', () => {
+  it('should match common phone formats', () => {
+    expect(phoneRule('call 555-123-4567', config)).toHaveLength(1)
+    expect(phoneRule('call (555) 123 4567', config)).toHaveLength(1)
+    expect(phoneRule('ring +44 20 7946 0958', config)).toHaveLength(1)
+  })
+
+  it('should pass dates and year ranges', () => {
+    expect(phoneRule('Dad, 1948-2023. Gone on 12.05.2023.', config)).toEqual([])
+    expect(phoneRule('03/14/2021 was the last day', config)).toEqual([])
+  })
+})
+
+describe('repeatedCharactersRule', () => {
+  it('should match long runs of one symbol', () => {
+    expect(repeatedCharactersRule('!!!!!!!!!!!!!!!!', config)).toHaveLength(1)
+    expect(repeatedCharactersRule('$$$$$$$$$$$$ cheap', config)[0].evidence).toEqual(['$$$$$$$$$$$$'])
+  })
+
+  it('should allow elongated words', () => {
+    expect(repeatedCharactersRule('nooooooo, whyyyy', config)).toEqual([])
+  })
+
+  it('should allow elongations of any length', () => {
+    const message = 'noooooooooooooooo. not you. not yet.'
+    expect(repeatedCharactersRule(message, config)).toEqual([])
+    expect(screenContent(message, config).action).toBe('allow')
+  })
+})
+
+describe('lowDiversityRule', () => {
+  const longMessages = [
+    'My mother died in March and I still reach for the phone every Sunday at six. I dial half the number before I remember. ' +
+      'I miss her voice, the way she said my name, the way she always asked if I had eaten. I have not deleted her number.',
+    'Dad, 1948-2023. You taught me to fish and to forgive. I did the first one badly and the second one too late. I am sorry. ' +
+      'The lake is still there. I went back in June and sat on the dock where you used to sit and I could not cast a line.',
+    'Je pense à toi chaque matin quand je fais le café. Tu mettais toujours trop de sucre et je te le reprochais. ' +
+      "Aujourd'hui j'en mets trois cuillères, comme toi, et je le bois lentement en regardant la fenêtre où tu t'asseyais."
+  ]
+
+  it('should match keyboard mashing', () => {
+    expect(lowDiversityRule('asasasasasasasasasasasasasasas', config)).toHaveLength(1)
+  })
+
+  it('should match copy-paste floods', () => {
+    const [match] = lowDiversityRule('buy now buy now buy now buy now buy now buy now buy now', config)
+    expect(match.action).toBe('hold')
+    expect(match.evidence).toEqual(['buy', 'now'])
+  })
+
+  it('should ignore short messages', () => {
+    expect(lowDiversityRule('ok ok ok', config)).toEqual([])
+  })
+
+  it('should pass real sentences', () => {
+    expect(lowDiversityRule('My mother. Every day I reach for the phone.', config)).toEqual([])
+  })
+
+  it('should pass long messages up to the length limit', () => {
+    for (const message of longMessages) {
+      expect(message.length).toBeGreaterThan(200)
+      expect(message.length).toBeLessThanOrEqual(280)
+      expect(lowDiversityRule(message, config)).toEqual([])
+      expect(screenContent(message, config).action).toBe('allow')
+    }
+  })
+
+  it('should hold rather than reject by default', () => {
+    expect(screenContent('zzzzzzzzzz zzzzzzzzzz zzzzzzzzzz', config).action).not.toBe('reject')
+  })
+})
+
+describe('streetAddressRule', () => {
+  it('should flag an address on its own', () => {
+    const [match] = streetAddressRule('We grew up at 42 Elm Street', config)
+    expect(match.action).toBe('flag')
+  })
+
+  it('should hold a full name with an address', () => {
+    const [match] = streetAddressRule('Jane Doe lives at 42 Elm Street', config)
+    expect(match.action).toBe('hold')
+    expect(match.evidence).toContain('Jane Doe')
+  })
+
+  it('should pass messages without addresses', () => {
+    expect(streetAddressRule('Grandpa taught me 3 card tricks', config)).toEqual([])
+  })
+})
+
+describe('screenContent', () => {
+  it('should allow ordinary grief', () => {
+    const result = screenContent('My mother. Every day I reach for the phone.', config)
+    expect(result.action).toBe('allow')
+    expect(result.matches).toEqual([])
+  })
+
+  it('should take the most severe action', () => {
+    const result = screenContent('call 555-123-4567 or buy now', config)
+    expect(result.action).toBe('reject')
+    expect(result.matches.map((m) => m.rule).sort()).toEqual(['blocklist', 'phone'])
+  })
+
+  it('should give a gentle message without echoing content', () => {
+    const result = screenContent('buy now!!!!!!!!!!!!!!!!', config)
+    expect(result.action).toBe('reject')
+    expect(result.userMessage).toBeDefined()
+    expect(result.userMessage).not.toContain('buy now')
+  })
+
+  it('should not set a user message unless rejected', () => {
+    const result = screenContent('email me jane@example.com', config)
+    expect(result.action).toBe('hold')
+    expect(result.userMessage).toBeUndefined()
+  })
+
+  it('should skip everything when disabled', () => {
+    const result = screenContent('buy now', { ...config, enabled: false })
+    expect(result.action).toBe('allow')
+  })
+
+  it('should describe matches for moderator notes', () => {
+    const result = screenContent('email me jane@example.com', config)
+    expect(describeMatches(result)).toBe('screening hold: email')
+  })
+})
+
+describe('loadScreeningConfig', () => {
+  const originalEnv = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  it('should read blocklist and action overrides', () => {
+    process.env.SCREENING_BLOCKLIST = 'one, two words ,'
+    process.env.SCREENING_ACTION_URL = 'reject'
+
+    const loaded = loadScreeningConfig()
+
+    expect(loaded.blocklist).toEqual(['one', 'two words'])
+    expect(loaded.actions.url).toBe('reject')
+    expect(loaded.actions.email).toBe(DEFAULT_SCREENING_CONFIG.actions.email)
+  })
+
+  it('should reject invalid actions', () => {
+    process.env.SCREENING_ACTION_PHONE = 'explode'
+    expect(() => loadScreeningConfig()).toThrow('screening.actions.phone')
+  })
+})
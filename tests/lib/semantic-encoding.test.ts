@@ -5,14 +5,36 @@
  * - Cosine similarity calculation (unit tests with known vectors)
  * - Embedding generation (mocked API responses)
  * - Error handling (API failures, invalid responses)
+ * - Named dimensions (prompt, ranges) and schema versions
+ * - semantic_data JSONB validation (lib/embeddings/semantic-data.ts)
  */
 
+import { readFileSync } from 'fs'
+import { join } from 'path'
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { getSemanticEmbedding, cosineSimilarity } from '@/lib/semantic-encoding'
+import { getSemanticEmbedding, encodeMessage } from '@/lib/semantic-encoding'
+import {
+  haveSameSchema,
+  cosineSimilarity,
+  isEmbedding,
+  parseSemanticData
+} from '@/lib/embeddings/semantic-data'
+import {
+  EMBEDDING_DIMENSIONS,
+  THEMES_V2_SCHEMA,
+  THEMES_V3_SCHEMA,
+  THEMES_V4_SCHEMA,
+  describeEmbedding,
+  getEmbeddingSchema
+} from '@/lib/embeddings/schema'
+import type { EmbeddingProvider } from '@/lib/embeddings/types'
 
 // Mock fetch globally
 global.fetch = vi.fn()
 
+// One request per call (retries are covered in embedding-response.test.ts)
+process.env.EMBEDDING_MAX_RETRIES = '0'
+
 describe('cosineSimilarity', () => {
   it('should return 1.0 for identical vectors', () => {
     const vec1 = [1, 0, 0, 0, 0, 0, 0, 0, 0, 0]
@@ -86,7 +108,7 @@ describe('getSemanticEmbedding', () => {
   })
 
   it('should return valid 10-dimensional embedding on success', async () => {
-    const mockEmbedding = [-0.8, 0.3, 0.7, -0.2, 0.9, -0.5, 0.1, 0.6, -0.4, 0.8]
+    const mockEmbedding = [-0.8, 0.3, 0.7, -0.2, 0.9, -0.5, 0.1, 0.6, 0.4, 0.8]
 
     // Mock successful API response
     ;(global.fetch as any).mockResolvedValueOnce({
@@ -229,7 +251,7 @@ describe('getSemanticEmbedding', () => {
   })
 
   it('should validate all values are in range -1.0 to 1.0', async () => {
-    const validEmbedding = [-1.0, -0.5, 0, 0.5, 1.0, -0.8, 0.3, 0.7, -0.2, 0.9]
+    const validEmbedding = [-1.0, -0.5, 0, 0.5, 1.0, -0.8, 0.3, 0.7, 0.2, 0.9]
 
     ;(global.fetch as any).mockResolvedValueOnce({
       ok: true,
@@ -286,3 +308,141 @@ describe('getSemanticEmbedding', () => {
     expect(body.messages[0].content).toContain(longContent)
   })
 })
+
+describe('named dimensions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should declare one named dimension per vector position', () => {
+    const names = THEMES_V4_SCHEMA.dimensions.map((d) => d.name)
+    expect(names).toHaveLength(EMBEDDING_DIMENSIONS)
+    expect(new Set(names).size).toBe(EMBEDDING_DIMENSIONS)
+  })
+
+  it('should ask Claude for every dimension by name', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ content: [{ text: JSON.stringify(new Array(10).fill(0)) }] })
+    } as Response)
+
+    await getSemanticEmbedding('Test message')
+
+    const prompt = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string).system
+    for (const dimension of THEMES_V4_SCHEMA.dimensions) {
+      expect(prompt).toContain(dimension.name)
+    }
+  })
+
+  it('should clamp values into each dimension\'s range', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ content: [{ text: JSON.stringify([-0.5, 0, -0.5, 0, 0, 0, 0, -0.3, 0.4, -1]) }] })
+    } as Response)
+
+    const result = await getSemanticEmbedding('Test message')
+    const named = describeEmbedding(result!, THEMES_V4_SCHEMA)
+
+    expect(named.loss_type).toBe(-0.5)
+    expect(named.intensity).toBe(0)
+    expect(named.longing).toBe(0)
+    expect(named.guilt_regret).toBe(0.4)
+    expect(named.anger).toBe(0)
+  })
+
+  it('should look up schemas by version', () => {
+    expect(getEmbeddingSchema('themes-v2')).toBe(THEMES_V2_SCHEMA)
+    expect(getEmbeddingSchema('themes-v3')).toBe(THEMES_V3_SCHEMA)
+    expect(getEmbeddingSchema('themes-v4')).toBe(THEMES_V4_SCHEMA)
+    expect(getEmbeddingSchema('openai:text-embedding-3-small')?.dimensions[0].name).toBe('latent_1')
+    expect(getEmbeddingSchema('themes-v9')).toBeNull()
+  })
+})
+
+describe('encodeMessage', () => {
+  const provider: EmbeddingProvider = {
+    id: 'test',
+    schema: THEMES_V3_SCHEMA,
+    embed: async () => [0.5, -0.2, 0.7, 0.1, 0.9, -0.4, 0.3, 0.6, 0.2, 0]
+  }
+  const now = () => new Date('2026-01-01T00:00:00.000Z')
+
+  it('should stamp the provider\'s schema version and model', async () => {
+    expect((await encodeMessage('Test message', provider, now)).semantic_data).toEqual({
+      embedding: [0.5, -0.2, 0.7, 0.1, 0.9, -0.4, 0.3, 0.6, 0.2, 0],
+      generated_at: '2026-01-01T00:00:00.000Z',
+      schema_version: 'themes-v3',
+      model: 'test'
+    })
+  })
+
+  it('should keep tags but no semantic_data when the provider fails', async () => {
+    const failing = { ...provider, embed: async () => { throw new Error('down') } }
+    vi.spyOn(console, 'error').mockImplementationOnce(() => {})
+
+    const encoding = await encodeMessage('I miss my dog', failing, now)
+    expect(encoding.semantic_data).toBeNull()
+    expect(encoding.semantic_tags.relationship?.value).toBe('pet')
+  })
+})
+
+describe('haveSameSchema', () => {
+  it('should compare schema versions', () => {
+    expect(haveSameSchema({ schema_version: 'themes-v2' }, { schema_version: 'themes-v2' })).toBe(true)
+    expect(haveSameSchema({ schema_version: 'themes-v1' }, { schema_version: 'themes-v2' })).toBe(false)
+    expect(haveSameSchema({ schema_version: 'themes-v2' }, null)).toBe(false)
+  })
+})
+
+describe('parseSemanticData', () => {
+  const embedding = [0.1, -0.2, 0.3, -0.4, 0.5, -0.6, 0.7, -0.8, 0.9, -1.0]
+
+  it('should accept a well-formed payload', () => {
+    const data = { embedding, generated_at: '2025-11-14T20:30:00.000Z', schema_version: 'themes-v2' }
+    expect(parseSemanticData(data)).toEqual(data)
+  })
+
+  it('should read unversioned payloads as themes-v1', () => {
+    const data = { embedding, generated_at: '2025-11-14T20:30:00.000Z' }
+    expect(parseSemanticData(data)?.schema_version).toBe('themes-v1')
+  })
+
+  it('should keep the model stamp when present', () => {
+    const data = { embedding, generated_at: '2025-11-14T20:30:00.000Z', schema_version: 'themes-v3', model: 'anthropic:claude-test' }
+    expect(parseSemanticData(data)).toEqual(data)
+    expect(parseSemanticData({ ...data, model: 7 })).toBeNull()
+  })
+
+  it('should return null for a malformed schema version', () => {
+    const data = { embedding, generated_at: '2025-11-14T20:30:00.000Z', schema_version: 2 }
+    expect(parseSemanticData(data)).toBeNull()
+  })
+
+  it('should return null for missing data', () => {
+    expect(parseSemanticData(null)).toBeNull()
+    expect(parseSemanticData(undefined)).toBeNull()
+    expect(parseSemanticData('[0.1]')).toBeNull()
+  })
+
+  it('should return null for malformed embeddings', () => {
+    const generated_at = '2025-11-14T20:30:00.000Z'
+    expect(parseSemanticData({ embedding: embedding.slice(0, 9), generated_at })).toBeNull()
+    expect(parseSemanticData({ embedding: [...embedding.slice(0, 9), 'x'], generated_at })).toBeNull()
+    expect(parseSemanticData({ embedding: [...embedding.slice(0, 9), NaN], generated_at })).toBeNull()
+    expect(parseSemanticData({ embedding })).toBeNull()
+  })
+
+  it('should share the embedding check with isEmbedding', () => {
+    expect(isEmbedding(embedding)).toBe(true)
+    expect(isEmbedding([])).toBe(false)
+  })
+
+  it('should load without the embedding providers', () => {
+    // Imported by browser code: runtime imports stop at the schema constants
+    const source = readFileSync(join(process.cwd(), 'lib/embeddings/semantic-data.ts'), 'utf8')
+    const runtimeImports = source.match(/^import (?!type ).*$/gm) ?? []
+    expect(runtimeImports).toEqual([
+      "import { EMBEDDING_DIMENSIONS, LEGACY_SCHEMA_VERSION } from './schema'"
+    ])
+  })
+})
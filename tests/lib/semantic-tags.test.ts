@@ -0,0 +1,122 @@
+/**
+ * Tests for Semantic Tags
+ *
+ * Tests cover:
+ * - Keyword tagging and confidence
+ * - semantic_tags JSONB validation
+ * - Tags chosen for storage (provider tags, keyword fallback)
+ * - Exposure through GriefMessage
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getTag,
+  keywordTags,
+  parseSemanticTags,
+  tagWithKeywords
+} from '@/lib/embeddings/tags'
+import { toMessageEncoding } from '@/lib/semantic-encoding'
+import { THEMES_V2_SCHEMA } from '@/lib/embeddings/schema'
+import type { EmbeddingProvider } from '@/lib/embeddings/types'
+import { toGriefMessage } from '@/types/grief-messages'
+
+const GENERATED_AT = '2026-01-01T00:00:00.000Z'
+
+describe('keywordTags', () => {
+  it('should tag relationship, loss kind, and tone', () => {
+    expect(keywordTags('I still set two cups out. Mom died in March.')).toEqual({
+      relationship: { value: 'parent', confidence: 0.5 },
+      loss_kind: { value: 'death', confidence: 0.5 },
+      tone: { value: 'longing', confidence: 0.5 }
+    })
+  })
+
+  it('should leave categories without evidence empty', () => {
+    expect(keywordTags('The light in October.')).toEqual({ relationship: null, loss_kind: null, tone: null })
+  })
+
+  it('should raise confidence with repeated evidence and lower it with competing values', () => {
+    expect(keywordTags('My dog, my good dog, my old dog.').relationship).toEqual({ value: 'pet', confidence: 0.75 })
+    expect(keywordTags('My sister and her dog.').relationship?.confidence).toBeCloseTo(0.33)
+  })
+
+  it('should match curly apostrophes', () => {
+    expect(keywordTags('She won’t speak to me anymore.').loss_kind?.value).toBe('estrangement')
+  })
+})
+
+describe('parseSemanticTags', () => {
+  const tags = tagWithKeywords('I miss my husband', GENERATED_AT)
+
+  it('should accept stored tags', () => {
+    expect(parseSemanticTags(tags)).toEqual(tags)
+  })
+
+  it('should drop unknown values and out-of-range confidences', () => {
+    const parsed = parseSemanticTags({
+      ...tags,
+      relationship: { value: 'landlord', confidence: 0.9 },
+      tone: { value: 'longing', confidence: 4 }
+    })
+
+    expect(parsed?.relationship).toBeNull()
+    expect(parsed?.tone).toEqual({ value: 'longing', confidence: 1 })
+  })
+
+  it('should return null for missing or malformed payloads', () => {
+    expect(parseSemanticTags(null)).toBeNull()
+    expect(parseSemanticTags({ ...tags, tagger: undefined })).toBeNull()
+    expect(parseSemanticTags([])).toBeNull()
+  })
+})
+
+describe('getTag', () => {
+  it('should return tags at or above the confidence threshold', () => {
+    const tags = tagWithKeywords('My sister and her dog.', GENERATED_AT)
+
+    expect(getTag(tags, 'relationship')).toBeNull()
+    expect(getTag(tags, 'relationship', 0.3)).toBe('sibling')
+    expect(getTag(null, 'tone')).toBeNull()
+  })
+})
+
+describe('toMessageEncoding', () => {
+  const provider: EmbeddingProvider = {
+    id: 'anthropic:claude-test',
+    schema: THEMES_V2_SCHEMA,
+    embed: async () => new Array(10).fill(0)
+  }
+
+  it('should store provider tags with the provider as tagger', () => {
+    const encoding = toMessageEncoding('My mother', {
+      embedding: new Array(10).fill(0),
+      tags: { relationship: { value: 'parent', confidence: 0.9 }, loss_kind: null, tone: null }
+    }, provider, GENERATED_AT)
+
+    expect(encoding.semantic_tags).toMatchObject({ tagger: 'anthropic:claude-test', generated_at: GENERATED_AT })
+    expect(encoding.semantic_tags.relationship?.confidence).toBe(0.9)
+  })
+
+  it('should fall back to keyword tags', () => {
+    const encoding = toMessageEncoding('My mother', { embedding: new Array(10).fill(0), tags: null }, provider, GENERATED_AT)
+
+    expect(encoding.semantic_tags.tagger).toBe('keyword-v1')
+    expect(encoding.semantic_tags.relationship?.value).toBe('parent')
+  })
+})
+
+describe('GriefMessage semantic_tags', () => {
+  it('should be validated by toGriefMessage', () => {
+    const base = {
+      id: '1',
+      content: 'My cat',
+      created_at: GENERATED_AT,
+      approved: true,
+      deleted_at: null
+    }
+
+    expect(toGriefMessage({ ...base, semantic_tags: tagWithKeywords('My cat', GENERATED_AT) }).semantic_tags?.relationship?.value).toBe('pet')
+    expect(toGriefMessage({ ...base, semantic_tags: { broken: true } as never }).semantic_tags).toBeNull()
+    expect(toGriefMessage(base).semantic_tags).toBeNull()
+  })
+})
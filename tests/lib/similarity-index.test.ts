@@ -0,0 +1,179 @@
+/**
+ * Tests for Similarity Index
+ *
+ * Tests cover:
+ * - Same top-k scores as sortBySimilarity (brute force)
+ * - Pruning (fewer messages scored than indexed)
+ * - Filters, and messages without embeddings or from other schemas
+ * - Incremental add, remove, replace and applyChange across rebuilds
+ */
+
+import { describe, it, expect } from 'vitest'
+import { SimilarityIndex } from '@/lib/utils/similarity-index'
+import { sortBySimilarity } from '@/lib/utils/similarity-scoring'
+import { DEFAULT_CONFIG } from '@/lib/config/message-pool-config'
+import type { GriefMessage, MessagePoolConfig } from '@/types/grief-messages'
+import { createSyntheticMessages } from '../helpers/synthetic-messages'
+
+const WEIGHTS: Array<MessagePoolConfig['similarity']> = [
+  DEFAULT_CONFIG.similarity,
+  { temporalWeight: 0.2, lengthWeight: 0.2, semanticWeight: 0.6 },
+  { temporalWeight: 0, lengthWeight: 0, semanticWeight: 1 },
+  { temporalWeight: 1, lengthWeight: 0, semanticWeight: 0 }
+]
+
+/**
+ * Top-k scores by brute force, for comparison
+ */
+function bruteForceScores(
+  focus: GriefMessage,
+  messages: GriefMessage[],
+  k: number,
+  weights: MessagePoolConfig['similarity'],
+  filter: (message: GriefMessage) => boolean = () => true
+): number[] {
+  const candidates = messages.filter((m) => m.id !== focus.id && filter(m))
+  return sortBySimilarity(focus, candidates, weights).slice(0, k).map((r) => r.similarity)
+}
+
+function expectSameScores(actual: number[], expected: number[]) {
+  expect(actual).toHaveLength(expected.length)
+  actual.forEach((score, i) => expect(score).toBeCloseTo(expected[i], 9))
+}
+
+function buildIndex(messages: GriefMessage[], weights = DEFAULT_CONFIG.similarity): SimilarityIndex {
+  const index = new SimilarityIndex(weights)
+  index.applyChange({ removed: [], added: messages })
+  return index
+}
+
+describe('SimilarityIndex', () => {
+  describe('topK', () => {
+    it.each(WEIGHTS)('should return the brute-force top scores (weights %o)', (weights) => {
+      const messages = createSyntheticMessages(600, 7)
+      const index = buildIndex(messages, weights)
+
+      for (const focus of messages.slice(0, 20)) {
+        expectSameScores(
+          index.topK(focus, 11).map((r) => r.similarity),
+          bruteForceScores(focus, messages, 11, weights)
+        )
+      }
+    })
+
+    it('should score fewer messages than it holds', () => {
+      const messages = createSyntheticMessages(2000, 3)
+      const index = buildIndex(messages)
+
+      index.topK(messages[0], 11)
+
+      expect(index.getStats().lastQueryScored).toBeLessThan(messages.length / 2)
+    })
+
+    it('should never return the focus, and apply the filter', () => {
+      const messages = createSyntheticMessages(300, 11)
+      const index = buildIndex(messages)
+      const even = (m: GriefMessage) => parseInt(m.id, 10) % 2 === 0
+      const focus = messages[1]
+
+      const results = index.topK(focus, 20, even)
+
+      expect(results.every((r) => even(r.message) && r.message.id !== focus.id)).toBe(true)
+      expectSameScores(results.map((r) => r.similarity), bruteForceScores(focus, messages, 20, DEFAULT_CONFIG.similarity, even))
+    })
+
+    it('should answer for a focus that is not indexed', () => {
+      const messages = createSyntheticMessages(300, 5)
+      const [focus] = createSyntheticMessages(1, 99, { startId: 10000 })
+      const index = buildIndex(messages)
+
+      expectSameScores(
+        index.topK(focus, 5).map((r) => r.similarity),
+        bruteForceScores(focus, messages, 5, DEFAULT_CONFIG.similarity)
+      )
+    })
+
+    it('should include messages without embeddings or from another schema', () => {
+      const messages = createSyntheticMessages(400, 13, { unembeddedRatio: 0.3 })
+      messages.slice(0, 50).forEach((m) => {
+        if (m.semantic_data) m.semantic_data = { ...m.semantic_data, schema_version: 'themes-v2' }
+      })
+      const index = buildIndex(messages)
+
+      expect(index.getStats().trees).toBe(2)
+      expect(index.getStats().indexed).toBeLessThan(400)
+
+      for (const focus of [messages[0], messages[100], ...messages.filter((m) => !m.semantic_data).slice(0, 2)]) {
+        expectSameScores(
+          index.topK(focus, 11).map((r) => r.similarity),
+          bruteForceScores(focus, messages, 11, DEFAULT_CONFIG.similarity)
+        )
+      }
+    })
+
+    it('should return fewer than k when fewer messages pass', () => {
+      const messages = createSyntheticMessages(5, 2)
+      const index = buildIndex(messages)
+
+      expect(index.topK(messages[0], 11)).toHaveLength(4)
+      expect(index.topK(messages[0], 0)).toEqual([])
+    })
+  })
+
+  describe('updates', () => {
+    it('should stay exact as working set changes arrive', () => {
+      const pool = createSyntheticMessages(3000, 21)
+      let workingSet = pool.slice(0, 1000)
+      const index = buildIndex(workingSet)
+
+      // Cycle 12 messages per change, enough to trigger several rebuilds
+      for (let cycle = 0; cycle < 120; cycle++) {
+        const removed = workingSet.slice(cycle % 7, (cycle % 7) + 12).map((m) => m.id)
+        const added = pool.slice(1000 + cycle * 12, 1000 + (cycle + 1) * 12)
+
+        index.applyChange({ removed, added, reason: 'cluster_cycle' })
+        workingSet = [...workingSet.filter((m) => !removed.includes(m.id)), ...added]
+      }
+
+      expect(index.size).toBe(workingSet.length)
+      for (const focus of workingSet.slice(0, 10)) {
+        expectSameScores(
+          index.topK(focus, 11).map((r) => r.similarity),
+          bruteForceScores(focus, workingSet, 11, DEFAULT_CONFIG.similarity)
+        )
+      }
+    })
+
+    it('should forget removed messages', () => {
+      const messages = createSyntheticMessages(200, 4)
+      const index = buildIndex(messages)
+      const [nearest] = index.topK(messages[0], 1)
+
+      expect(index.remove(nearest.message.id)).toBe(true)
+      expect(index.remove(nearest.message.id)).toBe(false)
+      expect(index.has(nearest.message.id)).toBe(false)
+      expect(index.topK(messages[0], 11).some((r) => r.message.id === nearest.message.id)).toBe(false)
+    })
+
+    it('should replace a message once its embedding arrives', () => {
+      const messages = createSyntheticMessages(100, 8)
+      const pending = { ...messages[50], semantic_data: null }
+      const index = buildIndex([...messages.slice(0, 50), pending])
+
+      expect(index.getStats().indexed).toBe(50)
+
+      index.add(messages[50])
+
+      expect(index.size).toBe(51)
+      expect(index.getStats().indexed).toBe(51)
+    })
+
+    it('should empty on clear', () => {
+      const index = buildIndex(createSyntheticMessages(50, 1))
+      index.clear()
+
+      expect(index.size).toBe(0)
+      expect(index.getStats().trees).toBe(0)
+    })
+  })
+})
@@ -4,7 +4,7 @@
  * Tests cover:
  * - Semantic similarity calculation with embeddings
  * - Weighted similarity scoring (temporal + length + semantic)
- * - Fallback behavior when embeddings unavailable
+ * - Fallback behavior when embeddings unavailable or from different schemas
  * - Integration with cosine similarity
  */
 
@@ -31,7 +31,8 @@ function createMessage(
   id: string,
   content: string,
   createdAt: string,
-  embedding?: number[] | null
+  embedding?: number[] | null,
+  schemaVersion = 'themes-v2'
 ): GriefMessage {
   return {
     id,
@@ -42,7 +43,8 @@ function createMessage(
     semantic_data: embedding
       ? {
           embedding,
-          generated_at: createdAt
+          generated_at: createdAt,
+          schema_version: schemaVersion
         }
       : null
   }
@@ -131,6 +133,14 @@ describe('calculateSemanticSimilarity', () => {
     expect(similarity).toBe(0)
   })
 
+  it('should return 0 for embeddings from different schemas', () => {
+    const embedding = [0.8, 0.3, 0.5, -0.2, 0.7, -0.4, 0.1, 0.6, -0.3, 0.9]
+    const msgA = createMessage('1', 'Test A', '2025-01-01T00:00:00Z', embedding, 'themes-v1')
+    const msgB = createMessage('2', 'Test B', '2025-01-01T00:00:00Z', embedding, 'themes-v2')
+
+    expect(calculateSemanticSimilarity(msgA, msgB)).toBe(0)
+  })
+
   it('should calculate correct similarity for similar themes', () => {
     // Similar theme vectors (slight variation)
     const embeddingA = [0.8, 0.3, 0.5, -0.2, 0.7, -0.4, 0.1, 0.6, -0.3, 0.9]
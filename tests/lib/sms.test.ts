@@ -0,0 +1,189 @@
+/**
+ * SMS Webhook Tests
+ *
+ * Tests cover:
+ * - Twilio signature computation and verification
+ * - TwiML escaping
+ * - Inbound handler against signed fake Twilio posts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  computeTwilioSignature,
+  twimlMessage,
+  verifyTwilioSignature
+} from '@/lib/sms/twilio'
+import { handleInboundSms, SMS_REPLIES } from '@/lib/sms/inbound-handler'
+import type { SubmissionInput, SubmissionResult } from '@/lib/services/submission-service'
+import type { Message } from '@/types/database'
+
+const AUTH_TOKEN = 'test-auth-token'
+const URL = 'https://requiary.example.org/api/sms/inbound'
+
+/**
+ * Fake Twilio: posts a form-encoded inbound SMS, signed like Twilio does
+ */
+function fakeTwilioPost(
+  params: Record<string, string>,
+  options: { url?: string; signedUrl?: string; token?: string; signature?: string } = {}
+): Request {
+  const url = options.url ?? URL
+  const signature = options.signature
+    ?? computeTwilioSignature(options.token ?? AUTH_TOKEN, options.signedUrl ?? url, params)
+
+  return new Request(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Twilio-Signature': signature
+    },
+    body: new URLSearchParams(params)
+  })
+}
+
+const inbound = {
+  MessageSid: 'SM0123',
+  AccountSid: 'AC0123',
+  From: '+15555550100',
+  To: '+15555550199',
+  Body: 'I still set two cups out.'
+}
+
+describe('Twilio signatures', () => {
+  // Example from Twilio's webhook security documentation
+  it('should match the documented example', () => {
+    const signature = computeTwilioSignature(
+      '12345',
+      'https://mycompany.com/myapp.php?foo=1&bar=2',
+      {
+        CallSid: 'CA1234567890ABCDE',
+        Caller: '+12349013030',
+        Digits: '1234',
+        From: '+12349013030',
+        To: '+18005551212'
+      }
+    )
+    expect(signature).toBe('0/KCTR6DLpKmkAf8muzZqo1nDgQ=')
+  })
+
+  it('should verify a matching signature only', () => {
+    const signature = computeTwilioSignature(AUTH_TOKEN, URL, inbound)
+
+    expect(verifyTwilioSignature(AUTH_TOKEN, signature, URL, inbound)).toBe(true)
+    expect(verifyTwilioSignature(AUTH_TOKEN, signature, URL, { ...inbound, Body: 'changed' })).toBe(false)
+    expect(verifyTwilioSignature('other-token', signature, URL, inbound)).toBe(false)
+    expect(verifyTwilioSignature(AUTH_TOKEN, 'short', URL, inbound)).toBe(false)
+    expect(verifyTwilioSignature(AUTH_TOKEN, null, URL, inbound)).toBe(false)
+  })
+})
+
+describe('twimlMessage', () => {
+  it('should escape reply text', () => {
+    expect(twimlMessage('<3 & "thanks"')).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?><Response><Message>&lt;3 &amp; &quot;thanks&quot;</Message></Response>'
+    )
+  })
+})
+
+describe('handleInboundSms', () => {
+  let submitted: SubmissionInput[]
+  let result: SubmissionResult
+
+  const deps = (overrides: { authToken?: string | null; webhookUrl?: string | null } = {}) => ({
+    config: {
+      authToken: overrides.authToken === undefined ? AUTH_TOKEN : overrides.authToken,
+      webhookUrl: overrides.webhookUrl ?? null
+    },
+    getSubmissionService: () => ({
+      submit: async (input: SubmissionInput) => {
+        submitted.push(input)
+        return result
+      }
+    })
+  })
+
+  const rateLimit = { allowed: true, remaining: 2, retryAfter: 0 }
+
+  beforeEach(() => {
+    submitted = []
+    result = {
+      status: 'created',
+      message: { id: '1' } as Message,
+      pending: false,
+      rateLimit
+    }
+  })
+
+  it('should submit a signed message and acknowledge with TwiML', async () => {
+    const response = await handleInboundSms(fakeTwilioPost(inbound), deps())
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toContain('text/xml')
+    expect(await response.text()).toBe(twimlMessage(SMS_REPLIES.created))
+
+    expect(submitted).toHaveLength(1)
+    expect(submitted[0]).toMatchObject({
+      content: inbound.Body,
+      source: 'sms',
+      ipHash: null,
+      idempotencyKey: inbound.MessageSid
+    })
+  })
+
+  it('should key submissions by a hash of the phone number', async () => {
+    await handleInboundSms(fakeTwilioPost(inbound), deps())
+    await handleInboundSms(fakeTwilioPost({ ...inbound, Body: 'Again' }), deps())
+    await handleInboundSms(fakeTwilioPost({ ...inbound, From: '+15555550101' }), deps())
+
+    const [first, second, other] = submitted
+    expect(first.sessionId).toMatch(/^sms:[0-9a-f]{64}$/)
+    expect(first.sessionId).not.toContain(inbound.From)
+    expect(first.rateLimitKeys).toEqual({ sessionId: first.sessionId, ipHash: null })
+    expect(second.sessionId).toBe(first.sessionId)
+    expect(other.sessionId).not.toBe(first.sessionId)
+  })
+
+  it('should refuse unsigned or tampered posts', async () => {
+    const tampered = fakeTwilioPost(inbound, { signature: computeTwilioSignature(AUTH_TOKEN, URL, { ...inbound, Body: 'x' }) })
+    const wrongToken = fakeTwilioPost(inbound, { token: 'guess' })
+
+    expect((await handleInboundSms(tampered, deps())).status).toBe(403)
+    expect((await handleInboundSms(wrongToken, deps())).status).toBe(403)
+    expect(submitted).toHaveLength(0)
+  })
+
+  it('should verify against the configured public URL', async () => {
+    const proxied = () => fakeTwilioPost(inbound, { url: 'http://localhost:3000/api/sms/inbound', signedUrl: URL })
+
+    expect((await handleInboundSms(proxied(), deps())).status).toBe(403)
+    expect((await handleInboundSms(proxied(), deps({ webhookUrl: URL }))).status).toBe(200)
+  })
+
+  it('should be disabled without an auth token', async () => {
+    const response = await handleInboundSms(fakeTwilioPost(inbound), deps({ authToken: null }))
+    expect(response.status).toBe(503)
+  })
+
+  it('should reply to each submission outcome', async () => {
+    const reply = async (outcome: SubmissionResult, body = inbound.Body) => {
+      result = outcome
+      const response = await handleInboundSms(fakeTwilioPost({ ...inbound, Body: body }), deps())
+      return response.text()
+    }
+
+    expect(await reply({ status: 'created', message: { id: '1' } as Message, pending: true, rateLimit }))
+      .toBe(twimlMessage(SMS_REPLIES.pending))
+    expect(await reply({ status: 'duplicate', message: { id: '1' } as Message, pending: false }))
+      .toBe(twimlMessage(SMS_REPLIES.created))
+    expect(await reply({ status: 'invalid', error: 'x' }, ''))
+      .toBe(twimlMessage(SMS_REPLIES.empty))
+    expect(await reply({ status: 'invalid', error: 'x' }, 'a'.repeat(300)))
+      .toBe(twimlMessage(SMS_REPLIES.tooLong))
+    expect(await reply({ status: 'rejected', error: 'This message cannot be shared here.' }))
+      .toBe(twimlMessage('This message cannot be shared here.'))
+    expect(await reply({ status: 'rate_limited', rateLimit: { ...rateLimit, allowed: false } }))
+      .toBe(twimlMessage(SMS_REPLIES.rateLimited))
+    expect(await reply({ status: 'failed', error: 'x' }))
+      .toBe(twimlMessage(SMS_REPLIES.failed))
+  })
+})
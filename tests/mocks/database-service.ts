@@ -111,6 +111,25 @@ export class MockDatabaseService {
     return filtered
   }
 
+  /**
+   * Fetch Messages By IDs
+   *
+   * Mock implementation of lookup by ID.
+   */
+  async fetchMessagesByIds(ids: string[]): Promise<GriefMessage[]> {
+    if (this.shouldFail) {
+      if (this.maxFailures === 0 || this.failureCount < this.maxFailures) {
+        this.failureCount++
+        throw new Error('Mock database error')
+      }
+      this.shouldFail = false
+    }
+
+    return this.messages
+      .filter((msg) => msg.approved && !msg.deleted_at)
+      .filter((msg) => ids.includes(msg.id))
+  }
+
   /**
    * Get Max Message ID
    *
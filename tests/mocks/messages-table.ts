@@ -0,0 +1,142 @@
+/**
+ * Mock Messages Table
+ *
+ * In-memory messages table for services that scan and update messages
+ * directly (embedding jobs, re-embedding, constellations). Queries chain
+ * like PostgREST and run when awaited; update() changes the given rows
+ * in place, so tests can inspect them afterwards.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Message } from '@/types/database'
+
+/** A messages row with the columns a test needs (id always) */
+export type MessageRow = Pick<Message, 'id'> & Partial<Message>
+
+/** The columns the embedding services read and write */
+export type EncodedMessageRow = Pick<Message, 'id' | 'content' | 'deleted_at' | 'semantic_data' | 'semantic_tags'>
+
+interface QueryResult<T> {
+  data: T[] | null
+  error: null
+}
+
+class MessagesTableQuery<T extends MessageRow> implements PromiseLike<QueryResult<T>> {
+  private rows: T[]
+  private filters: Array<(row: T) => boolean> = []
+  private changes: Partial<T> | null = null
+  private ascending?: boolean
+  private limitCount?: number
+
+  constructor(rows: T[]) {
+    this.rows = rows
+  }
+
+  select() {
+    return this
+  }
+
+  update(values: Partial<T>) {
+    this.changes = values
+    return this
+  }
+
+  eq(column: keyof T, value: unknown) {
+    this.filters.push((row) => row[column] === value)
+    return this
+  }
+
+  is(column: keyof T, value: null) {
+    this.filters.push((row) => (row[column] ?? null) === value)
+    return this
+  }
+
+  gt(column: keyof T, value: string) {
+    this.filters.push((row) => parseInt(String(row[column]), 10) > parseInt(value, 10))
+    return this
+  }
+
+  in(column: keyof T, values: string[]) {
+    this.filters.push((row) => values.includes(String(row[column])))
+    return this
+  }
+
+  // Only the backfill upgrade filter: untagged, unembedded or another schema version
+  or(expression: string) {
+    const version = expression.match(/neq\."(.+)"$/)![1]
+    this.filters.push((row) => (
+      !row.semantic_data || !row.semantic_tags || row.semantic_data.schema_version !== version
+    ))
+    return this
+  }
+
+  // Only by id, the column every scan pages on
+  order(_column: 'id', options?: { ascending?: boolean }) {
+    this.ascending = options?.ascending ?? true
+    return this
+  }
+
+  limit(count: number) {
+    this.limitCount = count
+    return this
+  }
+
+  then<TResult1 = QueryResult<T>, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult<T>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected)
+  }
+
+  private run(): QueryResult<T> {
+    const matching = this.rows.filter((row) => this.filters.every((f) => f(row)))
+
+    if (this.changes) {
+      matching.forEach((row) => Object.assign(row, this.changes))
+      return { data: null, error: null }
+    }
+
+    if (this.ascending !== undefined) {
+      const direction = this.ascending ? 1 : -1
+      matching.sort((a, b) => direction * (parseInt(a.id, 10) - parseInt(b.id, 10)))
+    }
+
+    return { data: matching.slice(0, this.limitCount), error: null }
+  }
+}
+
+/**
+ * Create a client whose messages table holds the given rows
+ *
+ * @param rows - Table contents (updated in place)
+ * @returns Client for the service under test
+ *
+ * @example
+ * const rows = createMessageRows(3)
+ * await backfillEmbeddings(createMessagesTable(rows), store)
+ */
+export function createMessagesTable<T extends MessageRow>(rows: T[]): SupabaseClient<Database> {
+  return {
+    from: () => new MessagesTableQuery(rows)
+  } as unknown as SupabaseClient<Database>
+}
+
+/**
+ * Create numbered rows (ids from 1), each with its own copy of the encoding
+ *
+ * @param count - Rows to create
+ * @param encoding - semantic_data and semantic_tags of every row (default: none)
+ * @returns Rows for createMessagesTable
+ */
+export function createMessageRows(
+  count: number,
+  encoding: Pick<Message, 'semantic_data' | 'semantic_tags'> = { semantic_data: null, semantic_tags: null }
+): EncodedMessageRow[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: (i + 1).toString(),
+    content: `Message ${i + 1}`,
+    deleted_at: null,
+    semantic_data: encoding.semantic_data && { ...encoding.semantic_data },
+    semantic_tags: encoding.semantic_tags && { ...encoding.semantic_tags }
+  }))
+}
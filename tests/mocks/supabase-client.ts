@@ -44,6 +44,7 @@ class MockTableQuery {
   private limitCount?: number
   private orderField?: string
   private orderAsc?: boolean
+  private columns?: string[]
   private isInsert: boolean = false
   private insertData?: any
   private shouldFailFn: () => boolean
@@ -54,6 +55,11 @@ class MockTableQuery {
   }
 
   select(columns?: string, options?: any) {
+    // Only return selected columns, like PostgREST
+    if (columns && columns.trim() !== '*') {
+      this.columns = columns.split(',').map(c => c.trim())
+    }
+
     // Check for count query
     if (options?.count === 'exact' && options?.head === true) {
       return this
@@ -101,6 +107,14 @@ class MockTableQuery {
     return this
   }
 
+  in(column: string, values: unknown[]) {
+    this.filters.push((msg) => {
+      if (column === 'id') return values.map(String).includes(msg.id)
+      return true
+    })
+    return this
+  }
+
   limit(count: number) {
     this.limitCount = count
     return this
@@ -134,12 +148,13 @@ class MockTableQuery {
         content: this.insertData.content,
         created_at: this.insertData.created_at || new Date().toISOString(),
         approved: this.insertData.approved ?? true,
-        deleted_at: this.insertData.deleted_at || null
+        deleted_at: this.insertData.deleted_at || null,
+        semantic_data: this.insertData.semantic_data ?? null
       }
 
       this.data.push(newMessage as GriefMessage)
 
-      return { data: newMessage, error: null }
+      return { data: this.project(newMessage as GriefMessage), error: null }
     }
 
     // Apply filters
@@ -151,7 +166,7 @@ class MockTableQuery {
     }
 
     // Get first item
-    return { data: filtered[0] || null, error: null }
+    return { data: filtered[0] ? this.project(filtered[0]) : null, error: null }
   }
 
   async then(resolve: any) {
@@ -180,13 +195,7 @@ class MockTableQuery {
     }
 
     // Convert to database format
-    const data = filtered.map(msg => ({
-      id: msg.id,
-      content: msg.content,
-      created_at: msg.created_at,
-      approved: msg.approved,
-      deleted_at: msg.deleted_at
-    }))
+    const data = filtered.map(msg => this.project(msg))
 
     return resolve({
       data: isCountQuery ? null : data,
@@ -195,6 +204,23 @@ class MockTableQuery {
     })
   }
 
+  private project(msg: GriefMessage): Record<string, unknown> {
+    const row: Record<string, unknown> = {
+      id: msg.id,
+      content: msg.content,
+      created_at: msg.created_at,
+      approved: msg.approved,
+      deleted_at: msg.deleted_at,
+      semantic_data: msg.semantic_data ?? null
+    }
+
+    if (!this.columns) {
+      return row
+    }
+
+    return Object.fromEntries(this.columns.map(column => [column, row[column]]))
+  }
+
   private applyFilters(): GriefMessage[] {
     return this.data.filter(msg => {
       return this.filters.every(filter => filter(msg))
@@ -7,9 +7,12 @@
 
 import { describe, it, expect, beforeEach } from 'vitest'
 import { ClusterSelector } from '@/lib/services/cluster-selector'
-import type { MessagePoolConfig } from '@/types/grief-messages'
+import type { GriefMessage, MessagePoolConfig } from '@/types/grief-messages'
 import { createTestMessages, createTestMessage } from '../mocks/database-service'
 import { DEFAULT_CONFIG } from '@/lib/config/message-pool-config'
+import { SimilarityIndex } from '@/lib/utils/similarity-index'
+import { createSyntheticMessages } from '../helpers/synthetic-messages'
+import { ExposureLedger, LocalExposureStore } from '@/lib/services/exposure-ledger'
 
 describe('ClusterSelector', () => {
   let selector: ClusterSelector
@@ -190,6 +193,24 @@ describe('ClusterSelector', () => {
       expect(related.length).toBeGreaterThan(0)
       expect(related.length).toBeLessThanOrEqual(config.clusterSize - 1)
     })
+
+    it('should select the same similarities with a similarity index', () => {
+      const messages = createSyntheticMessages(400, 17)
+      const index = new SimilarityIndex(config.similarity)
+      index.applyChange({ removed: [], added: messages.slice(0, 350) })
+      const indexed = new ClusterSelector(config, index)
+
+      // Includes 50 messages the index does not hold
+      const candidates = messages.slice(1)
+      const priorityIds = new Set([messages[20].id, messages[380].id])
+
+      const expected = selector.selectRelatedMessages(messages[0], candidates, messages[3].id, priorityIds)
+      const actual = indexed.selectRelatedMessages(messages[0], candidates, messages[3].id, priorityIds)
+
+      expect(actual.map((r) => r.message.id).slice(0, 3)).toEqual(expected.map((r) => r.message.id).slice(0, 3))
+      actual.forEach((r, i) => expect(r.similarity).toBeCloseTo(expected[i].similarity, 9))
+      expect(actual.every((r) => candidates.includes(r.message))).toBe(true)
+    })
   })
 
   describe('selectNextMessage', () => {
@@ -502,4 +523,176 @@ describe('ClusterSelector', () => {
       expect(stats.maxSimilarity).toBe(0)
     })
   })
+
+  describe('diversity (MMR)', () => {
+    const DAY = 24 * 60 * 60 * 1000
+    const baseTime = new Date('2025-03-01T00:00:00Z')
+
+    /**
+     * A focus, ten near-duplicates of each other posted three days
+     * later, and twenty messages spread over the two months before it
+     */
+    function createNearDuplicates() {
+      const at = (days: number, minutes = 0) => new Date(baseTime.getTime() + days * DAY + minutes * 60 * 1000)
+      const focus = createTestMessage(1, 'x'.repeat(140), baseTime)
+      const duplicates = Array.from({ length: 10 }, (_, i) => createTestMessage(2 + i, 'x'.repeat(140), at(3, i)))
+      const varied = Array.from({ length: 20 }, (_, i) => createTestMessage(20 + i, 'x'.repeat(140), at(-4 - i * 3)))
+      return { focus, candidates: [...duplicates, ...varied] }
+    }
+
+    function averageSimilarity(related: Array<{ similarity: number }>): number {
+      return related.reduce((sum, r) => sum + r.similarity, 0) / related.length
+    }
+
+    function select(lambda: number, focus: GriefMessage, candidates: GriefMessage[], index?: SimilarityIndex) {
+      const mmrConfig = { ...config, similarity: { ...config.similarity, mmrLambda: lambda } }
+      return new ClusterSelector(mmrConfig, index ?? null).selectRelatedMessages(focus, candidates, null, new Set())
+    }
+
+    it('should take the most similar messages at lambda 1', () => {
+      const { focus, candidates } = createNearDuplicates()
+
+      const related = select(1, focus, candidates)
+
+      expect(related.slice(0, 10).map((r) => r.message.id).sort()).toEqual(
+        candidates.slice(0, 10).map((m) => m.id).sort()
+      )
+    })
+
+    it('should trade a little similarity for a more diverse cluster', () => {
+      const { focus, candidates } = createNearDuplicates()
+
+      const topN = select(1, focus, candidates)
+      const mmr = select(0.5, focus, candidates)
+
+      const diversity = (related: typeof topN) =>
+        selector.calculateClusterDiversity([focus, ...related.map((r) => r.message)])
+
+      expect(mmr).toHaveLength(topN.length)
+      expect(mmr.filter((r) => Number(r.message.id) >= 20).length).toBeGreaterThan(2)
+      expect(diversity(mmr)).toBeGreaterThan(diversity(topN) + 0.1)
+      expect(averageSimilarity(mmr)).toBeGreaterThan(averageSimilarity(topN) - 0.15)
+    })
+
+    it('should improve diversity across a synthetic working set', () => {
+      const messages = createSyntheticMessages(300, 11)
+      let topNDiversity = 0
+      let mmrDiversity = 0
+      let topNSimilarity = 0
+      let mmrSimilarity = 0
+
+      for (const focus of messages.slice(0, 20)) {
+        const candidates = messages.filter((m) => m.id !== focus.id)
+        const topN = select(1, focus, candidates)
+        const mmr = select(0.7, focus, candidates)
+
+        topNDiversity += selector.calculateClusterDiversity([focus, ...topN.map((r) => r.message)])
+        mmrDiversity += selector.calculateClusterDiversity([focus, ...mmr.map((r) => r.message)])
+        topNSimilarity += averageSimilarity(topN)
+        mmrSimilarity += averageSimilarity(mmr)
+      }
+
+      expect(mmrDiversity).toBeGreaterThan(topNDiversity)
+      expect(mmrSimilarity / 20).toBeGreaterThan(topNSimilarity / 20 - 0.05)
+    })
+
+    it('should select the same messages with or without the index', () => {
+      const messages = createSyntheticMessages(200, 5)
+      const index = new SimilarityIndex(config.similarity)
+      index.applyChange({ removed: [], added: messages })
+
+      const focus = messages[0]
+      const candidates = messages.slice(1)
+
+      expect(select(0.6, focus, candidates, index).map((r) => r.message.id)).toEqual(
+        select(0.6, focus, candidates).map((r) => r.message.id)
+      )
+    })
+
+    it('should still keep the previous focus and prefer priority messages', () => {
+      const { focus, candidates } = createNearDuplicates()
+      const mmrConfig = { ...config, similarity: { ...config.similarity, mmrLambda: 0.3 } }
+      const priorityIds = new Set([candidates[3].id, candidates[25].id])
+
+      const related = new ClusterSelector(mmrConfig).selectRelatedMessages(
+        focus,
+        candidates,
+        candidates[0].id,
+        priorityIds
+      )
+
+      expect(related[0]).toEqual({ message: candidates[0], similarity: 1.0 })
+      expect(related.slice(1, 3).map((r) => r.message.id).sort()).toEqual([...priorityIds].sort())
+      expect(related).toHaveLength(config.clusterSize - 1)
+    })
+  })
+
+  describe('fairness', () => {
+    /**
+     * Ledger in which each listed message was shown `times` times in a role
+     */
+    async function ledgerWith(ids: string[], role: 'focus' | 'related', times: number) {
+      const store = new LocalExposureStore(null)
+      await store.record(ids.map((messageId) => ({
+        messageId,
+        focus: role === 'focus' ? times : 0,
+        related: role === 'related' ? times : 0,
+        next: 0,
+        lastShownAt: '2025-01-01T00:00:00.000Z'
+      })))
+      const ledger = new ExposureLedger(store)
+      await ledger.load(ids)
+      return ledger
+    }
+
+    function fairConfig(weight: number): MessagePoolConfig {
+      return { ...config, fairness: { weight, ledger: 'local' } }
+    }
+
+    it('should relate messages shown less often', async () => {
+      const messages = createTestMessages(30)
+      const focus = messages[0]
+      const candidates = messages.slice(1)
+      const overexposed = candidates.slice(0, 11).map((m) => m.id)
+      const ledger = await ledgerWith(overexposed, 'related', 5)
+
+      const unfair = new ClusterSelector(fairConfig(0), null, ledger).selectRelatedMessages(focus, candidates, null, new Set())
+      const fair = new ClusterSelector(fairConfig(0.5), null, ledger).selectRelatedMessages(focus, candidates, null, new Set())
+
+      expect(unfair.map((r) => r.message.id).sort()).toEqual([...overexposed].sort())
+      expect(fair).toHaveLength(11)
+      expect(fair.every((r) => !overexposed.includes(r.message.id))).toBe(true)
+
+      // Similarities are reported unboosted, highest first
+      expect(fair.map((r) => r.similarity)).toEqual([...fair.map((r) => r.similarity)].sort((a, b) => b - a))
+      expect(fair[0].similarity).toBeLessThanOrEqual(Math.min(...unfair.map((r) => r.similarity)))
+    })
+
+    it('should choose as next a message seldom the focus', async () => {
+      const [focus, often, seldom] = createTestMessages(3)
+      const related = [{ message: often, similarity: 0.8 }, { message: seldom, similarity: 0.7 }]
+      const ledger = await ledgerWith([often.id], 'focus', 3)
+
+      expect(new ClusterSelector(fairConfig(0), null, ledger).selectNextMessage(focus, related, [], null, new Set())).toBe(often)
+      expect(new ClusterSelector(fairConfig(0.3), null, ledger).selectNextMessage(focus, related, [], null, new Set())).toBe(seldom)
+      expect(new ClusterSelector(fairConfig(0.3)).selectNextMessage(focus, related, [], null, new Set())).toBe(often)
+    })
+
+    it('should keep the previous focus and priority messages', async () => {
+      const messages = createTestMessages(30)
+      const focus = messages[0]
+      const candidates = messages.slice(1)
+      const ledger = await ledgerWith(candidates.slice(0, 11).map((m) => m.id), 'related', 5)
+
+      const related = new ClusterSelector(fairConfig(1), null, ledger).selectRelatedMessages(
+        focus,
+        candidates,
+        candidates[0].id,
+        new Set([candidates[1].id])
+      )
+
+      expect(related[0]).toEqual({ message: candidates[0], similarity: 1.0 })
+      expect(related[1].message).toBe(candidates[1])
+    })
+  })
 })
@@ -0,0 +1,331 @@
+/**
+ * Constellation Tests
+ *
+ * Tests cover:
+ * - Clustering into constellations with representatives and cohesion
+ * - Names from majority tags, strongest dimension, or numbering
+ * - Ids and names kept across rebuilds
+ * - Builds over the messages table, by schema version, and dry runs
+ * - The walk: staying in a constellation and crossing to the nearest
+ * - The theme tour labelling clusters and surviving a missing store
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Message, SemanticTags } from '@/types/database'
+import type { Constellation, GriefMessage } from '@/types/grief-messages'
+import {
+  buildConstellations,
+  clusterMessages,
+  defaultConstellationCount,
+  MemoryConstellationStore,
+  type ClusterableMessage,
+  type ConstellationStore
+} from '@/lib/services/constellations'
+import { ConstellationWalk } from '@/lib/services/constellation-walk'
+import { MessageLogicService } from '@/lib/services/message-logic-service'
+import { DEFAULT_CONFIG } from '@/lib/config/message-pool-config'
+import { seededRandom } from '@/lib/utils/random'
+import { createTestMessages } from '../mocks/database-service'
+import { createMockSupabaseClient } from '../mocks/supabase-client'
+import { createMessagesTable } from '../mocks/messages-table'
+
+type Row = Pick<Message, 'id' | 'approved' | 'deleted_at' | 'semantic_data' | 'semantic_tags'>
+
+function tags(relationship: string | null, tone: string | null): SemanticTags {
+  return {
+    relationship: relationship ? { value: relationship, confidence: 0.9 } : null,
+    loss_kind: null,
+    tone: tone ? { value: tone, confidence: 0.9 } : null,
+    tagger: 'keyword-v1',
+    generated_at: '2026-01-01T00:00:00.000Z'
+  } as SemanticTags
+}
+
+/** Unit vector along one dimension of a 10-dimensional embedding */
+function axis(dimension: number, sign = 1): number[] {
+  return Array.from({ length: 10 }, (_, i) => (i === dimension ? sign : 0))
+}
+
+/**
+ * Messages scattered around a direction, ids from startId
+ */
+function around(
+  direction: number[],
+  count: number,
+  startId: number,
+  messageTags: SemanticTags | null = null,
+  seed = startId
+): ClusterableMessage[] {
+  const random = seededRandom(seed)
+  return Array.from({ length: count }, (_, i) => ({
+    id: (startId + i).toString(),
+    embedding: direction.map((v) => v + (random() - 0.5) * 0.3),
+    tags: messageTags
+  }))
+}
+
+let nextId = 0
+const createId = () => `c${++nextId}`
+
+describe('clusterMessages', () => {
+  it('should group messages into constellations, largest first', () => {
+    const messages = [
+      ...around(axis(7), 6, 1, tags('parent', 'longing')),
+      ...around(axis(9), 10, 101, tags('friend', null)),
+      ...around(axis(2), 4, 201, tags(null, 'anger'))
+    ]
+
+    const constellations = clusterMessages(messages, 'themes-v4', { k: 3, createId })
+
+    expect(constellations.map((c) => c.name)).toEqual(['Friends', 'Parents · Longing', 'Anger'])
+    expect(constellations.map((c) => c.size)).toEqual([10, 6, 4])
+    expect(constellations[0].members.map((m) => Number(m.message_id)).sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 10 }, (_, i) => 101 + i)
+    )
+  })
+
+  it('should choose the member nearest the centroid as representative', () => {
+    const messages = around(axis(7), 5, 1)
+    const [constellation] = clusterMessages(messages, 'themes-v4', { k: 1, createId })
+
+    const best = constellation.members.reduce((a, b) => (b.similarity > a.similarity ? b : a))
+    expect(constellation.representative_id).toBe(best.message_id)
+    expect(constellation.members[0].message_id).toBe(best.message_id)
+    expect(constellation.cohesion).toBeGreaterThan(0.9)
+    expect(constellation.cohesion).toBeLessThanOrEqual(1)
+  })
+
+  it('should name untagged constellations by their strongest dimension', () => {
+    const constellations = clusterMessages(
+      [...around(axis(1, -1), 5, 1), ...around(axis(9), 5, 101)],
+      'themes-v4',
+      { k: 2, createId }
+    )
+
+    expect(constellations.map((c) => c.name).sort()).toEqual(['Despair', 'Strong anger'])
+  })
+
+  it('should number constellations of latent schemas and repeated names', () => {
+    const latent = clusterMessages(
+      [...around(axis(0), 6, 1), ...around(axis(5), 4, 101)],
+      'openai:text-embedding-3-small',
+      { k: 2, createId }
+    )
+    expect(latent.map((c) => c.name)).toEqual(['Constellation 1', 'Constellation 2'])
+
+    const repeated = clusterMessages(
+      [...around(axis(0), 6, 1, tags('pet', null)), ...around(axis(5), 4, 101, tags('pet', null))],
+      'themes-v4',
+      { k: 2, createId }
+    )
+    expect(repeated.map((c) => c.name)).toEqual(['Animal companions', 'Animal companions 2'])
+  })
+
+  it('should keep ids and names when a rebuild finds the same constellations', async () => {
+    const store = new MemoryConstellationStore()
+    const first = clusterMessages(
+      [...around(axis(7), 6, 1), ...around(axis(9), 6, 101)],
+      'themes-v4',
+      { k: 2, createId }
+    )
+    await store.replace('themes-v4', first.map((c, i) => ({ ...c, name: `Named ${i}` })))
+
+    const second = clusterMessages(
+      [...around(axis(7), 8, 1, null, 50), ...around(axis(9), 9, 101, null, 60), ...around(axis(3), 10, 301)],
+      'themes-v4',
+      { k: 3, previous: await store.load('themes-v4'), createId }
+    )
+
+    const byId = new Map(second.map((c) => [c.id, c]))
+    expect(byId.get(first[0].id)?.name).toBe('Named 0')
+    expect(byId.get(first[1].id)?.name).toBe('Named 1')
+    expect(second.filter((c) => c.id !== first[0].id && c.id !== first[1].id)).toHaveLength(1)
+  })
+
+  it('should size the default count to the archive', () => {
+    expect(defaultConstellationCount(1)).toBe(1)
+    expect(defaultConstellationCount(128)).toBe(8)
+    expect(defaultConstellationCount(100000)).toBe(24)
+    expect(clusterMessages([], 'themes-v4')).toEqual([])
+  })
+})
+
+function toRows(messages: ClusterableMessage[], schemaVersion: string, overrides: Partial<Row> = {}): Row[] {
+  return messages.map((m) => ({
+    id: m.id,
+    approved: true,
+    deleted_at: null,
+    semantic_data: { embedding: m.embedding, generated_at: '2026-01-01T00:00:00.000Z', schema_version: schemaVersion },
+    semantic_tags: m.tags,
+    ...overrides
+  }))
+}
+
+describe('buildConstellations', () => {
+  const rows = [
+    ...toRows(around(axis(7), 7, 1), 'themes-v4'),
+    ...toRows(around(axis(9), 7, 101), 'themes-v4'),
+    ...toRows(around(axis(3), 3, 201), 'themes-v3'),
+    ...toRows(around(axis(3), 2, 301), 'themes-v4', { approved: false }),
+    ...toRows(around(axis(3), 2, 401), 'themes-v4', { deleted_at: '2026-01-02T00:00:00.000Z' })
+  ]
+
+  it('should cluster approved messages of one schema across pages and store them', async () => {
+    const store = new MemoryConstellationStore()
+    const report = await buildConstellations(createMessagesTable(rows), {
+      schemaVersion: 'themes-v4',
+      store,
+      k: 2,
+      pageSize: 4,
+      createId
+    })
+
+    expect(report.scanned).toBe(17)
+    expect(report.clustered).toBe(14)
+    expect(report.carriedOver).toBe(0)
+
+    const stored = await store.load('themes-v4')
+    expect(stored.map((c) => c.size).sort()).toEqual([7, 7])
+    const memberships = await store.memberships(['1', '101', '201'])
+    expect(memberships.get('1')).not.toBe(memberships.get('101'))
+    expect(memberships.has('201')).toBe(false)
+  })
+
+  it('should carry constellations over on the next build', async () => {
+    const store = new MemoryConstellationStore()
+    const client = createMessagesTable(rows)
+    const first = await buildConstellations(client, { schemaVersion: 'themes-v4', store, k: 2, createId })
+    const second = await buildConstellations(client, { schemaVersion: 'themes-v4', store, k: 2, createId })
+
+    expect(second.carriedOver).toBe(2)
+    expect(second.constellations.map((c) => c.id)).toEqual(first.constellations.map((c) => c.id))
+  })
+
+  it('should not write in a dry run', async () => {
+    const store = new MemoryConstellationStore()
+    const report = await buildConstellations(createMessagesTable(rows), {
+      schemaVersion: 'themes-v4',
+      store,
+      k: 2,
+      dryRun: true
+    })
+
+    expect(report.constellations).toHaveLength(2)
+    expect(await store.load()).toEqual([])
+  })
+})
+
+function message(id: string): GriefMessage {
+  return { id, content: `Message ${id}`, created_at: '2026-01-01T00:00:00.000Z', approved: true, deleted_at: null }
+}
+
+function constellation(id: string, centroid: number[], representativeId: string | null = null): Constellation {
+  return { id, name: id, schemaVersion: 'themes-v4', centroid, representativeId, size: 0, cohesion: 1 }
+}
+
+describe('ConstellationWalk', () => {
+  function createWalk() {
+    const walk = new ConstellationWalk([
+      constellation('a', axis(0)),
+      constellation('near', [0.8, 0.6, 0, 0, 0, 0, 0, 0, 0, 0], '22'),
+      constellation('far', axis(0, -1))
+    ])
+    walk.assign(new Map([
+      ['1', 'a'], ['2', 'a'], ['3', 'a'],
+      ['21', 'near'], ['22', 'near'],
+      ['31', 'far']
+    ]))
+    return walk
+  }
+
+  const candidates = ['1', '2', '3', '21', '22', '31', '40'].map(message)
+  const related = (...ids: string[]) => ids.map((id) => ({ message: message(id), similarity: 0.5 }))
+  const step = (
+    focus: GriefMessage,
+    relatedMessages: Array<{ message: GriefMessage; similarity: number }>,
+    previousFocusId: string | null
+  ) => ({ focus, related: relatedMessages, candidates, previousFocusId, priorityIds: new Set<string>() })
+
+  it('should stay in the focus\'s constellation while it has unseen members', () => {
+    const walk = createWalk()
+
+    expect(walk.selectNext(step(message('1'), related('31', '3'), null))?.id).toBe('3')
+    expect(walk.selectNext(step(message('3'), related('31'), '1'))?.id).toBe('2')
+  })
+
+  it('should cross to the nearest unvisited constellation at its representative', () => {
+    const walk = createWalk()
+    walk.selectNext(step(message('1'), [], null))
+    walk.selectNext(step(message('2'), [], '1'))
+
+    expect(walk.selectNext(step(message('3'), [], '2'))?.id).toBe('22')
+    expect(walk.selectNext(step(message('22'), [], '3'))?.id).toBe('21')
+    expect(walk.selectNext(step(message('21'), [], '22'))?.id).toBe('31')
+  })
+
+  it('should have no opinion about unclustered focuses', () => {
+    const walk = createWalk()
+
+    expect(walk.selectNext(step(message('40'), [], null))).toBeNull()
+    expect(walk.constellationOf('40')).toBeNull()
+  })
+
+  it('should forget messages that left the working set', () => {
+    const walk = createWalk()
+    walk.onWorkingSetChange({ removed: ['2', '3'], added: [] })
+
+    expect(walk.constellationOf('2')).toBeNull()
+    expect(walk.selectNext(step(message('1'), [], null))?.id).toBe('22')
+  })
+})
+
+describe('MessageLogicService theme tour', () => {
+  let service: MessageLogicService
+
+  afterEach(() => {
+    service?.cleanup()
+  })
+
+  function createClient() {
+    const client = createMockSupabaseClient()
+    client.setMessages(createTestMessages(40))
+    return client as unknown as SupabaseClient<Database>
+  }
+
+  const config = { ...DEFAULT_CONFIG, workingSetSize: 30, clusterSize: 5, traversalStrategy: 'theme-tour' as const }
+
+  it('should label clusters with the focus\'s constellation', async () => {
+    const store = new MemoryConstellationStore()
+    await store.replace('themes-v4', [{
+      id: 'c1',
+      name: 'Parents',
+      centroid: axis(7),
+      representative_id: '1',
+      size: 40,
+      cohesion: 1,
+      members: createTestMessages(40).map((m) => ({ message_id: m.id, similarity: 1 }))
+    }])
+
+    service = new MessageLogicService(createClient(), config, store)
+    await service.initialize()
+
+    const cluster = await service.getNextCluster()
+    expect(cluster?.constellation).toEqual({ id: 'c1', name: 'Parents' })
+  })
+
+  it('should walk by similarity when constellations cannot be loaded', async () => {
+    const store: ConstellationStore = {
+      load: async () => { throw new Error('relation "constellations" does not exist') },
+      memberships: async () => new Map(),
+      replace: async () => {}
+    }
+
+    service = new MessageLogicService(createClient(), config, store)
+    await service.initialize()
+
+    const cluster = await service.getNextCluster()
+    expect(cluster?.next).not.toBeNull()
+    expect(cluster?.constellation).toBeNull()
+  })
+})
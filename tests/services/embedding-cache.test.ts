@@ -0,0 +1,221 @@
+/**
+ * Embedding Cache Tests
+ *
+ * Tests cover:
+ * - Content normalization and hashing
+ * - MemoryEmbeddingCache hits and eviction
+ * - PostgresEmbeddingCache queries (fake client)
+ * - CachedEmbeddingProvider reuse, hit/miss counts, and failure handling
+ * - Backend selection from configuration
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  CachedEmbeddingProvider,
+  MemoryEmbeddingCache,
+  PostgresEmbeddingCache,
+  createCachedEmbeddingProvider,
+  type EmbeddingCache
+} from '@/lib/services/embedding-cache'
+import { contentHash, normalizeContent } from '@/lib/embeddings/content-hash'
+import { DEFAULT_EMBEDDING_CONFIG } from '@/lib/config/embedding-config'
+import { THEMES_V3_SCHEMA } from '@/lib/embeddings/schema'
+import type { EmbeddingProvider, Encoding } from '@/lib/embeddings/types'
+
+const EMBEDDING = [0.5, -0.2, 0.7, 0.1, 0.9, -0.4, 0.3, 0.6, 0.2, 0]
+
+const ENCODING: Encoding = {
+  embedding: EMBEDDING,
+  tags: { relationship: { value: 'parent', confidence: 0.9 }, loss_kind: null, tone: null }
+}
+
+function createProvider(encode: () => Promise<Encoding> = async () => ENCODING) {
+  const provider = {
+    id: 'anthropic:claude-test',
+    schema: THEMES_V3_SCHEMA,
+    embed: async () => (await encode()).embedding,
+    encode: vi.fn(encode)
+  }
+  return provider satisfies EmbeddingProvider
+}
+
+describe('normalizeContent', () => {
+  it('should treat case, spacing, quotes and end punctuation as the same message', () => {
+    const variants = ['I miss you', 'i miss you.', '  I  miss\nyou!! ', '"I miss you…"', '“I miss you”']
+
+    expect(new Set(variants.map(normalizeContent))).toEqual(new Set(['i miss you']))
+    expect(new Set(variants.map(contentHash)).size).toBe(1)
+  })
+
+  it('should keep punctuation inside the text', () => {
+    expect(normalizeContent("I can’t")).toBe("i can't")
+    expect(contentHash("I can't")).not.toBe(contentHash('I cant'))
+  })
+
+  it('should keep messages that are only punctuation', () => {
+    expect(normalizeContent(' ... ')).toBe('...')
+    expect(contentHash('...')).not.toBe(contentHash('!!!'))
+  })
+
+  it('should hash to SHA-256 hex', () => {
+    expect(contentHash('I miss you')).toMatch(/^[0-9a-f]{64}$/)
+  })
+})
+
+describe('MemoryEmbeddingCache', () => {
+  it('should return stored encodings per schema version and count hits', async () => {
+    const cache = new MemoryEmbeddingCache()
+    await cache.set('hash', 'themes-v3', 'anthropic:claude-test', ENCODING)
+
+    expect(await cache.get('hash', 'themes-v3', 'anthropic:claude-test')).toEqual(ENCODING)
+    expect(await cache.get('hash', 'themes-v3', 'anthropic:claude-test')).toEqual(ENCODING)
+    expect(await cache.get('hash', 'openai:text-embedding-3-small', 'anthropic:claude-test')).toBeNull()
+    expect(await cache.summary()).toEqual({ entries: 1, hits: 2 })
+  })
+
+  it('should miss for another model, then hold that model\'s entry', async () => {
+    const cache = new MemoryEmbeddingCache()
+    const replacement = { embedding: EMBEDDING.map((v) => -v), tags: null }
+    await cache.set('hash', 'themes-v3', 'anthropic:old-model', ENCODING)
+
+    expect(await cache.get('hash', 'themes-v3', 'anthropic:new-model')).toBeNull()
+
+    await cache.set('hash', 'themes-v3', 'anthropic:new-model', replacement)
+    expect(await cache.get('hash', 'themes-v3', 'anthropic:new-model')).toEqual(replacement)
+    expect(await cache.get('hash', 'themes-v3', 'anthropic:old-model')).toBeNull()
+    expect(await cache.summary()).toEqual({ entries: 1, hits: 1 })
+  })
+
+  it('should drop the least recently used entry', async () => {
+    const cache = new MemoryEmbeddingCache(2)
+    await cache.set('a', 'v', 'p', ENCODING)
+    await cache.set('b', 'v', 'p', ENCODING)
+    await cache.get('a', 'v', 'p')
+    await cache.set('c', 'v', 'p', ENCODING)
+
+    expect(await cache.get('a', 'v', 'p')).not.toBeNull()
+    expect(await cache.get('b', 'v', 'p')).toBeNull()
+    expect(await cache.get('c', 'v', 'p')).not.toBeNull()
+  })
+})
+
+describe('PostgresEmbeddingCache', () => {
+  it('should look up through hit_embedding_cache and validate the row', async () => {
+    const rpc = vi.fn(async () => ({
+      data: [{
+        embedding: EMBEDDING,
+        tags: { ...ENCODING.tags, tagger: 'anthropic:claude-test', generated_at: '2026-01-01T00:00:00.000Z' }
+      }],
+      error: null
+    }))
+    const cache = new PostgresEmbeddingCache({ rpc } as unknown as SupabaseClient<Database>)
+
+    expect(await cache.get('hash', 'themes-v3', 'anthropic:claude-test')).toEqual(ENCODING)
+    expect(rpc).toHaveBeenCalledWith('hit_embedding_cache', {
+      p_content_hash: 'hash',
+      p_schema_version: 'themes-v3',
+      p_provider_id: 'anthropic:claude-test'
+    })
+  })
+
+  it('should treat malformed rows as misses', async () => {
+    const rpc = async () => ({ data: [{ embedding: [1, 2], tags: null }], error: null })
+    const cache = new PostgresEmbeddingCache({ rpc } as unknown as SupabaseClient<Database>)
+
+    expect(await cache.get('hash', 'themes-v3', 'p')).toBeNull()
+  })
+
+  it('should replace the entry and stamp the tags', async () => {
+    const upsert = vi.fn(async () => ({ error: null }))
+    const client = { from: () => ({ upsert }) } as unknown as SupabaseClient<Database>
+    const cache = new PostgresEmbeddingCache(client, () => new Date('2026-01-01T00:00:00.000Z'))
+
+    await cache.set('hash', 'themes-v3', 'anthropic:claude-test', ENCODING)
+
+    expect(upsert).toHaveBeenCalledWith({
+      content_hash: 'hash',
+      schema_version: 'themes-v3',
+      provider_id: 'anthropic:claude-test',
+      embedding: EMBEDDING,
+      tags: { ...ENCODING.tags, tagger: 'anthropic:claude-test', generated_at: '2026-01-01T00:00:00.000Z' },
+      hits: 0,
+      last_hit_at: null
+    }, { onConflict: 'content_hash,schema_version' })
+  })
+
+  it('should read totals from embedding_cache_summary', async () => {
+    const rpc = async () => ({ data: [{ entries: '12', hits: '30' }], error: null })
+    const cache = new PostgresEmbeddingCache({ rpc } as unknown as SupabaseClient<Database>)
+
+    expect(await cache.summary()).toEqual({ entries: 12, hits: 30 })
+  })
+})
+
+describe('CachedEmbeddingProvider', () => {
+  let cache: MemoryEmbeddingCache
+
+  beforeEach(() => {
+    cache = new MemoryEmbeddingCache()
+  })
+
+  it('should call the provider once for near-identical messages', async () => {
+    const inner = createProvider()
+    const provider = new CachedEmbeddingProvider(inner, cache)
+
+    expect(await provider.encode('I miss you')).toEqual(ENCODING)
+    expect(await provider.encode('i miss you.')).toEqual(ENCODING)
+    expect(await provider.embed('I MISS YOU!')).toEqual(EMBEDDING)
+
+    expect(inner.encode).toHaveBeenCalledTimes(1)
+    expect(provider.stats()).toEqual({ hits: 2, misses: 1 })
+    expect(provider.id).toBe(inner.id)
+    expect(provider.schema).toBe(inner.schema)
+  })
+
+  it('should not cache failures or manipulated vectors', async () => {
+    const failing = new CachedEmbeddingProvider(createProvider(async () => { throw new Error('down') }), cache)
+    await expect(failing.encode('I miss you')).rejects.toThrow('down')
+
+    const dictated = new CachedEmbeddingProvider(
+      createProvider(async () => ({ embedding: new Array(10).fill(1), tags: null })),
+      cache
+    )
+    await expect(dictated.encode('I miss you')).rejects.toMatchObject({ reason: 'suspicious_output' })
+
+    expect(await cache.summary()).toEqual({ entries: 0, hits: 0 })
+  })
+
+  it('should embed anyway when the cache fails', async () => {
+    const broken: EmbeddingCache = {
+      get: async () => { throw new Error('cache down') },
+      set: async () => { throw new Error('cache down') },
+      summary: async () => ({ entries: 0, hits: 0 })
+    }
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const provider = new CachedEmbeddingProvider(createProvider(), broken)
+    expect(await provider.encode('I miss you')).toEqual(ENCODING)
+    expect(provider.stats()).toEqual({ hits: 0, misses: 1 })
+    expect(warn).toHaveBeenCalledTimes(2)
+
+    warn.mockRestore()
+  })
+})
+
+describe('createCachedEmbeddingProvider', () => {
+  const client = {} as SupabaseClient<Database>
+
+  it('should wrap network providers', () => {
+    expect(createCachedEmbeddingProvider(client, { ...DEFAULT_EMBEDDING_CONFIG, cache: 'memory' }))
+      .toBeInstanceOf(CachedEmbeddingProvider)
+  })
+
+  it('should leave the local provider and cache "none" unwrapped', () => {
+    expect(createCachedEmbeddingProvider(client, { ...DEFAULT_EMBEDDING_CONFIG, provider: 'local', cache: 'memory' }))
+      .not.toBeInstanceOf(CachedEmbeddingProvider)
+    expect(createCachedEmbeddingProvider(client, { ...DEFAULT_EMBEDDING_CONFIG, cache: 'none' }))
+      .not.toBeInstanceOf(CachedEmbeddingProvider)
+  })
+})
@@ -0,0 +1,284 @@
+/**
+ * Embedding Jobs Tests
+ *
+ * Tests cover:
+ * - Retry backoff schedule
+ * - MemoryEmbeddingJobStore claiming, leases and requeueing
+ * - EmbeddingWorker success, retry, and failure after maxAttempts
+ * - processEmbeddingJobs sharing one run between concurrent calls
+ * - Backfill of messages stored without semantic_data, or in an old schema
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  EmbeddingWorker,
+  MemoryEmbeddingJobStore,
+  backfillEmbeddings,
+  processEmbeddingJobs,
+  retryDelay
+} from '@/lib/services/embedding-jobs'
+import { DEFAULT_EMBEDDING_JOBS_CONFIG } from '@/lib/config/embedding-jobs-config'
+import { THEMES_V2_SCHEMA } from '@/lib/embeddings/schema'
+import { createMessageRows, createMessagesTable, type EncodedMessageRow } from '../mocks/messages-table'
+
+const EMBEDDING = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]
+
+const TAGS = {
+  relationship: null,
+  loss_kind: null,
+  tone: null,
+  tagger: 'keyword-v1',
+  generated_at: '2025-12-31T00:00:00.000Z'
+}
+
+describe('retryDelay', () => {
+  it('should double from the base delay up to the cap', () => {
+    const config = { baseDelayMs: 1000, maxDelayMs: 5000 }
+
+    expect([1, 2, 3, 4, 5].map((attempts) => retryDelay(attempts, config)))
+      .toEqual([1000, 2000, 4000, 5000, 5000])
+  })
+})
+
+describe('MemoryEmbeddingJobStore', () => {
+  let now: number
+  let store: MemoryEmbeddingJobStore
+
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T00:00:00.000Z')
+    store = new MemoryEmbeddingJobStore(() => now)
+  })
+
+  it('should not duplicate queued messages', async () => {
+    await store.enqueue(['1', '2'])
+    await store.enqueue(['2', '3'])
+
+    expect(await store.counts()).toEqual({ pending: 3, running: 0, failed: 0 })
+  })
+
+  it('should lease claimed jobs until the lease expires', async () => {
+    await store.enqueue(['1'])
+
+    const [job] = await store.claim(10, 1000)
+    expect(job).toMatchObject({ message_id: '1', status: 'running', attempts: 1 })
+    expect(await store.claim(10, 1000)).toHaveLength(0)
+
+    now += 1000
+    expect((await store.claim(10, 1000))[0].attempts).toBe(2)
+  })
+
+  it('should requeue failed jobs with fresh attempts', async () => {
+    await store.enqueue(['1'])
+    await store.claim(10, 1000)
+    await store.fail('1', 'boom')
+
+    expect(await store.claim(10, 1000)).toHaveLength(0)
+    expect(await store.requeueFailed()).toBe(1)
+    expect((await store.claim(10, 1000))[0].attempts).toBe(1)
+  })
+})
+
+describe('EmbeddingWorker', () => {
+  let now: number
+  let rows: EncodedMessageRow[]
+  let store: MemoryEmbeddingJobStore
+  let embedResults: Array<number[] | Error>
+
+  const config = { ...DEFAULT_EMBEDDING_JOBS_CONFIG, maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000 }
+
+  const createWorker = () => new EmbeddingWorker(createMessagesTable(rows), store, config, {
+    provider: {
+      id: 'test',
+      schema: THEMES_V2_SCHEMA,
+      embed: async () => {
+        const next = embedResults.length > 0 ? embedResults.shift()! : EMBEDDING
+        if (next instanceof Error) throw next
+        return next
+      }
+    },
+    now: () => new Date(now)
+  })
+
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T00:00:00.000Z')
+    rows = createMessageRows(3)
+    store = new MemoryEmbeddingJobStore(() => now)
+    embedResults = []
+  })
+
+  it('should write embeddings and remove finished jobs', async () => {
+    await store.enqueue(['1', '2', '3'])
+
+    const report = await createWorker().runOnce()
+
+    expect(report).toEqual({ claimed: 3, succeeded: 3, retried: 0, failed: 0 })
+    expect(rows[0].semantic_data).toEqual({
+      embedding: EMBEDDING,
+      generated_at: '2026-01-01T00:00:00.000Z',
+      schema_version: 'themes-v2',
+      model: 'test'
+    })
+    expect(rows[0].semantic_tags).toMatchObject({ tagger: 'keyword-v1', generated_at: '2026-01-01T00:00:00.000Z' })
+    expect(await store.counts()).toEqual({ pending: 0, running: 0, failed: 0 })
+  })
+
+  it('should retry failures with backoff', async () => {
+    await store.enqueue(['1'])
+    embedResults = [new Error('rate limited'), new Error('overloaded')]
+    const worker = createWorker()
+
+    expect((await worker.runOnce()).retried).toBe(1)
+    expect(await worker.runOnce()).toMatchObject({ claimed: 0 })
+
+    now += 1000 // first retry after baseDelayMs
+    expect((await worker.runOnce()).retried).toBe(1)
+
+    now += 1000 // second retry waits twice as long
+    expect(await worker.runOnce()).toMatchObject({ claimed: 0 })
+
+    now += 1000
+    expect((await worker.runOnce()).succeeded).toBe(1)
+    expect(rows[0].semantic_data).not.toBeNull()
+  })
+
+  it('should mark jobs failed after maxAttempts', async () => {
+    await store.enqueue(['1'])
+    embedResults = [new Error('down'), new Error('down'), new Error('down')]
+    const worker = createWorker()
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await worker.runOnce()
+      now += 60000
+    }
+
+    expect(await store.counts()).toEqual({ pending: 0, running: 0, failed: 1 })
+    expect(rows[0].semantic_data).toBeNull()
+  })
+
+  it('should skip messages deleted or embedded since they were queued', async () => {
+    rows[0].deleted_at = '2026-01-01T00:00:00.000Z'
+    rows[1].semantic_data = { embedding: EMBEDDING, generated_at: '2025-12-31T00:00:00.000Z', schema_version: 'themes-v2' }
+    rows[1].semantic_tags = TAGS
+    await store.enqueue(['1', '2'])
+    embedResults = [new Error('unused'), new Error('unused')]
+
+    expect(await createWorker().runOnce()).toEqual({ claimed: 2, succeeded: 2, retried: 0, failed: 0 })
+    expect(embedResults).toHaveLength(2)
+  })
+
+  it('should re-embed messages stored in an older schema', async () => {
+    rows[0].semantic_data = { embedding: new Array(10).fill(0), generated_at: '2025-12-31T00:00:00.000Z', schema_version: 'themes-v1' }
+    await store.enqueue(['1'])
+
+    expect((await createWorker().runOnce()).succeeded).toBe(1)
+    expect(rows[0].semantic_data).toMatchObject({ embedding: EMBEDDING, schema_version: 'themes-v2' })
+  })
+
+  it('should run until no job is due and report progress', async () => {
+    rows = createMessageRows(25)
+    await store.enqueue(rows.map((row) => row.id))
+    embedResults = [new Error('overloaded')]
+
+    const progress: number[] = []
+    const report = await createWorker().runUntilIdle({ onProgress: (total) => progress.push(total.claimed) })
+
+    expect(report).toEqual({ claimed: 25, succeeded: 24, retried: 1, failed: 0 })
+    expect(progress).toEqual([10, 20, 25])
+  })
+})
+
+describe('processEmbeddingJobs', () => {
+  let rows: EncodedMessageRow[]
+  let store: MemoryEmbeddingJobStore
+  let workers: number
+
+  const createWorker = () => {
+    workers++
+    return new EmbeddingWorker(createMessagesTable(rows), store, DEFAULT_EMBEDDING_JOBS_CONFIG, {
+      provider: { id: 'test', schema: THEMES_V2_SCHEMA, embed: async () => EMBEDDING }
+    })
+  }
+
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'http://localhost:54321')
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key')
+    rows = createMessageRows(2)
+    store = new MemoryEmbeddingJobStore()
+    workers = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should claim again for a call that joins after the last claim', async () => {
+    await store.enqueue(['1'])
+
+    // A second submission lands just as the run finds the queue empty
+    let joined: Promise<unknown> | null = null
+    const claim = store.claim.bind(store)
+    store.claim = async (limit, leaseMs) => {
+      const jobs = await claim(limit, leaseMs)
+      if (jobs.length === 0 && !joined) {
+        await store.enqueue(['2'])
+        joined = processEmbeddingJobs({ createWorker })
+      }
+      return jobs
+    }
+
+    const report = await processEmbeddingJobs({ createWorker })
+    await joined
+
+    expect(report).toMatchObject({ claimed: 2, succeeded: 2 })
+    expect(rows.every((row) => row.semantic_data)).toBe(true)
+    expect(workers).toBe(1)
+  })
+
+  it('should start a new run once the shared one has finished', async () => {
+    await store.enqueue(['1'])
+    await Promise.all([processEmbeddingJobs({ createWorker }), processEmbeddingJobs({ createWorker })])
+
+    await store.enqueue(['2'])
+    expect(await processEmbeddingJobs({ createWorker })).toMatchObject({ claimed: 1 })
+    expect(workers).toBe(2)
+  })
+
+  it('should do nothing without service role credentials', async () => {
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', '')
+    expect(await processEmbeddingJobs({ createWorker })).toBeNull()
+    expect(workers).toBe(0)
+  })
+})
+
+describe('backfillEmbeddings', () => {
+  it('should queue every live message without semantic_data', async () => {
+    const rows = createMessageRows(7)
+    rows[2].semantic_data = { embedding: EMBEDDING, generated_at: '2026-01-01T00:00:00.000Z', schema_version: 'themes-v2' }
+    rows[4].deleted_at = '2026-01-01T00:00:00.000Z'
+    const store = new MemoryEmbeddingJobStore()
+
+    const pages: number[] = []
+    const report = await backfillEmbeddings(createMessagesTable(rows), store, {
+      pageSize: 2,
+      onProgress: (found) => pages.push(found)
+    })
+
+    expect(report).toEqual({ found: 5, requeued: 0 })
+    expect(pages).toEqual([2, 4, 5])
+    expect((await store.claim(10, 1000)).map((job) => job.message_id)).toEqual(['1', '2', '4', '6', '7'])
+  })
+
+  it('should also queue messages from older schemas or without tags when upgrading', async () => {
+    const rows = createMessageRows(4)
+    rows[0].semantic_data = { embedding: EMBEDDING, generated_at: '2026-01-01T00:00:00.000Z', schema_version: 'themes-v2' }
+    rows[0].semantic_tags = TAGS
+    rows[1].semantic_data = { embedding: EMBEDDING, generated_at: '2025-01-01T00:00:00.000Z', schema_version: 'themes-v1' }
+    rows[3].semantic_data = rows[0].semantic_data
+    const store = new MemoryEmbeddingJobStore()
+
+    const report = await backfillEmbeddings(createMessagesTable(rows), store, { schemaVersion: 'themes-v2' })
+
+    expect(report.found).toBe(3)
+    expect((await store.claim(10, 1000)).map((job) => job.message_id)).toEqual(['2', '3', '4'])
+  })
+})
@@ -0,0 +1,388 @@
+/**
+ * Exposure Ledger Tests
+ *
+ * Tests cover:
+ * - Counting focus, related and next per cluster
+ * - Stored counts merged with unsaved ones; counts kept when a flush fails,
+ *   without re-sending batches already recorded
+ * - The rolling local ledger (persistence, eviction, unreadable storage)
+ * - Recording through record_exposures(), and through POST /api/exposures from screens
+ * - Exposure distribution and longest-unseen report
+ * - MessageLogicService evening out focus exposure with a fairness weight,
+ *   and not waiting on a slow ledger
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { MessageCluster, MessageExposure, MessagePoolConfig } from '@/types/grief-messages'
+import {
+  ApiExposureStore,
+  buildExposureReport,
+  EXPOSURE_STORAGE_KEY,
+  ExposureLedger,
+  LocalExposureStore,
+  MAX_EXPOSURES_PER_RECORD,
+  parseExposures,
+  PostgresExposureStore,
+  reportArchiveExposure,
+  type ExposureStorage,
+  type ExposureStore
+} from '@/lib/services/exposure-ledger'
+import { MessageLogicService } from '@/lib/services/message-logic-service'
+import { DEFAULT_CONFIG, loadConfig } from '@/lib/config/message-pool-config'
+import { createTestMessages } from '../mocks/database-service'
+import { createMockSupabaseClient } from '../mocks/supabase-client'
+
+function exposure(messageId: string, counts: Partial<MessageExposure> = {}): MessageExposure {
+  return { messageId, focus: 0, related: 0, next: 0, lastShownAt: '2025-01-01T00:00:00.000Z', ...counts }
+}
+
+function cluster(focusId: string, relatedIds: string[], nextId: string | null, at = new Date('2025-02-01T00:00:00Z')): MessageCluster {
+  const [focus, ...related] = createTestMessages(relatedIds.length + 1)
+  return {
+    focus: { ...focus, id: focusId },
+    focusId,
+    related: relatedIds.map((id, i) => ({ message: { ...related[i], id }, messageId: id, similarity: 0.5 })),
+    next: null,
+    nextId,
+    duration: 1000,
+    timestamp: at,
+    totalClustersShown: 0
+  }
+}
+
+function memoryStorage(): ExposureStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value) }
+  }
+}
+
+describe('ExposureLedger', () => {
+  it('should count each role of a cluster', () => {
+    const ledger = new ExposureLedger(new LocalExposureStore(null))
+
+    ledger.recordShown(cluster('1', ['2', '3'], '2'))
+    ledger.recordShown(cluster('2', ['1', '4'], '4'))
+
+    expect(ledger.count('1', 'focus')).toBe(1)
+    expect(ledger.count('1', 'related')).toBe(1)
+    expect(ledger.count('2', 'related')).toBe(1)
+    expect(ledger.count('2', 'next')).toBe(1)
+    expect(ledger.count('4', 'next')).toBe(1)
+    expect(ledger.count('5', 'focus')).toBe(0)
+    expect(ledger.exposures()).toHaveLength(4)
+  })
+
+  it('should add stored counts to unsaved ones', async () => {
+    const store = new LocalExposureStore(null)
+    await store.record([exposure('1', { focus: 4 })])
+    const ledger = new ExposureLedger(store)
+
+    ledger.recordShown(cluster('1', [], null))
+    await ledger.load(['1', '2'])
+    expect(ledger.count('1', 'focus')).toBe(5)
+
+    await ledger.flush()
+    await ledger.load(['1'])
+    expect(ledger.count('1', 'focus')).toBe(5)
+    expect((await store.load(['1'])).get('1')?.focus).toBe(5)
+  })
+
+  it('should keep counts for the next flush when the store fails', async () => {
+    const recorded: MessageExposure[][] = []
+    let fail = true
+    const store: ExposureStore = {
+      load: async () => new Map(),
+      record: async (exposures) => {
+        if (fail) throw new Error('offline')
+        recorded.push(exposures)
+      },
+      all: async () => []
+    }
+    const ledger = new ExposureLedger(store)
+
+    ledger.recordShown(cluster('1', ['2'], '2'))
+    await expect(ledger.flush()).rejects.toThrow('offline')
+
+    fail = false
+    ledger.recordShown(cluster('2', ['1'], '1'))
+    await ledger.flush()
+
+    expect(recorded).toHaveLength(1)
+    const byId = new Map(recorded[0].map((e) => [e.messageId, e]))
+    expect(byId.get('1')).toMatchObject({ focus: 1, related: 1, next: 1 })
+    expect(byId.get('2')).toMatchObject({ focus: 1, related: 1, next: 1 })
+
+    await ledger.flush()
+    expect(recorded).toHaveLength(1)
+  })
+
+  it('should only keep the batches the store did not take', async () => {
+    const recorded: MessageExposure[][] = []
+    let calls = 0
+    const store: ExposureStore = {
+      load: async () => new Map(),
+      record: async (exposures) => {
+        if (++calls === 2) throw new Error('offline')
+        recorded.push(exposures)
+      },
+      all: async () => []
+    }
+    const ledger = new ExposureLedger(store, 2)
+
+    ledger.recordShown(cluster('1', ['2', '3', '4', '5'], null))
+    await expect(ledger.flush()).rejects.toThrow('offline')
+    expect(recorded.flat().map((e) => e.messageId)).toEqual(['1', '2'])
+
+    await ledger.flush()
+    const ids = recorded.flat().map((e) => e.messageId)
+    expect(ids.sort()).toEqual(['1', '2', '3', '4', '5'])
+  })
+})
+
+describe('LocalExposureStore', () => {
+  it('should persist the ledger and read it back', async () => {
+    const storage = memoryStorage()
+    await new LocalExposureStore(storage).record([exposure('1', { focus: 2 }), exposure('2', { related: 1 })])
+    await new LocalExposureStore(storage).record([exposure('1', { focus: 1, lastShownAt: '2025-03-01T00:00:00.000Z' })])
+
+    const reloaded = await new LocalExposureStore(storage).load(['1', '2', '3'])
+    expect(reloaded.get('1')).toEqual(exposure('1', { focus: 3, lastShownAt: '2025-03-01T00:00:00.000Z' }))
+    expect(reloaded.get('2')?.related).toBe(1)
+    expect(reloaded.has('3')).toBe(false)
+  })
+
+  it('should forget the longest unseen messages beyond its size', async () => {
+    const store = new LocalExposureStore(null, 2)
+    await store.record([
+      exposure('1', { lastShownAt: '2025-01-03T00:00:00.000Z' }),
+      exposure('2', { lastShownAt: '2025-01-01T00:00:00.000Z' }),
+      exposure('3', { lastShownAt: '2025-01-02T00:00:00.000Z' })
+    ])
+
+    expect((await store.all()).map((e) => e.messageId).sort()).toEqual(['1', '3'])
+  })
+
+  it('should start afresh from an unreadable ledger', async () => {
+    const storage = memoryStorage()
+    storage.items.set(EXPOSURE_STORAGE_KEY, '{not json')
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const store = new LocalExposureStore(storage)
+
+    expect(await store.all()).toEqual([])
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+})
+
+describe('PostgresExposureStore', () => {
+  it('should add counts through record_exposures()', async () => {
+    const rpc = vi.fn().mockResolvedValue({ data: 1, error: null })
+    const store = new PostgresExposureStore({ rpc } as unknown as SupabaseClient<Database>)
+
+    await store.record([exposure('7', { focus: 1, next: 2 })])
+    await store.record([])
+
+    expect(rpc).toHaveBeenCalledTimes(1)
+    expect(rpc).toHaveBeenCalledWith('record_exposures', {
+      p_exposures: [{ message_id: '7', focus: 1, related: 0, next: 2, shown_at: '2025-01-01T00:00:00.000Z' }]
+    })
+  })
+
+  it('should report a failed write', async () => {
+    const rpc = vi.fn().mockResolvedValue({ data: null, error: { message: 'denied' } })
+    const store = new PostgresExposureStore({ rpc } as unknown as SupabaseClient<Database>)
+
+    await expect(store.record([exposure('7')])).rejects.toThrow('denied')
+  })
+})
+
+describe('ApiExposureStore', () => {
+  it('should post counts to the route, one batch per call', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response('{}', { status: 200 }))
+    const rpc = vi.fn()
+    const store = new ApiExposureStore({ rpc } as unknown as SupabaseClient<Database>, { sessionId: 'screen-1', fetch })
+    const batch = Array.from({ length: MAX_EXPOSURES_PER_RECORD }, (_, i) => exposure(String(i + 1)))
+
+    await store.record(batch)
+    await store.record([])
+    await expect(store.record([...batch, exposure('999')])).rejects.toThrow(`at most ${MAX_EXPOSURES_PER_RECORD}`)
+
+    expect(rpc).not.toHaveBeenCalled()
+    expect(fetch).toHaveBeenCalledTimes(1)
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toBe('/api/exposures')
+    expect(JSON.parse(init.body)).toEqual({ sessionId: 'screen-1', exposures: batch })
+  })
+
+  it('should give up on a route that does not answer', async () => {
+    const fetch = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+      init.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+    }))
+    const store = new ApiExposureStore({} as SupabaseClient<Database>, { fetch, timeoutMs: 10 })
+
+    await expect(store.record([exposure('1')])).rejects.toThrow()
+    expect(fetch.mock.calls[0][1].signal?.aborted).toBe(true)
+  })
+
+  it('should report a refused write so the ledger keeps the counts', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response('{}', { status: 429 }))
+    const ledger = new ExposureLedger(new ApiExposureStore({} as SupabaseClient<Database>, { fetch }))
+
+    ledger.recordShown(cluster('1', [], null))
+    await expect(ledger.flush()).rejects.toThrow('HTTP 429')
+
+    fetch.mockResolvedValue(new Response('{}', { status: 200 }))
+    await ledger.flush()
+    expect(JSON.parse(fetch.mock.calls[1][1].body).exposures).toEqual([
+      exposure('1', { focus: 1, lastShownAt: '2025-02-01T00:00:00.000Z' })
+    ])
+  })
+})
+
+describe('parseExposures', () => {
+  it('should accept well-formed exposures', () => {
+    expect(parseExposures([exposure('7', { focus: 2, lastShownAt: '2025-01-01T00:00:00Z' })])).toEqual([
+      exposure('7', { focus: 2 })
+    ])
+  })
+
+  it('should refuse malformed or too many exposures', () => {
+    expect(parseExposures('7')).toBeNull()
+    expect(parseExposures([null])).toBeNull()
+    expect(parseExposures([exposure('x')])).toBeNull()
+    expect(parseExposures([exposure('7', { focus: -1 })])).toBeNull()
+    expect(parseExposures([exposure('7', { related: 1.5 })])).toBeNull()
+    expect(parseExposures([exposure('7', { lastShownAt: 'yesterday' })])).toBeNull()
+    expect(parseExposures(Array.from({ length: MAX_EXPOSURES_PER_RECORD + 1 }, (_, i) => exposure(String(i + 1))))).toBeNull()
+  })
+
+  it('should refuse a message counted twice', () => {
+    expect(parseExposures([exposure('7', { focus: 1 }), exposure('7', { related: 1 })])).toBeNull()
+  })
+})
+
+describe('buildExposureReport', () => {
+  it('should describe the spread of exposure', () => {
+    const report = buildExposureReport(
+      ['1', '2', '3', '4'],
+      [
+        exposure('1', { focus: 6, lastShownAt: '2025-01-05T00:00:00.000Z' }),
+        exposure('2', { focus: 2, related: 1, lastShownAt: '2025-01-01T00:00:00.000Z' }),
+        exposure('99', { focus: 50 })
+      ],
+      3
+    )
+
+    expect(report.messages).toBe(4)
+    expect(report.neverShown).toBe(2)
+    expect(report.roles.focus).toMatchObject({ total: 8, mean: 2, max: 6 })
+    expect(report.roles.focus.histogram).toEqual([
+      { min: 0, max: 0, messages: 2 },
+      { min: 1, max: 1, messages: 0 },
+      { min: 2, max: 3, messages: 1 },
+      { min: 4, max: 7, messages: 1 }
+    ])
+    expect(report.longestUnseen).toEqual([
+      { messageId: '3', lastShownAt: null },
+      { messageId: '4', lastShownAt: null },
+      { messageId: '2', lastShownAt: '2025-01-01T00:00:00.000Z' }
+    ])
+  })
+
+  it('should measure inequality with the Gini coefficient', () => {
+    const ids = ['1', '2', '3', '4']
+    const even = buildExposureReport(ids, ids.map((id) => exposure(id, { focus: 3 })))
+    const skewed = buildExposureReport(ids, [exposure('1', { focus: 12 })])
+
+    expect(even.roles.focus.gini).toBeCloseTo(0)
+    expect(skewed.roles.focus.gini).toBeCloseTo(0.75)
+    expect(buildExposureReport(ids, []).roles.next.gini).toBe(0)
+  })
+
+  it('should report on the approved archive', async () => {
+    const client = createMockSupabaseClient()
+    const messages = createTestMessages(5)
+    messages[4] = { ...messages[4], approved: false }
+    client.setMessages(messages)
+    const store = new LocalExposureStore(null)
+    await store.record([exposure('1', { focus: 1 })])
+
+    const report = await reportArchiveExposure(client as unknown as SupabaseClient<Database>, { store, pageSize: 2 })
+
+    expect(report.messages).toBe(4)
+    expect(report.neverShown).toBe(3)
+    expect(report.longestUnseen.map((u) => u.messageId)).toEqual(['2', '3', '4', '1'])
+  })
+})
+
+describe('MessageLogicService exposure', () => {
+  let service: MessageLogicService
+
+  afterEach(() => {
+    service?.cleanup()
+  })
+
+  async function walk(config: MessagePoolConfig, clusters: number) {
+    const client = createMockSupabaseClient()
+    client.setMessages(createTestMessages(20))
+    const store = new LocalExposureStore(null)
+    service = new MessageLogicService(client as unknown as SupabaseClient<Database>, config, undefined, store)
+    await service.initialize()
+    for (let i = 0; i < clusters; i++) {
+      await service.getNextCluster()
+    }
+    return { report: service.getExposureReport(), store }
+  }
+
+  it('should record every cluster shown', async () => {
+    const { report, store } = await walk({ ...DEFAULT_CONFIG, workingSetSize: 20, clusterSize: 5 }, 10)
+
+    expect(report.roles.focus.total).toBe(10)
+    expect(report.roles.next.total).toBe(10)
+    expect((await store.all()).reduce((sum, e) => sum + e.focus, 0)).toBe(10)
+  })
+
+  it('should spread focus more evenly with a fairness weight', async () => {
+    const config = { ...DEFAULT_CONFIG, workingSetSize: 20, clusterSize: 5 }
+    const greedy = await walk(config, 60)
+    service.cleanup()
+    const fair = await walk({ ...config, fairness: { weight: 0.5, ledger: 'local' } }, 60)
+
+    expect(fair.report.roles.focus.gini).toBeLessThan(greedy.report.roles.focus.gini)
+    expect(fair.report.neverShown).toBeLessThanOrEqual(greedy.report.neverShown)
+  })
+
+  it('should not wait for the ledger before returning a cluster', async () => {
+    const client = createMockSupabaseClient()
+    client.setMessages(createTestMessages(20))
+    const record = vi.fn(() => new Promise<void>(() => {}))
+    const store: ExposureStore = { load: async () => new Map(), record, all: async () => [] }
+    service = new MessageLogicService(client as unknown as SupabaseClient<Database>, { ...DEFAULT_CONFIG, workingSetSize: 20, clusterSize: 5 }, undefined, store)
+    await service.initialize()
+
+    for (let i = 0; i < 3; i++) {
+      expect(await service.getNextCluster()).not.toBeNull()
+    }
+    // The first flush never settles, so later counts wait for it
+    expect(record).toHaveBeenCalledTimes(1)
+  })
+
+  it('should read fairness settings from the environment', () => {
+    vi.stubEnv('POOL_FAIRNESS_WEIGHT', '0.25')
+    vi.stubEnv('POOL_EXPOSURE_LEDGER', 'database')
+    try {
+      expect(loadConfig().fairness).toEqual({ weight: 0.25, ledger: 'database' })
+      vi.stubEnv('POOL_EXPOSURE_LEDGER', 'cookie')
+      expect(() => loadConfig()).toThrow()
+    } finally {
+      vi.unstubAllEnvs()
+    }
+    expect(loadConfig().fairness).toEqual({ weight: 0, ledger: 'local' })
+  })
+})
@@ -11,6 +11,9 @@ import type { MessagePoolConfig } from '@/types/grief-messages'
 import { createTestMessages } from '../mocks/database-service'
 import { createMockSupabaseClient, type MockSupabaseClient } from '../mocks/supabase-client'
 import { DEFAULT_CONFIG } from '@/lib/config/message-pool-config'
+import { calculateSemanticSimilarity } from '@/lib/utils/similarity-scoring'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
 
 describe('MessageLogicService', () => {
   let service: MessageLogicService
@@ -514,4 +517,76 @@ describe('MessageLogicService', () => {
       expect(inserted).not.toBeNull()
     })
   })
+
+  describe('semantic similarity', () => {
+    const grief = [1, 0.5, 0, 0, 0, 0, 0, 0, 0, 0.2]
+    const hope = [-1, -0.5, 0, 0, 0, 0, 0, 0, 0, -0.2]
+
+    // Alternate two opposing themes so every cluster has both
+    function createEmbeddedMessages(count: number) {
+      return createTestMessages(count).map((message, i) => ({
+        ...message,
+        semantic_data: {
+          embedding: i % 2 === 0 ? grief : hope,
+          generated_at: message.created_at
+        }
+      }))
+    }
+
+    function asClient(client: MockSupabaseClient) {
+      return client as unknown as SupabaseClient<Database>
+    }
+
+    it('should load embeddings through to clusters', async () => {
+      mockClient.setMessages(createEmbeddedMessages(30))
+
+      service = new MessageLogicService(asClient(mockClient), config)
+      await service.initialize()
+
+      const cluster = await service.getNextCluster()
+
+      expect(cluster?.focus.semantic_data?.embedding).toHaveLength(10)
+      expect(cluster!.related.length).toBeGreaterThan(0)
+      for (const { message } of cluster!.related) {
+        expect(message.semantic_data?.embedding).toHaveLength(10)
+      }
+    })
+
+    it('should score related messages by embedding', async () => {
+      mockClient.setMessages(createEmbeddedMessages(30))
+
+      // Semantic weight only: scores are cosine similarity of embeddings
+      service = new MessageLogicService(asClient(mockClient), {
+        ...config,
+        similarity: { temporalWeight: 0, lengthWeight: 0, semanticWeight: 1 }
+      })
+      await service.initialize()
+
+      const cluster = await service.getNextCluster()
+      const related = cluster!.related
+
+      const semantic = related.map((r) => calculateSemanticSimilarity(cluster!.focus, r.message))
+      expect(Math.max(...semantic)).toBeGreaterThan(0)
+
+      // Same-theme messages rank first with a perfect score
+      const focusTheme = cluster!.focus.semantic_data!.embedding[0]
+      expect(related[0].message.semantic_data!.embedding[0]).toBe(focusTheme)
+      expect(related[0].similarity).toBeCloseTo(1)
+    })
+
+    it('should treat malformed embeddings as missing', async () => {
+      const messages = createEmbeddedMessages(10).map((message) => ({
+        ...message,
+        semantic_data: { embedding: [1, 2, 3], generated_at: message.created_at }
+      }))
+      mockClient.setMessages(messages)
+
+      service = new MessageLogicService(asClient(mockClient), config)
+      await service.initialize()
+
+      const cluster = await service.getNextCluster()
+
+      expect(cluster?.focus.semantic_data).toBeNull()
+    })
+  })
 })
@@ -0,0 +1,142 @@
+/**
+ * Message Notifier Tests
+ *
+ * Tests cover:
+ * - Shared LISTEN connection lifecycle (first subscribe, last unsubscribe)
+ * - Notification fan-out and payload validation
+ * - Reconnect after a dropped connection
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { EventEmitter } from 'events'
+import {
+  MessageNotifier,
+  NEW_MESSAGE_CHANNEL,
+  parseNotificationPayload,
+  type ListenClient
+} from '@/lib/services/message-notifier'
+import type { GriefMessage } from '@/types/grief-messages'
+
+class FakeListenClient extends EventEmitter implements ListenClient {
+  queries: string[] = []
+  ended = false
+  failConnect = false
+
+  async connect() {
+    if (this.failConnect) throw new Error('connection refused')
+  }
+
+  async query(sql: string) {
+    this.queries.push(sql)
+  }
+
+  async end() {
+    this.ended = true
+  }
+
+  notify(payload: unknown, channel = NEW_MESSAGE_CHANNEL) {
+    this.emit('notification', { processId: 1, channel, payload: JSON.stringify(payload) })
+  }
+}
+
+const row = {
+  id: '101',
+  content: 'Every day I reach for the phone.',
+  created_at: '2025-11-14T20:30:00.000Z',
+  approved: true,
+  deleted_at: null,
+  semantic_data: null
+}
+
+describe('parseNotificationPayload', () => {
+  it('should parse a visible message row', () => {
+    expect(parseNotificationPayload(JSON.stringify(row))).toMatchObject({ id: '101' })
+  })
+
+  it('should reject hidden, malformed, or empty payloads', () => {
+    expect(parseNotificationPayload(JSON.stringify({ ...row, approved: false }))).toBeNull()
+    expect(parseNotificationPayload(JSON.stringify({ ...row, deleted_at: row.created_at }))).toBeNull()
+    expect(parseNotificationPayload(JSON.stringify({ ...row, id: 101 }))).toBeNull()
+    expect(parseNotificationPayload('{')).toBeNull()
+    expect(parseNotificationPayload(undefined)).toBeNull()
+  })
+})
+
+describe('MessageNotifier', () => {
+  let clients: FakeListenClient[]
+  let notifier: MessageNotifier
+
+  beforeEach(() => {
+    clients = []
+    notifier = new MessageNotifier(() => {
+      const client = new FakeListenClient()
+      clients.push(client)
+      return client
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should share one LISTEN connection across subscribers', async () => {
+    await notifier.subscribe(() => {})
+    await notifier.subscribe(() => {})
+
+    expect(clients).toHaveLength(1)
+    expect(clients[0].queries).toEqual([`LISTEN ${NEW_MESSAGE_CHANNEL}`])
+    expect(notifier.getSubscriberCount()).toBe(2)
+  })
+
+  it('should fan out valid notifications only', async () => {
+    const a: GriefMessage[] = []
+    const b: GriefMessage[] = []
+    await notifier.subscribe((message) => a.push(message))
+    await notifier.subscribe((message) => b.push(message))
+
+    clients[0].notify(row)
+    clients[0].notify({ ...row, approved: false })
+    clients[0].notify(row, 'other_channel')
+
+    expect(a.map((m) => m.id)).toEqual(['101'])
+    expect(b.map((m) => m.id)).toEqual(['101'])
+  })
+
+  it('should close the connection after the last unsubscribe', async () => {
+    const first = await notifier.subscribe(() => {})
+    const second = await notifier.subscribe(() => {})
+
+    first()
+    expect(clients[0].ended).toBe(false)
+
+    second()
+    await Promise.resolve()
+    expect(clients[0].ended).toBe(true)
+  })
+
+  it('should reject subscribe when the database is unreachable', async () => {
+    notifier = new MessageNotifier(() => {
+      const client = new FakeListenClient()
+      client.failConnect = true
+      return client
+    })
+
+    await expect(notifier.subscribe(() => {})).rejects.toThrow('connection refused')
+    expect(notifier.getSubscriberCount()).toBe(0)
+  })
+
+  it('should reconnect after the connection drops', async () => {
+    vi.useFakeTimers()
+    const received: GriefMessage[] = []
+    await notifier.subscribe((message) => received.push(message))
+
+    clients[0].emit('error', new Error('terminated'))
+    expect(clients[0].ended).toBe(true)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(clients).toHaveLength(2)
+
+    clients[1].notify(row)
+    expect(received).toHaveLength(1)
+  })
+})
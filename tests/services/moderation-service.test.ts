@@ -0,0 +1,214 @@
+/**
+ * Moderation Service Tests
+ *
+ * Unit tests for ModerationService and admin authentication.
+ * Tests queue filters, action state transitions, and note history.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Message } from '@/types/database'
+import { ModerationService, appendNote } from '@/lib/services/moderation-service'
+import { isAuthorizedAdmin } from '@/lib/admin-auth'
+
+type Row = Message
+
+function createRow(id: number, overrides: Partial<Row> = {}): Row {
+  return {
+    id: id.toString(),
+    content: `Message ${id}`,
+    approved: true,
+    flagged: false,
+    moderator_notes: null,
+    session_id: null,
+    ip_hash: null,
+    user_agent: null,
+    source: 'web',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    deleted_at: null,
+    semantic_tags: null,
+    semantic_data: null,
+    idempotency_key: null,
+    ...overrides
+  }
+}
+
+/**
+ * In-memory table supporting the query chain used by ModerationService
+ */
+function createTableClient(rows: Row[]) {
+  return {
+    from() {
+      const filters: Array<(row: Row) => boolean> = []
+      let changes: Partial<Row> | null = null
+      let limitCount = Infinity
+
+      const run = () => {
+        const matched = rows
+          .filter((row) => filters.every((f) => f(row)))
+          .sort((a, b) => parseInt(b.id, 10) - parseInt(a.id, 10))
+
+        if (changes) {
+          matched.forEach((row) => Object.assign(row, changes))
+        }
+
+        return matched.slice(0, limitCount)
+      }
+
+      const query = {
+        select() { return query },
+        order() { return query },
+        limit(count: number) {
+          limitCount = count
+          return query
+        },
+        update(values: Partial<Row>) {
+          changes = values
+          return query
+        },
+        eq(column: keyof Row, value: unknown) {
+          filters.push((row) => row[column] === value)
+          return query
+        },
+        is(column: keyof Row, value: null) {
+          filters.push((row) => row[column] === value)
+          return query
+        },
+        not(column: keyof Row) {
+          filters.push((row) => row[column] !== null)
+          return query
+        },
+        lt(column: keyof Row, value: string) {
+          filters.push((row) => parseInt(row[column] as string, 10) < parseInt(value, 10))
+          return query
+        },
+        async maybeSingle() {
+          return { data: run()[0] || null, error: null }
+        },
+        then(resolve: (result: unknown) => void) {
+          resolve({ data: run(), error: null })
+        }
+      }
+
+      return query
+    }
+  }
+}
+
+describe('ModerationService', () => {
+  let rows: Row[]
+  let service: ModerationService
+
+  beforeEach(() => {
+    rows = [
+      createRow(1),
+      createRow(2, { approved: false }),
+      createRow(3, { approved: false }),
+      createRow(4, { flagged: true }),
+      createRow(5, { deleted_at: '2026-01-02T00:00:00.000Z' })
+    ]
+    service = new ModerationService(
+      createTableClient(rows) as unknown as SupabaseClient<Database>
+    )
+  })
+
+  describe('listQueue', () => {
+    it('should list pending messages newest first', async () => {
+      const messages = await service.listQueue({ queue: 'pending', limit: 10 })
+      expect(messages.map((m) => m.id)).toEqual(['3', '2'])
+    })
+
+    it('should list flagged messages', async () => {
+      const messages = await service.listQueue({ queue: 'flagged', limit: 10 })
+      expect(messages.map((m) => m.id)).toEqual(['4'])
+    })
+
+    it('should list removed messages', async () => {
+      const messages = await service.listQueue({ queue: 'removed', limit: 10 })
+      expect(messages.map((m) => m.id)).toEqual(['5'])
+    })
+
+    it('should page with before cursor', async () => {
+      const messages = await service.listQueue({ queue: 'pending', limit: 10, before: 3 })
+      expect(messages.map((m) => m.id)).toEqual(['2'])
+    })
+  })
+
+  describe('applyAction', () => {
+    it('should approve a pending message', async () => {
+      const message = await service.applyAction('2', 'approve')
+
+      expect(message?.approved).toBe(true)
+      expect(message?.flagged).toBe(false)
+      expect(await service.listQueue({ queue: 'pending', limit: 10 })).toHaveLength(1)
+    })
+
+    it('should reject a message out of the pending queue', async () => {
+      const message = await service.applyAction('3', 'reject', 'Contains a phone number')
+
+      expect(message?.approved).toBe(false)
+      expect(message?.deleted_at).not.toBeNull()
+      expect(message?.moderator_notes).toContain('reject: Contains a phone number')
+    })
+
+    it('should soft-delete and restore', async () => {
+      const deleted = await service.applyAction('1', 'delete')
+      expect(deleted?.deleted_at).not.toBeNull()
+      expect(deleted?.approved).toBe(true)
+
+      const restored = await service.applyAction('1', 'restore')
+      expect(restored?.deleted_at).toBeNull()
+    })
+
+    it('should append notes without replacing history', async () => {
+      await service.applyAction('4', 'note', 'First look')
+      const message = await service.applyAction('4', 'note', 'Second look')
+
+      const lines = message?.moderator_notes?.split('\n') || []
+      expect(lines).toHaveLength(2)
+      expect(lines[0]).toContain('First look')
+      expect(lines[1]).toContain('Second look')
+    })
+
+    it('should return null for unknown messages', async () => {
+      expect(await service.applyAction('999', 'approve')).toBeNull()
+    })
+  })
+
+  describe('appendNote', () => {
+    it('should format timestamped note lines', () => {
+      expect(appendNote(null, 'approve', 'ok', '2026-01-01T00:00:00.000Z'))
+        .toBe('[2026-01-01T00:00:00.000Z] approve: ok')
+    })
+  })
+})
+
+describe('isAuthorizedAdmin', () => {
+  const originalToken = process.env.ADMIN_API_TOKEN
+
+  afterEach(() => {
+    if (originalToken === undefined) {
+      delete process.env.ADMIN_API_TOKEN
+    } else {
+      process.env.ADMIN_API_TOKEN = originalToken
+    }
+  })
+
+  it('should accept the configured bearer token', () => {
+    process.env.ADMIN_API_TOKEN = 'secret-token'
+    expect(isAuthorizedAdmin('Bearer secret-token')).toBe(true)
+  })
+
+  it('should reject wrong or missing tokens', () => {
+    process.env.ADMIN_API_TOKEN = 'secret-token'
+    expect(isAuthorizedAdmin('Bearer wrong')).toBe(false)
+    expect(isAuthorizedAdmin('secret-token')).toBe(false)
+    expect(isAuthorizedAdmin(null)).toBe(false)
+  })
+
+  it('should reject everything when no token is configured', () => {
+    delete process.env.ADMIN_API_TOKEN
+    expect(isAuthorizedAdmin('Bearer anything')).toBe(false)
+  })
+})
@@ -0,0 +1,323 @@
+/**
+ * New Message Source Tests
+ *
+ * Tests cover:
+ * - Polling above the current watermark
+ * - Stream delivery, malformed events, and fallback to polling
+ * - MessagePoolManager feeding its priority queue from a source
+ * - Messages delivered again once their embedding is written
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  PollingMessageSource,
+  StreamMessageSource,
+  createNewMessageSource,
+  type EventSourceLike,
+  type NewMessageHandler,
+  type NewMessageSource
+} from '@/lib/services/new-message-source'
+import { MessagePoolManager } from '@/lib/services/message-pool-manager'
+import { MessageLogicService } from '@/lib/services/message-logic-service'
+import { LocalExposureStore } from '@/lib/services/exposure-ledger'
+import type { DatabaseService } from '@/lib/services/database-service'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { GriefMessage, WorkingSetChange } from '@/types/grief-messages'
+import { DEFAULT_CONFIG } from '@/lib/config/message-pool-config'
+import { MockDatabaseService, createTestMessage, createTestMessages } from '../mocks/database-service'
+import { createMockSupabaseClient } from '../mocks/supabase-client'
+
+function embedded(message: GriefMessage): GriefMessage {
+  return {
+    ...message,
+    semantic_data: { embedding: [0.2, 0.4, 0.1, 0.8, -0.3, 0.5, 0, 0.6, -0.1, 0.7], generated_at: '2026-01-01T00:00:00.000Z', schema_version: 'themes-v2' }
+  }
+}
+
+function asDatabaseService(db: MockDatabaseService) {
+  return db as unknown as DatabaseService
+}
+
+class FakeEventSource implements EventSourceLike {
+  readyState = 0
+  closed = false
+  private listeners = new Map<string, Array<(event: MessageEvent<string>) => void>>()
+
+  constructor(public url: string) {}
+
+  addEventListener(type: string, listener: (event: MessageEvent<string>) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener])
+  }
+
+  close() {
+    this.closed = true
+    this.readyState = 2
+  }
+
+  emit(type: string, data = '') {
+    for (const listener of this.listeners.get(type) || []) {
+      listener({ data } as MessageEvent<string>)
+    }
+  }
+}
+
+class ManualSource implements NewMessageSource {
+  handler: NewMessageHandler | null = null
+  stopped = false
+
+  start(_getWatermark: () => number, onMessages: NewMessageHandler) {
+    this.handler = onMessages
+  }
+
+  stop() {
+    this.stopped = true
+  }
+}
+
+describe('PollingMessageSource', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should fetch above the latest watermark on each tick', async () => {
+    const db = new MockDatabaseService()
+    db.setMessages(createTestMessages(5))
+    const fetch = vi.spyOn(db, 'fetchNewMessagesAboveWatermark')
+
+    let watermark = 3
+    const received: GriefMessage[] = []
+    const source = new PollingMessageSource(asDatabaseService(db), 1000)
+    source.start(() => watermark, (messages) => {
+      received.push(...messages)
+      watermark = 5
+    })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(received.map((m) => m.id)).toEqual(['4', '5'])
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(fetch).toHaveBeenLastCalledWith(5)
+    expect(received).toHaveLength(2)
+
+    source.stop()
+  })
+
+  it('should deliver waiting messages again once embedded', async () => {
+    const db = new MockDatabaseService()
+    const [first, second] = createTestMessages(2)
+    db.setMessages([embedded(first), second])
+
+    const received: GriefMessage[][] = []
+    const source = new PollingMessageSource(asDatabaseService(db), 1000)
+    source.start(() => 2, (messages) => { received.push(messages) }, () => ['1', '2'])
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(received).toEqual([[embedded(first)]])
+
+    source.stop()
+  })
+
+  it('should stop fetching after stop()', async () => {
+    const db = new MockDatabaseService()
+    const fetch = vi.spyOn(db, 'fetchNewMessagesAboveWatermark')
+
+    const source = new PollingMessageSource(asDatabaseService(db), 1000)
+    source.start(() => 0, () => {})
+    source.stop()
+
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('StreamMessageSource', () => {
+  let eventSource: FakeEventSource
+  let fallback: ManualSource
+  let source: StreamMessageSource
+
+  beforeEach(() => {
+    fallback = new ManualSource()
+    source = new StreamMessageSource(
+      '/api/messages/stream',
+      (url) => (eventSource = new FakeEventSource(url)),
+      fallback
+    )
+  })
+
+  it('should connect after the current watermark', () => {
+    source.start(() => 42, () => {})
+    expect(eventSource.url).toBe('/api/messages/stream?after=42')
+  })
+
+  it('should deliver streamed messages', () => {
+    const received: GriefMessage[] = []
+    source.start(() => 0, (messages) => { received.push(...messages) })
+
+    eventSource.emit('message', JSON.stringify(createTestMessage(7, 'Pushed')))
+    eventSource.emit('message', 'not json')
+    eventSource.emit('message', JSON.stringify({ id: 8 }))
+
+    expect(received.map((m) => m.id)).toEqual(['7'])
+    expect(received[0].content).toBe('Pushed')
+  })
+
+  it('should keep waiting while the browser retries', () => {
+    source.start(() => 0, () => {})
+    eventSource.readyState = 0 // CONNECTING
+    eventSource.emit('error')
+
+    expect(source.isUsingFallback()).toBe(false)
+    expect(fallback.handler).toBeNull()
+  })
+
+  it('should fall back when the stream is refused', () => {
+    const onMessages = vi.fn()
+    source.start(() => 0, onMessages)
+
+    eventSource.readyState = 2 // CLOSED (e.g. 503)
+    eventSource.emit('error')
+
+    expect(source.isUsingFallback()).toBe(true)
+    expect(fallback.handler).toBe(onMessages)
+
+    source.stop()
+    expect(fallback.stopped).toBe(true)
+  })
+
+  it('should close the connection on stop()', () => {
+    source.start(() => 0, () => {})
+    source.stop()
+    expect(eventSource.closed).toBe(true)
+  })
+})
+
+describe('createNewMessageSource', () => {
+  it('should poll when configured for polling', () => {
+    const source = createNewMessageSource(DEFAULT_CONFIG, asDatabaseService(new MockDatabaseService()))
+    expect(source).toBeInstanceOf(PollingMessageSource)
+  })
+
+  it('should poll without a browser EventSource', () => {
+    const source = createNewMessageSource(
+      { ...DEFAULT_CONFIG, newMessageSource: 'stream' },
+      asDatabaseService(new MockDatabaseService())
+    )
+    expect(source).toBeInstanceOf(PollingMessageSource)
+  })
+})
+
+describe('MessagePoolManager with a NewMessageSource', () => {
+  let db: MockDatabaseService
+  let source: ManualSource
+  let poolManager: MessagePoolManager
+
+  beforeEach(async () => {
+    db = new MockDatabaseService()
+    db.setMessages(createTestMessages(20))
+    source = new ManualSource()
+    poolManager = new MessagePoolManager(asDatabaseService(db), DEFAULT_CONFIG, source)
+    await poolManager.initialize()
+  })
+
+  afterEach(() => {
+    poolManager.cleanup()
+  })
+
+  it('should queue pushed messages and advance the watermark', async () => {
+    await source.handler!([createTestMessage(21, 'Just now')])
+
+    const stats = poolManager.getStats()
+    expect(stats.priorityQueueSize).toBe(1)
+    expect(stats.newMessageWatermark).toBe(21)
+
+    const { priorityIds } = await poolManager.getNextBatch(5)
+    expect(priorityIds).toContain('21')
+  })
+
+  it('should ignore a pushed copy of a local submission', async () => {
+    const message = createTestMessage(21, 'Mine')
+    await poolManager.addNewMessage(message)
+    await source.handler!([message])
+
+    expect(poolManager.getStats().priorityQueueSize).toBe(1)
+  })
+
+  it('should replace a queued message once its embedding arrives', async () => {
+    const message = createTestMessage(21, 'Just now')
+    await source.handler!([message])
+    await source.handler!([embedded(message)])
+
+    const { messages } = await poolManager.getNextBatch(1)
+    expect(messages[0].semantic_data?.embedding).toHaveLength(10)
+  })
+
+  it('should pass on the embedding of a message already handed out', async () => {
+    const updates: GriefMessage[] = []
+    poolManager.onMessageEmbedded((message) => updates.push(message))
+
+    const message = createTestMessage(21, 'Just now')
+    await source.handler!([message])
+    await poolManager.getNextBatch(1)
+    await source.handler!([embedded(message)])
+    await source.handler!([embedded(message)])
+
+    expect(updates.map((m) => m.id)).toEqual(['21'])
+  })
+
+  it('should stop the source on cleanup', () => {
+    poolManager.cleanup()
+    expect(source.stopped).toBe(true)
+  })
+})
+
+describe('MessageLogicService with late embeddings', () => {
+  let service: MessageLogicService
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    service?.cleanup()
+    vi.useRealTimers()
+  })
+
+  it('should replace a working set message when its embedding is written', async () => {
+    const client = createMockSupabaseClient()
+    const archive = createTestMessages(20)
+    client.setMessages(archive)
+    const config = { ...DEFAULT_CONFIG, workingSetSize: 20, clusterSize: 5, pollingInterval: 1000 }
+    service = new MessageLogicService(
+      client as unknown as SupabaseClient<Database>,
+      config,
+      undefined,
+      new LocalExposureStore(null)
+    )
+    const changes: WorkingSetChange[] = []
+    service.onWorkingSetChange((change) => changes.push(change))
+    await service.initialize()
+
+    // Submitted here; the embedding worker has not run yet
+    const arrival = await service.addNewMessage({
+      content: 'Published before its embedding',
+      created_at: new Date().toISOString(),
+      approved: true,
+      deleted_at: null
+    })
+    await service.getNextCluster()
+    await service.getNextCluster()
+    expect(service.getWorkingSet().find((m) => m.id === '21')?.semantic_data).toBeNull()
+
+    client.setMessages([...archive, embedded(arrival!)])
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(service.getWorkingSet().find((m) => m.id === '21')?.semantic_data?.embedding).toHaveLength(10)
+    expect(changes.at(-1)).toMatchObject({ removed: [], added: [], reason: 'message_embedded' })
+    expect(changes.at(-1)?.updated?.map((m) => m.id)).toEqual(['21'])
+  })
+})
@@ -0,0 +1,273 @@
+/**
+ * Rate Limiter Tests
+ *
+ * Unit tests for MemoryRateLimiter and PostgresRateLimiter.
+ * Tests session/IP limits, sliding windows, retryAfter values, and the
+ * Postgres count-and-insert.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  MemoryRateLimiter,
+  PostgresRateLimiter,
+  rateLimitHeaders
+} from '@/lib/services/rate-limiter'
+import {
+  DEFAULT_RATE_LIMIT_CONFIG,
+  type RateLimitConfig
+} from '@/lib/config/rate-limit-config'
+
+const HOUR = 60 * 60 * 1000
+
+const asClient = (client: unknown) => client as SupabaseClient<Database>
+
+/**
+ * Minimal query builder over an in-memory row list.
+ * Supports the chain used by PostgresRateLimiter.
+ */
+function createRowsClient(rows: Array<{ session_id: string; ip_hash: string | null; created_at: string }>) {
+  return {
+    from() {
+      const filters: Array<(row: (typeof rows)[number]) => boolean> = []
+      let limitCount = Infinity
+
+      const query = {
+        select() { return query },
+        eq(column: 'session_id' | 'ip_hash', value: string) {
+          filters.push((row) => row[column] === value)
+          return query
+        },
+        gte(column: 'created_at', value: string) {
+          filters.push((row) => row[column] >= value)
+          return query
+        },
+        order() { return query },
+        limit(count: number) {
+          limitCount = count
+          return query
+        },
+        then(resolve: (result: unknown) => void) {
+          const matched = rows
+            .filter((row) => filters.every((f) => f(row)))
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          resolve({ data: matched.slice(0, limitCount), count: matched.length, error: null })
+        }
+      }
+
+      return query
+    }
+  }
+}
+
+describe('MemoryRateLimiter', () => {
+  let now: number
+  let config: RateLimitConfig
+  let limiter: MemoryRateLimiter
+
+  beforeEach(() => {
+    now = new Date('2026-01-01T12:00:00Z').getTime()
+    config = { ...DEFAULT_RATE_LIMIT_CONFIG, backend: 'memory' }
+    limiter = new MemoryRateLimiter(config, () => now)
+  })
+
+  it('should allow submissions under the session limit', async () => {
+    const keys = { sessionId: 'session-a', ipHash: 'ip-a' }
+
+    for (let i = 0; i < config.maxPerSession; i++) {
+      const result = await limiter.check(keys)
+      expect(result.allowed).toBe(true)
+      expect(result.remaining).toBe(config.maxPerSession - i)
+      await limiter.record(keys)
+    }
+  })
+
+  it('should block the session once the limit is reached', async () => {
+    const keys = { sessionId: 'session-a', ipHash: 'ip-a' }
+
+    for (let i = 0; i < config.maxPerSession; i++) {
+      await limiter.record(keys)
+    }
+
+    const result = await limiter.check(keys)
+    expect(result.allowed).toBe(false)
+    expect(result.limitedBy).toBe('session')
+    expect(result.retryAfter).toBe(HOUR / 1000)
+  })
+
+  it('should not consume a slot on check', async () => {
+    const keys = { sessionId: 'session-a', ipHash: null }
+
+    for (let i = 0; i < 10; i++) {
+      await limiter.check(keys)
+    }
+
+    expect((await limiter.check(keys)).allowed).toBe(true)
+  })
+
+  it('should free slots as the window slides', async () => {
+    const keys = { sessionId: 'session-a', ipHash: null }
+
+    await limiter.record(keys)
+    now += 10 * 60 * 1000
+    await limiter.record(keys)
+    await limiter.record(keys)
+
+    const blocked = await limiter.check(keys)
+    expect(blocked.allowed).toBe(false)
+    // Oldest submission expires 50 minutes from now
+    expect(blocked.retryAfter).toBe(50 * 60)
+
+    now += 50 * 60 * 1000 + 1
+    expect((await limiter.check(keys)).allowed).toBe(true)
+  })
+
+  it('should block by IP across sessions', async () => {
+    config.maxPerIp = 2
+
+    await limiter.record({ sessionId: 'session-a', ipHash: 'shared-ip' })
+    await limiter.record({ sessionId: 'session-b', ipHash: 'shared-ip' })
+
+    const result = await limiter.check({ sessionId: 'session-c', ipHash: 'shared-ip' })
+    expect(result.allowed).toBe(false)
+    expect(result.limitedBy).toBe('ip')
+  })
+
+  it('should skip the IP limit when no IP hash is known', async () => {
+    config.maxPerIp = 1
+
+    await limiter.record({ sessionId: 'session-a', ipHash: null })
+
+    const result = await limiter.check({ sessionId: 'session-b', ipHash: null })
+    expect(result.allowed).toBe(true)
+  })
+})
+
+describe('PostgresRateLimiter', () => {
+  const now = new Date('2026-01-01T12:00:00Z').getTime()
+  const minutesAgo = (m: number) => new Date(now - m * 60 * 1000).toISOString()
+
+  it('should count recent rows for the session', async () => {
+    const client = createRowsClient([
+      { session_id: 'session-a', ip_hash: 'ip-a', created_at: minutesAgo(45) },
+      { session_id: 'session-a', ip_hash: 'ip-a', created_at: minutesAgo(20) },
+      { session_id: 'session-a', ip_hash: 'ip-a', created_at: minutesAgo(5) }
+    ])
+    const limiter = new PostgresRateLimiter(asClient(client), DEFAULT_RATE_LIMIT_CONFIG, () => now)
+
+    const result = await limiter.check({ sessionId: 'session-a', ipHash: 'ip-a' })
+
+    expect(result.allowed).toBe(false)
+    expect(result.limitedBy).toBe('session')
+    expect(result.retryAfter).toBe(15 * 60)
+  })
+
+  it('should ignore rows outside the window', async () => {
+    const client = createRowsClient([
+      { session_id: 'session-a', ip_hash: 'ip-a', created_at: minutesAgo(90) },
+      { session_id: 'session-a', ip_hash: 'ip-a', created_at: minutesAgo(80) },
+      { session_id: 'session-a', ip_hash: 'ip-a', created_at: minutesAgo(5) }
+    ])
+    const limiter = new PostgresRateLimiter(asClient(client), DEFAULT_RATE_LIMIT_CONFIG, () => now)
+
+    const result = await limiter.check({ sessionId: 'session-a', ipHash: 'ip-a' })
+
+    expect(result.allowed).toBe(true)
+    expect(result.remaining).toBe(2)
+  })
+
+  it('should block by IP hash', async () => {
+    const rows = Array.from({ length: 3 }, (_, i) => ({
+      session_id: `session-${i}`,
+      ip_hash: 'shared-ip',
+      created_at: minutesAgo(30 - i)
+    }))
+    const client = createRowsClient(rows)
+    const config = { ...DEFAULT_RATE_LIMIT_CONFIG, maxPerIp: 3 }
+    const limiter = new PostgresRateLimiter(asClient(client), config, () => now)
+
+    const result = await limiter.check({ sessionId: 'session-new', ipHash: 'shared-ip' })
+
+    expect(result.allowed).toBe(false)
+    expect(result.limitedBy).toBe('ip')
+    expect(result.retryAfter).toBe(30 * 60)
+  })
+
+  it('should allow submissions when the query fails', async () => {
+    const client = {
+      from() {
+        throw new Error('connection refused')
+      }
+    }
+    const limiter = new PostgresRateLimiter(asClient(client), DEFAULT_RATE_LIMIT_CONFIG, () => now)
+
+    const result = await limiter.check({ sessionId: 'session-a', ipHash: 'ip-a' })
+
+    expect(result.allowed).toBe(true)
+  })
+})
+
+describe('PostgresRateLimiter.insertWithinLimits', () => {
+  const now = new Date('2026-01-01T12:00:00Z').getTime()
+  const minutesAgo = (m: number) => new Date(now - m * 60 * 1000).toISOString()
+  const stored = { id: '9', content: 'For my father', created_at: minutesAgo(0), source: 'web', approved: true }
+
+  it('should count and insert through one function call', async () => {
+    const rpc = vi.fn().mockResolvedValue({
+      data: { session_count: 1, session_oldest_at: minutesAgo(10), ip_count: 4, ip_oldest_at: minutesAgo(30), message: stored },
+      error: null
+    })
+    const limiter = new PostgresRateLimiter(asClient({ rpc }), DEFAULT_RATE_LIMIT_CONFIG, () => now)
+
+    const result = await limiter.insertWithinLimits({ sessionId: 'session-a', ipHash: 'ip-a' }, { content: 'For my father' })
+
+    expect(rpc).toHaveBeenCalledWith('insert_message_within_limits', {
+      p_message: { content: 'For my father' },
+      p_session_id: 'session-a',
+      p_ip_hash: 'ip-a',
+      p_window_ms: DEFAULT_RATE_LIMIT_CONFIG.windowMs,
+      p_max_per_session: DEFAULT_RATE_LIMIT_CONFIG.maxPerSession,
+      p_max_per_ip: DEFAULT_RATE_LIMIT_CONFIG.maxPerIp
+    })
+    expect(result).toEqual({ rateLimit: { allowed: true, remaining: 2, retryAfter: 0 }, message: stored, error: null })
+  })
+
+  it('should report the limit the function refused on', async () => {
+    const rpc = vi.fn().mockResolvedValue({
+      data: { session_count: 3, session_oldest_at: minutesAgo(45), ip_count: 0, ip_oldest_at: null, message: null },
+      error: null
+    })
+    const limiter = new PostgresRateLimiter(asClient({ rpc }), DEFAULT_RATE_LIMIT_CONFIG, () => now)
+
+    const result = await limiter.insertWithinLimits({ sessionId: 'session-a', ipHash: null }, { content: 'Again' })
+
+    expect(result.message).toBeNull()
+    expect(result.rateLimit).toEqual({ allowed: false, limitedBy: 'session', remaining: 0, retryAfter: 15 * 60 })
+  })
+
+  it('should pass on a failed insert', async () => {
+    const rpc = vi.fn().mockResolvedValue({ data: null, error: { code: '23505', message: 'duplicate key' } })
+    const limiter = new PostgresRateLimiter(asClient({ rpc }), DEFAULT_RATE_LIMIT_CONFIG, () => now)
+
+    const result = await limiter.insertWithinLimits({ sessionId: 'session-a', ipHash: null }, { content: 'Again' })
+
+    expect(result.message).toBeNull()
+    expect(result.error).toEqual({ code: '23505', message: 'duplicate key' })
+  })
+})
+
+describe('rateLimitHeaders', () => {
+  it('should include Retry-After only when blocked', () => {
+    expect(rateLimitHeaders({ allowed: true, remaining: 2, retryAfter: 0 })).toEqual({
+      'X-RateLimit-Remaining': '2'
+    })
+
+    expect(
+      rateLimitHeaders({ allowed: false, limitedBy: 'session', remaining: 0, retryAfter: 120 })
+    ).toEqual({
+      'X-RateLimit-Remaining': '0',
+      'Retry-After': '120'
+    })
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Re-embedding Tests
+ *
+ * Tests cover:
+ * - Stale detection (missing, schema, model, untagged, forced)
+ * - Dry runs count without encoding or writing
+ * - Writes stamp the model and generated_at
+ * - Checkpoints per batch, resuming, and checkpoint mismatch
+ * - Request spacing and failure handling
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { reembedMessages, staleReason, type ReembedCheckpoint } from '@/lib/services/reembedding'
+import { THEMES_V2_SCHEMA, THEMES_V3_SCHEMA } from '@/lib/embeddings/schema'
+import type { EmbeddingProvider } from '@/lib/embeddings/types'
+import { createMessageRows, createMessagesTable, type EncodedMessageRow } from '../mocks/messages-table'
+
+const EMBEDDING = [0.5, -0.2, 0.7, 0.1, 0.9, -0.4, 0.3, 0.6, 0.2, 0]
+
+const TAGS = {
+  relationship: null,
+  loss_kind: null,
+  tone: null,
+  tagger: 'keyword-v1',
+  generated_at: '2025-12-31T00:00:00.000Z'
+}
+
+const CURRENT = {
+  embedding: EMBEDDING,
+  generated_at: '2025-12-31T00:00:00.000Z',
+  schema_version: 'themes-v3',
+  model: 'anthropic:new-model'
+}
+
+const now = () => new Date('2026-01-01T00:00:00.000Z')
+
+function createProvider(embed: (content: string) => Promise<number[]> = async () => EMBEDDING) {
+  const provider = {
+    id: 'anthropic:new-model',
+    schema: THEMES_V3_SCHEMA,
+    embed: vi.fn(embed)
+  }
+  return provider satisfies EmbeddingProvider
+}
+
+describe('staleReason', () => {
+  const provider = createProvider()
+
+  it('should name the first reason a message is out of date', () => {
+    expect(staleReason({ semantic_data: null, semantic_tags: TAGS }, provider)).toBe('missing')
+    expect(staleReason({ semantic_data: { ...CURRENT, schema_version: 'themes-v2' }, semantic_tags: TAGS }, provider)).toBe('schema')
+    expect(staleReason({ semantic_data: { ...CURRENT, model: 'anthropic:old-model' }, semantic_tags: TAGS }, provider)).toBe('model')
+    expect(staleReason({ semantic_data: { ...CURRENT, model: undefined }, semantic_tags: TAGS }, provider)).toBe('model')
+    expect(staleReason({ semantic_data: CURRENT, semantic_tags: null }, provider)).toBe('untagged')
+  })
+
+  it('should leave current messages alone unless forced', () => {
+    expect(staleReason({ semantic_data: CURRENT, semantic_tags: TAGS }, provider)).toBeNull()
+    expect(staleReason({ semantic_data: CURRENT, semantic_tags: TAGS }, provider, true)).toBe('forced')
+  })
+})
+
+describe('reembedMessages', () => {
+  let rows: EncodedMessageRow[]
+  let provider: ReturnType<typeof createProvider>
+  const sleep = async () => {}
+
+  beforeEach(() => {
+    rows = createMessageRows(5, { semantic_data: { ...CURRENT, model: 'anthropic:old-model' }, semantic_tags: TAGS })
+    provider = createProvider()
+  })
+
+  it('should count what would change in a dry run without encoding or writing', async () => {
+    rows[4].semantic_data = { ...CURRENT }
+    const onCheckpoint = vi.fn()
+
+    const report = await reembedMessages(createMessagesTable(rows), {
+      provider, batchSize: 2, dryRun: true, onCheckpoint, sleep, now
+    })
+
+    expect(report).toEqual({
+      scanned: 5,
+      stale: 4,
+      updated: 0,
+      failed: 0,
+      reasons: { missing: 0, schema: 0, model: 4, untagged: 0, forced: 0 }
+    })
+    expect(provider.embed).not.toHaveBeenCalled()
+    expect(onCheckpoint).not.toHaveBeenCalled()
+    expect(rows[0].semantic_data?.model).toBe('anthropic:old-model')
+  })
+
+  it('should write new vectors stamped with the model and generated_at', async () => {
+    const report = await reembedMessages(createMessagesTable(rows), { provider, sleep, now })
+
+    expect(report.updated).toBe(5)
+    expect(rows[0].semantic_data).toEqual({
+      embedding: EMBEDDING,
+      generated_at: '2026-01-01T00:00:00.000Z',
+      schema_version: 'themes-v3',
+      model: 'anthropic:new-model'
+    })
+    expect(rows[0].semantic_tags).toMatchObject({ generated_at: '2026-01-01T00:00:00.000Z' })
+  })
+
+  it('should skip deleted messages', async () => {
+    rows[1].deleted_at = '2025-12-31T00:00:00.000Z'
+
+    const report = await reembedMessages(createMessagesTable(rows), { provider, sleep, now })
+
+    expect(report.scanned).toBe(4)
+    expect(rows[1].semantic_data?.model).toBe('anthropic:old-model')
+  })
+
+  it('should checkpoint after every batch and resume after the last one', async () => {
+    const checkpoints: ReembedCheckpoint[] = []
+    await reembedMessages(createMessagesTable(rows.slice(0, 4)), {
+      provider, batchSize: 2, onCheckpoint: (c) => { checkpoints.push(c) }, sleep, now
+    })
+
+    expect(checkpoints.map((c) => c.cursor)).toEqual(['2', '4'])
+    expect(checkpoints[0]).toMatchObject({
+      model: 'anthropic:new-model',
+      schema_version: 'themes-v3',
+      report: { scanned: 2, updated: 2 }
+    })
+
+    provider.embed.mockClear()
+    const report = await reembedMessages(createMessagesTable(rows), {
+      provider, batchSize: 2, resumeFrom: checkpoints[1], sleep, now
+    })
+
+    expect(provider.embed).toHaveBeenCalledTimes(1)
+    expect(provider.embed).toHaveBeenCalledWith('Message 5')
+    expect(report).toMatchObject({ scanned: 5, updated: 5 })
+  })
+
+  it('should refuse a checkpoint from another model or schema', async () => {
+    const checkpoint: ReembedCheckpoint = {
+      model: 'anthropic:new-model',
+      schema_version: THEMES_V2_SCHEMA.version,
+      cursor: '2',
+      report: { scanned: 2, stale: 2, updated: 2, failed: 0, reasons: { missing: 0, schema: 2, model: 0, untagged: 0, forced: 0 } },
+      updated_at: '2026-01-01T00:00:00.000Z'
+    }
+
+    await expect(reembedMessages(createMessagesTable(rows), { provider, resumeFrom: checkpoint, sleep, now }))
+      .rejects.toThrow('Checkpoint is for anthropic:new-model (themes-v2)')
+  })
+
+  it('should space provider calls to the request rate', async () => {
+    const waits: number[] = []
+
+    await reembedMessages(createMessagesTable(rows.slice(0, 3)), {
+      provider, requestsPerMinute: 120, sleep: async (ms) => { waits.push(ms) }, now
+    })
+
+    expect(waits).toEqual([500, 500])
+  })
+
+  it('should count failures and keep the old vector', async () => {
+    provider = createProvider(async (content) => {
+      if (content === 'Message 2') throw new Error('overloaded')
+      return EMBEDDING
+    })
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const report = await reembedMessages(createMessagesTable(rows), { provider, sleep, now })
+
+    expect(report).toMatchObject({ stale: 5, updated: 4, failed: 1 })
+    expect(rows[1].semantic_data?.model).toBe('anthropic:old-model')
+    error.mockRestore()
+  })
+})
@@ -0,0 +1,405 @@
+/**
+ * Submission Service Tests
+ *
+ * Unit tests for the shared web/SMS submission path.
+ * Tests validation, screening outcomes, rate limiting, idempotent retries,
+ * embedding (inline or queued), the inserted row, and what is returned.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Message, MessageInsert } from '@/types/database'
+import {
+  SubmissionService,
+  createSubmissionService,
+  isValidIdempotencyKey,
+  validateContent
+} from '@/lib/services/submission-service'
+import { MemoryRateLimiter, type RateLimiter } from '@/lib/services/rate-limiter'
+import { DEFAULT_RATE_LIMIT_CONFIG } from '@/lib/config/rate-limit-config'
+import { DEFAULT_SCREENING_CONFIG } from '@/lib/config/screening-config'
+import { DEFAULT_MODERATION_CONFIG } from '@/lib/config/moderation-config'
+import { THEMES_V2_SCHEMA } from '@/lib/embeddings/schema'
+import type { EmbeddingProvider } from '@/lib/embeddings/types'
+
+const EMBEDDING = [0.5, -0.2, 0.7, 0.1, 0.9, -0.4, 0.3, 0.6, 0.2, 0]
+
+function createProvider(embed: EmbeddingProvider['embed']): EmbeddingProvider {
+  return { id: 'test', schema: THEMES_V2_SCHEMA, embed }
+}
+
+/**
+ * In-memory messages table supporting the insert and lookup chains
+ * used by SubmissionService (including the unique idempotency index)
+ */
+function createInsertClient(inserted: Message[], fail = false, hideHeld = false) {
+  return {
+    from() {
+      return {
+        insert(values: MessageInsert) {
+          const conflict = values.idempotency_key && inserted.some((row) =>
+            row.session_id === values.session_id && row.idempotency_key === values.idempotency_key
+          )
+          const row = {
+            id: (inserted.length + 1).toString(),
+            created_at: '2026-01-01T00:00:00.000Z',
+            ...values
+          } as Message
+
+          const result = fail
+            ? { data: null, error: { code: 'XX000', message: 'insert failed' } }
+            : conflict
+              ? { data: null, error: { code: '23505', message: 'duplicate key' } }
+              : { data: row, error: null }
+
+          if (result.data) inserted.push(row)
+
+          return {
+            select: () => ({ single: async () => result })
+          }
+        },
+
+        select() {
+          const filters: Array<(row: Message) => boolean> = []
+          const query = {
+            eq(column: keyof Message, value: unknown) {
+              filters.push((row) => row[column] === value)
+              return query
+            },
+            gte(column: keyof Message, value: string) {
+              filters.push((row) => String(row[column]) >= value)
+              return query
+            },
+            order() { return query },
+            async limit(count: number) {
+              // hideHeld: what an anon client sees under RLS
+              const rows = inserted
+                .filter((row) => (!hideHeld || row.approved) && filters.every((f) => f(row)))
+                .reverse()
+              return { data: rows.slice(0, count), error: null }
+            }
+          }
+          return query
+        }
+      }
+    }
+  } as unknown as SupabaseClient<Database>
+}
+
+/**
+ * Limiter that counts and inserts in one step, as PostgresRateLimiter
+ * does in SQL; its check() always passes, as a stale count would
+ */
+function createAtomicLimiter(inserted: Message[], maxPerSession: number): RateLimiter {
+  const table = createInsertClient(inserted)
+  return {
+    check: async () => ({ allowed: true, remaining: maxPerSession, retryAfter: 0 }),
+    record: async () => {},
+    async insertWithinLimits(keys, message) {
+      const count = inserted.filter((row) => row.session_id === keys.sessionId).length
+      if (count >= maxPerSession) {
+        return { rateLimit: { allowed: false, limitedBy: 'session', remaining: 0, retryAfter: 60 }, message: null, error: null }
+      }
+      const { data, error } = await table.from('messages').insert(message).select().single()
+      return { rateLimit: { allowed: true, remaining: maxPerSession - count, retryAfter: 0 }, message: data, error }
+    }
+  }
+}
+
+const input = {
+  content: '  The garden is overgrown now.  ',
+  rateLimitKeys: { sessionId: 'session-1', ipHash: null },
+  sessionId: 'session-1',
+  ipHash: null,
+  source: 'sms' as const
+}
+
+describe('validateContent', () => {
+  it('should trim and accept 1-280 characters', () => {
+    expect(validateContent('  hello ')).toEqual({ ok: true, content: 'hello' })
+    expect(validateContent('a'.repeat(280)).ok).toBe(true)
+  })
+
+  it('should reject missing, blank, or long content', () => {
+    expect(validateContent(undefined).ok).toBe(false)
+    expect(validateContent(42).ok).toBe(false)
+    expect(validateContent('   ').ok).toBe(false)
+    expect(validateContent('a'.repeat(281)).ok).toBe(false)
+  })
+
+  it('should count code points, as char_length() does', () => {
+    expect(validateContent('🕯'.repeat(280)).ok).toBe(true)
+    expect(validateContent('𠮷'.repeat(281)).ok).toBe(false)
+  })
+
+  it('should compose decomposed characters', () => {
+    const decomposed = 'mama\u0301 '.normalize('NFD')
+
+    expect(validateContent(decomposed)).toEqual({ ok: true, content: 'mamá' })
+    expect(validateContent('한'.normalize('NFD').repeat(280)).ok).toBe(true)
+  })
+})
+
+describe('isValidIdempotencyKey', () => {
+  it('should accept printable ASCII up to 255 characters', () => {
+    expect(isValidIdempotencyKey('2f1c6a3e-8d2b-4c1a-9f0e-5b7a1d3c9e42')).toBe(true)
+    expect(isValidIdempotencyKey('a'.repeat(255))).toBe(true)
+  })
+
+  it('should reject empty, long, or non-printable keys', () => {
+    expect(isValidIdempotencyKey('')).toBe(false)
+    expect(isValidIdempotencyKey('a'.repeat(256))).toBe(false)
+    expect(isValidIdempotencyKey('has space')).toBe(false)
+    expect(isValidIdempotencyKey('clé')).toBe(false)
+  })
+})
+
+describe('SubmissionService', () => {
+  let inserted: Message[]
+  let service: SubmissionService
+
+  const create = (overrides: { requireApproval?: boolean; fail?: boolean } = {}) =>
+    new SubmissionService(createInsertClient(inserted, overrides.fail), {
+      rateLimiter: new MemoryRateLimiter({ ...DEFAULT_RATE_LIMIT_CONFIG, maxPerSession: 2 }),
+      screeningConfig: DEFAULT_SCREENING_CONFIG,
+      moderationConfig: { ...DEFAULT_MODERATION_CONFIG, requireApproval: overrides.requireApproval ?? false },
+      provider: createProvider(async () => EMBEDDING),
+      now: () => new Date('2026-01-01T00:00:00.000Z')
+    })
+
+  beforeEach(() => {
+    inserted = []
+    service = create()
+  })
+
+  it('should insert trimmed content with source and embedding', async () => {
+    const result = await service.submit(input)
+
+    expect(result.status).toBe('created')
+    expect(inserted[0]).toMatchObject({
+      content: 'The garden is overgrown now.',
+      source: 'sms',
+      session_id: 'session-1',
+      ip_hash: null,
+      approved: true,
+      flagged: false,
+      semantic_data: {
+        embedding: EMBEDDING,
+        generated_at: '2026-01-01T00:00:00.000Z',
+        schema_version: 'themes-v2'
+      },
+      semantic_tags: { tagger: 'keyword-v1', generated_at: '2026-01-01T00:00:00.000Z' },
+      language: 'en'
+    })
+  })
+
+  it('should store the detected language', async () => {
+    await service.submit({ ...input, content: 'Extraño a mi madre todos los días' })
+    await service.submit({ ...input, content: 'お母さん、会いたい', sessionId: 'session-2' })
+
+    expect(inserted.map((row) => row.language)).toEqual(['es', 'ja'])
+  })
+
+  it('should queue the embedding instead of generating it inline', async () => {
+    const queued: string[] = []
+    let embedded = false
+    service = new SubmissionService(createInsertClient(inserted), {
+      rateLimiter: new MemoryRateLimiter(DEFAULT_RATE_LIMIT_CONFIG),
+      screeningConfig: DEFAULT_SCREENING_CONFIG,
+      moderationConfig: DEFAULT_MODERATION_CONFIG,
+      enqueueEmbedding: async (id) => { queued.push(id) },
+      provider: createProvider(async () => {
+        embedded = true
+        return []
+      })
+    })
+
+    const result = await service.submit(input)
+
+    expect(result.status).toBe('created')
+    expect(queued).toEqual(['1'])
+    expect(embedded).toBe(false)
+    expect(inserted[0].semantic_data).toBeNull()
+    expect(inserted[0].semantic_tags?.tagger).toBe('keyword-v1')
+  })
+
+  it('should keep the message when queueing the embedding fails', async () => {
+    service = new SubmissionService(createInsertClient(inserted), {
+      rateLimiter: new MemoryRateLimiter(DEFAULT_RATE_LIMIT_CONFIG),
+      screeningConfig: DEFAULT_SCREENING_CONFIG,
+      moderationConfig: DEFAULT_MODERATION_CONFIG,
+      enqueueEmbedding: async () => { throw new Error('queue unavailable') }
+    })
+
+    expect((await service.submit(input)).status).toBe('created')
+    expect(inserted).toHaveLength(1)
+  })
+
+  it('should not insert invalid content', async () => {
+    const result = await service.submit({ ...input, content: '' })
+
+    expect(result.status).toBe('invalid')
+    expect(inserted).toHaveLength(0)
+  })
+
+  it('should reject screened spam before insert', async () => {
+    const result = await service.submit({ ...input, content: '!'.repeat(30) })
+
+    expect(result.status).toBe('rejected')
+    expect(inserted).toHaveLength(0)
+  })
+
+  it('should hold screened contact details as pending', async () => {
+    const result = await service.submit({ ...input, content: 'Call me at 555-123-4567' })
+
+    expect(result).toMatchObject({ status: 'created', pending: true })
+    expect(inserted[0].approved).toBe(false)
+    expect(inserted[0].moderator_notes).toContain('phone')
+  })
+
+  it('should return only public fields of a screened message', async () => {
+    const keyed = { ...input, content: 'Call me at 555-123-4567', idempotencyKey: 'attempt-1' }
+    const created = await service.submit(keyed)
+    const retry = await service.submit(keyed)
+
+    const expected = {
+      id: '1',
+      content: 'Call me at 555-123-4567',
+      created_at: '2026-01-01T00:00:00.000Z',
+      source: 'sms'
+    }
+    expect(created.status === 'created' && created.message).toEqual(expected)
+    expect(retry.status === 'duplicate' && retry.message).toEqual(expected)
+  })
+
+  it('should hold everything when approval is required', async () => {
+    service = create({ requireApproval: true })
+    const result = await service.submit(input)
+
+    expect(result).toMatchObject({ status: 'created', pending: true })
+  })
+
+  it('should count successful submissions toward the rate limit', async () => {
+    expect((await service.submit({ ...input, content: 'First' })).status).toBe('created')
+    expect((await service.submit({ ...input, content: 'Second' })).status).toBe('created')
+
+    const limited = await service.submit({ ...input, content: 'Third' })
+    expect(limited.status).toBe('rate_limited')
+    expect(inserted).toHaveLength(2)
+  })
+
+  it('should return the original message for a retried key', async () => {
+    const keyed = { ...input, idempotencyKey: 'attempt-1' }
+
+    const first = await service.submit(keyed)
+    const retry = await service.submit(keyed)
+
+    expect(first.status).toBe('created')
+    expect(retry).toMatchObject({ status: 'duplicate', pending: false })
+    expect(retry.status === 'duplicate' && retry.message.id).toBe('1')
+    expect(inserted).toHaveLength(1)
+    expect(inserted[0].idempotency_key).toBe('attempt-1')
+  })
+
+  it('should not count retries toward the rate limit', async () => {
+    const keyed = { ...input, idempotencyKey: 'attempt-1' }
+    await service.submit(keyed)
+    await service.submit(keyed)
+    await service.submit(keyed)
+
+    expect((await service.submit({ ...input, content: 'Another', idempotencyKey: 'attempt-2' })).status)
+      .toBe('created')
+  })
+
+  it('should scope keys to the session', async () => {
+    await service.submit({ ...input, idempotencyKey: 'attempt-1' })
+    const other = await service.submit({
+      ...input,
+      sessionId: 'session-2',
+      rateLimitKeys: { sessionId: 'session-2', ipHash: null },
+      idempotencyKey: 'attempt-1'
+    })
+
+    expect(other.status).toBe('created')
+    expect(inserted).toHaveLength(2)
+  })
+
+  it('should treat the same content from the same session as a retry without a key', async () => {
+    await service.submit(input)
+    const retry = await service.submit({ ...input, content: 'The garden is overgrown now.' })
+
+    expect(retry.status).toBe('duplicate')
+    expect(inserted).toHaveLength(1)
+  })
+
+  it('should accept repeated content once the duplicate window has passed', async () => {
+    await service.submit(input)
+    service = new SubmissionService(createInsertClient(inserted), {
+      rateLimiter: new MemoryRateLimiter(DEFAULT_RATE_LIMIT_CONFIG),
+      screeningConfig: DEFAULT_SCREENING_CONFIG,
+      moderationConfig: DEFAULT_MODERATION_CONFIG,
+      provider: createProvider(async () => new Array(10).fill(0)),
+      now: () => new Date('2026-01-01T00:11:00.000Z')
+    })
+
+    expect((await service.submit(input)).status).toBe('created')
+  })
+
+  it('should return the winner when a concurrent retry loses the insert', async () => {
+    const keyed = { ...input, idempotencyKey: 'attempt-1' }
+    const [a, b] = await Promise.all([service.submit(keyed), service.submit(keyed)])
+
+    expect([a.status, b.status].sort()).toEqual(['created', 'duplicate'])
+    expect(inserted).toHaveLength(1)
+  })
+
+  it('should answer a retry of a held message it cannot read back as pending', async () => {
+    service = new SubmissionService(createInsertClient(inserted, false, true), {
+      rateLimiter: new MemoryRateLimiter(DEFAULT_RATE_LIMIT_CONFIG),
+      screeningConfig: DEFAULT_SCREENING_CONFIG,
+      moderationConfig: { ...DEFAULT_MODERATION_CONFIG, requireApproval: true },
+      provider: createProvider(async () => EMBEDDING)
+    })
+    const keyed = { ...input, idempotencyKey: 'attempt-1' }
+
+    expect((await service.submit(keyed)).status).toBe('created')
+    const retry = await service.submit(keyed)
+
+    expect(retry).toEqual({ status: 'duplicate', message: null, pending: true })
+    expect(inserted).toHaveLength(1)
+  })
+
+  it('should report failed inserts without counting them', async () => {
+    service = create({ fail: true })
+
+    expect((await service.submit(input)).status).toBe('failed')
+    expect((await service.submit(input)).status).toBe('failed')
+    expect((await service.submit(input)).status).toBe('failed')
+  })
+  it('should count and insert in one step where the limiter can', async () => {
+    service = new SubmissionService(createInsertClient(inserted), {
+      rateLimiter: createAtomicLimiter(inserted, 2),
+      screeningConfig: DEFAULT_SCREENING_CONFIG,
+      moderationConfig: DEFAULT_MODERATION_CONFIG,
+      provider: createProvider(async () => EMBEDDING)
+    })
+
+    const results = await Promise.all(['First', 'Second', 'Third'].map((content) => service.submit({ ...input, content })))
+
+    expect(results.map((r) => r.status).sort()).toEqual(['created', 'created', 'rate_limited'])
+    expect(inserted).toHaveLength(2)
+  })
+})
+
+describe('createSubmissionService', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should refuse the postgres rate limit backend without service role credentials', () => {
+    vi.stubEnv('RATE_LIMIT_BACKEND', 'postgres')
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', '')
+
+    expect(() => createSubmissionService(createInsertClient([]))).toThrow('SUPABASE_SERVICE_ROLE_KEY')
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * Traversal Strategy Tests
+ *
+ * Tests cover:
+ * - Strategy names, creation and config
+ * - Greedy, weighted random, chronological and least-recently-shown choices
+ * - Never choosing the focus or previous focus
+ * - Priority messages winning over every strategy
+ * - Choosing a strategy with ?traversal= on the installation URL
+ * - MessageLogicService walking the timeline
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { GriefMessage, MessageCluster } from '@/types/grief-messages'
+import {
+  ChronologicalStrategy,
+  createTraversalStrategy,
+  isTraversalStrategyName,
+  LeastRecentlyShownStrategy,
+  TRAVERSAL_STRATEGIES,
+  WeightedRandomStrategy,
+  type TraversalContext
+} from '@/lib/services/traversal-strategies'
+import { ClusterSelector } from '@/lib/services/cluster-selector'
+import { ConstellationWalk } from '@/lib/services/constellation-walk'
+import { MessageLogicService } from '@/lib/services/message-logic-service'
+import { DEFAULT_CONFIG, loadConfig, readScreenOverrides } from '@/lib/config/message-pool-config'
+import { seededRandom } from '@/lib/utils/random'
+import { createTestMessage, createTestMessages } from '../mocks/database-service'
+import { createMockSupabaseClient } from '../mocks/supabase-client'
+
+const selector = new ClusterSelector(DEFAULT_CONFIG)
+
+function context(
+  focus: GriefMessage,
+  related: Array<{ message: GriefMessage; similarity: number }>,
+  candidates: GriefMessage[],
+  previousFocusId: string | null = null
+): TraversalContext {
+  return { focus, related, candidates, previousFocusId, priorityIds: new Set() }
+}
+
+describe('traversal strategies', () => {
+  it('should create every named strategy', () => {
+    for (const name of TRAVERSAL_STRATEGIES) {
+      expect(createTraversalStrategy(name, selector).name).toBe(name)
+      expect(isTraversalStrategyName(name)).toBe(true)
+    }
+    expect(createTraversalStrategy('theme-tour', selector)).toBeInstanceOf(ConstellationWalk)
+    expect(isTraversalStrategyName('spiral')).toBe(false)
+    expect(isTraversalStrategyName(null)).toBe(false)
+  })
+
+  it('should read the strategy from POOL_TRAVERSAL_STRATEGY', () => {
+    vi.stubEnv('POOL_TRAVERSAL_STRATEGY', 'chronological')
+    try {
+      expect(loadConfig().traversalStrategy).toBe('chronological')
+      vi.stubEnv('POOL_TRAVERSAL_STRATEGY', 'spiral')
+      expect(() => loadConfig()).toThrow()
+    } finally {
+      vi.unstubAllEnvs()
+    }
+    expect(loadConfig().traversalStrategy).toBe('greedy')
+  })
+
+  it('should read the strategy from ?traversal=', () => {
+    expect(readScreenOverrides(new URLSearchParams('traversal=theme-tour'))).toEqual({
+      overrides: { traversalStrategy: 'theme-tour' },
+      warnings: []
+    })
+    expect(readScreenOverrides(new URLSearchParams(''))).toEqual({ overrides: {}, warnings: [] })
+
+    const unknown = readScreenOverrides(new URLSearchParams('traversal=spiral'))
+    expect(unknown.overrides).toEqual({})
+    expect(unknown.warnings).toEqual(['Unknown traversal strategy "spiral", using the configured one'])
+  })
+
+  describe('greedy', () => {
+    it('should take the most similar related message', () => {
+      const [focus, a, b, c] = createTestMessages(4)
+      const strategy = createTraversalStrategy('greedy', selector)
+
+      expect(strategy.selectNext(context(focus, [{ message: b, similarity: 0.9 }, { message: a, similarity: 0.4 }], [a, b, c]))).toBe(b)
+      expect(strategy.selectNext(context(focus, [{ message: b, similarity: 0.9 }, { message: a, similarity: 0.4 }], [a, b, c], b.id))).toBe(a)
+    })
+  })
+
+  describe('weighted-random', () => {
+    it('should follow stronger connections more often', () => {
+      const [focus, strong, weak] = createTestMessages(3)
+      const strategy = new WeightedRandomStrategy(seededRandom(42))
+      const related = [{ message: strong, similarity: 0.75 }, { message: weak, similarity: 0.25 }]
+
+      let strongCount = 0
+      for (let i = 0; i < 2000; i++) {
+        if (strategy.selectNext(context(focus, related, [strong, weak])) === strong) strongCount++
+      }
+
+      expect(strongCount / 2000).toBeGreaterThan(0.7)
+      expect(strongCount / 2000).toBeLessThan(0.8)
+    })
+
+    it('should skip the previous focus and defer without related messages', () => {
+      const [focus, previous, other] = createTestMessages(3)
+      const strategy = new WeightedRandomStrategy(() => 0)
+
+      expect(strategy.selectNext(context(focus, [{ message: previous, similarity: 1 }, { message: other, similarity: 0.1 }], [], previous.id))).toBe(other)
+      expect(strategy.selectNext(context(focus, [], [previous, other]))).toBeNull()
+    })
+  })
+
+  describe('chronological', () => {
+    const day = (n: number) => new Date(Date.UTC(2025, 0, n))
+
+    it('should move to the next message in time and wrap to the earliest', () => {
+      const messages = [
+        createTestMessage(5, 'Fifth', day(5)),
+        createTestMessage(1, 'First', day(1)),
+        createTestMessage(3, 'Third', day(3)),
+        createTestMessage(4, 'Also third', day(3))
+      ]
+      const strategy = new ChronologicalStrategy()
+
+      expect(strategy.selectNext(context(messages[1], [], messages))?.id).toBe('3')
+      expect(strategy.selectNext(context(messages[2], [], messages))?.id).toBe('4')
+      expect(strategy.selectNext(context(messages[3], [], messages))?.id).toBe('5')
+      expect(strategy.selectNext(context(messages[0], [], messages))?.id).toBe('1')
+    })
+
+    it('should not go back to the previous focus', () => {
+      const messages = [createTestMessage(1, 'First', day(1)), createTestMessage(2, 'Second', day(2))]
+      const strategy = new ChronologicalStrategy()
+
+      expect(strategy.selectNext(context(messages[1], [], messages, '1'))).toBeNull()
+    })
+  })
+
+  describe('least-recently-shown', () => {
+    function shown(focus: GriefMessage, related: GriefMessage[]): MessageCluster {
+      return {
+        focus,
+        focusId: focus.id,
+        related: related.map((message) => ({ message, messageId: message.id, similarity: 0.5 })),
+        next: null,
+        nextId: null,
+        duration: 1000,
+        timestamp: new Date(),
+        totalClustersShown: 0
+      }
+    }
+
+    it('should prefer messages never shown, then those shown longest ago', () => {
+      const [a, b, c, d] = createTestMessages(4)
+      const strategy = new LeastRecentlyShownStrategy()
+
+      strategy.recordShown(shown(a, [b]))
+      strategy.recordShown(shown(c, [a]))
+
+      expect(strategy.selectNext(context(c, [{ message: a, similarity: 0.9 }], [a, b, d]))).toBe(d)
+      expect(strategy.selectNext(context(c, [{ message: a, similarity: 0.9 }], [a, b]))).toBe(b)
+
+      strategy.reset()
+      expect(strategy.selectNext(context(c, [{ message: a, similarity: 0.9 }], [a, b]))).toBe(a)
+    })
+
+    it('should visit every message of a small working set before repeating', () => {
+      const messages = createTestMessages(8)
+      const strategy = new LeastRecentlyShownStrategy()
+      const focuses: string[] = []
+
+      let focus = messages[0]
+      let previousFocusId: string | null = null
+      for (let i = 0; i < 8; i++) {
+        focuses.push(focus.id)
+        strategy.recordShown(shown(focus, []))
+        const next = strategy.selectNext(context(focus, [], messages, previousFocusId))!
+        previousFocusId = focus.id
+        focus = next
+      }
+
+      expect(new Set(focuses).size).toBe(8)
+    })
+  })
+
+  describe('priority messages', () => {
+    it('should be chosen by the selector before any strategy', () => {
+      const [focus, priority, other] = createTestMessages(3)
+      const related = [{ message: other, similarity: 0.9 }, { message: priority, similarity: 0.2 }]
+
+      expect(selector.selectPriorityNext(related, null, new Set([priority.id]))).toBe(priority)
+      expect(selector.selectPriorityNext(related, priority.id, new Set([priority.id]))).toBeNull()
+      expect(selector.selectNextMessage(focus, related, [], null, new Set([priority.id]))).toBe(priority)
+    })
+  })
+})
+
+describe('MessageLogicService traversal', () => {
+  let service: MessageLogicService
+
+  afterEach(() => {
+    service?.cleanup()
+  })
+
+  it('should walk the memorial timeline chosen by ?traversal=chronological', async () => {
+    const client = createMockSupabaseClient()
+    client.setMessages(createTestMessages(40))
+    const { overrides } = readScreenOverrides(new URLSearchParams('?traversal=chronological'))
+    service = new MessageLogicService(client as unknown as SupabaseClient<Database>, {
+      ...DEFAULT_CONFIG,
+      workingSetSize: 30,
+      clusterSize: 5,
+      ...overrides
+    })
+    await service.initialize()
+
+    const clusters: MessageCluster[] = []
+    for (let i = 0; i < 5; i++) {
+      clusters.push((await service.getNextCluster())!)
+    }
+
+    // Forward in time, except at most once when the timeline wraps
+    const backwards = clusters.filter((c) => c.next!.created_at < c.focus.created_at)
+    expect(backwards.length).toBeLessThanOrEqual(1)
+    for (let i = 1; i < clusters.length; i++) {
+      expect(clusters[i].focusId).toBe(clusters[i - 1].nextId)
+    }
+  })
+})
@@ -3,6 +3,69 @@
  * Generated from Supabase schema
  */
 
+/**
+ * JSONB payload of messages.semantic_data
+ * Validate rows with parseSemanticData (lib/embeddings/semantic-data.ts).
+ */
+export interface SemanticData {
+  embedding: number[];
+  generated_at: string;
+  /** Embedding schema (lib/embeddings/schema.ts); rows without one are themes-v1 */
+  schema_version: string;
+  /** Provider and model that produced the vector, e.g. 'anthropic:claude-sonnet-4-20250514' (absent on older rows) */
+  model?: string;
+}
+
+export type TagRelationship = 'parent' | 'grandparent' | 'child' | 'partner' | 'sibling' | 'friend' | 'pet' | 'self';
+export type TagLossKind = 'death' | 'estrangement' | 'illness' | 'identity';
+export type TagTone = 'anguish' | 'longing' | 'anger' | 'regret' | 'numbness' | 'gratitude' | 'acceptance';
+
+/**
+ * One categorical tag and how sure the tagger is of it (0-1)
+ */
+export interface SemanticTag<T extends string> {
+  value: T;
+  confidence: number;
+}
+
+/**
+ * JSONB payload of messages.semantic_tags
+ * Validate rows with parseSemanticTags (lib/embeddings/tags.ts).
+ * A category is null when the message gives no evidence for it.
+ */
+export interface SemanticTags {
+  relationship: SemanticTag<TagRelationship> | null;
+  loss_kind: SemanticTag<TagLossKind> | null;
+  tone: SemanticTag<TagTone> | null;
+  /** What produced the tags: an embedding provider id, or 'keyword-v1' */
+  tagger: string;
+  generated_at: string;
+}
+
+/**
+ * One constellation as passed to replace_constellations() (migration 015)
+ */
+export interface ConstellationPayload {
+  id: string;
+  name: string;
+  centroid: number[];
+  representative_id: string | null;
+  size: number;
+  cohesion: number;
+  members: { message_id: string; similarity: number }[];
+}
+
+/**
+ * One message's counts as passed to record_exposures() (migration 016)
+ */
+export interface ExposurePayload {
+  message_id: string;
+  focus: number;
+  related: number;
+  next: number;
+  shown_at: string;
+}
+
 export interface Database {
   public: {
     Tables: {
@@ -20,11 +83,12 @@ export interface Database {
           created_at: string;
           updated_at: string;
           deleted_at: string | null;
-          semantic_tags: Record<string, number> | null;
-          semantic_data: {
-            embedding: number[];
-            generated_at: string;
-          } | null;
+          semantic_tags: SemanticTags | null;
+          semantic_data: SemanticData | null;
+          idempotency_key: string | null;
+          language: string | null;
+          // Generated from semantic_data (migration 013), never written
+          embedding_unit: number[] | null;
         };
         Insert: {
           id?: string;
@@ -39,11 +103,10 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           deleted_at?: string | null;
-          semantic_tags?: Record<string, number> | null;
-          semantic_data?: {
-            embedding: number[];
-            generated_at: string;
-          } | null;
+          semantic_tags?: SemanticTags | null;
+          semantic_data?: SemanticData | null;
+          idempotency_key?: string | null;
+          language?: string | null;
         };
         Update: {
           id?: string;
@@ -58,19 +121,206 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           deleted_at?: string | null;
-          semantic_tags?: Record<string, number> | null;
-          semantic_data?: {
-            embedding: number[];
-            generated_at: string;
-          } | null;
+          semantic_tags?: SemanticTags | null;
+          semantic_data?: SemanticData | null;
+          idempotency_key?: string | null;
+          language?: string | null;
+        };
+        Relationships: [];
+      };
+      embedding_jobs: {
+        Row: {
+          message_id: string;
+          status: 'pending' | 'running' | 'failed';
+          attempts: number;
+          next_attempt_at: string;
+          last_error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          message_id: string;
+          status?: 'pending' | 'running' | 'failed';
+          attempts?: number;
+          next_attempt_at?: string;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          message_id?: string;
+          status?: 'pending' | 'running' | 'failed';
+          attempts?: number;
+          next_attempt_at?: string;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      embedding_cache: {
+        Row: {
+          content_hash: string;
+          schema_version: string;
+          provider_id: string;
+          embedding: number[];
+          tags: SemanticTags | null;
+          hits: number;
+          created_at: string;
+          last_hit_at: string | null;
+        };
+        Insert: {
+          content_hash: string;
+          schema_version: string;
+          provider_id: string;
+          embedding: number[];
+          tags?: SemanticTags | null;
+          hits?: number;
+          created_at?: string;
+          last_hit_at?: string | null;
+        };
+        Update: {
+          content_hash?: string;
+          schema_version?: string;
+          provider_id?: string;
+          embedding?: number[];
+          tags?: SemanticTags | null;
+          hits?: number;
+          created_at?: string;
+          last_hit_at?: string | null;
+        };
+        Relationships: [];
+      };
+      constellations: {
+        Row: {
+          id: string;
+          schema_version: string;
+          name: string;
+          centroid: number[];
+          representative_id: string | null;
+          size: number;
+          cohesion: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          schema_version: string;
+          name: string;
+          centroid: number[];
+          representative_id?: string | null;
+          size: number;
+          cohesion: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          schema_version?: string;
+          name?: string;
+          centroid?: number[];
+          representative_id?: string | null;
+          size?: number;
+          cohesion?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      constellation_members: {
+        Row: {
+          message_id: string;
+          constellation_id: string;
+          similarity: number;
+        };
+        Insert: {
+          message_id: string;
+          constellation_id: string;
+          similarity: number;
         };
+        Update: {
+          message_id?: string;
+          constellation_id?: string;
+          similarity?: number;
+        };
+        Relationships: [];
+      };
+      message_exposures: {
+        Row: {
+          message_id: string;
+          focus_count: number;
+          related_count: number;
+          next_count: number;
+          last_shown_at: string;
+        };
+        Insert: {
+          message_id: string;
+          focus_count?: number;
+          related_count?: number;
+          next_count?: number;
+          last_shown_at?: string;
+        };
+        Update: {
+          message_id?: string;
+          focus_count?: number;
+          related_count?: number;
+          next_count?: number;
+          last_shown_at?: string;
+        };
+        Relationships: [];
       };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      claim_embedding_jobs: {
+        Args: { batch_size: number; lease_seconds: number };
+        Returns: Database['public']['Tables']['embedding_jobs']['Row'][];
+      };
+      hit_embedding_cache: {
+        Args: { p_content_hash: string; p_schema_version: string; p_provider_id: string };
+        Returns: Database['public']['Tables']['embedding_cache']['Row'][];
+      };
+      embedding_cache_summary: {
+        Args: Record<string, never>;
+        Returns: { entries: number; hits: number }[];
+      };
+      kindred_messages: {
+        Args: { p_message_id: string };
+        Returns: {
+          id: string;
+          content: string;
+          created_at: string;
+          source: string | null;
+          similarity: number;
+        }[];
+      };
+      replace_constellations: {
+        Args: { p_schema_version: string; p_constellations: ConstellationPayload[] };
+        Returns: number;
+      };
+      record_exposures: {
+        Args: { p_exposures: ExposurePayload[] };
+        Returns: number;
+      };
+      insert_message_within_limits: {
+        Args: {
+          p_message: Database['public']['Tables']['messages']['Insert'];
+          p_session_id: string;
+          p_ip_hash: string | null;
+          p_window_ms: number;
+          p_max_per_session: number;
+          p_max_per_ip: number;
+        };
+        Returns: {
+          session_count: number;
+          session_oldest_at: string | null;
+          ip_count: number;
+          ip_oldest_at: string | null;
+          message: (PublicMessage & { approved: boolean }) | null;
+        };
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -82,18 +332,46 @@ export interface Database {
 export type Message = Database['public']['Tables']['messages']['Row'];
 export type MessageInsert = Database['public']['Tables']['messages']['Insert'];
 export type MessageUpdate = Database['public']['Tables']['messages']['Update'];
+export type EmbeddingJob = Database['public']['Tables']['embedding_jobs']['Row'];
+export type EmbeddingCacheEntry = Database['public']['Tables']['embedding_cache']['Row'];
+export type ConstellationRow = Database['public']['Tables']['constellations']['Row'];
+export type ConstellationMember = Database['public']['Tables']['constellation_members']['Row'];
+export type MessageExposureRow = Database['public']['Tables']['message_exposures']['Row'];
 
 // API Response types
+
+/** The fields of a message any visitor may see */
+export type PublicMessage = Pick<Message, 'id' | 'content' | 'created_at' | 'source'>;
+
 export interface MessageSubmissionResponse {
   success: boolean;
-  message?: Message;
+  message?: PublicMessage;
   error?: string;
   retryAfter?: number;
+  /** True when the message is held for moderation */
+  pending?: boolean;
+  /**
+   * True when this is a retry answered with the originally stored message
+   * (message is absent when the original is held and cannot be read back)
+   */
+  replayed?: boolean;
 }
 
 export interface MessagesListResponse {
-  messages: Message[];
-  total: number;
+  messages: PublicMessage[];
+  nextCursor: string | null;  // Pass as `before` (DESC) or `after` (ASC); null on the last page
   limit: number;
-  offset: number;
+  direction: 'ASC' | 'DESC';
+}
+
+export interface KindredMessage extends PublicMessage {
+  similarity: number;  // Semantic similarity, 0-1 ((cosine + 1) / 2)
+}
+
+export interface KindredMessagesResponse {
+  messageId: string;
+  messages: KindredMessage[];  // Most similar first
+  k: number;
+  /** False while the message's embedding is still being generated (messages is then empty) */
+  embedded: boolean;
 }
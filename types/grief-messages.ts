@@ -7,7 +7,9 @@
  * IMPORTANT: This is a pure business logic layer - NO visualization concepts.
  */
 
-import type { Message } from './database'
+import type { Message, SemanticData, SemanticTags } from './database'
+import { parseSemanticData } from '@/lib/embeddings/semantic-data'
+import { parseSemanticTags } from '@/lib/embeddings/tags'
 
 /**
  * Grief Message
@@ -75,12 +77,21 @@ export interface GriefMessage {
    * Contains 10-dimensional vector representing semantic themes
    * and timestamp of when it was generated.
    *
+   * Validated on load by toGriefMessage (malformed payloads become null).
+   *
    * @default null (if embedding generation failed)
    */
-  semantic_data?: {
-    embedding: number[]
-    generated_at: string
-  } | null
+  semantic_data?: SemanticData | null
+
+  /**
+   * Interpretable tags: relationship, loss kind and tone, each with a
+   * confidence (read them with getTag from lib/embeddings/tags.ts)
+   *
+   * Validated on load by toGriefMessage (malformed payloads become null).
+   *
+   * @default null (messages stored before tagging)
+   */
+  semantic_tags?: SemanticTags | null
 }
 
 /**
@@ -185,6 +196,80 @@ export interface MessageCluster {
    * Increments with each cycle.
    */
   totalClustersShown: number
+
+  /**
+   * Constellation the focus belongs to
+   * Set by the theme-tour traversal strategy; null if the focus has not
+   * been clustered yet.
+   */
+  constellation?: { id: string; name: string } | null
+}
+
+/**
+ * Traversal strategy names (see MessagePoolConfig.traversalStrategy)
+ */
+export type TraversalStrategyName =
+  | 'greedy'
+  | 'weighted-random'
+  | 'chronological'
+  | 'theme-tour'
+  | 'least-recently-shown'
+
+/**
+ * Roles a message can be shown in (one cluster's focus, related or next)
+ */
+export type ExposureRole = 'focus' | 'related' | 'next'
+
+/**
+ * Message Exposure
+ *
+ * How often a message has been shown in each role, and when last.
+ * Kept by ExposureLedger (lib/services/exposure-ledger.ts) and stored in
+ * the browser or in message_exposures (migration 016).
+ */
+export interface MessageExposure {
+  messageId: string
+
+  /** Clusters it was the focus of */
+  focus: number
+
+  /** Clusters it was related in */
+  related: number
+
+  /** Clusters it was chosen as next in */
+  next: number
+
+  /** When it was last shown in any role (ISO 8601) */
+  lastShownAt: string
+}
+
+/**
+ * Constellation
+ *
+ * A persistent theme cluster from the offline build
+ * (scripts/build-constellations.ts). Ids and names survive rebuilds
+ * while the cluster's centroid stays put.
+ */
+export interface Constellation {
+  id: string
+
+  /** Display name, e.g. 'Parents · Longing' */
+  name: string
+
+  /** Embedding schema the centroid is in */
+  schemaVersion: string
+
+  /** Unit-length mean direction of the members' embeddings */
+  centroid: number[]
+
+  /** Member closest to the centroid */
+  representativeId: string | null
+
+  /** Number of members */
+  size: number
+
+  /** Mean cosine similarity of members to the centroid */
+  cohesion: number
 }
 
 /**
@@ -231,10 +316,19 @@ export interface WorkingSetChange {
    */
   added: GriefMessage[]
 
+  /**
+   * Messages already in the working set whose data changed
+   *
+   * A new message's embedding is written after it is published
+   * (reason "message_embedded"). Presentation layer should keep the
+   * particle and replace the message it holds (pitch, similarity).
+   */
+  updated?: GriefMessage[]
+
   /**
    * Change reason (for debugging/monitoring)
    *
-   * @example "cluster_cycle" | "initialization" | "manual_refresh"
+   * @example "cluster_cycle" | "initialization" | "message_embedded"
    */
   reason?: string
 }
@@ -399,6 +493,75 @@ export interface MessagePoolConfig {
    */
   pollingInterval: number
 
+  /**
+   * New message source
+   * How new submissions reach the priority queue.
+   *
+   * - 'polling': query the database every pollingInterval
+   * - 'stream': server-sent events from /api/messages/stream,
+   *   pushed by a Postgres NOTIFY trigger (needs DATABASE_URL on the
+   *   server; falls back to polling if the stream is unavailable)
+   *
+   * @default 'polling'
+   */
+  newMessageSource: 'polling' | 'stream'
+
+  /**
+   * Traversal strategy
+   * How the next focus is chosen when no priority message claims it
+   * (lib/services/traversal-strategies.ts).
+   *
+   * - 'greedy': the most similar related message
+   * - 'weighted-random': a related message, more likely the more similar
+   * - 'chronological': the next message in time (memorial timeline)
+   * - 'theme-tour': constellation by constellation (needs a
+   *   constellation build, see scripts/build-constellations.ts)
+   * - 'least-recently-shown': the message not seen for longest
+   *
+   * @default 'greedy'
+   */
+  traversalStrategy: TraversalStrategyName
+
+  /**
+   * Random seed
+   * With a seed, every random choice in traversal comes from a seeded
+   * stream (lib/utils/random.ts), so the same seed and the same data
+   * replay the same clusters. Set per screen with ?seed= on /installation.
+   *
+   * @default null (Math.random)
+   * @range 0-4294967295
+   */
+  seed: number | null
+
+  /**
+   * Exposure fairness
+   * Every message's focus, related and next counts are tracked
+   * (lib/services/exposure-ledger.ts); the cluster selector can favour
+   * messages shown less often.
+   */
+  fairness: {
+    /**
+     * Boost for under-exposed messages
+     * Added to a candidate's similarity when choosing: weight / (1 + times
+     * shown in that role). 0 chooses by similarity alone.
+     *
+     * @default 0
+     * @range 0.0-1.0
+     */
+    weight: number
+
+    /**
+     * Where exposure counts are kept
+     *
+     * - 'local': a rolling ledger in this browser (localStorage)
+     * - 'database': message_exposures, shared by every screen
+     *   (migration 016)
+     *
+     * @default 'local'
+     */
+    ledger: 'local' | 'database'
+  }
+
   /**
    * Priority queue configuration
    */
@@ -494,20 +657,70 @@ export interface MessagePoolConfig {
      * @range 0.0-1.0
      */
     semanticWeight: number
+
+    /**
+     * Relevance/diversity balance (maximal marginal relevance)
+     * How much related messages are chosen for similarity to the focus
+     * rather than for being unlike each other.
+     * 1.0 takes the most similar messages; lower values skip
+     * near-duplicates of messages already in the cluster.
+     *
+     * @default 1.0
+     * @range 0.0-1.0
+     */
+    mmrLambda: number
   }
 }
 
 /**
  * Utility: Convert Database.Message to GriefMessage
  * Normalizes database row to business logic format.
+ * Accepts partial rows from narrowed selects; semantic_data and
+ * semantic_tags are validated since JSONB is not type-checked by the database.
  */
-export function toGriefMessage(dbMessage: Message): GriefMessage {
+export function toGriefMessage(
+  dbMessage: Pick<Message, 'id' | 'content' | 'created_at' | 'approved' | 'deleted_at'> &
+    Partial<Pick<Message, 'semantic_data' | 'semantic_tags'>>
+): GriefMessage {
   return {
     id: dbMessage.id,
     content: dbMessage.content,
     created_at: dbMessage.created_at,
     approved: dbMessage.approved,
     deleted_at: dbMessage.deleted_at,
-    semantic_data: dbMessage.semantic_data
+    semantic_data: parseSemanticData(dbMessage.semantic_data),
+    semantic_tags: parseSemanticTags(dbMessage.semantic_tags)
+  }
+}
+
+/**
+ * Utility: Validate an untyped message row (JSON from NOTIFY or a stream)
+ * Returns null unless the core fields have the right types.
+ */
+export function parseGriefMessage(value: unknown): GriefMessage | null {
+  if (typeof value !== 'object' || value === null) {
+    return null
   }
+
+  const row = value as Record<string, unknown>
+
+  if (
+    typeof row.id !== 'string' ||
+    typeof row.content !== 'string' ||
+    typeof row.created_at !== 'string' ||
+    typeof row.approved !== 'boolean' ||
+    (row.deleted_at !== null && typeof row.deleted_at !== 'string')
+  ) {
+    return null
+  }
+
+  return toGriefMessage({
+    id: row.id,
+    content: row.content,
+    created_at: row.created_at,
+    approved: row.approved,
+    deleted_at: row.deleted_at,
+    semantic_data: parseSemanticData(row.semantic_data),
+    semantic_tags: parseSemanticTags(row.semantic_tags)
+  })
 }